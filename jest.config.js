@@ -18,9 +18,22 @@ export default {
         module: 'ESNext',
         moduleResolution: 'node'
       }
+    }],
+    // hyparquet ships ESM-only JavaScript
+    '^.+/node_modules/hyparquet(-writer)?/.+\\.js$': ['ts-jest', {
+      useESM: true,
+      tsconfig: {
+        allowJs: true,
+        module: 'ESNext',
+        moduleResolution: 'node'
+      }
     }]
   },
   
+  transformIgnorePatterns: [
+    '/node_modules/(?!hyparquet(-writer)?/)'
+  ],
+  
   testMatch: [
     '**/tests/**/*.test.ts',
     '**/tests/**/*.spec.ts'
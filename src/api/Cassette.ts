@@ -0,0 +1,298 @@
+/**
+ * API Cassette
+ *
+ * Record/replay support for the Websets API client. In record mode every
+ * request/response pair is written to a cassette file with secrets masked; in
+ * replay mode responses come from the cassette, matched on method, path, query
+ * and body, and requests without a recorded match fail.
+ */
+
+import axios, { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
+import { CassetteConfig } from '../config/websets.js';
+import { log } from '../utils/logger.js';
+import { maskSensitiveData, stableStringify } from '../utils/security.js';
+
+/**
+ * A recorded request, as used for matching
+ */
+export interface CassetteRequest {
+  method: string;
+  path: string;
+  query: Record<string, string | string[]>;
+  body?: unknown;
+}
+
+/**
+ * A recorded response
+ */
+export interface CassetteResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: unknown;
+}
+
+/**
+ * A recorded request/response pair
+ */
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+  recordedAt: string;
+}
+
+/**
+ * Cassette file contents
+ */
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Thrown when replay finds no recorded interaction for a request
+ */
+export class CassetteMismatchError extends Error {
+  constructor(
+    message: string,
+    public readonly request: CassetteRequest
+  ) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/**
+ * Records or replays API interactions
+ */
+export class Cassette {
+  private readonly config: CassetteConfig;
+  private interactions: CassetteInteraction[] = [];
+  private readonly replayed = new Set<number>();
+  private loaded?: Promise<void>;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(config: CassetteConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Create the axios adapter for the configured mode
+   * @param next Adapter that performs real requests when recording (defaults to axios' own)
+   * @returns Adapter that records or replays
+   */
+  createAdapter(next: AxiosAdapter = axios.getAdapter(axios.defaults.adapter)): AxiosAdapter {
+    log(`Cassette ${this.config.mode === 'record' ? 'recording to' : 'replaying from'} ${this.config.path}`);
+
+    return this.config.mode === 'record'
+      ? config => this.recordRequest(config, next)
+      : config => this.replayRequest(config);
+  }
+
+  /**
+   * Wait for recorded interactions to be written
+   */
+  async flush(): Promise<void> {
+    await this.pendingSave;
+  }
+
+  /**
+   * Number of recorded interactions not replayed yet
+   */
+  remaining(): number {
+    return this.interactions.length - this.replayed.size;
+  }
+
+  /**
+   * Perform a real request and record the response, including error responses
+   */
+  private async recordRequest(config: InternalAxiosRequestConfig, next: AxiosAdapter): Promise<AxiosResponse> {
+    try {
+      const response = await next(config);
+      await this.record(config, response);
+      return response;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        await this.record(config, error.response);
+      }
+      throw error;
+    }
+  }
+
+  private async record(config: InternalAxiosRequestConfig, response: AxiosResponse): Promise<void> {
+    const headers = response.headers instanceof AxiosHeaders ? response.headers.toJSON(true) : response.headers;
+
+    this.interactions.push({
+      request: normalizeRequest(config),
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: maskSensitiveData(headers ?? {}) as Record<string, string>,
+        data: maskSensitiveData(parseJson(response.data)),
+      },
+      recordedAt: new Date().toISOString(),
+    });
+
+    // Write after every interaction so the cassette survives an unclean exit
+    const contents: CassetteFile = { version: 1, interactions: this.interactions };
+    this.pendingSave = this.pendingSave.then(async () => {
+      await fs.mkdir(dirname(this.config.path), { recursive: true });
+      await fs.writeFile(this.config.path, JSON.stringify(contents, null, 2));
+    });
+    await this.pendingSave;
+  }
+
+  /**
+   * Answer a request from the cassette
+   * Identical requests are answered by their recordings in order, so polling
+   * replays the same progression it recorded.
+   */
+  private async replayRequest(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    await this.load();
+
+    const request = normalizeRequest(config);
+    const key = stableStringify(request);
+    const index = this.interactions.findIndex(
+      (interaction, position) => !this.replayed.has(position) && stableStringify(interaction.request) === key
+    );
+
+    if (index === -1) {
+      throw new CassetteMismatchError(this.describeMismatch(request), request);
+    }
+    this.replayed.add(index);
+
+    const recorded = this.interactions[index].response;
+    const response: AxiosResponse = {
+      data: structuredClone(recorded.data),
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: new AxiosHeaders(recorded.headers),
+      config,
+      request: {},
+    };
+
+    if (!config.validateStatus || config.validateStatus(response.status)) {
+      return response;
+    }
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      {},
+      response
+    );
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = fs.readFile(this.config.path, 'utf-8')
+        .then(contents => {
+          const cassette = JSON.parse(contents) as CassetteFile;
+          this.interactions = cassette.interactions ?? [];
+          log(`Loaded ${this.interactions.length} recorded interactions from ${this.config.path}`);
+        })
+        .catch(error => {
+          throw new Error(`Cannot replay cassette ${this.config.path}: ${error instanceof Error ? error.message : String(error)}`);
+        });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Explain a failed match, listing recordings for the same method and path
+   */
+  private describeMismatch(request: CassetteRequest): string {
+    const summary = `${request.method} ${request.path}${formatQuery(request.query)}`;
+    const candidates = this.interactions.filter(
+      interaction => interaction.request.method === request.method && interaction.request.path === request.path
+    );
+
+    const lines = [`No recorded interaction in ${this.config.path} matches ${summary}`];
+    if (request.body !== undefined) {
+      lines.push(`  body: ${JSON.stringify(request.body)}`);
+    }
+
+    if (candidates.length === 0) {
+      lines.push(`The cassette has no ${request.method} ${request.path} interactions.`);
+    } else {
+      const unused = candidates.filter(candidate => !this.replayed.has(this.interactions.indexOf(candidate)));
+      lines.push(`The cassette has ${candidates.length} ${request.method} ${request.path} interactions, ${unused.length} not replayed yet:`);
+      for (const candidate of unused.slice(0, 3)) {
+        lines.push(`  query: ${JSON.stringify(candidate.request.query)}, body: ${JSON.stringify(candidate.request.body ?? null)}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+}
+
+const sharedCassettes = new Map<string, Cassette>();
+
+/**
+ * Get the cassette shared by all clients recording to or replaying from a file
+ * Clients are created per tool call, so sharing keeps every interaction of a
+ * session in one recording and one position in the replay.
+ * @param config Cassette configuration
+ */
+export function getSharedCassette(config: CassetteConfig): Cassette {
+  const key = `${config.mode} ${resolve(config.path)}`;
+  let cassette = sharedCassettes.get(key);
+  if (!cassette) {
+    cassette = new Cassette(config);
+    sharedCassettes.set(key, cassette);
+  }
+  return cassette;
+}
+
+/**
+ * Reduce an axios request to what is recorded and matched
+ * Secrets are masked the same way on both sides, so masked values still match.
+ */
+function normalizeRequest(config: InternalAxiosRequestConfig): CassetteRequest {
+  const [path, search = ''] = (config.url ?? '').split('?');
+  const query: Record<string, string | string[]> = {};
+
+  new URLSearchParams(search).forEach((value, key) => {
+    query[key] = value;
+  });
+  for (const [key, value] of Object.entries(config.params ?? {})) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    query[key] = Array.isArray(value) ? value.map(entry => String(entry)) : String(value);
+  }
+
+  const body = parseJson(config.data);
+
+  return maskSensitiveData({
+    method: (config.method ?? 'get').toUpperCase(),
+    path: path.startsWith('/') ? path : `/${path}`,
+    query,
+    ...(body !== undefined && body !== '' && { body }),
+  }) as CassetteRequest;
+}
+
+/**
+ * Parse JSON strings, leaving other values alone
+ */
+function parseJson(data: unknown): unknown {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function formatQuery(query: Record<string, string | string[]>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    (Array.isArray(value) ? value : [value]).forEach(entry => params.append(key, entry));
+  }
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
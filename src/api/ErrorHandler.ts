@@ -5,6 +5,9 @@
  */
 
 import { ApiError, ApiErrorType } from '../types/websets.js';
+import { CassetteMismatchError } from './Cassette.js';
+import { CircuitBreakerOpenError } from './RateLimiter.js';
+import { ResponseValidationError } from '../schemas/ResponseValidator.js';
 import { log } from '../utils/logger.js';
 import { maskSensitiveData } from '../utils/security.js';
 
@@ -87,6 +90,24 @@ export class ApiErrorHandler {
     }
   }
 
+  /**
+   * Determine if an error is a failure of the service itself, which counts
+   * towards opening a circuit breaker
+   * Errors caused by the request, such as unknown IDs or invalid parameters,
+   * show the service is answering. Rate limits are left to the rate limiter.
+   */
+  static isServiceFailure(errorType: ApiErrorType): boolean {
+    switch (errorType) {
+      case ApiErrorType.SERVER_ERROR:
+      case ApiErrorType.NETWORK_ERROR:
+      case ApiErrorType.TIMEOUT_ERROR:
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
   /**
    * Calculate retry delay with exponential backoff
    */
@@ -130,10 +151,15 @@ export class ApiErrorHandler {
    * Create a standardized ApiError from various error types
    */
   static createApiError(error: unknown): ApiError {
+    // Errors rethrown by the API client are already standardized
+    if (this.isApiError(error)) {
+      return error;
+    }
+
     const errorType = this.classify(error);
     
     // Extract error information based on error structure
-    let code = errorType;
+    let code: string = errorType;
     let message = 'An unknown error occurred';
     let details: unknown = undefined;
 
@@ -155,6 +181,21 @@ export class ApiErrorHandler {
           status: responseError.response?.status,
         };
       }
+    } else if (error instanceof CassetteMismatchError) {
+      // Replay found no recorded interaction
+      code = 'cassette_mismatch';
+      message = error.message;
+      details = { request: error.request };
+    } else if (error instanceof CircuitBreakerOpenError) {
+      // Requests to this endpoint family are being held back after repeated failures
+      const retryAfter = Math.ceil(error.retryAfterMs / 1000);
+      message = `Service temporarily unavailable (${error.family} endpoints), retry in ${retryAfter}s`;
+      details = { family: error.family, retryAfter };
+    } else if (error instanceof ResponseValidationError) {
+      // Strict validation rejected a response that drifted from its schema
+      code = 'response_validation_error';
+      message = error.message;
+      details = { schema: error.schema, issues: error.issues };
     } else if (typeof error === 'string') {
       // String error
       message = error;
@@ -167,6 +208,37 @@ export class ApiErrorHandler {
     };
   }
 
+  /**
+   * Add the number of seconds to wait before retrying to an error's details
+   */
+  static withRetryAfter(error: ApiError, retryAfter?: number): ApiError {
+    if (retryAfter === undefined) {
+      return error;
+    }
+    const details = error.details && typeof error.details === 'object' ? error.details : error.details === undefined ? {} : { info: error.details };
+    return { ...error, details: { ...details, retryAfter } };
+  }
+
+  /**
+   * Get the number of seconds to wait before retrying, if the error says
+   */
+  static getRetryAfter(error: unknown): number | undefined {
+    const retryAfter = this.isApiError(error) ? (error.details as { retryAfter?: unknown } | undefined)?.retryAfter : undefined;
+    return typeof retryAfter === 'number' ? retryAfter : undefined;
+  }
+
+  /**
+   * Check whether a value is an already standardized ApiError
+   */
+  static isApiError(error: unknown): error is ApiError {
+    return typeof error === 'object' &&
+      error !== null &&
+      !(error instanceof Error) &&
+      !('response' in error) &&
+      typeof (error as ApiError).code === 'string' &&
+      typeof (error as ApiError).message === 'string';
+  }
+
   /**
    * Log error with appropriate level based on error type
    */
@@ -252,8 +324,12 @@ export class ApiErrorHandler {
       case ApiErrorType.NOT_FOUND:
         return 'The requested resource was not found.';
       
-      case ApiErrorType.RATE_LIMIT:
-        return 'Rate limit exceeded. Please try again later.';
+      case ApiErrorType.RATE_LIMIT: {
+        const retryAfter = this.getRetryAfter(error);
+        return retryAfter !== undefined
+          ? `Rate limit exceeded. Please try again in ${retryAfter} seconds.`
+          : 'Rate limit exceeded. Please try again later.';
+      }
       
       case ApiErrorType.SERVER_ERROR:
         return 'Server error occurred. Please try again later.';
@@ -264,8 +340,12 @@ export class ApiErrorHandler {
       case ApiErrorType.TIMEOUT_ERROR:
         return 'Request timed out. Please try again.';
       
-      case ApiErrorType.CIRCUIT_BREAKER_OPEN:
-        return 'Service temporarily unavailable. Please try again later.';
+      case ApiErrorType.CIRCUIT_BREAKER_OPEN: {
+        const retryAfter = this.getRetryAfter(error);
+        return retryAfter !== undefined
+          ? `Service temporarily unavailable, retry in ${retryAfter}s.`
+          : 'Service temporarily unavailable. Please try again later.';
+      }
       
       default:
         return error.message || 'An unexpected error occurred.';
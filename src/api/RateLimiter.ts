@@ -2,14 +2,18 @@
  * Rate Limiter
  * 
  * Token bucket rate limiter implementation for API request throttling.
+ * Buckets adapt to the budget the API reports in its rate limit headers, and
+ * AdaptiveRateLimiter pauses all requests when the API asks it to back off.
  */
 
-import { RateLimiterOptions, RateLimitState } from '../types/websets.js';
+import { RateLimitBucket, RateLimitHeaders, RateLimiterOptions, RateLimitState } from '../types/websets.js';
 import { log } from '../utils/logger.js';
+import { getMetrics } from '../metrics/WebsetsMetrics.js';
 
 export class RateLimiter {
   private options: Required<RateLimiterOptions>;
   private state: RateLimitState;
+  private learned?: Required<RateLimiterOptions> & { until: number };
 
   constructor(options: RateLimiterOptions) {
     this.options = {
@@ -70,7 +74,7 @@ export class RateLimiter {
 
     // Calculate time needed for next token
     const tokensNeeded = 1 - this.state.tokens;
-    const timePerToken = 1000 / this.options.requestsPerSecond; // ms per token
+    const timePerToken = 1000 / this.getLimits().requestsPerSecond; // ms per token
     
     return Math.ceil(tokensNeeded * timePerToken);
   }
@@ -79,12 +83,38 @@ export class RateLimiter {
    * Reset the rate limiter state
    */
   reset(): void {
+    this.learned = undefined;
     this.state = {
       tokens: this.options.burstSize,
       lastRefill: Date.now(),
     };
   }
 
+  /**
+   * Adjust to the budget reported by the API
+   * Tokens never exceed the remaining requests, and the remaining budget is
+   * spread over the rest of the window. Learned limits never exceed the
+   * configured ones and expire when the window resets.
+   * @param headers Rate limit headers from a response
+   */
+  adapt(headers: RateLimitHeaders): void {
+    this.refillTokens();
+
+    if (headers.remaining !== undefined) {
+      this.state.tokens = Math.min(this.state.tokens, headers.remaining);
+    }
+
+    const budget = headers.remaining ?? headers.limit;
+    if (budget !== undefined && headers.resetMs !== undefined && headers.resetMs > 0) {
+      const requestsPerSecond = Math.min(this.options.requestsPerSecond, Math.max(budget, 1) / (headers.resetMs / 1000));
+      this.learned = {
+        requestsPerSecond,
+        burstSize: Math.min(this.options.burstSize, Math.max(headers.limit ?? this.options.burstSize, 1)),
+        until: Date.now() + headers.resetMs,
+      };
+    }
+  }
+
   /**
    * Update rate limiter configuration
    */
@@ -114,15 +144,29 @@ export class RateLimiter {
     burstSize: number;
     availableTokens: number;
     waitTime: number;
+    adapted: boolean;
   } {
+    const limits = this.getLimits();
     return {
-      requestsPerSecond: this.options.requestsPerSecond,
-      burstSize: this.options.burstSize,
+      requestsPerSecond: limits.requestsPerSecond,
+      burstSize: limits.burstSize,
       availableTokens: this.getAvailableTokens(),
       waitTime: this.getWaitTime(),
+      adapted: limits !== this.options,
     };
   }
 
+  /**
+   * Limits in effect: learned from the API until its window resets, configured otherwise
+   */
+  private getLimits(): Required<RateLimiterOptions> {
+    if (this.learned && Date.now() < this.learned.until) {
+      return this.learned;
+    }
+    this.learned = undefined;
+    return this.options;
+  }
+
   /**
    * Refill tokens based on elapsed time
    */
@@ -135,12 +179,13 @@ export class RateLimiter {
     }
 
     // Calculate tokens to add based on elapsed time
-    const tokensToAdd = (timeSinceLastRefill / 1000) * this.options.requestsPerSecond;
+    const limits = this.getLimits();
+    const tokensToAdd = (timeSinceLastRefill / 1000) * limits.requestsPerSecond;
     
     // Add tokens but don't exceed burst size
     this.state.tokens = Math.min(
       this.state.tokens + tokensToAdd,
-      this.options.burstSize
+      limits.burstSize
     );
     
     this.state.lastRefill = now;
@@ -154,6 +199,200 @@ export class RateLimiter {
   }
 }
 
+/**
+ * Rate limiter with separate read and write buckets and a shared pause
+ */
+export class AdaptiveRateLimiter {
+  private readonly buckets: Record<RateLimitBucket, RateLimiter>;
+  private pausedUntil = 0;
+
+  constructor(options: Record<RateLimitBucket, RateLimiterOptions>) {
+    this.buckets = {
+      read: new RateLimiter(options.read),
+      write: new RateLimiter(options.write),
+    };
+  }
+
+  /**
+   * Get the bucket a request counts against
+   * @param method HTTP method of the request
+   */
+  static bucketFor(method: string): RateLimitBucket {
+    return ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase()) ? 'read' : 'write';
+  }
+
+  /**
+   * Wait until the pause is over and a token is available in the bucket
+   */
+  async waitForToken(bucket: RateLimitBucket): Promise<void> {
+    for (let wait = this.getPauseRemaining(); wait > 0; wait = this.getPauseRemaining()) {
+      await this.sleep(wait);
+    }
+    await this.buckets[bucket].waitForToken();
+  }
+
+  /**
+   * Learn from the rate limit headers of a response
+   * Pauses all requests when the server sends Retry-After or reports an
+   * exhausted budget.
+   * @param bucket Bucket the request counted against
+   * @param headers Response headers
+   * @returns The parsed rate limit headers
+   */
+  observe(bucket: RateLimitBucket, headers: unknown): RateLimitHeaders {
+    const rateLimit = parseRateLimitHeaders(headers);
+    this.buckets[bucket].adapt(rateLimit);
+
+    if (rateLimit.retryAfterMs !== undefined) {
+      this.pause(rateLimit.retryAfterMs);
+    } else if (rateLimit.remaining === 0 && rateLimit.resetMs !== undefined) {
+      this.pause(rateLimit.resetMs);
+    }
+    return rateLimit;
+  }
+
+  /**
+   * Hold all requests for a while
+   * @param ms Milliseconds to pause for; shorter pauses never cut a longer one short
+   */
+  pause(ms: number): void {
+    const until = Date.now() + ms;
+    if (until > this.pausedUntil) {
+      this.pausedUntil = until;
+      log(`Rate limited by the API, pausing requests for ${Math.ceil(ms / 1000)}s`);
+    }
+  }
+
+  /**
+   * Milliseconds left in the current pause
+   */
+  getPauseRemaining(): number {
+    return Math.max(0, this.pausedUntil - Date.now());
+  }
+
+  /**
+   * Update the configured rates
+   */
+  updateOptions(options: Partial<Record<RateLimitBucket, Partial<RateLimiterOptions>>>): void {
+    if (options.read) {
+      this.buckets.read.updateOptions(options.read);
+    }
+    if (options.write) {
+      this.buckets.write.updateOptions(options.write);
+    }
+  }
+
+  /**
+   * Reset both buckets and end any pause
+   */
+  reset(): void {
+    this.pausedUntil = 0;
+    this.buckets.read.reset();
+    this.buckets.write.reset();
+  }
+
+  /**
+   * Get statistics for both buckets
+   */
+  getStats(): {
+    read: ReturnType<RateLimiter['getStats']>;
+    write: ReturnType<RateLimiter['getStats']>;
+    pausedFor: number;
+  } {
+    return {
+      read: this.buckets.read.getStats(),
+      write: this.buckets.write.getStats(),
+      pausedFor: this.getPauseRemaining(),
+    };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+const sharedRateLimiters = new Map<string, AdaptiveRateLimiter>();
+
+/**
+ * Get the rate limiter shared by all clients of an API
+ * Clients are created per tool call, so budgets and pauses live here.
+ * @param baseUrl Base URL of the API
+ * @param options Rates used when the limiter is first created
+ */
+export function getSharedRateLimiter(baseUrl: string, options: Record<RateLimitBucket, RateLimiterOptions>): AdaptiveRateLimiter {
+  let limiter = sharedRateLimiters.get(baseUrl);
+  if (!limiter) {
+    limiter = new AdaptiveRateLimiter(options);
+    sharedRateLimiters.set(baseUrl, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Parse Retry-After and rate limit headers
+ * Accepts X-RateLimit-* and RateLimit-* names; reset values are seconds from
+ * now, or epoch seconds when large enough to be a timestamp.
+ * @param headers Response headers
+ * @param now Current time in milliseconds
+ */
+export function parseRateLimitHeaders(headers: unknown, now: number = Date.now()): RateLimitHeaders {
+  const values = new Map<string, string>();
+  if (headers && typeof headers === 'object') {
+    for (const [name, value] of Object.entries(headers)) {
+      if (value !== undefined && value !== null) {
+        values.set(name.toLowerCase(), String(Array.isArray(value) ? value[0] : value));
+      }
+    }
+  }
+
+  const number = (...names: string[]): number | undefined => {
+    for (const name of names) {
+      const value = Number(values.get(name));
+      if (values.has(name) && Number.isFinite(value) && value >= 0) {
+        return value;
+      }
+    }
+    return undefined;
+  };
+
+  const reset = number('x-ratelimit-reset', 'ratelimit-reset');
+  const resetMs = reset === undefined
+    ? undefined
+    : Math.max(0, reset > 1e9 ? reset * 1000 - now : reset * 1000);
+
+  let retryAfterMs: number | undefined;
+  const retryAfter = values.get('retry-after');
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    const date = Date.parse(retryAfter);
+    if (Number.isFinite(seconds)) {
+      retryAfterMs = Math.max(0, seconds * 1000);
+    } else if (!Number.isNaN(date)) {
+      retryAfterMs = Math.max(0, date - now);
+    }
+  }
+
+  return {
+    limit: number('x-ratelimit-limit', 'ratelimit-limit'),
+    remaining: number('x-ratelimit-remaining', 'ratelimit-remaining'),
+    resetMs,
+    retryAfterMs,
+  };
+}
+
+/**
+ * Thrown instead of sending a request while a circuit breaker is open
+ */
+export class CircuitBreakerOpenError extends Error {
+  constructor(
+    public readonly family: string,
+    public readonly retryAfterMs: number
+  ) {
+    super(`The ${family} circuit breaker is open, retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'CircuitBreakerOpenError';
+  }
+}
+
 /**
  * Circuit Breaker implementation for fault tolerance
  */
@@ -166,18 +405,22 @@ export class CircuitBreaker {
   constructor(
     private failureThreshold: number,
     private timeout: number,
-    private monitoringPeriod: number = 60000 // 1 minute
+    private monitoringPeriod: number = 60000, // 1 minute
+    private family: string = 'api'
   ) {
     log(`Circuit breaker initialized: threshold=${failureThreshold}, timeout=${timeout}ms`);
   }
 
   /**
    * Execute a function with circuit breaker protection
+   * @param isFailure Whether an error counts towards opening the breaker; other
+   * errors show the service is answering and count as successes
    */
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
+  async execute<T>(fn: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
     if (this.state === 'open') {
-      if (Date.now() - this.lastFailureTime < this.timeout) {
-        throw new Error('Circuit breaker is open');
+      const retryIn = this.getRetryIn();
+      if (retryIn > 0) {
+        throw new CircuitBreakerOpenError(this.family, retryIn);
       } else {
         this.state = 'half-open';
         log('Circuit breaker transitioning to half-open');
@@ -189,7 +432,11 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      if (isFailure(error)) {
+        this.onFailure();
+      } else {
+        this.onSuccess();
+      }
       throw error;
     }
   }
@@ -202,15 +449,24 @@ export class CircuitBreaker {
     failures: number;
     successes: number;
     lastFailureTime: number;
+    retryIn: number;
   } {
     return {
       state: this.state,
       failures: this.failureCount,
       successes: this.successCount,
       lastFailureTime: this.lastFailureTime,
+      retryIn: this.getRetryIn(),
     };
   }
 
+  /**
+   * Milliseconds until an open breaker lets a trial request through
+   */
+  getRetryIn(): number {
+    return this.state === 'open' ? Math.max(0, this.timeout - (Date.now() - this.lastFailureTime)) : 0;
+  }
+
   /**
    * Reset circuit breaker to closed state
    */
@@ -251,9 +507,94 @@ export class CircuitBreaker {
     if (this.state === 'half-open') {
       this.state = 'open';
       log('Circuit breaker opened from half-open state');
+      getMetrics().recordCircuitBreakerTrip(this.family);
     } else if (this.failureCount >= this.failureThreshold) {
       this.state = 'open';
       log(`Circuit breaker opened after ${this.failureCount} failures`);
+      getMetrics().recordCircuitBreakerTrip(this.family);
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Endpoint families with their own circuit breaker
+ */
+export const ENDPOINT_FAMILIES = ['websets', 'searches', 'items', 'enrichments', 'webhooks', 'events'] as const;
+
+/**
+ * Circuit breakers keyed by endpoint family, so one failing endpoint does not block the others
+ */
+export class CircuitBreakerRegistry {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+
+  constructor(
+    private failureThreshold: number,
+    private timeout: number
+  ) {}
+
+  /**
+   * Get the endpoint family of a request path
+   * Nested webset resources (searches, items, enrichments) have their own
+   * family; other paths use their first segment.
+   * @param path Request path relative to the API base URL
+   */
+  static familyFor(path: string): string {
+    const segments = path.split('?')[0].split('/').filter(Boolean);
+    if (segments[0] === 'websets' && segments.length > 2) {
+      return segments[2];
+    }
+    return segments[0] ?? 'websets';
+  }
+
+  /**
+   * Execute a request with the breaker for its endpoint family
+   * @param isFailure Whether an error counts towards opening the breaker
+   */
+  execute<T>(path: string, fn: () => Promise<T>, isFailure?: (error: unknown) => boolean): Promise<T> {
+    return this.get(CircuitBreakerRegistry.familyFor(path)).execute(fn, isFailure);
+  }
+
+  /**
+   * Get the breaker for an endpoint family, creating it on first use
+   */
+  get(family: string): CircuitBreaker {
+    let breaker = this.breakers.get(family);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.failureThreshold, this.timeout, 60000, family);
+      this.breakers.set(family, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Get the state of every endpoint family's breaker
+   */
+  getStates(): Record<string, ReturnType<CircuitBreaker['getState']>> {
+    const families = new Set<string>([...ENDPOINT_FAMILIES, ...this.breakers.keys()]);
+    return Object.fromEntries([...families].map(family => [family, this.get(family).getState()]));
+  }
+
+  /**
+   * Reset every breaker to closed
+   */
+  reset(): void {
+    this.breakers.forEach(breaker => breaker.reset());
+  }
+}
+
+const sharedCircuitBreakers = new Map<string, CircuitBreakerRegistry>();
+
+/**
+ * Get the circuit breakers shared by all clients of an API
+ * @param baseUrl Base URL of the API
+ * @param failureThreshold Failures that open a breaker, used when first created
+ * @param timeout Milliseconds a breaker stays open, used when first created
+ */
+export function getSharedCircuitBreakers(baseUrl: string, failureThreshold: number, timeout: number): CircuitBreakerRegistry {
+  let registry = sharedCircuitBreakers.get(baseUrl);
+  if (!registry) {
+    registry = new CircuitBreakerRegistry(failureThreshold, timeout);
+    sharedCircuitBreakers.set(baseUrl, registry);
+  }
+  return registry;
+}
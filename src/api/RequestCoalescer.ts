@@ -0,0 +1,69 @@
+/**
+ * Request Coalescer
+ *
+ * Shares one upstream request between identical concurrent GETs, so parallel
+ * status checks and polling loops for the same resource use a single request
+ * and a single rate limit token.
+ */
+
+import { ApiResponse } from '../types/websets.js';
+import { hashApiKey, stableStringify } from '../utils/security.js';
+
+/**
+ * Coalesces identical concurrent requests
+ */
+export class RequestCoalescer {
+  private readonly inFlight = new Map<string, Promise<ApiResponse<unknown>>>();
+  private coalesced = 0;
+
+  /**
+   * Run a request, or join the identical one already in flight
+   * Every caller gets its own copy of the response, and all callers see the
+   * error if the request fails.
+   * @param path Request path
+   * @param params Query parameters
+   * @param request Sends the request when none is in flight
+   */
+  async run<T>(path: string, params: Record<string, any> | undefined, request: () => Promise<ApiResponse<T>>): Promise<ApiResponse<T>> {
+    const key = `${path} ${stableStringify(params ?? {})}`;
+    let pending = this.inFlight.get(key) as Promise<ApiResponse<T>> | undefined;
+
+    if (pending) {
+      this.coalesced++;
+    } else {
+      pending = request().finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+
+    const response = await pending;
+    return { ...response, data: structuredClone(response.data), headers: { ...response.headers } };
+  }
+
+  /**
+   * Get coalescing statistics
+   */
+  getStats(): { inFlight: number; coalesced: number } {
+    return {
+      inFlight: this.inFlight.size,
+      coalesced: this.coalesced,
+    };
+  }
+}
+
+const sharedRequestCoalescers = new Map<string, RequestCoalescer>();
+
+/**
+ * Get the request coalescer shared by all clients of an API using the same API key
+ * Requests sent with different API keys are never joined.
+ * @param baseUrl Base URL of the API
+ * @param apiKey API key the requests are sent with
+ */
+export function getSharedRequestCoalescer(baseUrl: string, apiKey: string): RequestCoalescer {
+  const key = `${baseUrl} ${hashApiKey(apiKey)}`;
+  let coalescer = sharedRequestCoalescers.get(key);
+  if (!coalescer) {
+    coalescer = new RequestCoalescer();
+    sharedRequestCoalescers.set(key, coalescer);
+  }
+  return coalescer;
+}
@@ -0,0 +1,315 @@
+/**
+ * Response Cache
+ *
+ * Caches GET responses from the Websets API with a TTL per endpoint. Expired
+ * responses that came with an ETag are revalidated with If-None-Match, so an
+ * unchanged resource costs a 304 instead of a full response. Mutating requests
+ * and received events drop cached responses for the webset they affect.
+ */
+
+import { ApiResponse, WebsetEvent } from '../types/websets.js';
+import { BaseEventHandler, changesUnnamedWebset, EventPriority, getEventWebsetId, TypedEvent } from '../events/EventTypes.js';
+import { normalizeEndpoint } from '../metrics/WebsetsMetrics.js';
+import { hashApiKey, stableStringify } from '../utils/security.js';
+
+/**
+ * Response cache configuration
+ */
+export interface ResponseCacheConfig {
+  /** Whether GET responses are cached */
+  enabled: boolean;
+  /** Milliseconds a response stays fresh, by endpoint with IDs replaced by :id (0 disables caching) */
+  ttls: Record<string, number>;
+  /** Milliseconds a response stays fresh for endpoints not listed in ttls */
+  defaultTtl: number;
+  /** Maximum cached responses; the oldest are dropped first */
+  maxEntries: number;
+}
+
+/**
+ * Default TTLs
+ * Resources with a status stay fresh for less than a polling interval, so
+ * polling still sees progress. Events are never served from the cache.
+ */
+const DEFAULT_TTLS: Record<string, number> = {
+  '/websets': 10000,
+  '/websets/:id': 1000,
+  '/websets/:id/searches/:id': 1000,
+  '/websets/:id/enrichments/:id': 1000,
+  '/websets/:id/items': 10000,
+  '/websets/:id/items/:id': 60000,
+  '/webhooks': 60000,
+  '/webhooks/:id': 60000,
+  '/events': 0,
+  '/events/:id': 60000,
+};
+
+/**
+ * Default response cache configuration
+ */
+const DEFAULT_RESPONSE_CACHE_CONFIG: ResponseCacheConfig = {
+  enabled: process.env.WEBSETS_RESPONSE_CACHE !== 'false',
+  ttls: { ...DEFAULT_TTLS, ...parseTtls(process.env.WEBSETS_RESPONSE_CACHE_TTLS) },
+  defaultTtl: 0,
+  maxEntries: 500,
+};
+
+/**
+ * A cached response found for a request
+ */
+export interface CachedResponse<T = unknown> {
+  /** Copy of the cached response */
+  response: ApiResponse<T>;
+  /** Whether the response can be used without asking the API */
+  fresh: boolean;
+  /** ETag to revalidate a stale response with */
+  etag?: string;
+}
+
+interface CacheEntry {
+  path: string;
+  response: ApiResponse<unknown>;
+  etag?: string;
+  expiresAt: number;
+}
+
+/**
+ * Event handler that drops cached responses for the webset an event belongs to
+ */
+class CacheInvalidationHandler extends BaseEventHandler {
+  eventType = 'webset.idle' as const;
+  priority = EventPriority.HIGH;
+
+  constructor(private readonly cache: ResponseCache) {
+    super();
+  }
+
+  canHandle(): boolean {
+    return true;
+  }
+
+  async handle(event: TypedEvent): Promise<void> {
+    this.cache.invalidateForEvent(event as unknown as WebsetEvent);
+  }
+}
+
+/**
+ * Cache for GET responses
+ */
+export class ResponseCache {
+  private readonly config: ResponseCacheConfig;
+  private readonly entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private revalidations = 0;
+
+  constructor(config: Partial<ResponseCacheConfig> = {}) {
+    this.config = { ...DEFAULT_RESPONSE_CACHE_CONFIG, ...config };
+  }
+
+  /**
+   * Whether GET responses are cached
+   */
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Find the cached response for a request
+   * @param path Request path
+   * @param params Query parameters
+   * @returns The cached response, or undefined when there is none to use or revalidate
+   */
+  lookup<T>(path: string, params?: Record<string, any>): CachedResponse<T> | undefined {
+    const key = cacheKey(path, params);
+    const entry = this.entries.get(key);
+    const fresh = entry !== undefined && Date.now() < entry.expiresAt;
+
+    if (!entry || (!fresh && !entry.etag)) {
+      this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    if (fresh) {
+      this.hits++;
+    }
+    return { response: copyResponse(entry.response) as ApiResponse<T>, fresh, etag: entry.etag };
+  }
+
+  /**
+   * Cache a successful GET response
+   * Endpoints with a TTL of 0 are never cached.
+   */
+  store(path: string, params: Record<string, any> | undefined, response: ApiResponse<unknown>): void {
+    const ttl = this.getTtl(path);
+    const etag = getHeader(response.headers, 'etag');
+    if (!this.config.enabled || ttl <= 0) {
+      return;
+    }
+
+    const key = cacheKey(path, params);
+    this.entries.delete(key);
+    this.entries.set(key, { path: stripQuery(path), response: copyResponse(response), etag, expiresAt: Date.now() + ttl });
+
+    while (this.entries.size > this.config.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Mark a cached response as fresh again after the API answered 304 Not Modified
+   * @returns Copy of the cached response, or undefined if it was invalidated meanwhile
+   */
+  revalidated<T>(path: string, params?: Record<string, any>): ApiResponse<T> | undefined {
+    const entry = this.entries.get(cacheKey(path, params));
+    if (!entry) {
+      return undefined;
+    }
+
+    this.revalidations++;
+    entry.expiresAt = Date.now() + this.getTtl(path);
+    return copyResponse(entry.response) as ApiResponse<T>;
+  }
+
+  /**
+   * Drop cached responses a mutating request to a path may have changed
+   * That is everything below the resource it addresses, e.g. a webset and its
+   * searches, items and enrichments, and the list of its collection.
+   * @returns Number of responses dropped
+   */
+  invalidatePath(path: string): number {
+    const [collection, id] = stripQuery(path).split('/').filter(Boolean);
+    if (!collection) {
+      return 0;
+    }
+    const list = `/${collection}`;
+    const resource = id ? `${list}/${id}` : undefined;
+
+    let dropped = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.path === list || (resource && (entry.path === resource || entry.path.startsWith(`${resource}/`)))) {
+        this.entries.delete(key);
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+
+  /**
+   * Drop cached responses for a webset and everything in it
+   */
+  invalidateWebset(websetId: string): number {
+    return this.invalidatePath(`/websets/${encodeURIComponent(websetId)}`);
+  }
+
+  /**
+   * Drop cached responses for every webset
+   */
+  invalidateAllWebsets(): number {
+    let dropped = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.path === '/websets' || entry.path.startsWith('/websets/')) {
+        this.entries.delete(key);
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+
+  /**
+   * Drop cached responses for the webset a received event belongs to
+   * Events that change a webset without naming it drop every webset.
+   */
+  invalidateForEvent(event: WebsetEvent): number {
+    const websetId = getEventWebsetId(event);
+    if (websetId) {
+      return this.invalidateWebset(websetId);
+    }
+    return changesUnnamedWebset(event) ? this.invalidateAllWebsets() : 0;
+  }
+
+  /**
+   * Create an event handler that keeps the cache in step with received events
+   */
+  createEventHandler(): BaseEventHandler {
+    return new CacheInvalidationHandler(this);
+  }
+
+  /**
+   * Drop every cached response
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): { enabled: boolean; size: number; hits: number; misses: number; revalidations: number } {
+    return {
+      enabled: this.config.enabled,
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      revalidations: this.revalidations,
+    };
+  }
+
+  private getTtl(path: string): number {
+    return this.config.ttls[normalizeEndpoint(path)] ?? this.config.defaultTtl;
+  }
+}
+
+const sharedResponseCaches = new Map<string, ResponseCache>();
+
+/**
+ * Get the response cache shared by all clients of an API using the same API key
+ * Responses are never shared between API keys, which may see different websets.
+ * @param baseUrl Base URL of the API
+ * @param apiKey API key the cached responses were fetched with
+ * @param config Cache configuration, used when first created
+ */
+export function getSharedResponseCache(baseUrl: string, apiKey: string, config: Partial<ResponseCacheConfig> = {}): ResponseCache {
+  const key = `${baseUrl} ${hashApiKey(apiKey)}`;
+  let cache = sharedResponseCaches.get(key);
+  if (!cache) {
+    cache = new ResponseCache(config);
+    sharedResponseCaches.set(key, cache);
+  }
+  return cache;
+}
+
+/**
+ * Parse TTL overrides such as "/websets/:id/items=30000,/events/:id=0"
+ */
+function parseTtls(value: string | undefined): Record<string, number> {
+  const ttls: Record<string, number> = {};
+  for (const entry of value?.split(',') ?? []) {
+    const [endpoint, ttl] = entry.split('=').map(part => part.trim());
+    if (endpoint && ttl && Number.isFinite(Number(ttl))) {
+      ttls[normalizeEndpoint(endpoint)] = Number(ttl);
+    }
+  }
+  return ttls;
+}
+
+function cacheKey(path: string, params?: Record<string, any>): string {
+  return `${path} ${stableStringify(params ?? {})}`;
+}
+
+function stripQuery(path: string): string {
+  return path.split('?')[0];
+}
+
+function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const value = Object.entries(headers ?? {}).find(([key]) => key.toLowerCase() === name)?.[1];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Copy a response so callers cannot change what is cached
+ */
+function copyResponse(response: ApiResponse<unknown>): ApiResponse<unknown> {
+  return { ...response, data: structuredClone(response.data), headers: { ...response.headers } };
+}
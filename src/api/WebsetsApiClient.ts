@@ -5,23 +5,65 @@
  */
 
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { randomUUID } from 'crypto';
 import { WebsetsConfig, ApiClientConfig } from '../config/websets.js';
 import { 
   ApiResponse, 
   ApiError, 
   RequestOptions, 
   HttpClientOptions,
-  ApiErrorType 
+  ApiErrorType,
+  RateLimitBucket
 } from '../types/websets.js';
 import { ApiErrorHandler } from './ErrorHandler.js';
-import { RateLimiter, CircuitBreaker } from './RateLimiter.js';
+import { Cassette, CassetteMismatchError, getSharedCassette } from './Cassette.js';
+import { ResponseCache } from './ResponseCache.js';
+import { RequestCoalescer } from './RequestCoalescer.js';
+import { AdaptiveRateLimiter, CircuitBreaker, CircuitBreakerRegistry } from './RateLimiter.js';
 import { log } from '../utils/logger.js';
-import { TokenProvider, maskSensitiveData } from '../utils/security.js';
+import { WebsetsMetrics, getMetrics, normalizeEndpoint } from '../metrics/WebsetsMetrics.js';
+import { withSpan } from '../tracing/WebsetsTracing.js';
+import { TokenProvider, maskSensitiveData, createRequestFingerprint, hashApiKey } from '../utils/security.js';
+import { IdempotencyLedger, getIdempotencyLedger } from '../state/IdempotencyLedger.js';
+
+/**
+ * Methods that change state and are sent with an idempotency key
+ */
+const MUTATING_METHODS = new Set<RequestOptions['method']>(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/**
+ * Endpoints where a POST creates a resource
+ */
+const CREATE_ENDPOINTS = [
+  /^\/websets\/?$/,
+  /^\/websets\/[^/]+\/(searches|enrichments)\/?$/,
+  /^\/webhooks\/?$/,
+];
+
+/**
+ * State a client can share with other clients of the same API
+ */
+export interface WebsetsApiClientShared {
+  /** Ledger for requests that create resources (the shared ledger by default) */
+  idempotencyLedger?: IdempotencyLedger;
+  /** Rate limiter (a new one per client by default) */
+  rateLimiter?: AdaptiveRateLimiter;
+  /** Circuit breakers per endpoint family (new ones per client by default) */
+  circuitBreakers?: CircuitBreakerRegistry;
+  /** Cache for GET responses (a new one per client by default) */
+  responseCache?: ResponseCache;
+  /** Coalescer for identical concurrent GETs (a new one per client by default) */
+  requestCoalescer?: RequestCoalescer;
+}
 
 export class WebsetsApiClient {
   private httpClient: AxiosInstance;
-  private rateLimiter: RateLimiter;
-  private circuitBreaker: CircuitBreaker;
+  private rateLimiter: AdaptiveRateLimiter;
+  private circuitBreakers: CircuitBreakerRegistry;
+  private responseCache: ResponseCache;
+  private requestCoalescer: RequestCoalescer;
+  private cassette?: Cassette;
+  private idempotencyLedger?: IdempotencyLedger;
   private config: WebsetsConfig;
   private clientConfig: ApiClientConfig;
   private tokenProvider: TokenProvider;
@@ -29,11 +71,18 @@ export class WebsetsApiClient {
   constructor(
     config: WebsetsConfig, 
     clientConfig: ApiClientConfig,
-    tokenProvider: TokenProvider
+    tokenProvider: TokenProvider,
+    shared: WebsetsApiClientShared = {}
   ) {
     this.config = config;
     this.clientConfig = clientConfig;
     this.tokenProvider = tokenProvider;
+    this.idempotencyLedger = shared.idempotencyLedger;
+
+    // Record or replay through a cassette when configured, shared with every client using the same file
+    if (config.cassette) {
+      this.cassette = getSharedCassette(config.cassette);
+    }
 
     // Initialize HTTP client without auth header
     this.httpClient = axios.create({
@@ -43,6 +92,7 @@ export class WebsetsApiClient {
         'User-Agent': clientConfig.userAgent,
         ...clientConfig.defaultHeaders,
       },
+      ...(this.cassette && { adapter: this.cassette.createAdapter() }),
     });
 
     // Add request interceptor to inject auth header
@@ -60,17 +110,22 @@ export class WebsetsApiClient {
       (error) => Promise.reject(error)
     );
 
-    // Initialize rate limiter
-    this.rateLimiter = new RateLimiter({
-      requestsPerSecond: config.rateLimit,
+    // Initialize rate limiter, unless one is shared with other clients
+    this.rateLimiter = shared.rateLimiter ?? new AdaptiveRateLimiter({
+      read: { requestsPerSecond: config.rateLimit },
+      write: { requestsPerSecond: config.writeRateLimit ?? config.rateLimit },
     });
 
-    // Initialize circuit breaker
-    this.circuitBreaker = new CircuitBreaker(
+    // Initialize circuit breakers, one per endpoint family
+    this.circuitBreakers = shared.circuitBreakers ?? new CircuitBreakerRegistry(
       config.circuitBreakerThreshold,
       config.circuitBreakerTimeout
     );
 
+    // Initialize the response cache, unless one is shared with other clients
+    this.responseCache = shared.responseCache ?? new ResponseCache();
+    this.requestCoalescer = shared.requestCoalescer ?? new RequestCoalescer();
+
     // Setup request/response interceptors
     this.setupInterceptors();
 
@@ -140,50 +195,198 @@ export class WebsetsApiClient {
    * Core request method with retry logic and error handling
    */
   private async request<T>(requestOptions: RequestOptions): Promise<ApiResponse<T>> {
-    const { retries = this.config.retryAttempts, ...options } = requestOptions;
+    const { retries = this.config.retryAttempts, idempotencyKey, ...options } = requestOptions;
+
+    if (MUTATING_METHODS.has(options.method)) {
+      try {
+        return await this.requestIdempotently<T>(options, retries, idempotencyKey);
+      } finally {
+        // Even a failed request may have changed the resource
+        this.getResponseCache()?.invalidatePath(options.url);
+      }
+    }
     
-    return this.circuitBreaker.execute(async () => {
-      return this.executeRequestWithRetry<T>(options, retries);
-    });
+    return this.requestCached<T>(options, retries);
+  }
+
+  /**
+   * Send a GET request, answering from the response cache while the cached response is fresh
+   * Stale responses with an ETag are revalidated with If-None-Match; a 304
+   * returns the cached response. Identical GETs sent while one is in flight
+   * share its request, including its timeout and retries.
+   */
+  private async requestCached<T>(
+    options: Omit<RequestOptions, 'retries' | 'idempotencyKey'>,
+    retries: number
+  ): Promise<ApiResponse<T>> {
+    const cache = this.getResponseCache();
+    const cached = cache?.lookup<T>(options.url, options.params);
+    if (cached?.fresh) {
+      return cached.response;
+    }
+
+    const fetchResponse = async (): Promise<ApiResponse<T>> => {
+      const headers = cached?.etag ? { ...options.headers, 'If-None-Match': cached.etag } : options.headers;
+      const response = await this.executeWithCircuitBreaker<T>({ ...options, headers }, retries);
+
+      if (response.status === 304 && cached) {
+        return cache!.revalidated<T>(options.url, options.params) ?? cached.response;
+      }
+      cache?.store(options.url, options.params, response);
+      return response;
+    };
+
+    // Replay must see every request the recording made
+    return this.cassette ? fetchResponse() : this.requestCoalescer.run(options.url, options.params, fetchResponse);
+  }
+
+  /**
+   * Response cache for GET requests
+   * Cassettes bypass it so recording and replay see every request.
+   */
+  private getResponseCache(): ResponseCache | undefined {
+    return this.cassette || !this.responseCache.enabled ? undefined : this.responseCache;
+  }
+
+  /**
+   * Send a mutating request with an idempotency key that stays the same across retries
+   * Every call gets a new key. Requests that create resources are recorded in
+   * the ledger until they are answered: one interrupted by a crash, or failed
+   * without a definite answer such as a timeout, is resent with the same key
+   * when it is repeated, so the API returns the resource it may already have
+   * created. Answered requests are never replayed to later calls.
+   */
+  private async requestIdempotently<T>(
+    options: Omit<RequestOptions, 'retries' | 'idempotencyKey'>,
+    retries: number,
+    idempotencyKey?: string
+  ): Promise<ApiResponse<T>> {
+    const creates = options.method === 'POST' && CREATE_ENDPOINTS.some(pattern => pattern.test(options.url));
+    const ledger = creates ? this.getIdempotencyLedger() : undefined;
+
+    let key = idempotencyKey ?? randomUUID();
+    if (ledger) {
+      // Scoped to the API key, so a request is never resumed for another key
+      const fingerprint = createRequestFingerprint(
+        hashApiKey(this.tokenProvider.getToken()), this.config.baseUrl, options.method, options.url, options.params, options.data
+      );
+      key = await ledger.begin(fingerprint, options.method, options.url, idempotencyKey);
+    }
+
+    let outcomeUnknown = false;
+    let response: ApiResponse<T>;
+    try {
+      response = await this.executeWithCircuitBreaker<T>({
+        ...options,
+        headers: { ...options.headers, 'Idempotency-Key': key },
+      }, retries, errorType => {
+        // Only failures of the service leave open whether the request was carried out
+        outcomeUnknown = ApiErrorHandler.isServiceFailure(errorType);
+      });
+    } catch (error) {
+      await ledger?.fail(key, outcomeUnknown);
+      throw error;
+    }
+    await ledger?.complete(key);
+
+    // Requests inside a deleted resource can no longer be resumed
+    const resourceId = options.url.split('/').filter(Boolean).pop();
+    if (options.method === 'DELETE' && resourceId) {
+      await this.getIdempotencyLedger()?.forgetResource(decodeURIComponent(resourceId));
+    }
+
+    return response;
+  }
+
+  /**
+   * Ledger for mutating requests
+   * Cassettes bypass it so recording and replay see every request.
+   */
+  private getIdempotencyLedger(): IdempotencyLedger | undefined {
+    if (this.cassette) {
+      return undefined;
+    }
+    if (!this.idempotencyLedger) {
+      this.idempotencyLedger = getIdempotencyLedger();
+    }
+    return this.idempotencyLedger;
+  }
+
+  /**
+   * Execute request with retry logic, through the circuit breaker for its endpoint family
+   * Only failures of the service itself count against the breaker, so requests
+   * for unknown IDs do not block the endpoints for everyone else.
+   * @param onError Called with the type of each failed attempt's error
+   */
+  private executeWithCircuitBreaker<T>(
+    options: Omit<RequestOptions, 'retries'>,
+    maxRetries: number,
+    onError?: (errorType: ApiErrorType) => void
+  ): Promise<ApiResponse<T>> {
+    let errorType: ApiErrorType | undefined;
+    return this.circuitBreakers.execute(
+      options.url,
+      () => this.executeRequestWithRetry<T>(options, maxRetries, type => {
+        errorType = type;
+        onError?.(type);
+      }),
+      () => errorType !== undefined && ApiErrorHandler.isServiceFailure(errorType)
+    );
   }
 
   /**
    * Execute request with retry logic
+   * @param onError Called with the type of each failed attempt's error
    */
-  private async executeRequestWithRetry<T>(options: Omit<RequestOptions, 'retries'>, maxRetries: number): Promise<ApiResponse<T>> {
+  private async executeRequestWithRetry<T>(
+    options: Omit<RequestOptions, 'retries'>,
+    maxRetries: number,
+    onError?: (errorType: ApiErrorType) => void
+  ): Promise<ApiResponse<T>> {
     let lastError: ApiError | null = null;
+    const bucket = AdaptiveRateLimiter.bucketFor(options.method);
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        // Wait for rate limiter
-        await this.rateLimiter.waitForToken();
-
-        // Make the request
-        const response = await this.httpClient.request({
-          method: options.method,
-          url: options.url,
-          data: options.data,
-          params: options.params,
-          headers: options.headers,
-          timeout: options.timeout || this.config.timeout,
-        });
-
-        return this.createApiResponse<T>(response);
+        return await this.sendAttempt<T>(options, bucket, attempt);
       } catch (error) {
-        const apiError = ApiErrorHandler.createApiError(error);
+        // Replay mismatches are never retried
+        if (error instanceof CassetteMismatchError) {
+          throw error;
+        }
+
+        let apiError = ApiErrorHandler.createApiError(error);
+        const errorType = ApiErrorHandler.classify(error);
+        onError?.(errorType);
+        const rateLimit = this.rateLimiter.observe(bucket, (error as { response?: AxiosResponse })?.response?.headers);
+
+        // Tell the caller how long to wait, as reported by the API or else our own backoff
+        if (errorType === ApiErrorType.RATE_LIMIT) {
+          const waitMs = Math.max(rateLimit.retryAfterMs ?? 0, this.rateLimiter.getPauseRemaining()) ||
+            ApiErrorHandler.getRetryDelay(attempt, errorType, this.config.retryDelay, this.config.maxRetryDelay);
+          apiError = ApiErrorHandler.withRetryAfter(apiError, Math.ceil(waitMs / 1000));
+        }
         lastError = apiError;
 
         // Log the error
         ApiErrorHandler.logError(apiError, `Attempt ${attempt + 1}/${maxRetries + 1}`);
 
-        // Check if we should retry
-        const errorType = ApiErrorHandler.classify(error);
-        const shouldRetry = ApiErrorHandler.shouldRetry(errorType) && attempt < maxRetries;
+        // Check if we should retry; waits longer than a retry delay are left to the caller
+        const pauseMs = this.rateLimiter.getPauseRemaining();
+        const shouldRetry = ApiErrorHandler.shouldRetry(errorType) &&
+          attempt < maxRetries &&
+          pauseMs <= this.config.maxRetryDelay;
 
         if (!shouldRetry) {
           break;
         }
 
+        // The rate limiter holds requests until the pause the API asked for is over
+        if (pauseMs > 0) {
+          log(`Retrying after the API's ${Math.ceil(pauseMs / 1000)}s rate limit pause...`);
+          continue;
+        }
+
         // Calculate retry delay
         const delay = ApiErrorHandler.getRetryDelay(
           attempt,
@@ -201,6 +404,51 @@ export class WebsetsApiClient {
     throw lastError;
   }
 
+  /**
+   * Send one attempt of a request, waiting for the rate limiter first
+   * Each attempt gets its own span, with the rate limiter wait as a child span.
+   */
+  private sendAttempt<T>(options: Omit<RequestOptions, 'retries'>, bucket: RateLimitBucket, attempt: number): Promise<ApiResponse<T>> {
+    return withSpan(`${options.method} ${normalizeEndpoint(options.url)}`, {
+      'http.request.method': options.method,
+      'url.path': options.url,
+      'websets.attempt': attempt + 1,
+    }, async span => {
+      // Wait for rate limiter
+      const waitStartedAt = Date.now();
+      await withSpan('rate limiter wait', { 'websets.rate_limit_bucket': bucket }, () => this.rateLimiter.waitForToken(bucket));
+      span.setAttribute('websets.rate_limiter_wait_ms', Date.now() - waitStartedAt);
+      this.recordMetrics(metrics => metrics.recordRateLimiterWait(bucket, (Date.now() - waitStartedAt) / 1000));
+
+      // Make the request
+      const requestStartedAt = Date.now();
+      const response = await this.httpClient.request({
+        method: options.method,
+        url: options.url,
+        data: options.data,
+        params: options.params,
+        headers: options.headers,
+        timeout: options.timeout || this.config.timeout,
+        // A revalidated response may come back as 304 Not Modified
+        ...(options.headers?.['If-None-Match'] && {
+          validateStatus: (status: number) => (status >= 200 && status < 300) || status === 304,
+        }),
+      }).catch(error => {
+        const status = (error as { response?: AxiosResponse })?.response?.status ?? 'error';
+        if (status !== 'error') {
+          span.setAttribute('http.response.status_code', status);
+        }
+        this.recordMetrics(metrics => metrics.recordApiRequest(options.method, options.url, status, (Date.now() - requestStartedAt) / 1000));
+        throw error;
+      });
+
+      span.setAttribute('http.response.status_code', response.status);
+      this.recordMetrics(metrics => metrics.recordApiRequest(options.method, options.url, response.status, (Date.now() - requestStartedAt) / 1000));
+      this.rateLimiter.observe(bucket, response.headers);
+      return this.createApiResponse<T>(response);
+    });
+  }
+
   /**
    * Create standardized API response
    */
@@ -250,16 +498,27 @@ export class WebsetsApiClient {
     );
   }
 
+  /**
+   * Get the base URL of the API this client talks to
+   */
+  getBaseUrl(): string {
+    return this.config.baseUrl;
+  }
+
   /**
    * Get client statistics
    */
   getStats(): {
-    rateLimiter: ReturnType<RateLimiter['getStats']>;
-    circuitBreaker: ReturnType<CircuitBreaker['getState']>;
+    rateLimiter: ReturnType<AdaptiveRateLimiter['getStats']>;
+    circuitBreakers: Record<string, ReturnType<CircuitBreaker['getState']>>;
+    responseCache: ReturnType<ResponseCache['getStats']>;
+    requestCoalescer: ReturnType<RequestCoalescer['getStats']>;
   } {
     return {
       rateLimiter: this.rateLimiter.getStats(),
-      circuitBreaker: this.circuitBreaker.getState(),
+      circuitBreakers: this.circuitBreakers.getStates(),
+      responseCache: this.responseCache.getStats(),
+      requestCoalescer: this.requestCoalescer.getStats(),
     };
   }
 
@@ -271,8 +530,11 @@ export class WebsetsApiClient {
     this.config = { ...this.config, ...config };
 
     // Update rate limiter if needed
-    if (config.rateLimit !== undefined) {
-      this.rateLimiter.updateOptions({ requestsPerSecond: config.rateLimit });
+    if (config.rateLimit !== undefined || config.writeRateLimit !== undefined) {
+      this.rateLimiter.updateOptions({
+        ...(config.rateLimit !== undefined && { read: { requestsPerSecond: config.rateLimit } }),
+        write: { requestsPerSecond: this.config.writeRateLimit ?? this.config.rateLimit },
+      });
     }
 
     // Update HTTP client timeout if needed
@@ -283,15 +545,31 @@ export class WebsetsApiClient {
     log('WebsetsApiClient configuration updated');
   }
 
+  /**
+   * Wait for recorded cassette interactions to be written
+   */
+  async flushCassette(): Promise<void> {
+    await this.cassette?.flush();
+  }
+
   /**
    * Reset client state (rate limiter, circuit breaker)
    */
   reset(): void {
     this.rateLimiter.reset();
-    this.circuitBreaker.reset();
+    this.circuitBreakers.reset();
     log('WebsetsApiClient state reset');
   }
 
+  /**
+   * Record metrics when enabled for this client
+   */
+  private recordMetrics(record: (metrics: WebsetsMetrics) => void): void {
+    if (this.clientConfig.enableMetrics) {
+      record(getMetrics());
+    }
+  }
+
   /**
    * Sleep for specified milliseconds
    */
@@ -5,8 +5,22 @@
  */
 
 export { WebsetsApiClient } from './WebsetsApiClient.js';
+export type { WebsetsApiClientShared } from './WebsetsApiClient.js';
 export { ApiErrorHandler } from './ErrorHandler.js';
-export { RateLimiter, CircuitBreaker } from './RateLimiter.js';
+export {
+  RateLimiter,
+  AdaptiveRateLimiter,
+  CircuitBreaker,
+  CircuitBreakerOpenError,
+  CircuitBreakerRegistry,
+  getSharedRateLimiter,
+  getSharedCircuitBreakers,
+  parseRateLimitHeaders
+} from './RateLimiter.js';
+export { Cassette, CassetteMismatchError, getSharedCassette } from './Cassette.js';
+export { ResponseCache, getSharedResponseCache } from './ResponseCache.js';
+export type { ResponseCacheConfig, CachedResponse } from './ResponseCache.js';
+export { RequestCoalescer, getSharedRequestCoalescer } from './RequestCoalescer.js';
 
 // Re-export types for convenience
 export type {
@@ -19,5 +33,6 @@ export type {
 
 export type {
   WebsetsConfig,
-  ApiClientConfig
+  ApiClientConfig,
+  CassetteConfig
 } from '../config/websets.js';
\ No newline at end of file
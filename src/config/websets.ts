@@ -20,6 +20,8 @@ export interface WebsetsConfig {
   maxRetryDelay: number;
   /** Rate limit requests per second */
   rateLimit: number;
+  /** Rate limit for write requests per second (defaults to rateLimit) */
+  writeRateLimit?: number;
   /** Circuit breaker failure threshold */
   circuitBreakerThreshold: number;
   /** Circuit breaker timeout in milliseconds */
@@ -28,6 +30,8 @@ export interface WebsetsConfig {
   events?: EventSystemConfig;
   /** Webhook system configuration */
   webhooks?: WebhookSystemConfig;
+  /** Record/replay cassette configuration (requests go to the API when unset) */
+  cassette?: CassetteConfig;
 }
 
 /**
@@ -74,6 +78,16 @@ export interface WebhookSystemConfig {
   secret?: string;
 }
 
+/**
+ * Record/replay cassette configuration
+ */
+export interface CassetteConfig {
+  /** Record real responses to the cassette, or replay them without calling the API */
+  mode: 'record' | 'replay';
+  /** Path of the cassette file */
+  path: string;
+}
+
 export interface ApiClientConfig {
   /** User agent string for requests */
   userAgent: string;
@@ -95,6 +109,7 @@ const DEFAULT_CONFIG: Omit<WebsetsConfig, 'apiKey'> = {
   retryDelay: 1000, // 1 second
   maxRetryDelay: 10000, // 10 seconds
   rateLimit: 10, // 10 requests per second
+  writeRateLimit: 5, // 5 write requests per second
   circuitBreakerThreshold: 5,
   circuitBreakerTimeout: 60000, // 1 minute
   events: {
@@ -145,6 +160,7 @@ export function createWebsetsConfig(): WebsetsConfig {
     retryDelay: parseInt(process.env.WEBSETS_RETRY_DELAY || String(DEFAULT_CONFIG.retryDelay), 10),
     maxRetryDelay: parseInt(process.env.WEBSETS_MAX_RETRY_DELAY || String(DEFAULT_CONFIG.maxRetryDelay), 10),
     rateLimit: parseInt(process.env.WEBSETS_RATE_LIMIT || String(DEFAULT_CONFIG.rateLimit), 10),
+    writeRateLimit: parseInt(process.env.WEBSETS_WRITE_RATE_LIMIT || String(DEFAULT_CONFIG.writeRateLimit), 10),
     circuitBreakerThreshold: parseInt(process.env.WEBSETS_CIRCUIT_BREAKER_THRESHOLD || String(DEFAULT_CONFIG.circuitBreakerThreshold), 10),
     circuitBreakerTimeout: parseInt(process.env.WEBSETS_CIRCUIT_BREAKER_TIMEOUT || String(DEFAULT_CONFIG.circuitBreakerTimeout), 10),
     events: {
@@ -167,6 +183,27 @@ export function createWebsetsConfig(): WebsetsConfig {
       validateSignatures: process.env.WEBSETS_WEBHOOKS_VALIDATE_SIGNATURES !== 'false' && DEFAULT_CONFIG.webhooks!.validateSignatures,
       secret: process.env.WEBSETS_WEBHOOKS_SECRET,
     },
+    cassette: createCassetteConfig(),
+  };
+}
+
+/**
+ * Create cassette configuration from WEBSETS_CASSETTE_MODE and WEBSETS_CASSETTE_PATH
+ * @returns The cassette configuration, or undefined when recording and replay are off
+ */
+export function createCassetteConfig(): CassetteConfig | undefined {
+  const mode = process.env.WEBSETS_CASSETTE_MODE;
+  if (!mode || mode === 'off') {
+    return undefined;
+  }
+
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`WEBSETS_CASSETTE_MODE must be "record", "replay" or "off", got "${mode}"`);
+  }
+
+  return {
+    mode,
+    path: process.env.WEBSETS_CASSETTE_PATH || 'websets.cassette.json',
   };
 }
 
@@ -13,7 +13,8 @@ import {
   EventProcessorConfig,
   EventProcessingResult,
   EventProcessorStats,
-  DEFAULT_EVENT_SYSTEM_CONFIG 
+  DEFAULT_EVENT_SYSTEM_CONFIG,
+  ALL_EVENT_TYPES
 } from './EventTypes.js';
 
 /**
@@ -24,20 +25,7 @@ export class DefaultEventHandlerRegistry implements EventHandlerRegistry {
 
   register(handler: EventHandler): void {
     // Register handler for all event types it can handle
-    const allEventTypes: EventType[] = [
-      'webset.created',
-      'webset.deleted',
-      'webset.idle',
-      'webset.paused',
-      'webset.item.created',
-      'webset.item.enriched',
-      'webset.search.created',
-      'webset.search.updated',
-      'webset.search.canceled',
-      'webset.search.completed',
-    ];
-
-    for (const eventType of allEventTypes) {
+    for (const eventType of ALL_EVENT_TYPES) {
       // Create a mock event to test canHandle
       const mockEvent = {
         id: 'test',
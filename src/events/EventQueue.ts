@@ -16,6 +16,7 @@ import {
   getEventPriority,
   EventType
 } from './EventTypes.js';
+import { getMetrics } from '../metrics/WebsetsMetrics.js';
 
 /**
  * Thread-safe event queue with retry logic and statistics
@@ -47,6 +48,7 @@ export class EventQueue extends EventEmitter {
     super();
     this.config = { ...DEFAULT_EVENT_SYSTEM_CONFIG.queue, ...config };
     this.startProcessing();
+    getMetrics().registerEventQueue(this);
   }
 
   /**
@@ -319,6 +321,7 @@ export class EventQueue extends EventEmitter {
       console.warn(`Queue shutdown with ${this.processing.size} events still processing`);
     }
 
+    getMetrics().unregister(this);
     this.emit('shutdown');
   }
 
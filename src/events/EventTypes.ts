@@ -55,6 +55,28 @@ export interface ItemEventData extends BaseEventData {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Import-related event data
+ */
+export interface ImportEventData extends BaseEventData {
+  importId: string;
+  importStatus?: 'pending' | 'processing' | 'completed' | 'failed';
+  count?: number;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Monitor-related event data
+ */
+export interface MonitorEventData extends BaseEventData {
+  monitorId: string;
+  websetId?: string;
+  monitorStatus?: 'enabled' | 'disabled';
+  runId?: string;
+  runStatus?: 'created' | 'running' | 'completed' | 'canceled' | 'failed';
+  metadata?: Record<string, any>;
+}
+
 /**
  * Event data type mapping
  */
@@ -69,6 +91,13 @@ export interface EventDataMap {
   'webset.search.canceled': SearchEventData;
   'webset.item.created': ItemEventData;
   'webset.item.enriched': ItemEventData;
+  'import.created': ImportEventData;
+  'import.completed': ImportEventData;
+  'monitor.created': MonitorEventData;
+  'monitor.updated': MonitorEventData;
+  'monitor.deleted': MonitorEventData;
+  'monitor.run.created': MonitorEventData;
+  'monitor.run.completed': MonitorEventData;
 }
 
 /**
@@ -261,6 +290,17 @@ export function getEventPriority(eventType: EventType): EventPriority {
     case 'webset.item.enriched':
       return EventPriority.NORMAL;
     
+    case 'import.created':
+    case 'import.completed':
+      return EventPriority.NORMAL;
+    
+    case 'monitor.created':
+    case 'monitor.updated':
+    case 'monitor.deleted':
+    case 'monitor.run.created':
+    case 'monitor.run.completed':
+      return EventPriority.NORMAL;
+    
     case 'webset.idle':
     case 'webset.paused':
       return EventPriority.LOW;
@@ -274,20 +314,37 @@ export function getEventPriority(eventType: EventType): EventPriority {
  * Validate event type
  */
 export function isValidEventType(eventType: string): eventType is EventType {
-  const validTypes: EventType[] = [
-    'webset.created',
-    'webset.deleted',
-    'webset.idle',
-    'webset.paused',
-    'webset.search.created',
-    'webset.search.updated',
-    'webset.search.completed',
-    'webset.search.canceled',
-    'webset.item.created',
-    'webset.item.enriched',
-  ];
-  
-  return validTypes.includes(eventType as EventType);
+  return ALL_EVENT_TYPES.includes(eventType as EventType);
+}
+
+/**
+ * Get the webset an event belongs to
+ * 
+ * Webset lifecycle events carry the webset itself as data, while search and
+ * item events reference it through websetId, as do monitors. Import and
+ * monitor run events belong to no webset.
+ */
+export function getEventWebsetId(event: { data?: any }): string | undefined {
+  const data = event.data;
+  if (!data || typeof data !== 'object') {
+    return undefined;
+  }
+  if (typeof data.websetId === 'string') {
+    return data.websetId;
+  }
+  if (data.object === 'webset' && typeof data.id === 'string') {
+    return data.id;
+  }
+  return undefined;
+}
+
+/**
+ * Whether an event changes a webset its payload does not name
+ * Monitor runs search the webset of their monitor, which the run only
+ * references through monitorId.
+ */
+export function changesUnnamedWebset(event: { type: string }): boolean {
+  return event.type === 'monitor.run.created' || event.type === 'monitor.run.completed';
 }
 
 /**
@@ -313,8 +370,15 @@ export const EVENT_CATEGORIES = {
   WEBSET: ['webset.created', 'webset.deleted', 'webset.idle', 'webset.paused'] as EventType[],
   SEARCH: ['webset.search.created', 'webset.search.updated', 'webset.search.completed', 'webset.search.canceled'] as EventType[],
   ITEM: ['webset.item.created', 'webset.item.enriched'] as EventType[],
+  IMPORT: ['import.created', 'import.completed'] as EventType[],
+  MONITOR: ['monitor.created', 'monitor.updated', 'monitor.deleted', 'monitor.run.created', 'monitor.run.completed'] as EventType[],
 } as const;
 
+/**
+ * Every event type, across all categories
+ */
+export const ALL_EVENT_TYPES: EventType[] = Object.values(EVENT_CATEGORIES).flat();
+
 /**
  * Get event category
  */
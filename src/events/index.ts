@@ -26,6 +26,8 @@ export type {
   WebsetEventData,
   SearchEventData,
   ItemEventData,
+  ImportEventData,
+  MonitorEventData,
   EventDataMap,
   EventProcessingResult,
   HandlerResult,
@@ -0,0 +1,431 @@
+/**
+ * Item Exporter
+ *
+ * Flattens webset items into rows with selectable columns (including
+ * enrichment values) and serializes them as CSV, JSON, NDJSON, Parquet or
+ * XLSX. Large and binary exports are written to a local export directory
+ * instead of being inlined.
+ */
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { WebsetEnrichment, WebsetItem } from "../types/websets.js";
+import { writeParquet, writeXlsx } from "./typedWriters.js";
+
+/**
+ * Supported export formats
+ */
+export const EXPORT_FORMATS = ["csv", "json", "ndjson", "parquet", "xlsx"] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * Formats that produce binary output and are always written to a file
+ */
+export const BINARY_EXPORT_FORMATS: readonly ExportFormat[] = ["parquet", "xlsx"];
+
+/**
+ * MIME types for each export format
+ */
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+  parquet: "application/vnd.apache.parquet",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Prefix used for enrichment value columns
+ */
+export const ENRICHMENT_COLUMN_PREFIX = "enrichment_";
+
+/**
+ * Built-in item columns and how to read them
+ */
+const ITEM_COLUMNS: Record<string, (item: WebsetItem) => unknown> = {
+  id: item => item.id,
+  title: item => item.title,
+  url: item => item.url,
+  content: item => item.content,
+  entity_type: item => item.entity?.type,
+  verification_status: item => item.verification?.status,
+  verification_reasoning: item => item.verification?.reasoning,
+  verification_references: item => item.verification?.references,
+  search_id: item => item.searchId,
+  created_at: item => item.createdAt,
+  updated_at: item => item.updatedAt,
+};
+
+/**
+ * Names of the built-in item columns
+ */
+export const ITEM_EXPORT_COLUMNS = Object.keys(ITEM_COLUMNS);
+
+/**
+ * Columns exported when none are selected (enrichment columns are appended)
+ */
+export const DEFAULT_EXPORT_COLUMNS = [
+  "id",
+  "title",
+  "url",
+  "entity_type",
+  "verification_status",
+  "verification_reasoning",
+  "search_id",
+  "created_at",
+  "updated_at",
+];
+
+/**
+ * Item exporter configuration
+ */
+export interface ItemExporterConfig {
+  /** Directory large exports are written to */
+  directory: string;
+  /** Maximum number of rows returned inline */
+  inlineMaxItems: number;
+  /** Maximum serialized size in bytes returned inline */
+  inlineMaxBytes: number;
+}
+
+/**
+ * Default item exporter configuration
+ */
+const DEFAULT_ITEM_EXPORTER_CONFIG: ItemExporterConfig = {
+  directory: process.env.WEBSETS_EXPORT_DIR || path.join(os.tmpdir(), "exa-websets-exports"),
+  inlineMaxItems: 100,
+  inlineMaxBytes: 50_000,
+};
+
+/**
+ * Options for building an export
+ */
+export interface ItemExportOptions {
+  /** Output format */
+  format: ExportFormat;
+  /** Columns to include; defaults to DEFAULT_EXPORT_COLUMNS plus all enrichment columns */
+  columns?: string[];
+  /** Enrichment definitions of the webset, used to describe enrichment columns */
+  enrichments?: WebsetEnrichment[];
+}
+
+/**
+ * Description of an enrichment column
+ */
+export interface EnrichmentColumn {
+  column: string;
+  enrichmentId: string;
+  description?: string;
+  format?: WebsetEnrichment["format"];
+}
+
+/**
+ * Items flattened into rows, before serialization
+ */
+export interface ExportTable {
+  columns: string[];
+  enrichmentColumns: EnrichmentColumn[];
+  rows: Record<string, unknown>[];
+  items: WebsetItem[];
+}
+
+/**
+ * A serialized export
+ */
+export interface ItemExport {
+  format: ExportFormat;
+  mimeType: string;
+  columns: string[];
+  enrichmentColumns: EnrichmentColumn[];
+  itemCount: number;
+  /** Text for csv, json and ndjson; binary for parquet and xlsx */
+  content: string | Buffer;
+  bytes: number;
+}
+
+/**
+ * Contents of a previously written export, shaped like MCP resource contents
+ */
+export interface ExportContents {
+  mimeType: string;
+  /** Text content of csv, json and ndjson exports */
+  text?: string;
+  /** Base64-encoded content of parquet and xlsx exports */
+  blob?: string;
+}
+
+/**
+ * An export written to disk
+ */
+export interface ExportFile {
+  fileName: string;
+  path: string;
+  bytes: number;
+}
+
+/**
+ * Read enrichment values of an item keyed by enrichment ID
+ * Accepts both the keyed shape and the API's array of enrichment results.
+ */
+export function getItemEnrichmentValues(item: WebsetItem): Record<string, unknown> {
+  const enrichments: unknown = item.enrichments;
+  const values: Record<string, unknown> = {};
+
+  if (Array.isArray(enrichments)) {
+    for (const result of enrichments) {
+      if (result?.enrichmentId) {
+        values[result.enrichmentId] = normalizeEnrichmentValue(result);
+      }
+    }
+  } else if (enrichments && typeof enrichments === "object") {
+    for (const [key, value] of Object.entries(enrichments)) {
+      values[key] = normalizeEnrichmentValue(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Reduce an enrichment result to its value
+ */
+function normalizeEnrichmentValue(value: any): unknown {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    if ("result" in value) {
+      return unwrapSingle(value.result);
+    }
+    if ("value" in value) {
+      return unwrapSingle(value.value);
+    }
+  }
+  return unwrapSingle(value);
+}
+
+/**
+ * Unwrap single-element arrays so scalar enrichments export as scalars
+ */
+function unwrapSingle(value: unknown): unknown {
+  return Array.isArray(value) && value.length === 1 ? value[0] : value;
+}
+
+/**
+ * Make a webset ID safe to use in a file name
+ */
+function toSafeId(websetId: string): string {
+  return websetId.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * Exporter for webset items
+ */
+export class ItemExporter {
+  private readonly config: ItemExporterConfig;
+
+  constructor(config: Partial<ItemExporterConfig> = {}) {
+    this.config = { ...DEFAULT_ITEM_EXPORTER_CONFIG, ...config };
+  }
+
+  /**
+   * Build and serialize an export
+   * @param items The items to export
+   * @param options Format, columns and enrichment definitions
+   * @returns The serialized export
+   */
+  async export(items: WebsetItem[], options: ItemExportOptions): Promise<ItemExport> {
+    const table = this.buildTable(items, options);
+    const content = await this.serialize(options.format, table);
+
+    return {
+      format: options.format,
+      mimeType: EXPORT_MIME_TYPES[options.format],
+      columns: table.columns,
+      enrichmentColumns: table.enrichmentColumns,
+      itemCount: items.length,
+      content,
+      bytes: typeof content === "string" ? Buffer.byteLength(content, "utf8") : content.length,
+    };
+  }
+
+  /**
+   * Flatten items into rows with the selected columns
+   * @param items The items to export
+   * @param options Columns and enrichment definitions
+   * @returns The rows and column descriptions
+   */
+  buildTable(items: WebsetItem[], options: Omit<ItemExportOptions, "format">): ExportTable {
+    const { columns, enrichmentColumns } = this.resolveColumns(items, options);
+    const rows = items.map(item => this.buildRow(item, columns));
+
+    return { columns, enrichmentColumns, rows, items };
+  }
+
+  /**
+   * Whether an export can be returned inline
+   */
+  shouldInline(result: ItemExport): boolean {
+    return typeof result.content === "string" &&
+      result.itemCount <= this.config.inlineMaxItems &&
+      result.bytes <= this.config.inlineMaxBytes;
+  }
+
+  /**
+   * Write an export to the export directory
+   * @param websetId The exported webset
+   * @param result The serialized export
+   * @returns The written file
+   */
+  async writeToFile(websetId: string, result: ItemExport): Promise<ExportFile> {
+    await fs.mkdir(this.config.directory, { recursive: true });
+
+    const safeId = toSafeId(websetId);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const fileName = `${safeId}-${timestamp}.${result.format}`;
+    const filePath = path.join(this.config.directory, fileName);
+
+    await fs.writeFile(filePath, result.content);
+
+    return { fileName, path: filePath, bytes: result.bytes };
+  }
+
+  /**
+   * Read a previously written export of a webset
+   * @param websetId The exported webset
+   * @param fileName Name of the file within the export directory
+   * @returns The file content and its MIME type
+   */
+  async readExport(websetId: string, fileName: string): Promise<ExportContents> {
+    if (fileName !== path.basename(fileName)) {
+      throw new Error(`Invalid export file name: ${fileName}`);
+    }
+    // File names start with the webset ID followed by the timestamp of the export
+    const prefix = `${toSafeId(websetId)}-`;
+    if (!fileName.startsWith(prefix) || !/^\d{4}-/.test(fileName.slice(prefix.length))) {
+      throw new Error(`Export ${fileName} does not belong to webset ${websetId}`);
+    }
+
+    const format = path.extname(fileName).slice(1) as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new Error(`Unknown export format for file: ${fileName}`);
+    }
+
+    const content = await fs.readFile(path.join(this.config.directory, fileName));
+    const mimeType = EXPORT_MIME_TYPES[format];
+
+    return BINARY_EXPORT_FORMATS.includes(format)
+      ? { mimeType, blob: content.toString("base64") }
+      : { mimeType, text: content.toString("utf8") };
+  }
+
+  /**
+   * Work out which columns to export and describe enrichment columns
+   */
+  private resolveColumns(
+    items: WebsetItem[],
+    options: Omit<ItemExportOptions, "format">
+  ): { columns: string[]; enrichmentColumns: EnrichmentColumn[] } {
+    const enrichmentIds = new Set<string>((options.enrichments || []).map(enrichment => enrichment.id));
+    for (const item of items) {
+      Object.keys(getItemEnrichmentValues(item)).forEach(id => enrichmentIds.add(id));
+    }
+
+    const available = [
+      ...ITEM_EXPORT_COLUMNS,
+      ...Array.from(enrichmentIds).map(id => `${ENRICHMENT_COLUMN_PREFIX}${id}`),
+    ];
+
+    let columns: string[];
+    if (options.columns && options.columns.length > 0) {
+      const unknown = options.columns.filter(column => !available.includes(column));
+      if (unknown.length > 0) {
+        throw new Error(
+          `Unknown export columns: ${unknown.join(", ")}. Available columns: ${available.join(", ")}`
+        );
+      }
+      columns = options.columns;
+    } else {
+      columns = [
+        ...DEFAULT_EXPORT_COLUMNS,
+        ...available.filter(column => column.startsWith(ENRICHMENT_COLUMN_PREFIX)),
+      ];
+    }
+
+    const enrichmentColumns = columns
+      .filter(column => column.startsWith(ENRICHMENT_COLUMN_PREFIX))
+      .map(column => {
+        const enrichmentId = column.slice(ENRICHMENT_COLUMN_PREFIX.length);
+        const enrichment = options.enrichments?.find(e => e.id === enrichmentId);
+        return {
+          column,
+          enrichmentId,
+          ...(enrichment && {
+            description: enrichment.description,
+            format: enrichment.format,
+          }),
+        };
+      });
+
+    return { columns, enrichmentColumns };
+  }
+
+  /**
+   * Build a row for an item
+   */
+  private buildRow(item: WebsetItem, columns: string[]): Record<string, unknown> {
+    const enrichmentValues = getItemEnrichmentValues(item);
+    const row: Record<string, unknown> = {};
+
+    for (const column of columns) {
+      const value = column.startsWith(ENRICHMENT_COLUMN_PREFIX)
+        ? enrichmentValues[column.slice(ENRICHMENT_COLUMN_PREFIX.length)]
+        : ITEM_COLUMNS[column](item);
+      row[column] = value ?? null;
+    }
+
+    return row;
+  }
+
+  /**
+   * Serialize a table in the requested format
+   */
+  private async serialize(format: ExportFormat, table: ExportTable): Promise<string | Buffer> {
+    const { columns, rows } = table;
+
+    switch (format) {
+      case "json":
+        return JSON.stringify(rows, null, 2);
+      case "ndjson":
+        return rows.map(row => JSON.stringify(row)).join("\n");
+      case "csv":
+        return [
+          columns.join(","),
+          ...rows.map(row => columns.map(column => this.toCsvValue(row[column])).join(",")),
+        ].join("\n");
+      case "parquet":
+        return writeParquet(table);
+      case "xlsx":
+        return writeXlsx(table);
+    }
+  }
+
+  /**
+   * Convert a value to an escaped CSV field
+   */
+  private toCsvValue(value: unknown): string {
+    if (value === null || value === undefined) {
+      return "";
+    }
+
+    const text = Array.isArray(value)
+      ? value.map(entry => (typeof entry === "object" ? JSON.stringify(entry) : String(entry))).join("; ")
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+
+    if (/[",\n\r]/.test(text)) {
+      return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Export Exports
+ *
+ * Serialization of webset items into downloadable formats.
+ */
+
+export * from './ItemExporter.js';
+export * from './typedWriters.js';
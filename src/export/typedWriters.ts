@@ -0,0 +1,220 @@
+/**
+ * Typed Export Writers
+ *
+ * Parquet and XLSX writers that keep column types: enrichment formats map to
+ * numeric, timestamp and list columns, and verification status with its
+ * references is carried in a metadata block (Parquet) or sheet (XLSX).
+ */
+
+import ExcelJS from "exceljs";
+import { parquetWriteBuffer } from "hyparquet-writer";
+import type { ColumnSource, SchemaElement } from "hyparquet-writer";
+import type { ExportTable } from "./ItemExporter.js";
+
+/**
+ * Logical type of an exported column
+ */
+export type ExportColumnType = "string" | "number" | "timestamp" | "list";
+
+/**
+ * Types of built-in item columns that are not plain strings
+ */
+const ITEM_COLUMN_TYPES: Record<string, ExportColumnType> = {
+  verification_references: "list",
+  created_at: "timestamp",
+  updated_at: "timestamp",
+};
+
+/**
+ * Column types for each enrichment format
+ */
+const ENRICHMENT_FORMAT_TYPES: Record<string, ExportColumnType> = {
+  text: "string",
+  email: "string",
+  phone: "string",
+  number: "number",
+  date: "timestamp",
+  options: "list",
+};
+
+/**
+ * Work out the type of a column in a table
+ * Enrichments without a known format are lists if any value is an array.
+ * @param table The export table
+ * @param column The column name
+ * @returns The column type
+ */
+export function getColumnType(table: ExportTable, column: string): ExportColumnType {
+  if (ITEM_COLUMN_TYPES[column]) {
+    return ITEM_COLUMN_TYPES[column];
+  }
+
+  const enrichmentColumn = table.enrichmentColumns.find(entry => entry.column === column);
+  if (!enrichmentColumn) {
+    return "string";
+  }
+
+  if (enrichmentColumn.format && ENRICHMENT_FORMAT_TYPES[enrichmentColumn.format]) {
+    return ENRICHMENT_FORMAT_TYPES[enrichmentColumn.format];
+  }
+
+  return table.rows.some(row => Array.isArray(row[column])) ? "list" : "string";
+}
+
+/**
+ * Convert a value to the given column type
+ * Values that cannot be converted become null.
+ * @param value The raw row value
+ * @param type The column type
+ * @returns The converted value
+ */
+export function coerceValue(value: unknown, type: ExportColumnType): string | number | Date | string[] | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  switch (type) {
+    case "number": {
+      const source = Array.isArray(value) ? value[0] : value;
+      const number = typeof source === "number" ? source : Number(String(source).replace(/,/g, "").trim());
+      return Number.isFinite(number) ? number : null;
+    }
+    case "timestamp": {
+      const source = Array.isArray(value) ? value[0] : value;
+      const date = source instanceof Date ? source : new Date(String(source));
+      return Number.isNaN(date.getTime()) ? null : date;
+    }
+    case "list":
+      return (Array.isArray(value) ? value : [value]).map(entry => toText(entry));
+    case "string":
+      return Array.isArray(value) ? value.map(entry => toText(entry)).join("; ") : toText(value);
+  }
+}
+
+/**
+ * Convert a scalar or object to text
+ */
+function toText(value: unknown): string {
+  return typeof value === "object" && value !== null ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Verification status and references of each exported item
+ */
+function getVerificationRecords(table: ExportTable) {
+  return table.items.map(item => ({
+    itemId: item.id,
+    url: item.url,
+    status: item.verification?.status ?? null,
+    reasoning: item.verification?.reasoning ?? null,
+    references: item.verification?.references ?? [],
+  }));
+}
+
+/**
+ * Parquet schema element for a column
+ */
+function getParquetSchema(name: string, type: ExportColumnType): SchemaElement[] {
+  switch (type) {
+    case "number":
+      return [{ name, type: "DOUBLE", repetition_type: "OPTIONAL" }];
+    case "timestamp":
+      return [{ name, type: "INT64", converted_type: "TIMESTAMP_MILLIS", repetition_type: "OPTIONAL" }];
+    case "list":
+      return [
+        { name, repetition_type: "OPTIONAL", converted_type: "LIST", num_children: 1 },
+        { name: "list", repetition_type: "REPEATED", num_children: 1 },
+        { name: "element", type: "BYTE_ARRAY", converted_type: "UTF8", repetition_type: "OPTIONAL" },
+      ];
+    case "string":
+      return [{ name, type: "BYTE_ARRAY", converted_type: "UTF8", repetition_type: "OPTIONAL" }];
+  }
+}
+
+/**
+ * Write a table as Parquet
+ * Enrichment column descriptions and item verification are stored as
+ * key-value metadata under exa.enrichment_columns and exa.verification.
+ * @param table The export table
+ * @returns The Parquet file
+ */
+export function writeParquet(table: ExportTable): Buffer {
+  const schema: SchemaElement[] = [{ name: "root", num_children: table.columns.length }];
+  const columnData: ColumnSource[] = [];
+
+  for (const column of table.columns) {
+    const type = getColumnType(table, column);
+    schema.push(...getParquetSchema(column, type));
+    columnData.push({
+      name: column,
+      data: table.rows.map(row => coerceValue(row[column], type)),
+    });
+  }
+
+  const buffer = parquetWriteBuffer({
+    columnData,
+    schema,
+    kvMetadata: [
+      { key: "exa.enrichment_columns", value: JSON.stringify(table.enrichmentColumns) },
+      { key: "exa.verification", value: JSON.stringify(getVerificationRecords(table)) },
+    ],
+  });
+
+  return Buffer.from(buffer);
+}
+
+/**
+ * Write a table as an XLSX workbook
+ * The Items sheet holds typed cells (lists are joined with "; "), the
+ * Verification sheet holds status, reasoning and references per item and the
+ * Enrichments sheet describes the enrichment columns.
+ * @param table The export table
+ * @returns The XLSX file
+ */
+export async function writeXlsx(table: ExportTable): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const columnTypes = table.columns.map(column => getColumnType(table, column));
+
+  const itemsSheet = workbook.addWorksheet("Items", { views: [{ state: "frozen", ySplit: 1 }] });
+  itemsSheet.columns = table.columns.map((column, index) => ({
+    header: column,
+    key: column,
+    width: Math.min(Math.max(column.length + 2, 12), 60),
+    ...(columnTypes[index] === "timestamp" && { style: { numFmt: "yyyy-mm-dd hh:mm:ss" } }),
+  }));
+  itemsSheet.getRow(1).font = { bold: true };
+
+  for (const row of table.rows) {
+    itemsSheet.addRow(table.columns.map((column, index) => {
+      const value = coerceValue(row[column], columnTypes[index]);
+      return Array.isArray(value) ? value.join("; ") : value;
+    }));
+  }
+
+  const verificationSheet = workbook.addWorksheet("Verification", { views: [{ state: "frozen", ySplit: 1 }] });
+  verificationSheet.columns = [
+    { header: "item_id", key: "itemId", width: 24 },
+    { header: "url", key: "url", width: 40 },
+    { header: "status", key: "status", width: 14 },
+    { header: "reasoning", key: "reasoning", width: 60 },
+    { header: "references", key: "references", width: 60 },
+  ];
+  verificationSheet.getRow(1).font = { bold: true };
+
+  for (const record of getVerificationRecords(table)) {
+    verificationSheet.addRow({ ...record, references: record.references.join("\n") });
+  }
+
+  const enrichmentsSheet = workbook.addWorksheet("Enrichments", { views: [{ state: "frozen", ySplit: 1 }] });
+  enrichmentsSheet.columns = [
+    { header: "column", key: "column", width: 30 },
+    { header: "enrichment_id", key: "enrichmentId", width: 24 },
+    { header: "description", key: "description", width: 60 },
+    { header: "format", key: "format", width: 12 },
+  ];
+  enrichmentsSheet.getRow(1).font = { bold: true };
+  table.enrichmentColumns.forEach(entry => enrichmentsSheet.addRow(entry));
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+}
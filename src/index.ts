@@ -21,6 +21,13 @@ import "./tools/knowledgeGraph.js";
 // Import feature flags
 import { featureFlags } from "./config/features.js";
 
+// Import event pipeline and webhook receiver
+import { EventPoller, EventProcessor, EventQueue, isValidEventType } from "./events/index.js";
+import { WebhookReceiver } from "./webhooks/index.js";
+import { WebsetsApiClient } from "./api/WebsetsApiClient.js";
+import { createApiClientConfig, createWebsetsConfig, WebsetsConfig } from "./config/websets.js";
+import { SecureTokenProvider } from "./utils/security.js";
+
 // Import prompts
 import {
   enrichmentWorkflow,
@@ -36,6 +43,13 @@ import {
   webhookSetupGuide
 } from "./prompts/index.js";
 
+// Import resources
+import { registerWebsetResources, ResourceSubscriptionManager } from "./resources/index.js";
+import { createServices, getMonitorScheduler, getServiceCircuitBreakers, getServiceResponseCache, shutdownMonitorScheduler } from "./services/index.js";
+import { shutdownBatchStore, shutdownIdempotencyLedger, shutdownTemplateStore, shutdownWebsetMappingStore } from "./state/index.js";
+import { getMetrics } from "./metrics/index.js";
+import { initTracing, shutdownTracing, withToolSpan } from "./tracing/index.js";
+
 // Load environment variables
 config();
 
@@ -51,6 +65,11 @@ const colors = {
   red: "\x1b[31m"
 };
 
+/**
+ * Express request with the raw body captured by the JSON parser
+ */
+type RawBodyRequest = express.Request & { rawBody?: Buffer };
+
 /**
  * Exa AI Websets MCP Server
  * 
@@ -67,6 +86,11 @@ export class ExaWebsetsServer {
   private app: express.Application;
   private server: McpServer;
   private activeSessions = new Map<string, StreamableHTTPServerTransport>();
+  private eventPoller?: EventPoller;
+  private eventQueue?: EventQueue;
+  private eventProcessor?: EventProcessor;
+  private webhookReceiver?: WebhookReceiver;
+  private resourceSubscriptions?: ResourceSubscriptionManager;
   
   /**
    * Creates a new ExaWebsetsServer instance
@@ -86,10 +110,6 @@ export class ExaWebsetsServer {
       capabilities.logging = {};
     }
     
-    if (featureFlags.isEnabled('sampling')) {
-      capabilities.sampling = {};
-    }
-    
     // Initialize MCP server with capabilities
     this.server = new McpServer({
       name: "exa-websets-server",
@@ -100,11 +120,17 @@ export class ExaWebsetsServer {
     
     // Initialize Express app
     this.app = express();
-    this.app.use(express.json());
+    this.app.use(express.json({
+      // Keep the raw body so webhook signatures can be verified byte-for-byte
+      verify: (req, _res, buf) => {
+        (req as RawBodyRequest).rawBody = buf;
+      }
+    }));
     
     // Setup server components
     this.registerTools();
     this.registerPrompts();
+    this.registerResources();
     this.registerProtocolHandlers();
   }
 
@@ -127,7 +153,7 @@ export class ExaWebsetsServer {
           tool.name,
           tool.description,
           tool.schema,
-          tool.handler
+          withToolSpan(tool.name, tool.handler)
         );
       }
     });
@@ -297,6 +323,20 @@ export class ExaWebsetsServer {
     );
   }
 
+  /**
+   * Register webset resources when the resources feature is enabled
+   */
+  private registerResources(): void {
+    if (!featureFlags.isEnabled('resources')) {
+      return;
+    }
+    
+    registerWebsetResources(this.server);
+    
+    this.resourceSubscriptions = new ResourceSubscriptionManager(this.server.server);
+    this.resourceSubscriptions.register();
+  }
+
   /**
    * Register protocol handlers for MCP compliance
    */
@@ -333,24 +373,150 @@ export class ExaWebsetsServer {
       );
     }
     
-    // Register sampling handler only if feature is enabled
-    if (featureFlags.isEnabled('sampling')) {
-      protocol.setRequestHandler(
-        z.object({
-          method: z.literal('sampling/createMessage'),
-          params: z.any().optional()
-        }),
-        async (request) => {
-          // TODO: Implement sampling
-          return {
-            success: true,
-            message: "Sampling acknowledged (not yet implemented)"
-          };
-        }
-      );
+    // Sampling flows from server to client: LLM-assisted tool operations call
+    // sampling/createMessage on the client (see src/sampling), so no handler is needed here
+  }
+
+  /**
+   * Set up the event queue and processor that receive webhook deliveries,
+   * and start the event poller when WEBSETS_EVENTS_ENABLED=true
+   */
+  private setupEventPipeline(): void {
+    if (this.eventQueue) {
+      return;
+    }
+
+    // The full config requires an API key; without one only webhooks can feed the queue
+    const websetsConfig = process.env.EXA_API_KEY ? createWebsetsConfig() : undefined;
+    const events = websetsConfig?.events;
+
+    this.eventQueue = new EventQueue(events ? {
+      maxSize: events.maxQueueSize,
+      maxRetries: events.maxRetries,
+      maxAttempts: events.maxRetries,
+      retryDelay: events.retryDelay,
+      retryDelayMs: events.retryDelay,
+    } : {});
+    this.eventProcessor = new EventProcessor(events ? {
+      concurrency: events.processingConcurrency,
+      maxConcurrency: events.processingConcurrency,
+      timeout: events.processingTimeout,
+      processingTimeoutMs: events.processingTimeout,
+    } : {});
+
+    // Hand each dequeued event to the processor
+    this.eventQueue.on('event', (event) => {
+      this.eventProcessor!.processEvent(event).catch((error) => {
+        console.error(`${colors.red}Failed to process event ${event.id}:${colors.reset}`, error);
+      });
+    });
+
+    // Events tell us when cached responses for a webset are out of date
+    if (websetsConfig) {
+      this.eventProcessor.registerHandler(getServiceResponseCache(websetsConfig.apiKey, websetsConfig.baseUrl).createEventHandler());
+    }
+
+    this.webhookReceiver = new WebhookReceiver(this.eventQueue, {
+      secret: websetsConfig?.webhooks?.secret ?? process.env.WEBSETS_WEBHOOKS_SECRET,
+      validateSignatures: websetsConfig?.webhooks?.validateSignatures ?? process.env.WEBSETS_WEBHOOKS_VALIDATE_SIGNATURES !== 'false',
+    });
+
+    if (websetsConfig && events?.enabled) {
+      this.startEventPoller(websetsConfig);
+    }
+
+    // Push resource updates from processed events, polling subscribed websets if nothing else feeds the queue
+    if (this.resourceSubscriptions) {
+      this.eventProcessor.registerHandler(this.resourceSubscriptions.createEventHandler());
+
+      if (websetsConfig && !this.eventPoller) {
+        this.resourceSubscriptions.startPolling(() => createServices(websetsConfig.apiKey, websetsConfig.baseUrl));
+      }
     }
   }
 
+  /**
+   * Resume the monitors scheduled on this server, so they run without waiting for a tool call
+   */
+  private startMonitorScheduler(): void {
+    if (!process.env.EXA_API_KEY) {
+      return;
+    }
+
+    const websetsConfig = createWebsetsConfig();
+    getMonitorScheduler().start(createServices(websetsConfig.apiKey, websetsConfig.baseUrl).searchService).catch((error) => {
+      console.error(`${colors.red}Failed to start the monitor scheduler:${colors.reset}`, error);
+    });
+  }
+
+  /**
+   * Start polling the events API and feed fetched events into the queue
+   */
+  private startEventPoller(websetsConfig: WebsetsConfig): void {
+    const events = websetsConfig.events!;
+    const tokenProvider = new SecureTokenProvider(() => websetsConfig.apiKey);
+    // Share the events breaker with tool calls so /health reports polling failures too
+    const apiClient = new WebsetsApiClient(websetsConfig, createApiClientConfig(), tokenProvider, {
+      circuitBreakers: getServiceCircuitBreakers(websetsConfig.baseUrl),
+    });
+
+    this.eventPoller = new EventPoller(apiClient, {
+      interval: events.pollingInterval,
+      intervalMs: events.pollingInterval,
+      batchSize: events.batchSize,
+      eventTypes: events.eventTypes.filter(isValidEventType),
+    });
+
+    this.eventPoller.on('event', (event) => {
+      this.eventQueue!.enqueue(event).catch((error) => {
+        console.error(`${colors.red}Failed to queue event ${event.id}:${colors.reset}`, error);
+      });
+    });
+
+    // Poll failures are reflected in health; without a listener EventEmitter would throw
+    this.eventPoller.on('error', (error) => {
+      console.error(`${colors.yellow}Event polling failed:${colors.reset}`, error instanceof Error ? error.message : error);
+    });
+
+    this.eventPoller.start();
+  }
+
+  /**
+   * Get health information for the event pipeline
+   */
+  private getEventSystemHealth() {
+    return {
+      polling: this.eventPoller?.isActive() ?? false,
+      poller: this.eventPoller?.healthCheck(),
+      queue: this.eventQueue?.healthCheck(),
+      processor: this.eventProcessor?.healthCheck(),
+    };
+  }
+
+  /**
+   * Stop the event poller, queue and processor, save webset mappings, templates, batches
+   * and the idempotency ledger and flush pending traces
+   */
+  public async shutdown(): Promise<void> {
+    this.resourceSubscriptions?.shutdown();
+    await this.eventPoller?.shutdown();
+    await this.eventQueue?.shutdown(5000);
+    await this.eventProcessor?.shutdown(5000);
+    await shutdownMonitorScheduler();
+    await shutdownWebsetMappingStore();
+    await shutdownTemplateStore();
+    await shutdownBatchStore();
+    await shutdownIdempotencyLedger();
+    await shutdownTracing();
+  }
+
+  /**
+   * Get the event processor so callers can register event handlers
+   */
+  public getEventProcessor(): EventProcessor | undefined {
+    return this.eventProcessor;
+  }
+
   /**
    * Get the internal MCP server instance
    */
@@ -363,6 +529,9 @@ export class ExaWebsetsServer {
    */
   public async startHttpServer(port: number = 3000): Promise<void> {
     try {
+      this.setupEventPipeline();
+      this.startMonitorScheduler();
+
       // Handle POST requests for client-to-server communication
       this.app.post('/mcp', async (req, res) => {
         const sessionId = req.headers['mcp-session-id'] as string | undefined;
@@ -436,9 +605,40 @@ export class ExaWebsetsServer {
         await transport.handleRequest(req, res);
       });
       
+      // Receive webhook deliveries from Exa
+      this.app.post('/webhooks/exa', async (req, res) => {
+        const rawBody = (req as RawBodyRequest).rawBody;
+        if (!rawBody) {
+          res.status(400).json({ accepted: false, error: 'Expected an application/json body' });
+          return;
+        }
+
+        const result = await this.webhookReceiver!.receive(rawBody, req.headers);
+        if (!result.accepted && result.status >= 400) {
+          console.error(`${colors.yellow}Rejected webhook delivery:${colors.reset} ${result.error}`);
+        }
+
+        res.status(result.status).json(result);
+      });
+      
+      // Prometheus metrics, only exposed when enabled
+      const metrics = getMetrics();
+      if (metrics.enabled) {
+        this.app.get('/metrics', async (req, res) => {
+          res.set('Content-Type', metrics.contentType);
+          res.send(await metrics.render());
+        });
+      }
+      
       // Add health endpoint like in reddit-mcp
       this.app.get('/health', (req, res) => {
         const baseUrl = `${req.protocol}://${req.get("host")}`;
+        const events = this.getEventSystemHealth();
+        const circuitBreakers = getServiceCircuitBreakers().getStates();
+        const degraded = [events.poller, events.queue, events.processor]
+          .some(component => component && !component.healthy) ||
+          Object.values(circuitBreakers).some(breaker => breaker.state === 'open');
+        
         res.json({
           service: "Exa Websets MCP Server",
           version: "1.0.4",
@@ -446,8 +646,13 @@ export class ExaWebsetsServer {
           endpoints: {
             mcp: `${baseUrl}/mcp`,
             health: `${baseUrl}/health`,
+            webhooks: `${baseUrl}/webhooks/exa`,
+            ...(metrics.enabled && { metrics: `${baseUrl}/metrics` }),
           },
-          status: "healthy"
+          webhooks: this.webhookReceiver?.healthCheck(),
+          events,
+          circuitBreakers,
+          status: degraded ? "degraded" : "healthy"
         });
       });
       
@@ -455,6 +660,10 @@ export class ExaWebsetsServer {
         console.log(`${colors.bright}${colors.cyan}Exa Websets MCP Server ${colors.reset}${colors.bright}(HTTP)${colors.reset} ${colors.green}listening on port ${port}${colors.reset}`);
         console.log(`${colors.bright}${colors.blue}Connect via: ${colors.reset}http://localhost:${port}/mcp`);
         console.log(`${colors.bright}${colors.green}Health check: ${colors.reset}http://localhost:${port}/health`);
+        console.log(`${colors.bright}${colors.magenta}Webhooks: ${colors.reset}http://localhost:${port}/webhooks/exa`);
+        if (metrics.enabled) {
+          console.log(`${colors.bright}${colors.yellow}Metrics: ${colors.reset}http://localhost:${port}/metrics`);
+        }
       });
     } catch (error) {
       console.error(`${colors.bright}${colors.red}Failed to start HTTP server:${colors.reset}`, error);
@@ -467,6 +676,9 @@ export class ExaWebsetsServer {
    */
   public async startStdioServer(): Promise<void> {
     try {
+      this.setupEventPipeline();
+      this.startMonitorScheduler();
+
       const transport = new StdioServerTransport();
       await this.server.connect(transport);
       console.log(`${colors.bright}${colors.magenta}Exa Websets MCP Server${colors.reset} started in ${colors.bright}STDIO mode${colors.reset}`);
@@ -483,8 +695,16 @@ export class ExaWebsetsServer {
 async function main(): Promise<void> {
   try {
     const mode = process.argv[2];
+    initTracing();
     const server = new ExaWebsetsServer(process.env.EXA_API_KEY);
     
+    // Stop background event polling before exiting
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.once(signal, () => {
+        server.shutdown().finally(() => process.exit(0));
+      });
+    }
+    
     if (mode === '--http') {
       // HTTP mode with optional port
       const port = process.env.PORT ? parseInt(process.env.PORT) : 
@@ -0,0 +1,299 @@
+/**
+ * Websets Metrics
+ *
+ * Prometheus metrics for the HTTP server: tool operations, API latency,
+ * rate limiter waits, circuit breaker trips, event queue depth and webhook
+ * delivery stats. Recording is a no-op unless metrics are enabled with
+ * WEBSETS_ENABLE_METRICS=true.
+ */
+
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import type { EventQueue } from '../events/EventQueue.js';
+import type { WebhookSender } from '../webhooks/WebhookSender.js';
+import type { WebhookAttemptTracker } from '../webhooks/WebhookAttemptTracker.js';
+
+/**
+ * Metrics configuration
+ */
+export interface WebsetsMetricsConfig {
+  /** Whether metrics are recorded and exposed */
+  enabled: boolean;
+  /** Whether to include Node.js process metrics */
+  collectProcessMetrics: boolean;
+}
+
+/**
+ * Default metrics configuration
+ */
+const DEFAULT_METRICS_CONFIG: WebsetsMetricsConfig = {
+  enabled: process.env.WEBSETS_ENABLE_METRICS === 'true',
+  collectProcessMetrics: true,
+};
+
+/**
+ * Latency buckets in seconds, from quick reads to long exports
+ */
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+/**
+ * Collects and renders the server's metrics
+ */
+export class WebsetsMetrics {
+  readonly registry = new Registry();
+  private readonly config: WebsetsMetricsConfig;
+  private readonly eventQueues = new Set<EventQueue>();
+  private readonly webhookSenders = new Set<WebhookSender>();
+  private readonly attemptTrackers = new Set<WebhookAttemptTracker>();
+
+  private readonly operations: Counter<'tool' | 'operation' | 'outcome'>;
+  private readonly operationDuration: Histogram<'tool' | 'operation' | 'outcome'>;
+  private readonly apiRequestDuration: Histogram<'method' | 'endpoint' | 'status'>;
+  private readonly rateLimiterWait: Histogram<'bucket'>;
+  private readonly circuitBreakerTrips: Counter<'family'>;
+
+  constructor(config: Partial<WebsetsMetricsConfig> = {}) {
+    this.config = { ...DEFAULT_METRICS_CONFIG, ...config };
+    const registers = [this.registry];
+
+    this.operations = new Counter({
+      name: 'websets_tool_operations_total',
+      help: 'Tool operations by tool, operation and outcome',
+      labelNames: ['tool', 'operation', 'outcome'],
+      registers,
+    });
+    this.operationDuration = new Histogram({
+      name: 'websets_tool_operation_duration_seconds',
+      help: 'Tool operation duration in seconds',
+      labelNames: ['tool', 'operation', 'outcome'],
+      buckets: LATENCY_BUCKETS,
+      registers,
+    });
+    this.apiRequestDuration = new Histogram({
+      name: 'websets_api_request_duration_seconds',
+      help: 'Websets API request latency in seconds by endpoint',
+      labelNames: ['method', 'endpoint', 'status'],
+      buckets: LATENCY_BUCKETS,
+      registers,
+    });
+    this.rateLimiterWait = new Histogram({
+      name: 'websets_rate_limiter_wait_seconds',
+      help: 'Time requests waited for the rate limiter in seconds',
+      labelNames: ['bucket'],
+      buckets: [0, 0.01, 0.05, 0.1, 0.5, 1, 5, 15, 60],
+      registers,
+    });
+    this.circuitBreakerTrips = new Counter({
+      name: 'websets_circuit_breaker_trips_total',
+      help: 'Times a circuit breaker opened, by endpoint family',
+      labelNames: ['family'],
+      registers,
+    });
+
+    const metrics = this;
+    new Gauge({
+      name: 'websets_event_queue_depth',
+      help: 'Events waiting in the event queue',
+      registers,
+      collect() {
+        this.set([...metrics.eventQueues].reduce((total, queue) => total + queue.size(), 0));
+      },
+    });
+    new Gauge({
+      name: 'websets_webhook_deliveries',
+      help: 'Outgoing webhook deliveries by outcome, as counted by WebhookSender',
+      labelNames: ['outcome'],
+      registers,
+      collect() {
+        const stats = [...metrics.webhookSenders].map(sender => sender.getStats());
+        const sum = (pick: (entry: typeof stats[number]) => number) => stats.reduce((total, entry) => total + pick(entry), 0);
+        this.set({ outcome: 'success' }, sum(entry => entry.successfulDeliveries));
+        this.set({ outcome: 'failure' }, sum(entry => entry.failedDeliveries));
+        this.set({ outcome: 'active' }, sum(entry => entry.activeDeliveries));
+      },
+    });
+    new Gauge({
+      name: 'websets_webhook_attempts',
+      help: 'Tracked webhook delivery attempts by outcome, as counted by WebhookAttemptTracker',
+      labelNames: ['outcome'],
+      registers,
+      collect() {
+        const stats = [...metrics.attemptTrackers].map(tracker => tracker.getStats());
+        this.set({ outcome: 'success' }, stats.reduce((total, entry) => total + entry.successfulAttempts, 0));
+        this.set({ outcome: 'failure' }, stats.reduce((total, entry) => total + entry.failedAttempts, 0));
+      },
+    });
+    new Gauge({
+      name: 'websets_webhook_attempt_response_seconds',
+      help: 'Webhook attempt response times in seconds, as reported by WebhookAttemptTracker',
+      labelNames: ['statistic'],
+      registers,
+      collect() {
+        // Trackers report summaries, so only the busiest one is shown
+        const stats = [...metrics.attemptTrackers]
+          .map(tracker => tracker.getStats())
+          .sort((a, b) => b.totalAttempts - a.totalAttempts)[0];
+        if (stats) {
+          this.set({ statistic: 'average' }, stats.averageResponseTime / 1000);
+          this.set({ statistic: 'median' }, stats.medianResponseTime / 1000);
+          this.set({ statistic: 'p95' }, stats.p95ResponseTime / 1000);
+        }
+      },
+    });
+
+    if (this.config.enabled && this.config.collectProcessMetrics) {
+      collectDefaultMetrics({ register: this.registry });
+    }
+  }
+
+  /**
+   * Whether metrics are recorded and exposed
+   */
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Record a finished tool operation
+   * @param tool Tool name
+   * @param operation Operation within the tool
+   * @param outcome 'success' or 'error'
+   * @param seconds Duration in seconds
+   */
+  recordOperation(tool: string, operation: string, outcome: 'success' | 'error', seconds: number): void {
+    if (!this.config.enabled) {
+      return;
+    }
+    this.operations.inc({ tool, operation, outcome });
+    this.operationDuration.observe({ tool, operation, outcome }, seconds);
+  }
+
+  /**
+   * Record a Websets API request
+   * @param method HTTP method
+   * @param path Request path; IDs are replaced so endpoints group together
+   * @param status HTTP status, or 'error' when no response arrived
+   * @param seconds Latency in seconds
+   */
+  recordApiRequest(method: string, path: string, status: number | 'error', seconds: number): void {
+    if (!this.config.enabled) {
+      return;
+    }
+    this.apiRequestDuration.observe({ method, endpoint: normalizeEndpoint(path), status: String(status) }, seconds);
+  }
+
+  /**
+   * Record time spent waiting for the rate limiter
+   */
+  recordRateLimiterWait(bucket: string, seconds: number): void {
+    if (!this.config.enabled) {
+      return;
+    }
+    this.rateLimiterWait.observe({ bucket }, seconds);
+  }
+
+  /**
+   * Record a circuit breaker opening
+   */
+  recordCircuitBreakerTrip(family: string): void {
+    if (!this.config.enabled) {
+      return;
+    }
+    this.circuitBreakerTrips.inc({ family });
+  }
+
+  /**
+   * Report the depth of an event queue
+   */
+  registerEventQueue(queue: EventQueue): void {
+    if (this.config.enabled) {
+      this.eventQueues.add(queue);
+    }
+  }
+
+  /**
+   * Report the delivery stats of a webhook sender
+   */
+  registerWebhookSender(sender: WebhookSender): void {
+    if (this.config.enabled) {
+      this.webhookSenders.add(sender);
+    }
+  }
+
+  /**
+   * Report the attempt stats of a webhook attempt tracker
+   */
+  registerWebhookAttemptTracker(tracker: WebhookAttemptTracker): void {
+    if (this.config.enabled) {
+      this.attemptTrackers.add(tracker);
+    }
+  }
+
+  /**
+   * Stop reporting a source that has shut down
+   */
+  unregister(source: EventQueue | WebhookSender | WebhookAttemptTracker): void {
+    this.eventQueues.delete(source as EventQueue);
+    this.webhookSenders.delete(source as WebhookSender);
+    this.attemptTrackers.delete(source as WebhookAttemptTracker);
+  }
+
+  /**
+   * Render all metrics in the Prometheus text format
+   */
+  render(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  /**
+   * Content type of the rendered metrics
+   */
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+}
+
+/**
+ * Replace ID segments of an API path so requests to the same endpoint share a label
+ * Paths alternate between collection names and IDs, e.g. /websets/:id/items/:id.
+ */
+export function normalizeEndpoint(path: string): string {
+  const segments = path.split('?')[0].split('/').filter(Boolean);
+  return '/' + segments.map((segment, index) => (index % 2 === 1 ? ':id' : segment)).join('/');
+}
+
+/**
+ * Wrap a tool handler so each call is recorded by operation and outcome
+ * @param tool Tool name
+ * @param handler Tool handler; the operation is read from its `operation` argument
+ * @returns Handler with the same signature
+ */
+export function withOperationMetrics<E, R extends object>(
+  tool: string,
+  handler: (args: { [key: string]: any }, extra: E) => Promise<R>
+): (args: { [key: string]: any }, extra: E) => Promise<R> {
+  return async (args, extra) => {
+    const startedAt = Date.now();
+    const operation = typeof args.operation === 'string' ? args.operation : 'unknown';
+    let outcome: 'success' | 'error' = 'error';
+
+    try {
+      const result = await handler(args, extra);
+      outcome = 'isError' in result && result.isError ? 'error' : 'success';
+      return result;
+    } finally {
+      getMetrics().recordOperation(tool, operation, outcome, (Date.now() - startedAt) / 1000);
+    }
+  };
+}
+
+let sharedMetrics: WebsetsMetrics | undefined;
+
+/**
+ * Get the shared metrics, creating them on first use
+ */
+export function getMetrics(): WebsetsMetrics {
+  if (!sharedMetrics) {
+    sharedMetrics = new WebsetsMetrics();
+  }
+  return sharedMetrics;
+}
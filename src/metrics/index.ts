@@ -0,0 +1,8 @@
+/**
+ * Metrics Exports
+ *
+ * Prometheus metrics for the Websets MCP server.
+ */
+
+export { WebsetsMetrics, getMetrics, normalizeEndpoint, withOperationMetrics } from './WebsetsMetrics.js';
+export type { WebsetsMetricsConfig } from './WebsetsMetrics.js';
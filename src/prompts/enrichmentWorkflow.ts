@@ -139,7 +139,7 @@ await enrich_webset("${websetId}", "summarize", {
 // Check content type first
 const items = await get_webset_items("${websetId}", 10);
 const hasReviews = items.some(item => 
-  item.text.includes("review") || item.text.includes("rating")
+  item.content.includes("review") || item.content.includes("rating")
 );
 
 if (hasReviews) {
@@ -57,6 +57,16 @@ Webset management and analysis functions:
 • **get_events** (websetId, limit) - Get recent events for a webset
 • **get_event_details** (eventId) - Get detailed info about an event
 
+## 📚 Resources
+Readable webset data (enable with \`MCP_FEATURE_RESOURCES=true\`):
+
+• **webset://{websetId}** - A webset with its searches and enrichments
+• **webset://{websetId}/items** - Items collected in a webset (first 100)
+• **webset://{websetId}/enrichments/{enrichmentId}** - An enrichment defined on a webset
+• **webset://{websetId}/exports/{fileName}** - An item export written by export_items
+
+Subscribe to any of these to be notified when the webset changes instead of polling status.
+
 ## 📊 Key Concepts
 
 ### Asynchronous Nature
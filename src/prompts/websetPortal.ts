@@ -46,11 +46,11 @@ async function identifyPortals() {
     relevanceScore += titleMatch * 0.3;
     
     // Check content relevance
-    const contentMatch = calculateSimilarity(item.text, "${researchQuery}");
+    const contentMatch = calculateSimilarity(item.content, "${researchQuery}");
     relevanceScore += contentMatch * 0.3;
     
     // Bonus for original query match (these are your "full matches")
-    const originalMatch = calculateSimilarity(item.title + " " + item.text, originalQuery);
+    const originalMatch = calculateSimilarity(item.title + " " + item.content, originalQuery);
     relevanceScore += originalMatch * 0.4;
     
     return {
@@ -76,7 +76,7 @@ function determineRelevanceReason(item, query) {
   const reasons = [];
   
   // Check for exact entity matches
-  const entities = extractEntities(item.text);
+  const entities = extractEntities(item.content);
   const queryEntities = extractEntities(query);
   const matchedEntities = entities.filter(e => queryEntities.includes(e));
   
@@ -0,0 +1,7 @@
+/**
+ * MCP Resources for Exa Websets Server
+ * Exposes websets, items and enrichments as readable resources
+ */
+
+export * from './websetResources.js';
+export * from './subscriptions.js';
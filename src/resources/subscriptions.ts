@@ -0,0 +1,240 @@
+/**
+ * Resource Subscriptions
+ *
+ * Tracks resources/subscribe requests and sends notifications/resources/updated
+ * when webset events arrive, either from the event pipeline or by polling
+ * the events API for subscribed websets.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+import { WebsetEvent } from "../types/websets.js";
+import { BaseEventHandler, changesUnnamedWebset, EventPriority, getEventWebsetId, TypedEvent } from "../events/EventTypes.js";
+import { ServiceContainer } from "../services/index.js";
+
+/**
+ * Resource subscription configuration
+ */
+export interface ResourceSubscriptionConfig {
+  /** Interval for polling events of subscribed websets in milliseconds */
+  pollingInterval: number;
+  /** Events fetched per webset on each poll */
+  eventsPerPoll: number;
+  /** Number of recent event IDs remembered to avoid duplicate notifications */
+  dedupeWindow: number;
+}
+
+/**
+ * Default resource subscription configuration
+ */
+const DEFAULT_RESOURCE_SUBSCRIPTION_CONFIG: ResourceSubscriptionConfig = {
+  pollingInterval: 10000, // 10 seconds
+  eventsPerPoll: 25,
+  dedupeWindow: 1000,
+};
+
+/**
+ * Get the webset ID referenced by a webset:// resource URI
+ */
+export function getResourceWebsetId(uri: string): string | undefined {
+  const match = /^webset:\/\/([^/?#]+)/.exec(uri);
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+/**
+ * Event handler that forwards every webset event to the subscription manager
+ */
+class ResourceUpdateHandler extends BaseEventHandler {
+  eventType = 'webset.idle' as const;
+  priority = EventPriority.LOW;
+
+  constructor(private readonly manager: ResourceSubscriptionManager) {
+    super();
+  }
+
+  canHandle(): boolean {
+    return true;
+  }
+
+  async handle(event: TypedEvent): Promise<void> {
+    await this.manager.handleEvent(event as unknown as WebsetEvent);
+  }
+}
+
+/**
+ * Manager for webset resource subscriptions
+ */
+export class ResourceSubscriptionManager {
+  private readonly config: ResourceSubscriptionConfig;
+  private readonly subscriptions = new Set<string>();
+  private readonly recentEventIds: string[] = [];
+  private readonly polledWebsets = new Set<string>();
+  private getServices?: () => ServiceContainer;
+  private pollingTimer?: NodeJS.Timeout;
+  private isPolling = false;
+
+  constructor(
+    private readonly server: Server,
+    config: Partial<ResourceSubscriptionConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_RESOURCE_SUBSCRIPTION_CONFIG, ...config };
+  }
+
+  /**
+   * Declare the subscribe capability and register subscribe/unsubscribe handlers.
+   * Must be called before the server connects to a transport.
+   */
+  register(): void {
+    this.server.registerCapabilities({ resources: { subscribe: true } });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscribe(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
+  /**
+   * Subscribe to updates for a resource URI
+   * @param uri The resource URI
+   */
+  subscribe(uri: string): void {
+    if (!getResourceWebsetId(uri)) {
+      throw new Error(`Unsupported resource URI: ${uri}`);
+    }
+    this.subscriptions.add(uri);
+  }
+
+  /**
+   * Unsubscribe from updates for a resource URI
+   * @param uri The resource URI
+   */
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+
+    const websetId = getResourceWebsetId(uri);
+    if (websetId && this.getSubscribedUris(websetId).length === 0) {
+      this.polledWebsets.delete(websetId);
+    }
+  }
+
+  /**
+   * Get subscribed URIs, optionally limited to one webset
+   * @param websetId Optional webset ID
+   * @returns Subscribed resource URIs
+   */
+  getSubscribedUris(websetId?: string): string[] {
+    const uris = Array.from(this.subscriptions);
+    return websetId ? uris.filter(uri => getResourceWebsetId(uri) === websetId) : uris;
+  }
+
+  /**
+   * Notify subscribers of resources affected by an event.
+   * Every subscribed resource of the event's webset is reported as updated,
+   * since clients re-read the resource anyway. Events that change a webset
+   * without naming it update every subscribed resource.
+   * @param event The webset event
+   */
+  async handleEvent(event: WebsetEvent): Promise<void> {
+    if (this.recentEventIds.includes(event.id)) {
+      return;
+    }
+    this.rememberEventId(event.id);
+
+    const websetId = getEventWebsetId(event);
+    if (!websetId && !changesUnnamedWebset(event)) {
+      return;
+    }
+
+    for (const uri of this.getSubscribedUris(websetId)) {
+      await this.server.sendResourceUpdated({ uri });
+    }
+  }
+
+  /**
+   * Create an event handler that feeds processed events into this manager
+   * @returns Event handler for the event processor
+   */
+  createEventHandler(): BaseEventHandler {
+    return new ResourceUpdateHandler(this);
+  }
+
+  /**
+   * Poll the events API for subscribed websets when no event pipeline feeds this manager
+   * @param getServices Factory for API services
+   */
+  startPolling(getServices: () => ServiceContainer): void {
+    if (this.pollingTimer) {
+      return;
+    }
+
+    this.getServices = getServices;
+    this.pollingTimer = setInterval(() => {
+      this.pollSubscribedWebsets().catch(error => {
+        console.error('Resource subscription polling failed:', error instanceof Error ? error.message : error);
+      });
+    }, this.config.pollingInterval);
+  }
+
+  /**
+   * Fetch recent events for each subscribed webset and notify on new ones
+   */
+  private async pollSubscribedWebsets(): Promise<void> {
+    if (this.isPolling || !this.getServices || this.subscriptions.size === 0) {
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      const { eventService } = this.getServices();
+      const websetIds = new Set(this.getSubscribedUris().map(uri => getResourceWebsetId(uri)!));
+
+      for (const websetId of websetIds) {
+        const events = await eventService.getWebsetEvents(websetId, this.config.eventsPerPoll);
+
+        // The first poll only establishes a baseline of events that already happened
+        if (!this.polledWebsets.has(websetId)) {
+          events.forEach(event => this.rememberEventId(event.id));
+          this.polledWebsets.add(websetId);
+          continue;
+        }
+
+        for (const event of events) {
+          await this.handleEvent(event);
+        }
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Remember an event ID for duplicate detection
+   * @param eventId The event ID
+   */
+  private rememberEventId(eventId: string): void {
+    this.recentEventIds.push(eventId);
+    if (this.recentEventIds.length > this.config.dedupeWindow) {
+      this.recentEventIds.shift();
+    }
+  }
+
+  /**
+   * Stop polling and clear subscriptions
+   */
+  shutdown(): void {
+    if (this.pollingTimer) {
+      clearInterval(this.pollingTimer);
+      this.pollingTimer = undefined;
+    }
+    this.subscriptions.clear();
+    this.polledWebsets.clear();
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Webset Resources
+ *
+ * MCP resource templates that expose websets, their items and enrichments
+ * so clients can attach webset contents to context without tool calls.
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createServices, ServiceContainer } from "../services/index.js";
+import { ItemExporter } from "../export/index.js";
+
+/**
+ * Maximum number of items returned by the items resource
+ */
+const ITEMS_RESOURCE_LIMIT = 100;
+
+/**
+ * Maximum number of websets listed as concrete resources
+ */
+const LIST_RESOURCE_LIMIT = 25;
+
+/**
+ * Resource URI templates
+ */
+export const WEBSET_RESOURCE_TEMPLATES = {
+  webset: "webset://{websetId}",
+  items: "webset://{websetId}/items",
+  enrichment: "webset://{websetId}/enrichments/{enrichmentId}",
+  export: "webset://{websetId}/exports/{fileName}",
+} as const;
+
+/**
+ * Create services using the API key from the environment
+ */
+function getServices(): ServiceContainer {
+  const apiKey = process.env.EXA_API_KEY;
+  if (!apiKey) {
+    throw new Error("EXA_API_KEY environment variable is required");
+  }
+  return createServices(apiKey);
+}
+
+/**
+ * Read a single template variable
+ */
+function getVariable(variables: Record<string, string | string[]>, name: string): string {
+  const value = variables[name];
+  const resolved = Array.isArray(value) ? value[0] : value;
+  if (!resolved) {
+    throw new Error(`Resource URI is missing ${name}`);
+  }
+  return decodeURIComponent(resolved);
+}
+
+/**
+ * Build a JSON resource result
+ */
+function jsonContents(uri: URL, data: unknown) {
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: "application/json",
+      text: JSON.stringify(data, null, 2)
+    }]
+  };
+}
+
+/**
+ * Register webset resource templates with the MCP server
+ */
+export function registerWebsetResources(server: McpServer): void {
+  server.resource(
+    "webset",
+    new ResourceTemplate(WEBSET_RESOURCE_TEMPLATES.webset, {
+      list: async () => {
+        const { websetService } = getServices();
+        const response = await websetService.listWebsets(undefined, LIST_RESOURCE_LIMIT);
+
+        return {
+          resources: response.data.map(webset => ({
+            uri: `webset://${webset.id}`,
+            name: webset.externalId || webset.id,
+            description: `Webset ${webset.id} (${webset.status})`,
+            mimeType: "application/json"
+          }))
+        };
+      }
+    }),
+    {
+      description: "A webset with its searches and enrichments",
+      mimeType: "application/json"
+    },
+    async (uri, variables) => {
+      const { websetService } = getServices();
+      const webset = await websetService.getWebset(getVariable(variables, "websetId"), "searches,enrichments");
+      return jsonContents(uri, webset);
+    }
+  );
+
+  server.resource(
+    "webset_items",
+    new ResourceTemplate(WEBSET_RESOURCE_TEMPLATES.items, { list: undefined }),
+    {
+      description: `Items collected in a webset (first ${ITEMS_RESOURCE_LIMIT})`,
+      mimeType: "application/json"
+    },
+    async (uri, variables) => {
+      const { itemService } = getServices();
+      const websetId = getVariable(variables, "websetId");
+      const response = await itemService.listItems(websetId, undefined, ITEMS_RESOURCE_LIMIT);
+
+      return jsonContents(uri, {
+        websetId,
+        items: response.data,
+        count: response.data.length,
+        hasMore: response.hasMore,
+        nextCursor: response.nextCursor
+      });
+    }
+  );
+
+  server.resource(
+    "webset_enrichment",
+    new ResourceTemplate(WEBSET_RESOURCE_TEMPLATES.enrichment, { list: undefined }),
+    {
+      description: "An enrichment defined on a webset",
+      mimeType: "application/json"
+    },
+    async (uri, variables) => {
+      const { enrichmentService } = getServices();
+      const enrichment = await enrichmentService.getEnrichment(
+        getVariable(variables, "websetId"),
+        getVariable(variables, "enrichmentId")
+      );
+      return jsonContents(uri, enrichment);
+    }
+  );
+
+  server.resource(
+    "webset_export",
+    new ResourceTemplate(WEBSET_RESOURCE_TEMPLATES.export, { list: undefined }),
+    {
+      description: "An item export written by the export_items operation"
+    },
+    async (uri, variables) => {
+      const { mimeType, text, blob } = await new ItemExporter().readExport(
+        getVariable(variables, "websetId"),
+        getVariable(variables, "fileName")
+      );
+
+      return {
+        contents: [blob !== undefined
+          ? { uri: uri.href, mimeType, blob }
+          : { uri: uri.href, mimeType, text: text ?? "" }]
+      };
+    }
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Sampling Assistant
+ *
+ * LLM-assisted steps built on client-side sampling: summarizing webset items,
+ * proposing enrichment descriptions and drafting search criteria.
+ */
+
+import { z } from "zod";
+import { WebsetItem } from "../types/websets.js";
+import { SamplingClient } from "./SamplingClient.js";
+
+/**
+ * Sampling assistant configuration
+ */
+export interface SamplingAssistantConfig {
+  /** Maximum tokens requested per sampling call */
+  maxTokens: number;
+  /** Maximum items included in a prompt */
+  maxItems: number;
+  /** Maximum characters of item content included per item */
+  maxContentLength: number;
+}
+
+/**
+ * Default sampling assistant configuration
+ */
+const DEFAULT_SAMPLING_ASSISTANT_CONFIG: SamplingAssistantConfig = {
+  maxTokens: 1000,
+  maxItems: 25,
+  maxContentLength: 300,
+};
+
+/**
+ * Enrichment proposed by the model
+ */
+export const EnrichmentProposalSchema = z.object({
+  description: z.string().min(1),
+  format: z.enum(["text", "date", "number", "options", "email", "phone"]).default("text"),
+  options: z.array(z.object({ label: z.string() })).optional()
+});
+
+export type EnrichmentProposal = z.infer<typeof EnrichmentProposalSchema>;
+
+/**
+ * Search criterion drafted by the model
+ */
+export const CriterionDraftSchema = z.object({
+  description: z.string().min(1)
+});
+
+export type CriterionDraft = z.infer<typeof CriterionDraftSchema>;
+
+/**
+ * Result of a sampling call
+ */
+export interface SamplingOutcome<T> {
+  result: T;
+  model: string;
+}
+
+/**
+ * Assistant for LLM-assisted webset steps
+ */
+export class SamplingAssistant {
+  private readonly config: SamplingAssistantConfig;
+
+  constructor(
+    private readonly client: SamplingClient,
+    config: Partial<SamplingAssistantConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_SAMPLING_ASSISTANT_CONFIG, ...config };
+  }
+
+  /**
+   * Summarize a set of webset items
+   * @param items The items to summarize
+   * @param focus Optional aspect the summary should focus on
+   * @returns The summary text
+   */
+  async summarizeItems(items: WebsetItem[], focus?: string): Promise<SamplingOutcome<string>> {
+    if (items.length === 0) {
+      throw new Error("There are no items to summarize");
+    }
+
+    const prompt = [
+      `Summarize the following ${Math.min(items.length, this.config.maxItems)} webset items.`,
+      focus ? `Focus on: ${focus}.` : "Highlight common themes, notable outliers and gaps.",
+      "",
+      this.formatItems(items)
+    ].join("\n");
+
+    return this.sample("summarize_items", prompt,
+      "You summarize collections of web entities concisely and factually. Only use the information provided.");
+  }
+
+  /**
+   * Propose enrichments that would add useful structured data to the items
+   * @param items Sample items from the webset
+   * @param count Number of enrichments to propose
+   * @param goal Optional goal the enrichments should serve
+   * @returns Proposed enrichments
+   */
+  async proposeEnrichments(items: WebsetItem[], count: number = 3, goal?: string): Promise<SamplingOutcome<EnrichmentProposal[]>> {
+    const prompt = [
+      `Propose ${count} enrichments for a webset containing items like these.`,
+      goal ? `The enrichments should help with: ${goal}.` : "",
+      "Each enrichment extracts one piece of structured data per item.",
+      'Respond with only a JSON array of objects with "description", "format" (text, date, number, options, email or phone) and, for options, "options" as [{"label": "..."}].',
+      "",
+      this.formatItems(items)
+    ].filter(Boolean).join("\n");
+
+    const outcome = await this.sample("suggest_enrichments", prompt,
+      "You design data enrichment columns for datasets of web entities. You respond with JSON only.");
+
+    return {
+      model: outcome.model,
+      result: this.parseJsonArray(outcome.result, EnrichmentProposalSchema, "enrichment proposals").slice(0, count)
+    };
+  }
+
+  /**
+   * Draft search criteria for a webset query
+   * @param query The search query
+   * @param entityType Optional entity type being searched for
+   * @param count Number of criteria to draft
+   * @returns Drafted criteria
+   */
+  async draftCriteria(query: string, entityType?: string, count: number = 3): Promise<SamplingOutcome<CriterionDraft[]>> {
+    const prompt = [
+      `Draft ${count} verification criteria for a web search that finds ${entityType ? `${entityType} entities` : "entities"} matching: "${query}".`,
+      "Each criterion must be a single, objectively checkable requirement.",
+      'Respond with only a JSON array of objects with a "description" field.'
+    ].join("\n");
+
+    const outcome = await this.sample("draft_criteria", prompt,
+      "You write precise search criteria for verifying web search results. You respond with JSON only.");
+
+    return {
+      model: outcome.model,
+      result: this.parseJsonArray(outcome.result, CriterionDraftSchema, "criteria").slice(0, count)
+    };
+  }
+
+  /**
+   * Request a text completion from the sampling client
+   */
+  private async sample(task: string, prompt: string, systemPrompt: string): Promise<SamplingOutcome<string>> {
+    const response = await this.client.createMessage({
+      messages: [{ role: "user", content: { type: "text", text: prompt } }],
+      systemPrompt,
+      maxTokens: this.config.maxTokens,
+      includeContext: "none",
+      metadata: { task }
+    });
+
+    if (response.content.type !== "text") {
+      throw new Error(`Sampling returned ${response.content.type} content instead of text`);
+    }
+
+    return { result: response.content.text.trim(), model: response.model };
+  }
+
+  /**
+   * Format items compactly for inclusion in a prompt
+   */
+  private formatItems(items: WebsetItem[]): string {
+    return items.slice(0, this.config.maxItems).map((item, index) => {
+      const lines = [`${index + 1}. ${item.title || "Untitled"} (${item.url})`];
+      if (item.content) {
+        lines.push(`   ${item.content.substring(0, this.config.maxContentLength).replace(/\s+/g, " ")}`);
+      }
+      if (item.enrichments && Object.keys(item.enrichments).length > 0) {
+        lines.push(`   Enrichments: ${JSON.stringify(item.enrichments)}`);
+      }
+      return lines.join("\n");
+    }).join("\n");
+  }
+
+  /**
+   * Parse a JSON array from model output, tolerating surrounding prose or code fences
+   */
+  private parseJsonArray<T extends z.ZodTypeAny>(text: string, schema: T, label: string): z.infer<T>[] {
+    const start = text.indexOf("[");
+    const end = text.lastIndexOf("]");
+    if (start === -1 || end <= start) {
+      throw new Error(`Could not find ${label} in the sampling response`);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text.substring(start, end + 1));
+    } catch {
+      throw new Error(`Sampling response contained invalid JSON for ${label}`);
+    }
+
+    const result = z.array(schema).safeParse(parsed);
+    if (!result.success) {
+      throw new Error(`Sampling response did not match the expected ${label} format: ${result.error.message}`);
+    }
+
+    return result.data;
+  }
+}
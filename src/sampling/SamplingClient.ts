@@ -0,0 +1,100 @@
+/**
+ * Sampling Client
+ *
+ * Thin abstraction over MCP client-side sampling (sampling/createMessage) so
+ * LLM-assisted steps can run against the connected client or a deterministic stub.
+ */
+
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CreateMessageRequest,
+  CreateMessageResult,
+  CreateMessageResultSchema,
+  ServerNotification,
+  ServerRequest
+} from "@modelcontextprotocol/sdk/types.js";
+import { featureFlags } from "../config/features.js";
+
+/**
+ * Parameters for a sampling request
+ */
+export type SamplingRequestParams = CreateMessageRequest["params"];
+
+/**
+ * Client capable of creating sampled messages
+ */
+export interface SamplingClient {
+  createMessage(params: SamplingRequestParams): Promise<CreateMessageResult>;
+}
+
+/**
+ * Sampling client that asks the connected MCP client to sample on the server's behalf
+ */
+export class McpSamplingClient implements SamplingClient {
+  constructor(private readonly extra: RequestHandlerExtra<ServerRequest, ServerNotification>) {}
+
+  async createMessage(params: SamplingRequestParams): Promise<CreateMessageResult> {
+    return this.extra.sendRequest(
+      { method: "sampling/createMessage", params },
+      CreateMessageResultSchema
+    );
+  }
+}
+
+/**
+ * Deterministic sampling client for tests and offline development.
+ * Responds with canned text, chosen by the `task` metadata of each request.
+ */
+export class StubSamplingClient implements SamplingClient {
+  readonly requests: SamplingRequestParams[] = [];
+
+  constructor(
+    private readonly responses: Record<string, string> = DEFAULT_STUB_RESPONSES,
+    private readonly model: string = "stub-sampling-model"
+  ) {}
+
+  async createMessage(params: SamplingRequestParams): Promise<CreateMessageResult> {
+    this.requests.push(params);
+
+    const task = typeof params.metadata?.task === "string" ? params.metadata.task : "default";
+    const text = this.responses[task] ?? this.responses.default ?? "";
+
+    return {
+      model: this.model,
+      role: "assistant",
+      stopReason: "endTurn",
+      content: { type: "text", text }
+    };
+  }
+}
+
+/**
+ * Default canned responses used by StubSamplingClient
+ */
+export const DEFAULT_STUB_RESPONSES: Record<string, string> = {
+  summarize_items: "The items describe a consistent set of entities matching the webset query.",
+  suggest_enrichments: JSON.stringify([
+    { description: "Headquarters city", format: "text" },
+    { description: "Year founded", format: "number" }
+  ]),
+  draft_criteria: JSON.stringify([
+    { description: "Matches the primary subject of the query" },
+    { description: "Has publicly verifiable information" }
+  ]),
+  default: ""
+};
+
+/**
+ * Create a sampling client for a tool call, failing when sampling is disabled
+ * @param extra The request handler context of the current tool call
+ * @returns A sampling client bound to the calling session
+ */
+export function createSamplingClient(extra: RequestHandlerExtra<ServerRequest, ServerNotification> | undefined): SamplingClient {
+  if (!featureFlags.isEnabled('sampling')) {
+    throw new Error("Sampling is disabled. Set MCP_FEATURE_SAMPLING=true to enable LLM-assisted operations");
+  }
+  if (!extra?.sendRequest) {
+    throw new Error("Sampling requires an active MCP client session");
+  }
+  return new McpSamplingClient(extra);
+}
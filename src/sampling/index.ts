@@ -0,0 +1,8 @@
+/**
+ * Sampling Exports
+ *
+ * Client-side sampling helpers for LLM-assisted webset operations.
+ */
+
+export * from './SamplingClient.js';
+export * from './SamplingAssistant.js';
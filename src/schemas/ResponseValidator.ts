@@ -0,0 +1,264 @@
+/**
+ * Response Validator
+ *
+ * Checks Websets API responses against the schemas in websets.ts to detect
+ * drift between the API and the types the tools are written against. In strict
+ * mode a response that does not match is an error; in lenient mode the unknown,
+ * missing and invalid fields are logged and the response is used as is. Either
+ * way every difference is counted in a drift report.
+ */
+
+import { z } from 'zod';
+import { log } from '../utils/logger.js';
+import { RESOURCE_SCHEMAS } from './websets.js';
+
+/**
+ * How responses are validated
+ * - strict: responses that do not match their schema are rejected
+ * - lenient: differences are logged and reported
+ * - off: responses are not validated
+ */
+export type ResponseValidationMode = 'strict' | 'lenient' | 'off';
+
+/**
+ * Response validation configuration
+ */
+export interface ResponseValidationConfig {
+  mode: ResponseValidationMode;
+}
+
+/**
+ * Default response validation configuration
+ */
+const DEFAULT_RESPONSE_VALIDATION_CONFIG: ResponseValidationConfig = {
+  mode: parseMode(process.env.WEBSETS_RESPONSE_VALIDATION),
+};
+
+/**
+ * How a response differs from its schema
+ * - unknown: the response has a field the schema does not
+ * - missing: the schema requires a field the response does not have
+ * - invalid: the field has a different type or value
+ */
+export type DriftKind = 'unknown' | 'missing' | 'invalid';
+
+/**
+ * One difference between a response and its schema
+ */
+export interface DriftIssue {
+  kind: DriftKind;
+  /** Field path, with array indexes written as [] */
+  path: string;
+  message: string;
+}
+
+/**
+ * Drift seen for one schema
+ */
+export interface SchemaDriftReport {
+  /** Resources checked against the schema */
+  validated: number;
+  /** Resources that did not match */
+  drifted: number;
+  /** Times each field was seen, by field path */
+  unknownFields: Record<string, number>;
+  missingFields: Record<string, number>;
+  invalidFields: Record<string, number>;
+}
+
+/**
+ * Drift seen since the validator was created or reset
+ */
+export interface DriftReport {
+  generatedAt: string;
+  mode: ResponseValidationMode;
+  /** Responses checked */
+  responses: number;
+  /** Resources with an `object` field no schema covers, by that field */
+  unrecognizedObjects: Record<string, number>;
+  schemas: Record<string, SchemaDriftReport>;
+}
+
+/**
+ * Thrown in strict mode when a response does not match its schema
+ */
+export class ResponseValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly schema: string,
+    public readonly issues: DriftIssue[]
+  ) {
+    super(message);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+/**
+ * Validates API responses and keeps the drift report
+ */
+export class ResponseValidator {
+  private readonly config: ResponseValidationConfig;
+  private responses = 0;
+  private unrecognizedObjects: Record<string, number> = {};
+  private schemas: Record<string, SchemaDriftReport> = {};
+  private readonly logged = new Set<string>();
+
+  constructor(config: Partial<ResponseValidationConfig> = {}) {
+    this.config = { ...DEFAULT_RESPONSE_VALIDATION_CONFIG, ...config };
+  }
+
+  /**
+   * Validation mode
+   */
+  get mode(): ResponseValidationMode {
+    return this.config.mode;
+  }
+
+  /**
+   * Validate a response
+   * The schema is chosen by the `object` field; the elements of a paginated
+   * response are validated one by one. Responses that are not resources, such
+   * as an empty DELETE response, are left alone.
+   * @param data Response body
+   * @param context Request the response belongs to, for log messages
+   * @throws ResponseValidationError in strict mode when the response does not match
+   */
+  validate(data: unknown, context?: string): void {
+    if (this.config.mode === 'off') {
+      return;
+    }
+
+    this.responses++;
+    const resources = isRecord(data) && Array.isArray(data.data) && data.object !== 'event' ? data.data : [data];
+
+    for (const resource of resources) {
+      if (!isRecord(resource) || typeof resource.object !== 'string') {
+        continue;
+      }
+
+      const entry = RESOURCE_SCHEMAS[resource.object];
+      if (!entry) {
+        this.unrecognizedObjects[resource.object] = (this.unrecognizedObjects[resource.object] ?? 0) + 1;
+        continue;
+      }
+
+      const issues = this.check(entry.name, entry.schema, resource);
+      if (issues.length === 0) {
+        continue;
+      }
+
+      const summary = issues.map(issue => `${issue.kind} ${issue.path}`).join(', ');
+      if (this.config.mode === 'strict') {
+        throw new ResponseValidationError(
+          `Response${context ? ` to ${context}` : ''} does not match the ${entry.name} schema: ${summary}`,
+          entry.name,
+          issues
+        );
+      }
+
+      const fresh = issues.filter(issue => !this.logged.has(`${entry.name} ${issue.kind} ${issue.path}`));
+      for (const issue of fresh) {
+        this.logged.add(`${entry.name} ${issue.kind} ${issue.path}`);
+      }
+      if (fresh.length > 0) {
+        log(`[ResponseValidator] ${entry.name}${context ? ` from ${context}` : ''} differs from its schema: ${fresh.map(issue => `${issue.kind} ${issue.path}`).join(', ')}`);
+      }
+    }
+  }
+
+  /**
+   * Get the drift report
+   */
+  getReport(): DriftReport {
+    return {
+      generatedAt: new Date().toISOString(),
+      mode: this.config.mode,
+      responses: this.responses,
+      unrecognizedObjects: { ...this.unrecognizedObjects },
+      schemas: structuredClone(this.schemas),
+    };
+  }
+
+  /**
+   * Whether any validated resource differed from its schema
+   */
+  hasDrift(): boolean {
+    return Object.values(this.schemas).some(schema => schema.drifted > 0);
+  }
+
+  /**
+   * Clear the drift report
+   */
+  reset(): void {
+    this.responses = 0;
+    this.unrecognizedObjects = {};
+    this.schemas = {};
+    this.logged.clear();
+  }
+
+  private check(name: string, schema: z.ZodTypeAny, resource: Record<string, unknown>): DriftIssue[] {
+    const report = this.schemas[name] ??= { validated: 0, drifted: 0, unknownFields: {}, missingFields: {}, invalidFields: {} };
+    report.validated++;
+
+    const result = schema.safeParse(resource);
+    if (result.success) {
+      return [];
+    }
+
+    const issues = toDriftIssues(result.error);
+    report.drifted++;
+    for (const issue of issues) {
+      const fields = issue.kind === 'unknown' ? report.unknownFields : issue.kind === 'missing' ? report.missingFields : report.invalidFields;
+      fields[issue.path] = (fields[issue.path] ?? 0) + 1;
+    }
+    return issues;
+  }
+}
+
+let responseValidator: ResponseValidator | undefined;
+
+/**
+ * Get the process-wide response validator
+ * @param config Validation configuration, used when first created
+ */
+export function getResponseValidator(config: Partial<ResponseValidationConfig> = {}): ResponseValidator {
+  responseValidator ??= new ResponseValidator(config);
+  return responseValidator;
+}
+
+/**
+ * Turn zod issues into drift issues, one per field
+ */
+function toDriftIssues(error: z.ZodError): DriftIssue[] {
+  const issues: DriftIssue[] = [];
+
+  for (const issue of error.issues) {
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      for (const key of issue.keys) {
+        issues.push({ kind: 'unknown', path: formatPath([...issue.path, key]), message: 'Not in schema' });
+      }
+    } else if (issue.code === z.ZodIssueCode.invalid_type && issue.received === 'undefined') {
+      issues.push({ kind: 'missing', path: formatPath(issue.path), message: `Expected ${issue.expected}` });
+    } else {
+      issues.push({ kind: 'invalid', path: formatPath(issue.path), message: issue.message });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Write a field path with array indexes as [], e.g. searches[].progress
+ */
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((formatted, segment) =>
+    typeof segment === 'number' ? `${formatted}[]` : formatted ? `${formatted}.${segment}` : segment, '');
+}
+
+function parseMode(value: string | undefined): ResponseValidationMode {
+  return value === 'strict' || value === 'off' ? value : 'lenient';
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+/**
+ * Schema Drift Report CLI
+ *
+ * Checks Websets API responses against the response schemas and prints the
+ * drift report as JSON, exiting with status 1 when any response drifted:
+ *
+ *   node build/schemas/cli.js [cassette.json ...]
+ *
+ * Given cassette files, the recorded responses are checked, so a session
+ * recorded against the real API can be checked in CI without calling Exa.
+ * Without arguments a short session runs against the bundled simulator, which
+ * keeps the simulator and the schemas in step.
+ */
+
+import fs from 'fs/promises';
+import { CassetteFile } from '../api/Cassette.js';
+import { createServices } from '../services/index.js';
+import { startSimulatorServer } from '../simulator/server.js';
+import { getResponseValidator, ResponseValidator } from './ResponseValidator.js';
+
+/**
+ * Check the successful responses recorded in cassette files
+ */
+async function checkCassettes(validator: ResponseValidator, paths: string[]): Promise<void> {
+  for (const path of paths) {
+    const cassette = JSON.parse(await fs.readFile(path, 'utf-8')) as CassetteFile;
+    for (const { request, response } of cassette.interactions) {
+      if (response.status >= 200 && response.status < 300) {
+        validator.validate(response.data, `${request.method} ${request.path}`);
+      }
+    }
+  }
+}
+
+/**
+ * Touch every resource type through the services against the simulator
+ */
+async function runSimulatorSession(): Promise<void> {
+  const server = await startSimulatorServer();
+  try {
+    const services = createServices('drift-report', server.baseUrl);
+    const webset = await services.websetService.createWebset({
+      search: { query: 'AI startups in Berlin', count: 2, criteria: [{ description: 'Founded after 2020' }] },
+      enrichments: [{ description: 'Employee count', format: 'number' }],
+    });
+
+    server.simulator.advance(120000);
+
+    const finished = await services.websetService.getWebset(webset.id);
+    await services.websetService.listWebsets();
+    await services.searchService.getSearch(webset.id, finished.searches[0].id);
+    await services.enrichmentService.getEnrichment(webset.id, finished.enrichments[0].id);
+    const items = await services.itemService.listItems(webset.id);
+    if (items.data[0]) {
+      await services.itemService.getItem(webset.id, items.data[0].id);
+    }
+
+    const events = await services.eventService.listEvents();
+    if (events.data[0]) {
+      await services.eventService.getEvent(events.data[0].id);
+    }
+
+    const websetImport = await services.importService.createImport({
+      size: 31,
+      count: 2,
+      format: 'csv',
+      entity: { type: 'company' },
+    });
+    await services.importService.uploadImportFile(websetImport, 'url\nhttps://a.com\nhttps://b.com');
+    server.simulator.advance(10000);
+    await services.importService.getImport(websetImport.id);
+    await services.importService.listImports();
+
+    const webhook = await services.webhookService.createWebhook({ events: ['webset.idle'], url: 'https://example.com/hooks/websets' });
+    await services.webhookService.listWebhooks();
+    await services.webhookService.getWebhook(webhook.id);
+    await services.webhookService.deleteWebhook(webhook.id);
+  } finally {
+    await server.close();
+  }
+}
+
+async function main(): Promise<void> {
+  // Collect every difference rather than stopping at the first one
+  const validator = getResponseValidator({ mode: 'lenient' });
+  const cassettes = process.argv.slice(2);
+
+  if (cassettes.length > 0) {
+    await checkCassettes(validator, cassettes);
+  } else {
+    await runSimulatorSession();
+  }
+
+  console.log(JSON.stringify(validator.getReport(), null, 2));
+  process.exit(validator.hasDrift() ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Failed to build the drift report:', error);
+  process.exit(2);
+});
@@ -0,0 +1,28 @@
+/**
+ * Schemas Exports
+ *
+ * Runtime validation of Websets API responses.
+ */
+
+export {
+  EventTypeSchema,
+  MonitorRunSchema,
+  MonitorSchema,
+  RESOURCE_SCHEMAS,
+  WebhookSchema,
+  WebsetEnrichmentSchema,
+  WebsetEventSchema,
+  WebsetImportSchema,
+  WebsetItemSchema,
+  WebsetSchema,
+  WebsetSearchSchema,
+} from './websets.js';
+export { ResponseValidationError, ResponseValidator, getResponseValidator } from './ResponseValidator.js';
+export type {
+  DriftIssue,
+  DriftKind,
+  DriftReport,
+  ResponseValidationConfig,
+  ResponseValidationMode,
+  SchemaDriftReport,
+} from './ResponseValidator.js';
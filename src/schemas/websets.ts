@@ -0,0 +1,223 @@
+/**
+ * Websets Response Schemas
+ *
+ * Zod schemas for the resources the Websets API returns, matching the
+ * interfaces in types/websets.ts. Objects are strict so fields the API adds
+ * are reported instead of silently passing through; the type annotations keep
+ * the schemas and interfaces from drifting apart.
+ */
+
+import { z } from 'zod';
+import {
+  EventType,
+  Monitor,
+  MonitorRun,
+  Webhook,
+  Webset,
+  WebsetEnrichment,
+  WebsetEvent,
+  WebsetImport,
+  WebsetItem,
+  WebsetSearch,
+} from '../types/websets.js';
+
+const metadata = z.record(z.string());
+const timestamp = z.string();
+
+const EVENT_TYPES = [
+  'webset.created',
+  'webset.deleted',
+  'webset.idle',
+  'webset.paused',
+  'webset.item.created',
+  'webset.item.enriched',
+  'webset.search.created',
+  'webset.search.updated',
+  'webset.search.canceled',
+  'webset.search.completed',
+  'import.created',
+  'import.completed',
+  'monitor.created',
+  'monitor.updated',
+  'monitor.deleted',
+  'monitor.run.created',
+  'monitor.run.completed',
+] as const satisfies readonly EventType[];
+
+export const EventTypeSchema: z.ZodType<EventType> = z.enum(EVENT_TYPES);
+
+export const WebsetSearchSchema: z.ZodType<WebsetSearch> = z.object({
+  id: z.string(),
+  object: z.literal('webset_search'),
+  status: z.enum(['created', 'running', 'completed', 'canceled']),
+  query: z.string(),
+  entity: z.object({
+    type: z.enum(['company', 'person', 'research_paper', 'general']),
+  }).strict(),
+  criteria: z.array(z.object({
+    description: z.string(),
+    successRate: z.number(),
+  }).strict()),
+  count: z.number(),
+  progress: z.object({
+    found: z.number(),
+    completion: z.number(),
+  }).strict(),
+  metadata,
+  canceledAt: z.string().optional(),
+  canceledReason: z.enum(['webset_deleted', 'webset_canceled']).optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+}).strict();
+
+export const WebsetEnrichmentSchema: z.ZodType<WebsetEnrichment> = z.object({
+  id: z.string(),
+  object: z.literal('webset_enrichment'),
+  status: z.enum(['pending', 'canceled', 'completed']),
+  websetId: z.string(),
+  title: z.string().optional(),
+  description: z.string(),
+  format: z.enum(['text', 'date', 'number', 'options', 'email', 'phone']),
+  options: z.array(z.object({ label: z.string() }).strict()).optional(),
+  instructions: z.string().optional(),
+  metadata,
+  createdAt: timestamp,
+  updatedAt: timestamp,
+}).strict();
+
+export const WebsetSchema: z.ZodType<Webset> = z.object({
+  id: z.string(),
+  object: z.literal('webset'),
+  status: z.enum(['idle', 'running', 'paused']),
+  externalId: z.string().optional(),
+  searches: z.array(WebsetSearchSchema),
+  enrichments: z.array(WebsetEnrichmentSchema),
+  metadata,
+  createdAt: timestamp,
+  updatedAt: timestamp,
+}).strict();
+
+export const WebsetItemSchema: z.ZodType<WebsetItem> = z.object({
+  id: z.string(),
+  object: z.literal('webset_item'),
+  websetId: z.string(),
+  searchId: z.string(),
+  source: z.enum(['search', 'import']).optional(),
+  url: z.string(),
+  title: z.string(),
+  content: z.string(),
+  entity: z.object({
+    type: z.string(),
+    properties: z.record(z.any()),
+  }).strict(),
+  verification: z.object({
+    status: z.enum(['verified', 'unverified', 'rejected']),
+    reasoning: z.string(),
+    references: z.array(z.string()),
+  }).strict(),
+  enrichments: z.record(z.any()),
+  metadata,
+  createdAt: timestamp,
+  updatedAt: timestamp,
+}).strict();
+
+export const WebsetImportSchema: z.ZodType<WebsetImport> = z.object({
+  id: z.string(),
+  object: z.literal('import'),
+  status: z.enum(['pending', 'processing', 'completed', 'failed']),
+  format: z.literal('csv'),
+  entity: z.object({
+    type: z.enum(['company', 'person', 'research_paper', 'general']),
+  }).strict(),
+  title: z.string(),
+  count: z.number(),
+  metadata,
+  failedReason: z.enum(['invalid_format', 'invalid_file_content', 'missing_identifier']).optional(),
+  failedMessage: z.string().optional(),
+  failedAt: z.string().optional(),
+  uploadUrl: z.string().optional(),
+  uploadValidUntil: z.string().optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+}).strict();
+
+export const MonitorRunSchema: z.ZodType<MonitorRun> = z.object({
+  id: z.string(),
+  object: z.literal('monitor_run'),
+  status: z.enum(['created', 'running', 'completed', 'canceled', 'failed']),
+  monitorId: z.string(),
+  type: z.literal('search'),
+  searchId: z.string().optional(),
+  failedReason: z.string().optional(),
+  completedAt: z.string().optional(),
+  failedAt: z.string().optional(),
+  canceledAt: z.string().optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+}).strict();
+
+export const MonitorSchema: z.ZodType<Monitor> = z.object({
+  id: z.string(),
+  object: z.literal('monitor'),
+  status: z.enum(['enabled', 'disabled']),
+  websetId: z.string(),
+  cadence: z.object({
+    cron: z.string(),
+    timezone: z.string().optional(),
+  }).strict(),
+  behavior: z.object({
+    type: z.literal('search'),
+    config: z.object({
+      query: z.string(),
+      criteria: z.array(z.object({ description: z.string() }).strict()).optional(),
+      entity: z.object({
+        type: z.enum(['company', 'person', 'research_paper', 'general']),
+      }).strict().optional(),
+      count: z.number(),
+      behavior: z.enum(['append', 'override']),
+    }).strict(),
+  }).strict(),
+  lastRun: MonitorRunSchema.optional(),
+  nextRunAt: z.string().optional(),
+  metadata,
+  createdAt: timestamp,
+  updatedAt: timestamp,
+}).strict();
+
+export const WebhookSchema: z.ZodType<Webhook> = z.object({
+  id: z.string(),
+  object: z.literal('webhook'),
+  status: z.enum(['active', 'inactive']),
+  events: z.array(EventTypeSchema),
+  url: z.string(),
+  secret: z.string().optional(),
+  metadata,
+  createdAt: timestamp,
+  updatedAt: timestamp,
+}).strict();
+
+/**
+ * Event data is whatever resource the event is about, so it is not checked here
+ */
+export const WebsetEventSchema: z.ZodType<WebsetEvent> = z.object({
+  id: z.string(),
+  object: z.literal('event'),
+  type: EventTypeSchema,
+  data: z.record(z.any()),
+  createdAt: timestamp,
+}).strict();
+
+/**
+ * Schemas by the `object` field of the resources they describe
+ */
+export const RESOURCE_SCHEMAS: Record<string, { name: string; schema: z.ZodTypeAny }> = {
+  webset: { name: 'Webset', schema: WebsetSchema },
+  webset_search: { name: 'WebsetSearch', schema: WebsetSearchSchema },
+  webset_enrichment: { name: 'WebsetEnrichment', schema: WebsetEnrichmentSchema },
+  webset_item: { name: 'WebsetItem', schema: WebsetItemSchema },
+  import: { name: 'WebsetImport', schema: WebsetImportSchema },
+  monitor: { name: 'Monitor', schema: MonitorSchema },
+  monitor_run: { name: 'MonitorRun', schema: MonitorRunSchema },
+  webhook: { name: 'Webhook', schema: WebhookSchema },
+  event: { name: 'WebsetEvent', schema: WebsetEventSchema },
+};
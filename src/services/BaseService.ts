@@ -10,6 +10,9 @@ import { ApiErrorHandler } from '../api/ErrorHandler.js';
 import { log } from '../utils/logger.js';
 import { sanitizeObject, validateUrl, ValidationError } from '../utils/validation.js';
 import { maskSensitiveData } from '../utils/security.js';
+import { normalizeEndpoint } from '../metrics/WebsetsMetrics.js';
+import { withSpan } from '../tracing/WebsetsTracing.js';
+import { getResponseValidator } from '../schemas/ResponseValidator.js';
 
 export abstract class BaseService {
   protected apiClient: WebsetsApiClient;
@@ -27,92 +30,124 @@ export abstract class BaseService {
     cursor?: string,
     limit?: number
   ): Promise<PaginatedResponse<T>> {
-    try {
-      const sanitizedParams = this.sanitizeParams(params);
-      const requestParams = {
-        ...sanitizedParams,
-        ...(cursor && { cursor }),
-        ...(limit && { limit }),
-      };
+    return this.traceRequest('GET', endpoint, async () => {
+      try {
+        const sanitizedParams = this.sanitizeParams(params);
+        const requestParams = {
+          ...sanitizedParams,
+          ...(cursor && { cursor }),
+          ...(limit && { limit }),
+        };
 
-      const response = await this.apiClient.get<PaginatedResponse<T>>(endpoint, requestParams);
-      return response.data;
-    } catch (error) {
-      const apiError = ApiErrorHandler.createApiError(error);
-      ApiErrorHandler.logError(apiError, `Paginated request to ${endpoint}`);
-      throw apiError;
-    }
+        const response = await this.apiClient.get<PaginatedResponse<T>>(endpoint, requestParams);
+        return this.validateResponse(response.data, 'GET', endpoint);
+      } catch (error) {
+        const apiError = ApiErrorHandler.createApiError(error);
+        ApiErrorHandler.logError(apiError, `Paginated request to ${endpoint}`);
+        throw apiError;
+      }
+    });
   }
 
   /**
    * Handle standard GET requests
    */
   protected async handleGetRequest<T>(endpoint: string, params?: Record<string, any>): Promise<T> {
-    try {
-      const response = await this.apiClient.get<T>(endpoint, params);
-      return response.data;
-    } catch (error) {
-      const apiError = ApiErrorHandler.createApiError(error);
-      ApiErrorHandler.logError(apiError, `GET request to ${endpoint}`);
-      throw apiError;
-    }
+    return this.traceRequest('GET', endpoint, async () => {
+      try {
+        const response = await this.apiClient.get<T>(endpoint, params);
+        return this.validateResponse(response.data, 'GET', endpoint);
+      } catch (error) {
+        const apiError = ApiErrorHandler.createApiError(error);
+        ApiErrorHandler.logError(apiError, `GET request to ${endpoint}`);
+        throw apiError;
+      }
+    });
   }
 
   /**
    * Handle standard POST requests
    */
   protected async handlePostRequest<T>(endpoint: string, data?: any): Promise<T> {
-    try {
-      const sanitizedData = data ? this.sanitizeParams(data) : undefined;
-      const response = await this.apiClient.post<T>(endpoint, sanitizedData);
-      return response.data;
-    } catch (error) {
-      const apiError = ApiErrorHandler.createApiError(error);
-      ApiErrorHandler.logError(apiError, `POST request to ${endpoint}`);
-      throw apiError;
-    }
+    return this.traceRequest('POST', endpoint, async () => {
+      try {
+        const sanitizedData = data ? this.sanitizeParams(data) : undefined;
+        const response = await this.apiClient.post<T>(endpoint, sanitizedData);
+        return this.validateResponse(response.data, 'POST', endpoint);
+      } catch (error) {
+        const apiError = ApiErrorHandler.createApiError(error);
+        ApiErrorHandler.logError(apiError, `POST request to ${endpoint}`);
+        throw apiError;
+      }
+    });
   }
 
   /**
    * Handle standard PUT requests
    */
   protected async handlePutRequest<T>(endpoint: string, data?: any): Promise<T> {
-    try {
-      const response = await this.apiClient.put<T>(endpoint, data);
-      return response.data;
-    } catch (error) {
-      const apiError = ApiErrorHandler.createApiError(error);
-      ApiErrorHandler.logError(apiError, `PUT request to ${endpoint}`);
-      throw apiError;
-    }
+    return this.traceRequest('PUT', endpoint, async () => {
+      try {
+        const response = await this.apiClient.put<T>(endpoint, data);
+        return this.validateResponse(response.data, 'PUT', endpoint);
+      } catch (error) {
+        const apiError = ApiErrorHandler.createApiError(error);
+        ApiErrorHandler.logError(apiError, `PUT request to ${endpoint}`);
+        throw apiError;
+      }
+    });
   }
 
   /**
    * Handle standard DELETE requests
    */
   protected async handleDeleteRequest<T>(endpoint: string): Promise<T> {
-    try {
-      const response = await this.apiClient.delete<T>(endpoint);
-      return response.data;
-    } catch (error) {
-      const apiError = ApiErrorHandler.createApiError(error);
-      ApiErrorHandler.logError(apiError, `DELETE request to ${endpoint}`);
-      throw apiError;
-    }
+    return this.traceRequest('DELETE', endpoint, async () => {
+      try {
+        const response = await this.apiClient.delete<T>(endpoint);
+        return this.validateResponse(response.data, 'DELETE', endpoint);
+      } catch (error) {
+        const apiError = ApiErrorHandler.createApiError(error);
+        ApiErrorHandler.logError(apiError, `DELETE request to ${endpoint}`);
+        throw apiError;
+      }
+    });
   }
 
   /**
    * Handle standard PATCH requests
    */
   protected async handlePatchRequest<T>(endpoint: string, data?: any): Promise<T> {
-    try {
-      const response = await this.apiClient.patch<T>(endpoint, data);
-      return response.data;
-    } catch (error) {
-      const apiError = ApiErrorHandler.createApiError(error);
-      ApiErrorHandler.logError(apiError, `PATCH request to ${endpoint}`);
-      throw apiError;
-    }
+    return this.traceRequest('PATCH', endpoint, async () => {
+      try {
+        const response = await this.apiClient.patch<T>(endpoint, data);
+        return this.validateResponse(response.data, 'PATCH', endpoint);
+      } catch (error) {
+        const apiError = ApiErrorHandler.createApiError(error);
+        ApiErrorHandler.logError(apiError, `PATCH request to ${endpoint}`);
+        throw apiError;
+      }
+    });
+  }
+
+  /**
+   * Run a request in a span named after the service and endpoint
+   */
+  private traceRequest<T>(method: string, endpoint: string, request: () => Promise<T>): Promise<T> {
+    const serviceName = this.constructor.name;
+    return withSpan(`${serviceName} ${method} ${normalizeEndpoint(endpoint)}`, {
+      'websets.service': serviceName,
+      'websets.endpoint': endpoint,
+    }, request);
+  }
+
+  /**
+   * Check a response against the schema of the resource it contains
+   * Strict validation throws on drift; lenient validation only reports it.
+   */
+  private validateResponse<T>(data: T, method: string, endpoint: string): T {
+    getResponseValidator().validate(data, `${method} ${normalizeEndpoint(endpoint)}`);
+    return data;
   }
 
   /**
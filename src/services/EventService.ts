@@ -8,6 +8,7 @@
 import { BaseService } from './BaseService.js';
 import { WebsetsApiClient } from '../api/WebsetsApiClient.js';
 import { WebsetEvent, PaginatedResponse } from '../types/websets.js';
+import { getEventWebsetId } from '../events/EventTypes.js';
 
 /**
  * List events response type
@@ -324,7 +325,7 @@ export class EventService extends BaseService {
 
       if (filter.websetId) {
         events = events.filter((event: WebsetEvent) =>
-          event.data && 'websetId' in event.data && event.data.websetId === filter.websetId
+          getEventWebsetId(event) === filter.websetId
         );
       }
 
@@ -592,6 +593,13 @@ export class EventService extends BaseService {
       'webset.export.completed',
       'webset.item.created',
       'webset.item.enriched',
+      'import.created',
+      'import.completed',
+      'monitor.created',
+      'monitor.updated',
+      'monitor.deleted',
+      'monitor.run.created',
+      'monitor.run.completed',
     ];
 
     if (!validTypes.includes(event.type)) {
@@ -0,0 +1,229 @@
+/**
+ * Import Service
+ *
+ * Service for importing your own lists of URLs or entity names - uploading
+ * them as CSV, tracking their processing and seeding websets with them.
+ */
+
+import axios from 'axios';
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { BaseService } from './BaseService.js';
+import { ApiErrorHandler } from '../api/ErrorHandler.js';
+import {
+  WebsetImport,
+  CreateImportRequest,
+  SearchEntity,
+  PaginatedResponse
+} from '../types/websets.js';
+import { formatCsv, parseCsv } from '../utils/csv.js';
+
+/**
+ * Columns tried, in order, when no identifier column is given
+ */
+const IDENTIFIER_COLUMNS = ['url', 'website', 'domain', 'link', 'name', 'company', 'title'];
+
+/**
+ * Largest file accepted for upload
+ */
+const MAX_IMPORT_SIZE = 50 * 1024 * 1024; // 50 MB
+
+/**
+ * A list of entities read from a local file, ready to upload
+ */
+export interface ImportList {
+  columns: string[];
+  rows: string[][];
+  /** Zero-based index of the column identifying each entity */
+  identifierIndex: number;
+}
+
+/**
+ * Options for importing a local file
+ */
+export interface ImportFileOptions {
+  entityType: SearchEntity['type'];
+  title?: string;
+  /** Column identifying each entity (detected when omitted) */
+  identifierColumn?: string;
+  metadata?: Record<string, string>;
+}
+
+export class ImportService extends BaseService {
+  /**
+   * Create an import
+   * The response holds the URL the file must be uploaded to.
+   */
+  async createImport(request: CreateImportRequest): Promise<WebsetImport> {
+    this.logOperation('createImport', { title: request.title, count: request.count, size: request.size });
+
+    if (!Number.isInteger(request.count) || request.count < 1) {
+      throw new Error('count must be a positive integer');
+    }
+
+    const sanitizedRequest = this.sanitizeParams(request);
+    return this.handlePostRequest<WebsetImport>('/imports', sanitizedRequest);
+  }
+
+  /**
+   * Upload the CSV file of an import
+   * Upload URLs are pre-signed, so the API key is not sent with the file.
+   */
+  async uploadImportFile(websetImport: WebsetImport, csv: string): Promise<void> {
+    if (!websetImport.uploadUrl) {
+      throw new Error(`Import ${websetImport.id} has no upload URL; files can only be uploaded right after creating an import`);
+    }
+    this.logOperation('uploadImportFile', { importId: websetImport.id, size: Buffer.byteLength(csv) });
+
+    try {
+      await axios.put(websetImport.uploadUrl, csv, {
+        headers: { 'Content-Type': 'text/csv' },
+        timeout: 120000,
+        maxBodyLength: MAX_IMPORT_SIZE,
+      });
+    } catch (error) {
+      const apiError = ApiErrorHandler.createApiError(error);
+      ApiErrorHandler.logError(apiError, `Upload of import ${websetImport.id}`);
+      throw apiError;
+    }
+  }
+
+  /**
+   * Import a local CSV or JSON file of URLs or entity names
+   * Creates the import and uploads the file; processing continues in the background.
+   * @returns The created import and the list that was uploaded
+   */
+  async importFile(filePath: string, options: ImportFileOptions): Promise<{ import: WebsetImport; list: ImportList }> {
+    this.validateRequired({ filePath, entityType: options.entityType }, ['filePath', 'entityType']);
+    this.logOperation('importFile', { filePath, entityType: options.entityType });
+
+    const list = readImportList(await readFile(filePath, 'utf-8'), extname(filePath).toLowerCase() === '.json' ? 'json' : 'csv', options.identifierColumn);
+    const csv = formatCsv([list.columns, ...list.rows]);
+    const size = Buffer.byteLength(csv);
+    if (size > MAX_IMPORT_SIZE) {
+      throw new Error(`${filePath} is ${size} bytes as CSV; imports are limited to ${MAX_IMPORT_SIZE} bytes`);
+    }
+
+    const websetImport = await this.createImport({
+      size,
+      count: list.rows.length,
+      title: options.title || filePath.split(/[\\/]/).pop(),
+      format: 'csv',
+      entity: { type: options.entityType },
+      csv: { identifier: list.identifierIndex },
+      ...(options.metadata && { metadata: options.metadata }),
+    });
+    await this.uploadImportFile(websetImport, csv);
+
+    return { import: websetImport, list };
+  }
+
+  /**
+   * Get an import by ID
+   */
+  async getImport(importId: string): Promise<WebsetImport> {
+    this.validateRequired({ importId }, ['importId']);
+    this.logOperation('getImport', { importId });
+
+    const endpoint = this.buildEndpoint('/imports/{importId}', { importId });
+    return this.handleGetRequest<WebsetImport>(endpoint);
+  }
+
+  /**
+   * List imports with pagination
+   */
+  async listImports(cursor?: string, limit?: number): Promise<PaginatedResponse<WebsetImport>> {
+    this.logOperation('listImports', { cursor, limit });
+
+    return this.handlePaginatedRequest<WebsetImport>('/imports', {}, cursor, limit);
+  }
+
+  /**
+   * Delete an import
+   */
+  async deleteImport(importId: string): Promise<WebsetImport> {
+    this.validateRequired({ importId }, ['importId']);
+    this.logOperation('deleteImport', { importId });
+
+    const endpoint = this.buildEndpoint('/imports/{importId}', { importId });
+    return this.handleDeleteRequest<WebsetImport>(endpoint);
+  }
+
+  /**
+   * Wait for an import to finish processing
+   * @returns The import once it has completed or failed
+   */
+  async waitForImport(importId: string, timeoutMs: number = 120000): Promise<WebsetImport> {
+    this.validateRequired({ importId }, ['importId']);
+    this.logOperation('waitForImport', { importId, timeoutMs });
+
+    return this.pollForCompletion<WebsetImport>(
+      this.buildEndpoint('/imports/{importId}', { importId }),
+      (websetImport) => this.isImportFinished(websetImport),
+      Math.ceil(timeoutMs / 2000),
+      2000
+    );
+  }
+
+  /**
+   * Check if an import has completed or failed
+   */
+  isImportFinished(websetImport: WebsetImport): boolean {
+    return websetImport.status === 'completed' || websetImport.status === 'failed';
+  }
+}
+
+/**
+ * Read a list of entities from CSV or JSON text
+ * CSV needs a header row. JSON may be an array of strings (URLs or names) or
+ * of objects, whose keys become columns.
+ * @param identifierColumn Column identifying each entity; detected from the column names when omitted
+ * @throws Error when the text holds no entities or the identifier column is missing
+ */
+export function readImportList(text: string, format: 'csv' | 'json', identifierColumn?: string): ImportList {
+  let columns: string[];
+  let rows: string[][];
+
+  if (format === 'json') {
+    const entries: unknown = JSON.parse(text);
+    if (!Array.isArray(entries)) {
+      throw new Error('A JSON import must be an array of strings or objects');
+    }
+
+    if (entries.every(entry => typeof entry === 'string')) {
+      columns = [entries.every(entry => /^https?:\/\//i.test(entry)) ? 'url' : 'name'];
+      rows = entries.map(entry => [entry.trim()]);
+    } else if (entries.every(entry => entry !== null && typeof entry === 'object' && !Array.isArray(entry))) {
+      columns = [...new Set(entries.flatMap(entry => Object.keys(entry)))];
+      rows = entries.map(entry => columns.map(column => toField(entry[column])));
+    } else {
+      throw new Error('A JSON import must be an array of strings or an array of objects, not a mix');
+    }
+  } else {
+    const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+    columns = (header ?? []).map(column => column.trim());
+    rows = records.map(record => columns.map((_, index) => (record[index] ?? '').trim()));
+  }
+
+  const identifierIndex = identifierColumn
+    ? columns.indexOf(identifierColumn)
+    : IDENTIFIER_COLUMNS.map(name => columns.findIndex(column => column.toLowerCase() === name)).find(index => index !== -1) ?? 0;
+  if (identifierIndex === -1) {
+    throw new Error(`There is no "${identifierColumn}" column; columns are: ${columns.join(', ')}`);
+  }
+
+  // Entities without an identifier cannot be imported
+  rows = rows.filter(row => row[identifierIndex]);
+  if (rows.length === 0) {
+    throw new Error('The import has no entities');
+  }
+
+  return { columns, rows, identifierIndex };
+}
+
+function toField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value).trim();
+}
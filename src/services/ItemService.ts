@@ -11,6 +11,7 @@ import {
   ItemEntity,
   ItemVerification 
 } from '../types/websets.js';
+import { ItemExport, ItemExporter, ItemExportOptions } from '../export/index.js';
 
 export class ItemService extends BaseService {
   /**
@@ -211,78 +212,31 @@ export class ItemService extends BaseService {
   }
 
   /**
-   * Export items to JSON
+   * Export all items of a webset
+   * @param websetId The webset to export
+   * @param options Format, columns and enrichment definitions
+   * @returns The serialized export
    */
-  async exportItemsToJson(websetId: string): Promise<string> {
+  async exportItems(websetId: string, options: ItemExportOptions): Promise<ItemExport> {
     this.validateRequired({ websetId }, ['websetId']);
-    this.logOperation('exportItemsToJson', { websetId });
+    this.logOperation('exportItems', { websetId, format: options.format });
     
     const allItems = await this.getAllItems(websetId);
-    return JSON.stringify(allItems, null, 2);
+    return new ItemExporter().export(allItems, options);
+  }
+
+  /**
+   * Export items to JSON
+   */
+  async exportItemsToJson(websetId: string): Promise<string> {
+    return (await this.exportItems(websetId, { format: 'json' })).content as string;
   }
 
   /**
    * Export items to CSV format
    */
   async exportItemsToCsv(websetId: string): Promise<string> {
-    this.validateRequired({ websetId }, ['websetId']);
-    this.logOperation('exportItemsToCsv', { websetId });
-    
-    const allItems = await this.getAllItems(websetId);
-    
-    if (allItems.length === 0) {
-      return 'No items found';
-    }
-    
-    // CSV headers
-    const headers = [
-      'id',
-      'title',
-      'url',
-      'entity_type',
-      'verification_status',
-      'verification_reasoning',
-      'search_id',
-      'created_at',
-      'updated_at'
-    ];
-    
-    // Add enrichment columns
-    const enrichmentKeys = new Set<string>();
-    for (const item of allItems) {
-      if (item.enrichments) {
-        Object.keys(item.enrichments).forEach(key => enrichmentKeys.add(key));
-      }
-    }
-    
-    headers.push(...Array.from(enrichmentKeys).map(key => `enrichment_${key}`));
-    
-    // Build CSV rows
-    const rows = [headers.join(',')];
-    
-    for (const item of allItems) {
-      const row = [
-        this.escapeCsvValue(item.id),
-        this.escapeCsvValue(item.title),
-        this.escapeCsvValue(item.url),
-        this.escapeCsvValue(item.entity.type),
-        this.escapeCsvValue(item.verification.status),
-        this.escapeCsvValue(item.verification.reasoning),
-        this.escapeCsvValue(item.searchId),
-        this.escapeCsvValue(item.createdAt),
-        this.escapeCsvValue(item.updatedAt),
-      ];
-      
-      // Add enrichment values
-      for (const key of enrichmentKeys) {
-        const value = item.enrichments?.[key];
-        row.push(this.escapeCsvValue(value ? String(value) : ''));
-      }
-      
-      rows.push(row.join(','));
-    }
-    
-    return rows.join('\n');
+    return (await this.exportItems(websetId, { format: 'csv' })).content as string;
   }
 
   /**
@@ -312,14 +266,4 @@ export class ItemService extends BaseService {
   validateItemUrl(url: string): boolean {
     return this.validateUrl(url);
   }
-
-  /**
-   * Escape CSV values
-   */
-  private escapeCsvValue(value: string): string {
-    if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-      return `"${value.replace(/"/g, '""')}"`;
-    }
-    return value;
-  }
-}
\ No newline at end of file
+}
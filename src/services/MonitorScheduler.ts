@@ -0,0 +1,432 @@
+/**
+ * Monitor Scheduler
+ *
+ * Runs monitors on this server when the Websets API has no monitors endpoint.
+ * Each run is an AsyncOperationManager operation that starts the monitor's
+ * search and follows it until it finishes; a single timer wakes the scheduler
+ * when the next monitor is due.
+ */
+
+import { AsyncOperation, AsyncOperationManager, OperationStatus } from '../state/AsyncOperationManager.js';
+import { LocalMonitorRecord, MonitorStore } from '../state/MonitorStore.js';
+import {
+  CreateMonitorRequest,
+  Monitor,
+  MonitorRun,
+  UpdateMonitorRequest,
+  WebsetSearch
+} from '../types/websets.js';
+import { nextCronTime } from '../utils/cron.js';
+import { log } from '../utils/logger.js';
+import { SearchService } from './SearchService.js';
+
+/**
+ * Operation type of monitor runs
+ */
+const RUN_OPERATION = 'monitor_run';
+
+/**
+ * Monitor scheduler configuration
+ */
+export interface MonitorSchedulerConfig {
+  /** Maximum number of runs following their searches at once */
+  maxConcurrentRuns: number;
+  /** Longest a run may wait for its search to finish in milliseconds */
+  runTimeout: number;
+  /** Interval between checks on a run's search in milliseconds */
+  searchPollInterval: number;
+  /** Longest the scheduler sleeps before checking for due monitors again in milliseconds */
+  maxTimerDelay: number;
+}
+
+/**
+ * Default monitor scheduler configuration
+ */
+const DEFAULT_MONITOR_SCHEDULER_CONFIG: MonitorSchedulerConfig = {
+  maxConcurrentRuns: 5,
+  runTimeout: 3600000, // 1 hour
+  searchPollInterval: 30000, // 30 seconds
+  maxTimerDelay: 3600000, // 1 hour
+};
+
+/**
+ * A run being followed by the operation manager
+ */
+interface ActiveRun {
+  monitorId: string;
+  operationId: string;
+  /** Settles once the run's final status is saved */
+  done: Promise<void>;
+}
+
+/**
+ * Schedules monitors locally and runs them when they are due
+ */
+export class MonitorScheduler {
+  private readonly config: MonitorSchedulerConfig;
+  private readonly operations: AsyncOperationManager;
+  private readonly activeRuns = new Map<string, ActiveRun>();
+  private readonly wakeUps = new Set<() => void>();
+  private searchService?: SearchService;
+  private timer?: NodeJS.Timeout;
+  private dueCheck: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(private readonly store: MonitorStore, config: Partial<MonitorSchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_MONITOR_SCHEDULER_CONFIG, ...config };
+    this.operations = new AsyncOperationManager({
+      maxConcurrentOperations: this.config.maxConcurrentRuns,
+      defaultTimeout: this.config.runTimeout,
+      // A retried run would start a second search
+      defaultMaxRetries: 0,
+    });
+    this.operations.registerExecutor<WebsetSearch>(RUN_OPERATION, (operation, _progress, cancellationToken) =>
+      this.executeRun(operation, cancellationToken)
+    );
+  }
+
+  /**
+   * Start running monitors with the given search service
+   * Runs left unfinished by an unclean exit are marked failed, and monitors
+   * that came due while the server was stopped run once right away.
+   * Later calls are ignored.
+   */
+  async start(searchService: SearchService): Promise<void> {
+    if (this.searchService || this.stopped) {
+      return;
+    }
+    this.searchService = searchService;
+
+    for (const record of await this.store.list()) {
+      const interrupted = record.runs.filter(run => run.status === 'created' || run.status === 'running');
+      if (interrupted.length > 0) {
+        const failedAt = new Date().toISOString();
+        interrupted.forEach(run => Object.assign(run, { status: 'failed', failedReason: 'The server stopped before the run finished', failedAt, updatedAt: failedAt }));
+        this.syncLastRun(record);
+        await this.store.save(record);
+      }
+    }
+
+    await this.runDueMonitors();
+  }
+
+  /**
+   * Create a monitor, scheduled from now
+   */
+  async create(request: CreateMonitorRequest): Promise<Monitor> {
+    const now = new Date();
+    const monitor: Monitor = {
+      id: this.store.createId('monitor'),
+      object: 'monitor',
+      status: 'enabled',
+      websetId: request.websetId,
+      cadence: request.cadence,
+      behavior: request.behavior,
+      nextRunAt: nextCronTime(request.cadence.cron, now, request.cadence.timezone).toISOString(),
+      metadata: request.metadata ?? {},
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    await this.store.save({ monitor, runs: [] });
+    await this.schedule();
+    return monitor;
+  }
+
+  /**
+   * Get a monitor by ID
+   * @throws Error when there is no such monitor
+   */
+  async get(monitorId: string): Promise<Monitor> {
+    return (await this.requireRecord(monitorId)).monitor;
+  }
+
+  /**
+   * List monitors, optionally only those of one webset
+   */
+  async list(websetId?: string): Promise<Monitor[]> {
+    const records = await this.store.list();
+    return records.map(record => record.monitor).filter(monitor => !websetId || monitor.websetId === websetId);
+  }
+
+  /**
+   * Update a monitor
+   * Changing the cadence or re-enabling the monitor schedules its next run from now.
+   */
+  async update(monitorId: string, request: UpdateMonitorRequest): Promise<Monitor> {
+    const record = await this.requireRecord(monitorId);
+    const { monitor } = record;
+    const now = new Date();
+
+    if (request.cadence) {
+      // Validate before changing anything
+      nextCronTime(request.cadence.cron, now, request.cadence.timezone);
+      monitor.cadence = request.cadence;
+    }
+    if (request.behavior) {
+      monitor.behavior = request.behavior;
+    }
+    if (request.metadata) {
+      monitor.metadata = request.metadata;
+    }
+    const rescheduled = request.cadence !== undefined || (request.status === 'enabled' && monitor.status === 'disabled');
+    if (request.status) {
+      monitor.status = request.status;
+    }
+
+    if (monitor.status === 'disabled') {
+      delete monitor.nextRunAt;
+    } else if (rescheduled || !monitor.nextRunAt) {
+      monitor.nextRunAt = nextCronTime(monitor.cadence.cron, now, monitor.cadence.timezone).toISOString();
+    }
+    monitor.updatedAt = now.toISOString();
+
+    await this.store.save(record);
+    await this.schedule();
+    return monitor;
+  }
+
+  /**
+   * Delete a monitor, canceling its run in progress
+   * The search a canceled run started carries on in the webset.
+   * @returns The deleted monitor
+   */
+  async delete(monitorId: string): Promise<Monitor> {
+    const { monitor } = await this.requireRecord(monitorId);
+
+    const canceled = [...this.activeRuns.values()].filter(run => run.monitorId === monitorId);
+    canceled.forEach(run => this.operations.cancelOperation(run.operationId, 'Monitor deleted'));
+    this.wakeAll();
+    await Promise.all(canceled.map(run => run.done));
+
+    await this.store.delete(monitorId);
+    await this.schedule();
+    return monitor;
+  }
+
+  /**
+   * List the runs of a monitor, newest first
+   */
+  async listRuns(monitorId: string): Promise<MonitorRun[]> {
+    return (await this.requireRecord(monitorId)).runs;
+  }
+
+  /**
+   * Start a run of every enabled monitor that is due
+   * Runs missed while the server was stopped are not made up: a monitor runs
+   * once and its next run is scheduled from the given time.
+   */
+  runDueMonitors(now: Date = new Date()): Promise<void> {
+    const check = this.dueCheck.then(() => this.startDueRuns(now));
+    this.dueCheck = check.catch(() => undefined);
+    return check;
+  }
+
+  /**
+   * Cancel runs in progress, stop the timer and save monitors
+   */
+  async shutdown(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    await this.dueCheck;
+
+    const running = [...this.activeRuns.values()];
+    running.forEach(run => this.operations.cancelOperation(run.operationId, 'Server shutting down'));
+    this.wakeAll();
+    await Promise.all(running.map(run => run.done));
+
+    await this.operations.shutdown(0);
+    await this.store.shutdown();
+  }
+
+  private async startDueRuns(now: Date): Promise<void> {
+    if (!this.searchService || this.stopped) {
+      return;
+    }
+
+    for (const record of await this.store.list()) {
+      const { monitor } = record;
+      if (monitor.status !== 'enabled' || !monitor.nextRunAt || Date.parse(monitor.nextRunAt) > now.getTime()) {
+        continue;
+      }
+
+      const createdAt = new Date().toISOString();
+      const run: MonitorRun = {
+        id: this.store.createId('run'),
+        object: 'monitor_run',
+        status: 'created',
+        monitorId: monitor.id,
+        type: 'search',
+        createdAt,
+        updatedAt: createdAt,
+      };
+      record.runs.unshift(run);
+      monitor.lastRun = run;
+      monitor.nextRunAt = nextCronTime(monitor.cadence.cron, now, monitor.cadence.timezone).toISOString();
+      await this.store.save(record);
+
+      this.startRun(monitor.id, run.id);
+    }
+
+    await this.schedule();
+  }
+
+  private startRun(monitorId: string, runId: string): void {
+    const operation = this.operations.createOperation<WebsetSearch>(RUN_OPERATION, { metadata: { monitorId, runId } });
+
+    const done = this.operations.startOperation<WebsetSearch>(operation.id)
+      .then(search => {
+        const finishedAt = new Date().toISOString();
+        return this.updateRun(monitorId, runId, search.status === 'completed'
+          ? { status: 'completed', completedAt: finishedAt }
+          : { status: 'canceled', canceledAt: finishedAt });
+      })
+      .catch(error => {
+        const finishedAt = new Date().toISOString();
+        if (operation.status === OperationStatus.CANCELLED) {
+          return this.updateRun(monitorId, runId, { status: 'canceled', canceledAt: finishedAt });
+        }
+        const failedReason = operation.status === OperationStatus.TIMEOUT
+          ? `The search did not finish within ${Math.round(this.config.runTimeout / 60000)} minutes`
+          : error instanceof Error ? error.message : String(error);
+        return this.updateRun(monitorId, runId, { status: 'failed', failedReason, failedAt: finishedAt });
+      })
+      .catch(error => {
+        log(`Failed to record the outcome of monitor run ${runId}: ${error instanceof Error ? error.message : String(error)}`);
+      })
+      .finally(() => {
+        this.activeRuns.delete(runId);
+      });
+
+    this.activeRuns.set(runId, { monitorId, operationId: operation.id, done });
+  }
+
+  private async executeRun(operation: AsyncOperation<WebsetSearch>, cancellationToken: { cancelled: boolean }): Promise<WebsetSearch> {
+    const { monitorId, runId } = operation.config.metadata as { monitorId: string; runId: string };
+    const { monitor } = await this.requireRecord(monitorId);
+    const { config } = monitor.behavior;
+
+    const search = await this.searchService!.createSearch({
+      websetId: monitor.websetId,
+      query: config.query,
+      entity: config.entity,
+      criteria: config.criteria?.map(criterion => ({ description: criterion.description, successRate: 0 })),
+      count: config.count,
+      behavior: config.behavior,
+      metadata: { monitorId, monitorRunId: runId },
+    });
+    await this.updateRun(monitorId, runId, { status: 'running', searchId: search.id });
+    log(`Monitor ${monitorId} started search ${search.id} in webset ${monitor.websetId}`);
+
+    let current = search;
+    while (current.status === 'created' || current.status === 'running') {
+      if (!cancellationToken.cancelled) {
+        await this.sleep(this.config.searchPollInterval);
+      }
+      if (cancellationToken.cancelled) {
+        throw new Error(`Monitor run ${runId} was canceled`);
+      }
+      current = await this.searchService!.getSearch(monitor.websetId, search.id);
+    }
+    return current;
+  }
+
+  private async updateRun(monitorId: string, runId: string, changes: Partial<MonitorRun>): Promise<void> {
+    const record = await this.store.get(monitorId);
+    const run = record?.runs.find(candidate => candidate.id === runId);
+    if (!record || !run) {
+      // The monitor was deleted
+      return;
+    }
+
+    Object.assign(run, changes, { updatedAt: new Date().toISOString() });
+    this.syncLastRun(record);
+    await this.store.save(record);
+  }
+
+  /**
+   * Keep a monitor's last run in step with its runs, which are separate objects once read back from disk
+   */
+  private syncLastRun(record: LocalMonitorRecord): void {
+    if (record.runs.length > 0) {
+      record.monitor.lastRun = record.runs[0];
+    }
+  }
+
+  private async requireRecord(monitorId: string): Promise<LocalMonitorRecord> {
+    const record = await this.store.get(monitorId);
+    if (!record) {
+      throw new Error(`Monitor ${monitorId} not found`);
+    }
+    return record;
+  }
+
+  /**
+   * Set the timer for the next due monitor
+   */
+  private async schedule(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (!this.searchService || this.stopped) {
+      return;
+    }
+
+    const dueTimes = (await this.store.list())
+      .filter(record => record.monitor.status === 'enabled' && record.monitor.nextRunAt)
+      .map(record => Date.parse(record.monitor.nextRunAt!));
+    if (dueTimes.length === 0) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(Math.min(...dueTimes) - Date.now(), 0), this.config.maxTimerDelay);
+    this.timer = setTimeout(() => {
+      this.runDueMonitors().catch(error => {
+        log(`Failed to run due monitors: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }, delay);
+    // Monitors alone should not keep the process alive
+    this.timer.unref();
+  }
+
+  /**
+   * Wait between checks on a search, waking early when runs are canceled
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const wakeUp = () => {
+        clearTimeout(timer);
+        this.wakeUps.delete(wakeUp);
+        resolve();
+      };
+      const timer = setTimeout(wakeUp, ms);
+      timer.unref();
+      this.wakeUps.add(wakeUp);
+    });
+  }
+
+  private wakeAll(): void {
+    [...this.wakeUps].forEach(wakeUp => wakeUp());
+  }
+}
+
+let sharedScheduler: MonitorScheduler | undefined;
+
+/**
+ * Get the shared monitor scheduler, creating it on first use
+ */
+export function getMonitorScheduler(): MonitorScheduler {
+  if (!sharedScheduler) {
+    sharedScheduler = new MonitorScheduler(new MonitorStore());
+  }
+  return sharedScheduler;
+}
+
+/**
+ * Shut down the shared monitor scheduler if it was created
+ */
+export async function shutdownMonitorScheduler(): Promise<void> {
+  if (sharedScheduler) {
+    await sharedScheduler.shutdown();
+    sharedScheduler = undefined;
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Monitor Service
+ *
+ * Service for monitors - schedules that re-run a webset's search so the
+ * webset stays fresh. Monitors are created through the Websets API when it
+ * has a monitors endpoint, and scheduled on this server otherwise.
+ */
+
+import { BaseService } from './BaseService.js';
+import { SearchService } from './SearchService.js';
+import { MonitorScheduler, getMonitorScheduler } from './MonitorScheduler.js';
+import { WebsetsApiClient } from '../api/WebsetsApiClient.js';
+import { ApiErrorHandler } from '../api/ErrorHandler.js';
+import { LOCAL_MONITOR_PREFIX } from '../state/MonitorStore.js';
+import {
+  ApiError,
+  CreateMonitorRequest,
+  Monitor,
+  MonitorRun,
+  PaginatedResponse,
+  UpdateMonitorRequest
+} from '../types/websets.js';
+import { nextCronTime } from '../utils/cron.js';
+import { log } from '../utils/logger.js';
+
+/**
+ * Where monitors are scheduled
+ */
+export type MonitorBackend = 'api' | 'local';
+
+/**
+ * Monitor service configuration
+ */
+export interface MonitorServiceConfig {
+  /** Where new monitors are scheduled; 'auto' uses the API when it has a monitors endpoint */
+  mode: MonitorBackend | 'auto';
+  /** Scheduler for monitors run on this server (the shared one when omitted) */
+  scheduler?: MonitorScheduler;
+}
+
+/**
+ * Default monitor service configuration
+ */
+const DEFAULT_MONITOR_SERVICE_CONFIG: MonitorServiceConfig = {
+  mode: process.env.WEBSETS_MONITORS_MODE === 'api' || process.env.WEBSETS_MONITORS_MODE === 'local'
+    ? process.env.WEBSETS_MONITORS_MODE
+    : 'auto',
+};
+
+/**
+ * Whether each API has a monitors endpoint, keyed by base URL
+ */
+const monitorsApiSupport = new Map<string, Promise<boolean>>();
+
+export class MonitorService extends BaseService {
+  private readonly config: MonitorServiceConfig;
+
+  constructor(apiClient: WebsetsApiClient, config: Partial<MonitorServiceConfig> = {}) {
+    super(apiClient);
+    this.config = { ...DEFAULT_MONITOR_SERVICE_CONFIG, ...config };
+  }
+
+  /**
+   * Find out where new monitors are scheduled
+   * In auto mode the API is asked once whether it has a monitors endpoint.
+   */
+  async getBackend(): Promise<MonitorBackend> {
+    if (this.config.mode !== 'auto') {
+      return this.config.mode;
+    }
+
+    const baseUrl = this.apiClient.getBaseUrl();
+    let supported = monitorsApiSupport.get(baseUrl);
+    if (!supported) {
+      supported = this.probeMonitorsApi();
+      monitorsApiSupport.set(baseUrl, supported);
+      // Ask again next time when the answer was an unrelated error
+      supported.catch(() => monitorsApiSupport.delete(baseUrl));
+    }
+    return (await supported) ? 'api' : 'local';
+  }
+
+  /**
+   * Create a monitor
+   */
+  async createMonitor(request: CreateMonitorRequest): Promise<Monitor> {
+    this.validateRequired({ websetId: request.websetId, cron: request.cadence?.cron }, ['websetId', 'cron']);
+    this.validateMonitorRequest(request);
+    this.logOperation('createMonitor', { websetId: request.websetId, cron: request.cadence.cron });
+
+    if (await this.getBackend() === 'local') {
+      return (await this.getScheduler()).create(request);
+    }
+    return this.handlePostRequest<Monitor>('/monitors', this.sanitizeParams(request));
+  }
+
+  /**
+   * Get a monitor by ID
+   */
+  async getMonitor(monitorId: string): Promise<Monitor> {
+    this.validateRequired({ monitorId }, ['monitorId']);
+    this.logOperation('getMonitor', { monitorId });
+
+    if (this.isLocalMonitor(monitorId)) {
+      return (await this.getScheduler()).get(monitorId);
+    }
+    return this.handleGetRequest<Monitor>(this.buildEndpoint('/monitors/{monitorId}', { monitorId }));
+  }
+
+  /**
+   * List monitors with pagination, optionally only those of one webset
+   * Monitors scheduled on this server come first and are not paginated.
+   */
+  async listMonitors(websetId?: string, cursor?: string, limit?: number): Promise<PaginatedResponse<Monitor>> {
+    this.logOperation('listMonitors', { websetId, cursor, limit });
+
+    const local = cursor ? [] : await (await this.getScheduler()).list(websetId);
+    if (await this.getBackend() === 'local') {
+      return { data: local, hasMore: false };
+    }
+
+    const page = await this.handlePaginatedRequest<Monitor>('/monitors', { websetId }, cursor, limit);
+    return { ...page, data: [...local, ...page.data] };
+  }
+
+  /**
+   * Update a monitor
+   */
+  async updateMonitor(monitorId: string, request: UpdateMonitorRequest): Promise<Monitor> {
+    this.validateRequired({ monitorId }, ['monitorId']);
+    this.validateMonitorRequest(request);
+    this.logOperation('updateMonitor', { monitorId, status: request.status, cron: request.cadence?.cron });
+
+    if (this.isLocalMonitor(monitorId)) {
+      return (await this.getScheduler()).update(monitorId, request);
+    }
+    return this.handlePatchRequest<Monitor>(this.buildEndpoint('/monitors/{monitorId}', { monitorId }), this.sanitizeParams(request));
+  }
+
+  /**
+   * Delete a monitor
+   */
+  async deleteMonitor(monitorId: string): Promise<Monitor> {
+    this.validateRequired({ monitorId }, ['monitorId']);
+    this.logOperation('deleteMonitor', { monitorId });
+
+    if (this.isLocalMonitor(monitorId)) {
+      return (await this.getScheduler()).delete(monitorId);
+    }
+    return this.handleDeleteRequest<Monitor>(this.buildEndpoint('/monitors/{monitorId}', { monitorId }));
+  }
+
+  /**
+   * List the runs of a monitor, newest first
+   * Runs of monitors scheduled on this server are not paginated.
+   */
+  async listMonitorRuns(monitorId: string, cursor?: string, limit?: number): Promise<PaginatedResponse<MonitorRun>> {
+    this.validateRequired({ monitorId }, ['monitorId']);
+    this.logOperation('listMonitorRuns', { monitorId, cursor, limit });
+
+    if (this.isLocalMonitor(monitorId)) {
+      const runs = await (await this.getScheduler()).listRuns(monitorId);
+      return { data: limit ? runs.slice(0, limit) : runs, hasMore: limit !== undefined && runs.length > limit };
+    }
+    return this.handlePaginatedRequest<MonitorRun>(this.buildEndpoint('/monitors/{monitorId}/runs', { monitorId }), {}, cursor, limit);
+  }
+
+  /**
+   * Check if a monitor is scheduled on this server
+   */
+  isLocalMonitor(monitorId: string): boolean {
+    return monitorId.startsWith(LOCAL_MONITOR_PREFIX);
+  }
+
+  /**
+   * Get the scheduler for local monitors, started with this service's API client
+   */
+  private async getScheduler(): Promise<MonitorScheduler> {
+    const scheduler = this.config.scheduler ?? getMonitorScheduler();
+    await scheduler.start(new SearchService(this.apiClient));
+    return scheduler;
+  }
+
+  private async probeMonitorsApi(): Promise<boolean> {
+    try {
+      await this.apiClient.get('/monitors', { limit: 1 });
+      return true;
+    } catch (error) {
+      if (isMissingEndpoint(ApiErrorHandler.createApiError(error))) {
+        log('The Websets API has no monitors endpoint; monitors will be scheduled on this server');
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validate the schedule and search of a monitor request
+   */
+  private validateMonitorRequest(request: CreateMonitorRequest | UpdateMonitorRequest): void {
+    if (request.cadence) {
+      // Throws for invalid expressions and time zones, and for schedules that never fire
+      nextCronTime(request.cadence.cron, new Date(), request.cadence.timezone);
+    }
+
+    const config = request.behavior?.config;
+    if (config) {
+      if (!config.query?.trim()) {
+        throw new Error('A monitor needs a search query to re-run');
+      }
+      if (!Number.isInteger(config.count) || config.count < 1) {
+        throw new Error('Monitor search count must be a positive integer');
+      }
+      if (config.behavior !== 'append' && config.behavior !== 'override') {
+        throw new Error('Monitor behavior must be "append" or "override"');
+      }
+    }
+  }
+}
+
+/**
+ * Check if an error means the API has no such endpoint
+ */
+function isMissingEndpoint(error: ApiError): boolean {
+  const status = (error.details as { status?: number } | undefined)?.status;
+  return status === 404 || status === 405 || ['not_found', 'not_found_error', 'method_not_allowed'].includes(error.code);
+}
@@ -462,6 +462,13 @@ export class WebhookService extends BaseService {
       'webset.search.updated',
       'webset.search.canceled',
       'webset.search.completed',
+      'import.created',
+      'import.completed',
+      'monitor.created',
+      'monitor.updated',
+      'monitor.deleted',
+      'monitor.run.created',
+      'monitor.run.completed',
     ];
 
     for (const eventType of request.events) {
@@ -496,6 +503,13 @@ export class WebhookService extends BaseService {
         'webset.search.updated',
         'webset.search.canceled',
         'webset.search.completed',
+        'import.created',
+        'import.completed',
+        'monitor.created',
+        'monitor.updated',
+        'monitor.deleted',
+        'monitor.run.created',
+        'monitor.run.completed',
       ];
 
       for (const eventType of request.events) {
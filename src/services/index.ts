@@ -11,17 +11,29 @@ export { ItemService } from './ItemService.js';
 export { EnrichmentService } from './EnrichmentService.js';
 export { EventService } from './EventService.js';
 export { WebhookService } from './WebhookService.js';
+export { ImportService, readImportList } from './ImportService.js';
+export type { ImportList, ImportFileOptions } from './ImportService.js';
+export { MonitorService } from './MonitorService.js';
+export type { MonitorBackend, MonitorServiceConfig } from './MonitorService.js';
+export { MonitorScheduler, getMonitorScheduler, shutdownMonitorScheduler } from './MonitorScheduler.js';
+export type { MonitorSchedulerConfig } from './MonitorScheduler.js';
 
 // Service factory for creating configured service instances
 import { WebsetsApiClient } from '../api/WebsetsApiClient.js';
-import { WebsetsConfig } from '../config/websets.js';
+import { CircuitBreakerRegistry, getSharedCircuitBreakers, getSharedRateLimiter } from '../api/RateLimiter.js';
+import { ResponseCache, getSharedResponseCache } from '../api/ResponseCache.js';
+import { getSharedRequestCoalescer } from '../api/RequestCoalescer.js';
+import { WebsetsConfig, createCassetteConfig } from '../config/websets.js';
 import { WebsetService } from './WebsetService.js';
 import { SearchService } from './SearchService.js';
 import { ItemService } from './ItemService.js';
 import { EnrichmentService } from './EnrichmentService.js';
 import { EventService } from './EventService.js';
 import { WebhookService } from './WebhookService.js';
+import { ImportService } from './ImportService.js';
+import { MonitorService } from './MonitorService.js';
 import { SecureTokenProvider } from '../utils/security.js';
+import { WebsetMappingStore, getWebsetMappingStore } from '../state/WebsetMappingStore.js';
 
 export interface ServiceContainer {
   websetService: WebsetService;
@@ -30,6 +42,8 @@ export interface ServiceContainer {
   enrichmentService: EnrichmentService;
   eventService: EventService;
   webhookService: WebhookService;
+  importService: ImportService;
+  monitorService: MonitorService;
 }
 
 /**
@@ -43,6 +57,8 @@ export function createServiceContainer(apiClient: WebsetsApiClient): ServiceCont
     enrichmentService: new EnrichmentService(apiClient),
     eventService: new EventService(apiClient),
     webhookService: new WebhookService(apiClient),
+    importService: new ImportService(apiClient),
+    monitorService: new MonitorService(apiClient),
   };
 }
 
@@ -53,14 +69,16 @@ export function createServiceContainer(apiClient: WebsetsApiClient): ServiceCont
  export function createServices(apiKey: string, baseUrl?: string): ServiceContainer {
    const config: WebsetsConfig = {
      apiKey,
-     baseUrl: baseUrl || 'https://api.exa.ai/websets/v0',
+     baseUrl: resolveBaseUrl(baseUrl),
      timeout: 30000,
      retryAttempts: 3,
      retryDelay: 1000,
      maxRetryDelay: 10000,
      rateLimit: 10,
+     writeRateLimit: 5,
      circuitBreakerThreshold: 5,
      circuitBreakerTimeout: 60000,
+     cassette: createCassetteConfig(),
    };
    
    const clientConfig = {
@@ -70,10 +88,45 @@ export function createServiceContainer(apiClient: WebsetsApiClient): ServiceCont
        'Accept': 'application/json',
      },
      enableLogging: process.env.NODE_ENV !== 'production',
-     enableMetrics: false,
+     enableMetrics: process.env.WEBSETS_ENABLE_METRICS === 'true',
    };
    
    const tokenProvider = new SecureTokenProvider(() => config.apiKey);
-   const apiClient = new WebsetsApiClient(config, clientConfig, tokenProvider);
+   // Clients are created per call; the rate limiter, circuit breakers, response cache and
+   // in-flight requests are shared between them
+   const apiClient = new WebsetsApiClient(config, clientConfig, tokenProvider, {
+     rateLimiter: getSharedRateLimiter(config.baseUrl, {
+       read: { requestsPerSecond: config.rateLimit },
+       write: { requestsPerSecond: config.writeRateLimit ?? config.rateLimit },
+     }),
+     circuitBreakers: getSharedCircuitBreakers(config.baseUrl, config.circuitBreakerThreshold, config.circuitBreakerTimeout),
+     responseCache: getSharedResponseCache(config.baseUrl, config.apiKey),
+     requestCoalescer: getSharedRequestCoalescer(config.baseUrl, config.apiKey),
+   });
    return createServiceContainer(apiClient);
- }
\ No newline at end of file
+ }
+
+/**
+ * Get the circuit breakers services use for an API, as reported by /health
+ */
+export function getServiceCircuitBreakers(baseUrl?: string): CircuitBreakerRegistry {
+  return getSharedCircuitBreakers(resolveBaseUrl(baseUrl), 5, 60000);
+}
+
+/**
+ * Get the response cache services use for an API and API key, so received events can invalidate it
+ */
+export function getServiceResponseCache(apiKey: string, baseUrl?: string): ResponseCache {
+  return getSharedResponseCache(resolveBaseUrl(baseUrl), apiKey);
+}
+
+/**
+ * Get the search and enrichment mappings of the account services run as
+ */
+export function getServiceWebsetMappingStore(apiKey: string, baseUrl?: string): WebsetMappingStore {
+  return getWebsetMappingStore(resolveBaseUrl(baseUrl), apiKey);
+}
+
+function resolveBaseUrl(baseUrl?: string): string {
+  return baseUrl || process.env.WEBSETS_BASE_URL || 'https://api.exa.ai/websets/v0';
+}
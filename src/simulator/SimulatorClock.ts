@@ -0,0 +1,66 @@
+/**
+ * Simulator Clock
+ *
+ * Controllable time source for the Websets API simulator. The clock only
+ * moves when advanced, unless a speed is set, in which case it also follows
+ * wall-clock time scaled by that speed.
+ */
+
+/**
+ * Simulator clock options
+ */
+export interface SimulatorClockOptions {
+  /** Starting time in epoch milliseconds */
+  start: number;
+  /** Multiplier applied to elapsed wall-clock time (0 keeps the clock still between advances) */
+  speed: number;
+}
+
+/**
+ * Default simulator clock options
+ */
+const DEFAULT_SIMULATOR_CLOCK_OPTIONS: SimulatorClockOptions = {
+  start: Date.parse('2025-01-01T00:00:00.000Z'),
+  speed: 0,
+};
+
+/**
+ * Controllable clock
+ */
+export class SimulatorClock {
+  private readonly options: SimulatorClockOptions;
+  private readonly wallStart: number;
+  private offset = 0;
+
+  constructor(options: Partial<SimulatorClockOptions> = {}) {
+    this.options = { ...DEFAULT_SIMULATOR_CLOCK_OPTIONS, ...options };
+    this.wallStart = Date.now();
+  }
+
+  /**
+   * Current simulated time
+   * @returns Epoch milliseconds
+   */
+  now(): number {
+    const elapsed = this.options.speed > 0 ? (Date.now() - this.wallStart) * this.options.speed : 0;
+    return this.options.start + this.offset + Math.floor(elapsed);
+  }
+
+  /**
+   * Current simulated time as an ISO string
+   */
+  toISOString(): string {
+    return new Date(this.now()).toISOString();
+  }
+
+  /**
+   * Move the clock forward
+   * @param ms Milliseconds to advance by
+   */
+  advance(ms: number): void {
+    if (!Number.isFinite(ms) || ms < 0) {
+      throw new Error(`Cannot advance the clock by ${ms}ms`);
+    }
+    this.offset += ms;
+  }
+}
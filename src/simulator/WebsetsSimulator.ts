@@ -0,0 +1,1567 @@
+/**
+ * Websets API Simulator
+ *
+ * Stateful, in-memory stand-in for the /websets/v0 endpoints called by the
+ * services. Searches make progress as the simulator clock moves, items appear
+ * and are enriched over time, uploaded imports are processed and can seed
+ * websets, monitors re-run searches on their schedules, and every change is
+ * recorded as an event that can be listed from /events or delivered to
+ * registered webhooks.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { SimulatorClock } from './SimulatorClock.js';
+import {
+  EventType,
+  Monitor,
+  MonitorRun,
+  PaginatedResponse,
+  Webhook,
+  WebhookAttempt,
+  Webset,
+  WebsetEnrichment,
+  WebsetEvent,
+  WebsetImport,
+  WebsetItem,
+  WebsetSearch,
+} from '../types/websets.js';
+import { log } from '../utils/logger.js';
+import { parseCsv } from '../utils/csv.js';
+import { nextCronTime } from '../utils/cron.js';
+
+/**
+ * Simulator configuration
+ */
+export interface WebsetsSimulatorConfig {
+  /** Simulated milliseconds for a search to reach 100% completion */
+  searchDuration: number;
+  /** Simulated milliseconds between an item appearing and each of its enrichment results */
+  enrichmentDelay: number;
+  /** Simulated milliseconds between an import's file being uploaded and the import completing */
+  importDuration: number;
+  /** Page size used when a list request has no limit */
+  defaultPageSize: number;
+  /** Largest page size returned */
+  maxPageSize: number;
+  /** API key requests must send (any non-empty key is accepted when unset) */
+  apiKey?: string;
+  /** Whether to POST events to registered webhooks */
+  deliverWebhooks: boolean;
+  /** Whether the monitors endpoints exist (without them clients schedule monitors themselves) */
+  monitors: boolean;
+}
+
+/**
+ * Default simulator configuration
+ */
+const DEFAULT_WEBSETS_SIMULATOR_CONFIG: WebsetsSimulatorConfig = {
+  searchDuration: 60000, // 1 minute
+  enrichmentDelay: 10000, // 10 seconds
+  importDuration: 5000, // 5 seconds
+  defaultPageSize: 25,
+  maxPageSize: 100,
+  deliverWebhooks: false,
+  monitors: true,
+};
+
+/**
+ * Event types the simulator emits and webhooks may subscribe to
+ */
+const SIMULATED_EVENT_TYPES: EventType[] = [
+  'webset.created',
+  'webset.deleted',
+  'webset.idle',
+  'webset.paused',
+  'webset.item.created',
+  'webset.item.enriched',
+  'webset.search.created',
+  'webset.search.updated',
+  'webset.search.canceled',
+  'webset.search.completed',
+  'import.created',
+  'import.completed',
+  'monitor.created',
+  'monitor.updated',
+  'monitor.deleted',
+  'monitor.run.created',
+  'monitor.run.completed',
+];
+
+/**
+ * Enrichment formats accepted by the simulator
+ */
+const ENRICHMENT_FORMATS: WebsetEnrichment['format'][] = ['text', 'date', 'number', 'options', 'email', 'phone'];
+
+/**
+ * A request to the simulator, with the path relative to /websets/v0
+ */
+export interface SimulatorRequest {
+  method: string;
+  path: string;
+  query?: Record<string, unknown>;
+  body?: any;
+  headers?: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * A simulator response
+ */
+export interface SimulatorResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Summary of the simulator state
+ */
+export interface SimulatorSnapshot {
+  now: string;
+  websets: number;
+  items: number;
+  imports: number;
+  monitors: number;
+  events: number;
+  webhooks: number;
+}
+
+/**
+ * Error returned to the client as an API error response
+ */
+class SimulatorError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SimulatorError';
+  }
+}
+
+type RouteHandler = (params: Record<string, string>, request: SimulatorRequest) => unknown;
+
+interface Route {
+  method: string;
+  segments: string[];
+  status: number;
+  handler: RouteHandler;
+}
+
+interface ImportState {
+  import: WebsetImport;
+  /** Zero-based index of the identifier column */
+  identifier: number;
+  uploadValidUntil: number;
+  /** Uploaded file, until it is processed */
+  content?: string;
+  uploadedAt?: number;
+  columns: string[];
+  rows: string[][];
+}
+
+interface MonitorState {
+  monitor: Monitor;
+  /** Newest first */
+  runs: MonitorRun[];
+}
+
+interface WebhookState {
+  webhook: Webhook;
+  secret: string;
+  attempts: WebhookAttempt[];
+}
+
+/**
+ * In-memory Websets API
+ */
+export class WebsetsSimulator {
+  readonly clock: SimulatorClock;
+  private readonly config: WebsetsSimulatorConfig;
+  private readonly routes: Route[];
+  private websets = new Map<string, Webset>();
+  private items = new Map<string, WebsetItem[]>();
+  private searchStarts = new Map<string, number>();
+  /** Last result rank each search has used */
+  private searchRanks = new Map<string, number>();
+  private imports = new Map<string, ImportState>();
+  private monitors = new Map<string, MonitorState>();
+  private events: WebsetEvent[] = [];
+  private webhooks = new Map<string, WebhookState>();
+  private counters = new Map<string, number>();
+  private pendingDeliveries = new Set<Promise<void>>();
+  private idempotentResponses = new Map<string, SimulatorResponse>();
+
+  constructor(config: Partial<WebsetsSimulatorConfig> = {}, clock: SimulatorClock = new SimulatorClock()) {
+    this.config = { ...DEFAULT_WEBSETS_SIMULATOR_CONFIG, ...config };
+    this.clock = clock;
+    this.routes = [
+      this.route('POST', '/websets', (_, request) => this.createWebset(request.body), 201),
+      this.route('GET', '/websets', (_, request) => this.paginate([...this.websets.values()].reverse(), request.query)),
+      this.route('GET', '/websets/:websetId', ({ websetId }, request) => this.getWebset(websetId, request.query?.expand)),
+      this.route('POST', '/websets/:websetId', ({ websetId }, request) => this.updateWebset(websetId, request.body)),
+      this.route('DELETE', '/websets/:websetId', ({ websetId }) => this.deleteWebset(websetId)),
+      this.route('POST', '/websets/:websetId/cancel', ({ websetId }) => this.cancelWebset(websetId)),
+      this.route('POST', '/websets/:websetId/searches', ({ websetId }, request) => this.createSearch(websetId, request.body), 201),
+      this.route('GET', '/websets/:websetId/searches/:searchId', ({ websetId, searchId }) => clone(this.findSearch(websetId, searchId))),
+      this.route('POST', '/websets/:websetId/searches/:searchId/cancel', ({ websetId, searchId }) => this.cancelSearch(websetId, searchId)),
+      this.route('GET', '/websets/:websetId/items', ({ websetId }, request) => this.paginate(this.getItems(websetId), request.query)),
+      this.route('GET', '/websets/:websetId/items/:itemId', ({ websetId, itemId }) => clone(this.findItem(websetId, itemId))),
+      this.route('DELETE', '/websets/:websetId/items/:itemId', ({ websetId, itemId }) => this.deleteItem(websetId, itemId)),
+      this.route('POST', '/websets/:websetId/enrichments', ({ websetId }, request) => this.createEnrichment(websetId, request.body), 201),
+      this.route('GET', '/websets/:websetId/enrichments/:enrichmentId', ({ websetId, enrichmentId }) => clone(this.findEnrichment(websetId, enrichmentId))),
+      this.route('DELETE', '/websets/:websetId/enrichments/:enrichmentId', ({ websetId, enrichmentId }) => this.deleteEnrichment(websetId, enrichmentId)),
+      this.route('POST', '/websets/:websetId/enrichments/:enrichmentId/cancel', ({ websetId, enrichmentId }) => this.cancelEnrichment(websetId, enrichmentId)),
+      this.route('POST', '/imports', (_, request) => this.createImport(request), 201),
+      this.route('GET', '/imports', (_, request) => this.paginate([...this.imports.values()].map(state => state.import).reverse(), request.query)),
+      this.route('GET', '/imports/:importId', ({ importId }) => clone(this.findImport(importId).import)),
+      this.route('DELETE', '/imports/:importId', ({ importId }) => this.deleteImport(importId)),
+      ...(this.config.monitors ? [
+        this.route('POST', '/monitors', (_, request) => this.createMonitor(request.body), 201),
+        this.route('GET', '/monitors', (_, request) => this.paginate(this.listMonitors(request.query?.websetId), request.query)),
+        this.route('GET', '/monitors/:monitorId', ({ monitorId }) => clone(this.findMonitor(monitorId).monitor)),
+        this.route('PATCH', '/monitors/:monitorId', ({ monitorId }, request) => this.updateMonitor(monitorId, request.body)),
+        this.route('DELETE', '/monitors/:monitorId', ({ monitorId }) => this.deleteMonitor(monitorId)),
+        this.route('GET', '/monitors/:monitorId/runs', ({ monitorId }, request) => this.paginate(this.findMonitor(monitorId).runs, request.query)),
+        this.route('GET', '/monitors/:monitorId/runs/:runId', ({ monitorId, runId }) => clone(this.findMonitorRun(monitorId, runId))),
+      ] : []),
+      this.route('GET', '/events', (_, request) => this.listEvents(request.query)),
+      this.route('GET', '/events/:eventId', ({ eventId }) => clone(this.findEvent(eventId))),
+      this.route('GET', '/webhooks', (_, request) => this.paginate([...this.webhooks.values()].map(state => state.webhook).reverse(), request.query)),
+      this.route('POST', '/webhooks', (_, request) => this.createWebhook(request.body), 201),
+      this.route('GET', '/webhooks/:webhookId', ({ webhookId }) => clone(this.findWebhook(webhookId).webhook)),
+      this.route('PUT', '/webhooks/:webhookId', ({ webhookId }, request) => this.updateWebhook(webhookId, request.body)),
+      this.route('PATCH', '/webhooks/:webhookId', ({ webhookId }, request) => this.updateWebhook(webhookId, request.body)),
+      this.route('DELETE', '/webhooks/:webhookId', ({ webhookId }) => this.deleteWebhook(webhookId)),
+      this.route('GET', '/webhooks/:webhookId/attempts', ({ webhookId }, request) => this.paginate(this.findWebhook(webhookId).attempts, request.query)),
+    ];
+  }
+
+  /**
+   * Handle an API request
+   * State is brought up to the current clock time before the request runs.
+   * @param request The request, with the path relative to /websets/v0
+   * @returns Status and JSON body, using the API error shape for failures
+   */
+  handle(request: SimulatorRequest): SimulatorResponse {
+    try {
+      this.authenticate(request.headers);
+      this.sync();
+
+      const segments = splitPath(request.path);
+      const method = request.method.toUpperCase();
+      let pathMatched = false;
+
+      for (const route of this.routes) {
+        const params = matchSegments(route.segments, segments);
+        if (!params) {
+          continue;
+        }
+        pathMatched = true;
+        if (route.method === method) {
+          return this.runIdempotently(method, request, () => ({ status: route.status, body: route.handler(params, request) }));
+        }
+      }
+
+      throw pathMatched
+        ? new SimulatorError(405, 'method_not_allowed', `${method} is not supported for ${request.path}`)
+        : new SimulatorError(404, 'not_found', `No route for ${method} ${request.path}`);
+    } catch (error) {
+      if (error instanceof SimulatorError) {
+        return { status: error.status, body: { error: { code: error.code, message: error.message } } };
+      }
+      log.error('Simulator request failed', error);
+      return {
+        status: 500,
+        body: { error: { code: 'internal_error', message: error instanceof Error ? error.message : String(error) } },
+      };
+    }
+  }
+
+  /**
+   * Receive the file of an import, as its upload URL would
+   * Uploads need no API key, like pre-signed URLs.
+   * @param importId Import the file belongs to
+   * @param content CSV text of the file
+   */
+  upload(importId: string, content: string): SimulatorResponse {
+    try {
+      this.sync();
+      const state = this.findImport(importId);
+
+      if (state.import.status !== 'pending') {
+        throw new SimulatorError(409, 'conflict', `The file of import ${importId} was already uploaded`);
+      }
+      if (this.clock.now() > state.uploadValidUntil) {
+        throw new SimulatorError(403, 'upload_expired', `The upload URL of import ${importId} has expired`);
+      }
+
+      state.content = content;
+      state.uploadedAt = this.clock.now();
+      state.import.status = 'processing';
+      state.import.updatedAt = this.clock.toISOString();
+      return { status: 200, body: {} };
+    } catch (error) {
+      if (error instanceof SimulatorError) {
+        return { status: error.status, body: { error: { code: error.code, message: error.message } } };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Advance the clock and apply everything that happens in that time
+   * @param ms Simulated milliseconds to advance by
+   */
+  advance(ms: number): void {
+    this.clock.advance(ms);
+    this.sync();
+  }
+
+  /**
+   * Drop all websets, events and webhooks
+   */
+  reset(): void {
+    this.websets.clear();
+    this.items.clear();
+    this.searchStarts.clear();
+    this.searchRanks.clear();
+    this.imports.clear();
+    this.monitors.clear();
+    this.events = [];
+    this.webhooks.clear();
+    this.counters.clear();
+    this.idempotentResponses.clear();
+  }
+
+  /**
+   * Summarize the current state
+   */
+  snapshot(): SimulatorSnapshot {
+    this.sync();
+    return {
+      now: this.clock.toISOString(),
+      websets: this.websets.size,
+      items: [...this.items.values()].reduce((total, items) => total + items.length, 0),
+      imports: this.imports.size,
+      monitors: this.monitors.size,
+      events: this.events.length,
+      webhooks: this.webhooks.size,
+    };
+  }
+
+  /**
+   * Wait for in-flight webhook deliveries to finish
+   */
+  async flushDeliveries(): Promise<void> {
+    await Promise.all([...this.pendingDeliveries]);
+  }
+
+  // ==========================================================================
+  // Time
+  // ==========================================================================
+
+  /**
+   * Bring monitors, imports, searches, enrichments and webset statuses up to the current time
+   */
+  private sync(): void {
+    const now = this.clock.now();
+    for (const state of this.monitors.values()) {
+      this.runDueMonitor(state, now);
+    }
+    for (const state of this.imports.values()) {
+      this.processImport(state, now);
+    }
+    for (const webset of this.websets.values()) {
+      for (const search of webset.searches) {
+        this.progressSearch(webset, search, now);
+      }
+      this.enrichItems(webset, now);
+      this.updateWebsetStatus(webset);
+    }
+    for (const state of this.monitors.values()) {
+      this.finishMonitorRuns(state);
+    }
+  }
+
+  /**
+   * Move a search towards completion, creating the items found so far
+   * Item N appears at the moment the search's completion first covers it.
+   */
+  private progressSearch(webset: Webset, search: WebsetSearch, now: number): void {
+    if (search.status !== 'created' && search.status !== 'running') {
+      return;
+    }
+
+    const startedAt = this.searchStarts.get(search.id) ?? now;
+    const completion = Math.min(100, Math.floor(((now - startedAt) / this.config.searchDuration) * 100));
+    const found = Math.floor((search.count * completion) / 100);
+
+    if (search.status === 'running' && completion === search.progress.completion) {
+      return;
+    }
+
+    while (search.progress.found < found) {
+      const position = search.progress.found + 1;
+      const appearedAt = startedAt + (Math.ceil((position * 100) / search.count) / 100) * this.config.searchDuration;
+      this.createItem(webset, search, appearedAt);
+      search.progress.found = position;
+    }
+
+    search.status = completion >= 100 ? 'completed' : 'running';
+    search.progress.completion = completion;
+    search.updatedAt = new Date(now).toISOString();
+    if (found > 0) {
+      search.criteria.forEach(criterion => (criterion.successRate = 100));
+    }
+
+    this.emit(
+      search.status === 'completed' ? 'webset.search.completed' : 'webset.search.updated',
+      { ...search, websetId: webset.id },
+      now
+    );
+  }
+
+  /**
+   * Add enrichment results to items whose delay has passed
+   * Enrichments complete once no search is active and every item has a result.
+   */
+  private enrichItems(webset: Webset, now: number): void {
+    const items = this.items.get(webset.id) ?? [];
+
+    for (const enrichment of webset.enrichments) {
+      if (enrichment.status !== 'pending') {
+        continue;
+      }
+
+      const enrichmentStart = Date.parse(enrichment.createdAt);
+      items.forEach((item, index) => {
+        if (item.enrichments[enrichment.id]) {
+          return;
+        }
+        const readyAt = Math.max(Date.parse(item.createdAt), enrichmentStart) + this.config.enrichmentDelay;
+        if (readyAt > now) {
+          return;
+        }
+
+        item.enrichments[enrichment.id] = {
+          object: 'enrichment_result',
+          enrichmentId: enrichment.id,
+          format: enrichment.format,
+          result: [this.buildEnrichmentValue(enrichment, item, index + 1)],
+          reasoning: `Simulated ${enrichment.format} value for ${item.title}`,
+          references: [{ title: item.title, url: item.url }],
+        };
+        item.updatedAt = new Date(readyAt).toISOString();
+        this.emit('webset.item.enriched', item, readyAt);
+      });
+
+      if (!this.hasActiveSearch(webset) && items.every(item => item.enrichments[enrichment.id])) {
+        enrichment.status = 'completed';
+        enrichment.updatedAt = new Date(now).toISOString();
+      }
+    }
+  }
+
+  /**
+   * Switch a webset between running and idle
+   */
+  private updateWebsetStatus(webset: Webset): void {
+    const active = this.hasActiveSearch(webset) || webset.enrichments.some(enrichment => enrichment.status === 'pending');
+
+    if (active && webset.status !== 'running') {
+      webset.status = 'running';
+      webset.updatedAt = this.clock.toISOString();
+    } else if (!active && webset.status === 'running') {
+      webset.status = 'idle';
+      webset.updatedAt = this.clock.toISOString();
+      this.emit('webset.idle', webset);
+    }
+  }
+
+  private hasActiveSearch(webset: Webset): boolean {
+    return webset.searches.some(search => search.status === 'created' || search.status === 'running');
+  }
+
+  // ==========================================================================
+  // Websets
+  // ==========================================================================
+
+  private createWebset(body: any): Webset {
+    const request = body ?? {};
+    const now = this.clock.toISOString();
+    const webset: Webset = {
+      id: this.nextId('webset'),
+      object: 'webset',
+      status: 'idle',
+      externalId: optionalString(request.externalId),
+      searches: [],
+      enrichments: [],
+      metadata: request.metadata ?? {},
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Validate everything before storing anything
+    const search = request.search ? this.buildSearch(webset.id, request.search) : undefined;
+    const enrichments = ((request.enrichments ?? []) as unknown[]).map(enrichment => this.buildEnrichment(webset.id, enrichment));
+    const imports = ((request.import ?? []) as unknown[]).map(source => this.findImportSource(source));
+
+    this.websets.set(webset.id, webset);
+    this.items.set(webset.id, []);
+    this.emit('webset.created', webset);
+
+    for (const state of imports) {
+      state.rows.forEach(row => this.createImportedItem(webset, state, row));
+    }
+
+    if (search) {
+      this.addSearch(webset, search);
+    }
+    webset.enrichments.push(...enrichments);
+    this.updateWebsetStatus(webset);
+
+    return clone(webset);
+  }
+
+  private getWebset(websetId: string, expand: unknown): Webset & { items?: WebsetItem[] } {
+    const webset = this.findWebset(websetId);
+    const expanded = toList(expand);
+
+    return expanded.includes('items')
+      ? { ...clone(webset), items: clone(this.getItems(websetId).slice(0, this.config.maxPageSize)) }
+      : clone(webset);
+  }
+
+  private updateWebset(websetId: string, body: any): Webset {
+    const webset = this.findWebset(websetId);
+    if (body?.externalId !== undefined) {
+      webset.externalId = optionalString(body.externalId);
+    }
+    if (body?.metadata !== undefined) {
+      webset.metadata = body.metadata ?? {};
+    }
+    webset.updatedAt = this.clock.toISOString();
+    return clone(webset);
+  }
+
+  private deleteWebset(websetId: string): Webset {
+    const webset = this.findWebset(websetId);
+    const now = this.clock.toISOString();
+
+    for (const search of webset.searches) {
+      if (search.status === 'created' || search.status === 'running') {
+        Object.assign(search, { status: 'canceled', canceledAt: now, canceledReason: 'webset_deleted', updatedAt: now });
+      }
+    }
+
+    this.websets.delete(websetId);
+    this.items.delete(websetId);
+    for (const state of this.monitors.values()) {
+      if (state.monitor.websetId === websetId) {
+        this.monitors.delete(state.monitor.id);
+      }
+    }
+    this.emit('webset.deleted', webset);
+    return clone(webset);
+  }
+
+  private cancelWebset(websetId: string): Webset {
+    const webset = this.findWebset(websetId);
+    const now = this.clock.toISOString();
+
+    for (const search of webset.searches) {
+      if (search.status === 'created' || search.status === 'running') {
+        Object.assign(search, { status: 'canceled', canceledAt: now, canceledReason: 'webset_canceled', updatedAt: now });
+        this.emit('webset.search.canceled', { ...search, websetId });
+      }
+    }
+    for (const enrichment of webset.enrichments) {
+      if (enrichment.status === 'pending') {
+        Object.assign(enrichment, { status: 'canceled', updatedAt: now });
+      }
+    }
+
+    this.updateWebsetStatus(webset);
+    return clone(webset);
+  }
+
+  // ==========================================================================
+  // Searches
+  // ==========================================================================
+
+  private createSearch(websetId: string, body: any): WebsetSearch {
+    const webset = this.findWebset(websetId);
+    const search = this.buildSearch(websetId, body);
+    const behavior = body?.behavior ?? 'override';
+    if (behavior !== 'override' && behavior !== 'append') {
+      throw new SimulatorError(400, 'invalid_request', 'behavior must be override or append');
+    }
+
+    this.addSearch(webset, search, behavior);
+    this.updateWebsetStatus(webset);
+    return clone(search);
+  }
+
+  private buildSearch(websetId: string, body: any): WebsetSearch {
+    const query = optionalString(body?.query);
+    if (!query) {
+      throw new SimulatorError(400, 'invalid_request', 'search.query is required');
+    }
+
+    const count = body.count ?? 10;
+    if (!Number.isInteger(count) || count < 1) {
+      throw new SimulatorError(400, 'invalid_request', 'search.count must be a positive integer');
+    }
+
+    const now = this.clock.toISOString();
+    return {
+      id: this.nextId('wsearch'),
+      object: 'webset_search',
+      status: 'created',
+      query,
+      entity: { type: body.entity?.type ?? 'company' },
+      criteria: ((body.criteria ?? []) as Array<{ description?: unknown }>).map(criterion => ({
+        description: String(criterion?.description ?? ''),
+        successRate: 0,
+      })),
+      count,
+      progress: { found: 0, completion: 0 },
+      metadata: body.metadata ?? {},
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Start a search in a webset
+   * An overriding search replaces the webset's items with its results; an
+   * appending one keeps them and looks for results the webset does not have yet.
+   */
+  private addSearch(webset: Webset, search: WebsetSearch, behavior: 'override' | 'append' = 'append', at: number = this.clock.now()): void {
+    if (behavior === 'override') {
+      this.items.set(webset.id, []);
+    }
+    webset.searches.push(search);
+    this.searchStarts.set(search.id, at);
+    this.emit('webset.search.created', { ...search, websetId: webset.id }, at);
+  }
+
+  private cancelSearch(websetId: string, searchId: string): WebsetSearch {
+    const webset = this.findWebset(websetId);
+    const search = this.findSearch(websetId, searchId);
+
+    if (search.status === 'created' || search.status === 'running') {
+      const now = this.clock.toISOString();
+      Object.assign(search, { status: 'canceled', canceledAt: now, updatedAt: now });
+      this.emit('webset.search.canceled', { ...search, websetId });
+      this.updateWebsetStatus(webset);
+    }
+
+    return clone(search);
+  }
+
+  // ==========================================================================
+  // Items
+  // ==========================================================================
+
+  private createItem(webset: Webset, search: WebsetSearch, appearedAt: number): void {
+    const items = this.items.get(webset.id)!;
+    const type = search.entity.type;
+    const slug = slugify(search.query);
+
+    // Results are ranked the same way every time a query runs; ones already in the webset are skipped
+    let rank = this.searchRanks.get(search.id) ?? 0;
+    do {
+      rank++;
+    } while (items.some(item => item.url === `https://${slug}-${rank}.example.com`));
+    this.searchRanks.set(search.id, rank);
+
+    const title = `${search.query} (${type} ${rank})`;
+    const url = `https://${slug}-${rank}.example.com`;
+    const description = `Simulated ${type} ${rank} found for "${search.query}".`;
+    const createdAt = new Date(appearedAt).toISOString();
+
+    const item: WebsetItem = {
+      id: this.nextId('witem'),
+      object: 'webset_item',
+      websetId: webset.id,
+      searchId: search.id,
+      source: 'search',
+      url,
+      title,
+      content: description,
+      entity: { type, properties: { name: title, url, description } },
+      verification: {
+        status: 'verified',
+        reasoning: search.criteria.length > 0
+          ? `Meets all ${search.criteria.length} criteria`
+          : 'Matches the search query',
+        references: [url],
+      },
+      enrichments: {},
+      metadata: {},
+      createdAt,
+      updatedAt: createdAt,
+    };
+
+    items.push(item);
+    this.emit('webset.item.created', item, appearedAt);
+  }
+
+  /**
+   * Add an entity of an import to a webset
+   * Rows identified by a URL or domain keep it and take their title from a
+   * name column; rows identified by a name get a simulated site.
+   */
+  private createImportedItem(webset: Webset, state: ImportState, row: string[]): void {
+    const items = this.items.get(webset.id)!;
+    const identifier = row[state.identifier];
+    const properties = Object.fromEntries(state.columns.map((column, index) => [column, row[index] ?? '']));
+    const type = state.import.entity.type;
+    const site = toSiteUrl(identifier);
+    const nameColumn = state.columns.findIndex(column => ['name', 'company', 'title'].includes(column.toLowerCase()));
+    const url = site ?? `https://${slugify(identifier)}.example.com`;
+    const title = site ? row[nameColumn] || new URL(site).hostname : identifier;
+    const now = this.clock.toISOString();
+
+    const item: WebsetItem = {
+      id: this.nextId('witem'),
+      object: 'webset_item',
+      websetId: webset.id,
+      searchId: state.import.id,
+      source: 'import',
+      url,
+      title,
+      content: `Imported ${type} "${title}" from ${state.import.title}.`,
+      entity: { type, properties: { ...properties, name: title, url } },
+      verification: {
+        status: 'unverified',
+        reasoning: 'Imported from a list, so not checked against criteria',
+        references: [],
+      },
+      enrichments: {},
+      metadata: {},
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    items.push(item);
+    this.emit('webset.item.created', item);
+  }
+
+  private getItems(websetId: string): WebsetItem[] {
+    this.findWebset(websetId);
+    return this.items.get(websetId) ?? [];
+  }
+
+  private findItem(websetId: string, itemId: string): WebsetItem {
+    const item = this.getItems(websetId).find(candidate => candidate.id === itemId);
+    if (!item) {
+      throw new SimulatorError(404, 'not_found', `Item ${itemId} not found in webset ${websetId}`);
+    }
+    return item;
+  }
+
+  private deleteItem(websetId: string, itemId: string): WebsetItem {
+    const item = this.findItem(websetId, itemId);
+    const items = this.getItems(websetId);
+    items.splice(items.indexOf(item), 1);
+    return clone(item);
+  }
+
+  // ==========================================================================
+  // Enrichments
+  // ==========================================================================
+
+  private createEnrichment(websetId: string, body: any): WebsetEnrichment {
+    const webset = this.findWebset(websetId);
+    const enrichment = this.buildEnrichment(websetId, body);
+    webset.enrichments.push(enrichment);
+    this.updateWebsetStatus(webset);
+    return clone(enrichment);
+  }
+
+  private buildEnrichment(websetId: string, body: any): WebsetEnrichment {
+    const description = optionalString(body?.description);
+    if (!description) {
+      throw new SimulatorError(400, 'invalid_request', 'enrichment description is required');
+    }
+
+    const format = body.format ?? 'text';
+    if (!ENRICHMENT_FORMATS.includes(format)) {
+      throw new SimulatorError(400, 'invalid_request', `Unsupported enrichment format: ${format}`);
+    }
+    if (format === 'options' && !(Array.isArray(body.options) && body.options.length > 0)) {
+      throw new SimulatorError(400, 'invalid_request', 'options are required for the options format');
+    }
+
+    const now = this.clock.toISOString();
+    return {
+      id: this.nextId('wenrich'),
+      object: 'webset_enrichment',
+      status: 'pending',
+      websetId,
+      title: optionalString(body.title),
+      description,
+      format,
+      options: body.options,
+      instructions: optionalString(body.instructions),
+      metadata: body.metadata ?? {},
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  private deleteEnrichment(websetId: string, enrichmentId: string): WebsetEnrichment {
+    const webset = this.findWebset(websetId);
+    const enrichment = this.findEnrichment(websetId, enrichmentId);
+
+    webset.enrichments.splice(webset.enrichments.indexOf(enrichment), 1);
+    for (const item of this.getItems(websetId)) {
+      delete item.enrichments[enrichmentId];
+    }
+    this.updateWebsetStatus(webset);
+
+    return clone(enrichment);
+  }
+
+  private cancelEnrichment(websetId: string, enrichmentId: string): WebsetEnrichment {
+    const webset = this.findWebset(websetId);
+    const enrichment = this.findEnrichment(websetId, enrichmentId);
+
+    if (enrichment.status === 'pending') {
+      enrichment.status = 'canceled';
+      enrichment.updatedAt = this.clock.toISOString();
+      this.updateWebsetStatus(webset);
+    }
+
+    return clone(enrichment);
+  }
+
+  /**
+   * Deterministic enrichment value for an item
+   */
+  private buildEnrichmentValue(enrichment: WebsetEnrichment, item: WebsetItem, position: number): string {
+    switch (enrichment.format) {
+      case 'number':
+        return String(position * 10);
+      case 'date':
+        return new Date(Date.parse(item.createdAt) - position * 86400000).toISOString().slice(0, 10);
+      case 'options': {
+        const options = enrichment.options ?? [];
+        return options.length > 0 ? options[(position - 1) % options.length].label : 'Other';
+      }
+      case 'email':
+        return `contact@${new URL(item.url).hostname}`;
+      case 'phone':
+        return `+1-555-${String(position).padStart(4, '0')}`;
+      default:
+        return `${enrichment.description} for ${item.title}`;
+    }
+  }
+
+  // ==========================================================================
+  // Imports
+  // ==========================================================================
+
+  private createImport(request: SimulatorRequest): WebsetImport {
+    const body = request.body ?? {};
+    if (body.format !== 'csv') {
+      throw new SimulatorError(400, 'invalid_request', 'format must be csv');
+    }
+    if (!optionalString(body.entity?.type)) {
+      throw new SimulatorError(400, 'invalid_request', 'entity.type is required');
+    }
+    for (const field of ['size', 'count']) {
+      if (!Number.isInteger(body[field]) || body[field] < 1) {
+        throw new SimulatorError(400, 'invalid_request', `${field} must be a positive integer`);
+      }
+    }
+    const identifier = body.csv?.identifier ?? 0;
+    if (!Number.isInteger(identifier) || identifier < 0) {
+      throw new SimulatorError(400, 'invalid_request', 'csv.identifier must be a non-negative integer');
+    }
+
+    const now = this.clock.toISOString();
+    const id = this.nextId('import');
+    const websetImport: WebsetImport = {
+      id,
+      object: 'import',
+      status: 'pending',
+      format: 'csv',
+      entity: { type: body.entity.type },
+      title: optionalString(body.title) ?? id,
+      count: body.count,
+      metadata: body.metadata ?? {},
+      createdAt: now,
+      updatedAt: now,
+    };
+    const uploadValidUntil = this.clock.now() + 3600000; // 1 hour
+
+    this.imports.set(id, { import: websetImport, identifier, uploadValidUntil, columns: [], rows: [] });
+    this.emit('import.created', websetImport);
+
+    // The upload URL is only returned on creation; it points at the server's upload endpoint
+    const host = getHeader(request.headers, 'host') ?? 'simulator.invalid';
+    return {
+      ...clone(websetImport),
+      uploadUrl: `http://${host}/_simulator/uploads/${id}`,
+      uploadValidUntil: new Date(uploadValidUntil).toISOString(),
+    };
+  }
+
+  /**
+   * Read the uploaded file of an import once its processing time has passed
+   */
+  private processImport(state: ImportState, now: number): void {
+    if (state.import.status !== 'processing' || state.uploadedAt === undefined) {
+      return;
+    }
+    const finishedAt = state.uploadedAt + this.config.importDuration;
+    if (finishedAt > now) {
+      return;
+    }
+
+    const failure = this.readImportFile(state);
+    state.content = undefined;
+    state.import.updatedAt = new Date(finishedAt).toISOString();
+
+    if (failure) {
+      Object.assign(state.import, { status: 'failed', ...failure, failedAt: state.import.updatedAt });
+    } else {
+      state.import.status = 'completed';
+      this.emit('import.completed', state.import, finishedAt);
+    }
+  }
+
+  /**
+   * Parse an import's uploaded CSV into its columns and rows
+   * @returns Why the import failed, or undefined when the file is usable
+   */
+  private readImportFile(state: ImportState): Pick<WebsetImport, 'failedReason' | 'failedMessage'> | undefined {
+    let records: string[][];
+    try {
+      records = parseCsv(state.content ?? '');
+    } catch (error) {
+      return { failedReason: 'invalid_format', failedMessage: error instanceof Error ? error.message : String(error) };
+    }
+
+    const [header = [], ...rows] = records;
+    if (state.identifier >= header.length) {
+      return { failedReason: 'missing_identifier', failedMessage: `The file has no column ${state.identifier}` };
+    }
+    if (rows.length !== state.import.count) {
+      return { failedReason: 'invalid_file_content', failedMessage: `The import declared ${state.import.count} entities but the file has ${rows.length}` };
+    }
+
+    state.columns = header.map(column => column.trim());
+    state.rows = rows.filter(row => row[state.identifier]?.trim());
+    return undefined;
+  }
+
+  private deleteImport(importId: string): WebsetImport {
+    const state = this.findImport(importId);
+    this.imports.delete(importId);
+    return clone(state.import);
+  }
+
+  /**
+   * Resolve a webset's import source, which must have finished processing
+   */
+  private findImportSource(source: any): ImportState {
+    if (source?.source !== 'import') {
+      throw new SimulatorError(400, 'invalid_request', `Unsupported import source: ${source?.source}`);
+    }
+    const state = this.findImport(String(source.id));
+    if (state.import.status !== 'completed') {
+      throw new SimulatorError(400, 'invalid_request', `Import ${state.import.id} is ${state.import.status}; only completed imports can seed a webset`);
+    }
+    return state;
+  }
+
+  // ==========================================================================
+  // Monitors
+  // ==========================================================================
+
+  private createMonitor(body: any): Monitor {
+    const request = body ?? {};
+    const websetId = optionalString(request.websetId);
+    if (!websetId) {
+      throw new SimulatorError(400, 'invalid_request', 'websetId is required');
+    }
+    this.findWebset(websetId);
+
+    const cadence = this.buildCadence(request.cadence);
+    const now = this.clock.toISOString();
+    const monitor: Monitor = {
+      id: this.nextId('monitor'),
+      object: 'monitor',
+      status: 'enabled',
+      websetId,
+      cadence,
+      behavior: this.buildMonitorBehavior(request.behavior),
+      nextRunAt: this.nextRunAt(cadence, this.clock.now()),
+      metadata: request.metadata ?? {},
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.monitors.set(monitor.id, { monitor, runs: [] });
+    this.emit('monitor.created', monitor);
+    return clone(monitor);
+  }
+
+  private listMonitors(websetId: unknown): Monitor[] {
+    const filter = optionalString(websetId);
+    return [...this.monitors.values()]
+      .map(state => state.monitor)
+      .filter(monitor => !filter || monitor.websetId === filter)
+      .reverse();
+  }
+
+  /**
+   * Update a monitor
+   * A new cadence, or enabling a disabled monitor, schedules its next run from now.
+   */
+  private updateMonitor(monitorId: string, body: any): Monitor {
+    const { monitor } = this.findMonitor(monitorId);
+    const request = body ?? {};
+
+    if (request.status !== undefined && request.status !== 'enabled' && request.status !== 'disabled') {
+      throw new SimulatorError(400, 'invalid_request', 'status must be enabled or disabled');
+    }
+    // Validate everything before changing anything
+    const cadence = request.cadence !== undefined ? this.buildCadence(request.cadence) : undefined;
+    const behavior = request.behavior !== undefined ? this.buildMonitorBehavior(request.behavior) : undefined;
+
+    const rescheduled = cadence !== undefined || (request.status === 'enabled' && monitor.status === 'disabled');
+    monitor.cadence = cadence ?? monitor.cadence;
+    monitor.behavior = behavior ?? monitor.behavior;
+    monitor.status = request.status ?? monitor.status;
+    if (request.metadata !== undefined) {
+      monitor.metadata = request.metadata ?? {};
+    }
+
+    if (monitor.status === 'disabled') {
+      delete monitor.nextRunAt;
+    } else if (rescheduled || !monitor.nextRunAt) {
+      monitor.nextRunAt = this.nextRunAt(monitor.cadence, this.clock.now());
+    }
+    monitor.updatedAt = this.clock.toISOString();
+
+    this.emit('monitor.updated', monitor);
+    return clone(monitor);
+  }
+
+  private deleteMonitor(monitorId: string): Monitor {
+    const { monitor } = this.findMonitor(monitorId);
+    this.monitors.delete(monitorId);
+    this.emit('monitor.deleted', monitor);
+    return clone(monitor);
+  }
+
+  private buildCadence(body: any): Monitor['cadence'] {
+    const cron = optionalString(body?.cron);
+    if (!cron) {
+      throw new SimulatorError(400, 'invalid_request', 'cadence.cron is required');
+    }
+    const cadence = { cron, ...(optionalString(body.timezone) && { timezone: body.timezone }) };
+
+    // Rejects invalid expressions and time zones
+    this.nextRunAt(cadence, this.clock.now());
+    return cadence;
+  }
+
+  private buildMonitorBehavior(body: any): Monitor['behavior'] {
+    if (body?.type !== 'search') {
+      throw new SimulatorError(400, 'invalid_request', 'behavior.type must be search');
+    }
+
+    const config = body.config ?? {};
+    const query = optionalString(config.query);
+    if (!query) {
+      throw new SimulatorError(400, 'invalid_request', 'behavior.config.query is required');
+    }
+    const count = config.count ?? 10;
+    if (!Number.isInteger(count) || count < 1) {
+      throw new SimulatorError(400, 'invalid_request', 'behavior.config.count must be a positive integer');
+    }
+    const behavior = config.behavior ?? 'append';
+    if (behavior !== 'append' && behavior !== 'override') {
+      throw new SimulatorError(400, 'invalid_request', 'behavior.config.behavior must be append or override');
+    }
+
+    return {
+      type: 'search',
+      config: {
+        query,
+        ...(config.criteria && { criteria: (config.criteria as Array<{ description?: unknown }>).map(criterion => ({ description: String(criterion?.description ?? '') })) }),
+        ...(config.entity?.type && { entity: { type: config.entity.type } }),
+        count,
+        behavior,
+      },
+    };
+  }
+
+  private nextRunAt(cadence: Monitor['cadence'], after: number): string {
+    try {
+      return nextCronTime(cadence.cron, new Date(after), cadence.timezone).toISOString();
+    } catch (error) {
+      throw new SimulatorError(400, 'invalid_request', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Start every run of a monitor that has come due
+   * Before each run the webset is brought up to the run's time, so an
+   * overriding run replaces exactly the items found before it.
+   */
+  private runDueMonitor(state: MonitorState, now: number): void {
+    const { monitor } = state;
+
+    while (monitor.status === 'enabled' && monitor.nextRunAt && Date.parse(monitor.nextRunAt) <= now) {
+      const runAt = Date.parse(monitor.nextRunAt);
+      const webset = this.findWebset(monitor.websetId);
+      // Searches already brought further, by another monitor's runs, are left alone
+      for (const search of webset.searches.filter(candidate => Date.parse(candidate.updatedAt) <= runAt)) {
+        this.progressSearch(webset, search, runAt);
+      }
+      this.finishMonitorRuns(state);
+
+      const { config } = monitor.behavior;
+      const search = this.buildSearch(webset.id, { ...config, metadata: { monitorId: monitor.id } });
+      search.createdAt = search.updatedAt = new Date(runAt).toISOString();
+      this.addSearch(webset, search, config.behavior, runAt);
+
+      const run: MonitorRun = {
+        id: this.nextId('mrun'),
+        object: 'monitor_run',
+        status: 'running',
+        monitorId: monitor.id,
+        type: 'search',
+        searchId: search.id,
+        createdAt: search.createdAt,
+        updatedAt: search.createdAt,
+      };
+      state.runs.unshift(run);
+      monitor.lastRun = run;
+      monitor.nextRunAt = this.nextRunAt(monitor.cadence, runAt);
+      this.emit('monitor.run.created', run, runAt);
+    }
+  }
+
+  /**
+   * Complete the runs of a monitor whose searches have finished
+   */
+  private finishMonitorRuns(state: MonitorState): void {
+    const webset = this.websets.get(state.monitor.websetId);
+
+    for (const run of state.runs) {
+      const search = webset?.searches.find(candidate => candidate.id === run.searchId);
+      if (run.status !== 'running' || !search || search.status === 'created' || search.status === 'running') {
+        continue;
+      }
+
+      run.status = search.status === 'completed' ? 'completed' : 'canceled';
+      run.updatedAt = search.updatedAt;
+      if (run.status === 'completed') {
+        run.completedAt = search.updatedAt;
+      } else {
+        run.canceledAt = search.canceledAt ?? search.updatedAt;
+      }
+      this.emit('monitor.run.completed', run, Date.parse(search.updatedAt));
+    }
+  }
+
+  // ==========================================================================
+  // Events
+  // ==========================================================================
+
+  /**
+   * Record an event and deliver it to subscribed webhooks
+   */
+  private emit(type: EventType, data: object, at: number = this.clock.now()): void {
+    const event: WebsetEvent = {
+      id: this.nextId('event'),
+      object: 'event',
+      type,
+      data: clone(data),
+      createdAt: new Date(at).toISOString(),
+    };
+    this.events.push(event);
+
+    if (this.config.deliverWebhooks) {
+      this.deliver(event);
+    }
+  }
+
+  /**
+   * List events oldest first
+   * The cursor is the last event seen, so pollers keep their position when
+   * nothing new has happened.
+   */
+  private listEvents(query: Record<string, unknown> = {}): PaginatedResponse<WebsetEvent> {
+    const limit = this.parseLimit(query.limit);
+    const cursor = optionalString(query.cursor);
+    const types = toList(query.types ?? query['types[]']);
+
+    let start = 0;
+    if (cursor) {
+      start = this.events.findIndex(event => event.id === cursor) + 1;
+      if (start === 0) {
+        throw new SimulatorError(400, 'invalid_request', `Unknown cursor: ${cursor}`);
+      }
+    }
+
+    const matching = this.events.slice(start).filter(event => types.length === 0 || types.includes(event.type));
+    const data = matching.slice(0, limit);
+
+    return {
+      data: clone(data),
+      hasMore: matching.length > limit,
+      nextCursor: data.length > 0 ? data[data.length - 1].id : cursor,
+    };
+  }
+
+  private findEvent(eventId: string): WebsetEvent {
+    const event = this.events.find(candidate => candidate.id === eventId);
+    if (!event) {
+      throw new SimulatorError(404, 'not_found', `Event ${eventId} not found`);
+    }
+    return event;
+  }
+
+  // ==========================================================================
+  // Webhooks
+  // ==========================================================================
+
+  private createWebhook(body: any): Webhook {
+    const url = this.validateWebhookUrl(body?.url);
+    const events = this.validateWebhookEvents(body?.events);
+    const now = this.clock.toISOString();
+    const webhook: Webhook = {
+      id: this.nextId('whook'),
+      object: 'webhook',
+      status: 'active',
+      events,
+      url,
+      metadata: body.metadata ?? {},
+      createdAt: now,
+      updatedAt: now,
+    };
+    const secret = `whsec_${randomBytes(24).toString('hex')}`;
+
+    this.webhooks.set(webhook.id, { webhook, secret, attempts: [] });
+
+    // The secret is only returned on creation
+    return { ...clone(webhook), secret };
+  }
+
+  private updateWebhook(webhookId: string, body: any): Webhook {
+    const { webhook } = this.findWebhook(webhookId);
+    if (body?.url !== undefined) {
+      webhook.url = this.validateWebhookUrl(body.url);
+    }
+    if (body?.events !== undefined) {
+      webhook.events = this.validateWebhookEvents(body.events);
+    }
+    if (body?.metadata !== undefined) {
+      webhook.metadata = body.metadata ?? {};
+    }
+    webhook.updatedAt = this.clock.toISOString();
+    return clone(webhook);
+  }
+
+  private deleteWebhook(webhookId: string): Webhook {
+    const { webhook } = this.findWebhook(webhookId);
+    this.webhooks.delete(webhookId);
+    return clone(webhook);
+  }
+
+  private validateWebhookUrl(value: unknown): string {
+    try {
+      return new URL(String(value)).toString();
+    } catch {
+      throw new SimulatorError(400, 'invalid_request', 'webhook url must be a valid URL');
+    }
+  }
+
+  private validateWebhookEvents(value: unknown): EventType[] {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new SimulatorError(400, 'invalid_request', 'webhook events must be a non-empty array');
+    }
+    const unknown = value.filter(type => !SIMULATED_EVENT_TYPES.includes(type));
+    if (unknown.length > 0) {
+      throw new SimulatorError(400, 'invalid_request', `Unknown event types: ${unknown.join(', ')}`);
+    }
+    return value;
+  }
+
+  /**
+   * Send an event to every active webhook subscribed to its type
+   */
+  private deliver(event: WebsetEvent): void {
+    for (const state of this.webhooks.values()) {
+      if (state.webhook.status !== 'active' || !state.webhook.events.includes(event.type)) {
+        continue;
+      }
+      const delivery: Promise<void> = this.sendWebhook(state, event).finally(() => {
+        this.pendingDeliveries.delete(delivery);
+      });
+      this.pendingDeliveries.add(delivery);
+    }
+  }
+
+  /**
+   * POST an event signed the way Exa signs deliveries
+   * The signature timestamp uses wall-clock time so receivers' replay
+   * protection accepts it whatever the simulated time is.
+   */
+  private async sendWebhook(state: WebhookState, event: WebsetEvent): Promise<void> {
+    const body = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = createHmac('sha256', state.secret).update(`${timestamp}.${body}`).digest('hex');
+    const attempt: WebhookAttempt = {
+      id: this.nextId('wattempt'),
+      object: 'webhook_attempt',
+      eventId: event.id,
+      eventType: event.type,
+      webhookId: state.webhook.id,
+      url: state.webhook.url,
+      successful: false,
+      responseHeaders: {},
+      responseBody: '',
+      responseStatusCode: 0,
+      attempt: 1,
+      attemptedAt: this.clock.toISOString(),
+    };
+
+    try {
+      const response = await fetch(state.webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Exa-Signature': `t=${timestamp},v1=${signature}`,
+        },
+        body,
+      });
+      attempt.successful = response.ok;
+      attempt.responseStatusCode = response.status;
+      attempt.responseHeaders = Object.fromEntries(response.headers.entries());
+      attempt.responseBody = (await response.text()).slice(0, 1000);
+    } catch (error) {
+      attempt.responseBody = error instanceof Error ? error.message : String(error);
+    }
+
+    state.attempts.unshift(attempt);
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private route(method: string, pattern: string, handler: RouteHandler, status = 200): Route {
+    return { method, segments: splitPath(pattern), status, handler };
+  }
+
+  private authenticate(headers: SimulatorRequest['headers']): void {
+    const apiKey = getHeader(headers, 'x-api-key');
+
+    if (!apiKey) {
+      throw new SimulatorError(401, 'unauthorized', 'Missing x-api-key header');
+    }
+    if (this.config.apiKey && apiKey !== this.config.apiKey) {
+      throw new SimulatorError(401, 'unauthorized', 'Invalid API key');
+    }
+  }
+
+  /**
+   * Run a mutating request once per Idempotency-Key, replaying the first response for repeats
+   */
+  private runIdempotently(method: string, request: SimulatorRequest, run: () => SimulatorResponse): SimulatorResponse {
+    const key = getHeader(request.headers, 'idempotency-key');
+    if (!key || method === 'GET') {
+      return run();
+    }
+
+    const scopedKey = `${method} ${request.path} ${key}`;
+    const previous = this.idempotentResponses.get(scopedKey);
+    if (previous) {
+      return { status: previous.status, body: clone(previous.body) };
+    }
+
+    const response = run();
+    this.idempotentResponses.set(scopedKey, { status: response.status, body: clone(response.body) });
+    return response;
+  }
+
+  private paginate<T extends { id: string }>(records: T[], query: Record<string, unknown> = {}): PaginatedResponse<T> {
+    const limit = this.parseLimit(query.limit);
+    const cursor = optionalString(query.cursor);
+
+    let start = 0;
+    if (cursor) {
+      start = records.findIndex(record => record.id === cursor) + 1;
+      if (start === 0) {
+        throw new SimulatorError(400, 'invalid_request', `Unknown cursor: ${cursor}`);
+      }
+    }
+
+    const data = records.slice(start, start + limit);
+    const hasMore = start + limit < records.length;
+
+    return {
+      data: clone(data),
+      hasMore,
+      nextCursor: hasMore ? data[data.length - 1].id : undefined,
+    };
+  }
+
+  private parseLimit(value: unknown): number {
+    const limit = Number(value);
+    if (value === undefined || value === '' || !Number.isFinite(limit)) {
+      return this.config.defaultPageSize;
+    }
+    return Math.min(Math.max(Math.floor(limit), 1), this.config.maxPageSize);
+  }
+
+  private findWebset(websetId: string): Webset {
+    const webset = this.websets.get(websetId);
+    if (!webset) {
+      throw new SimulatorError(404, 'not_found', `Webset ${websetId} not found`);
+    }
+    return webset;
+  }
+
+  private findSearch(websetId: string, searchId: string): WebsetSearch {
+    const search = this.findWebset(websetId).searches.find(candidate => candidate.id === searchId);
+    if (!search) {
+      throw new SimulatorError(404, 'not_found', `Search ${searchId} not found in webset ${websetId}`);
+    }
+    return search;
+  }
+
+  private findEnrichment(websetId: string, enrichmentId: string): WebsetEnrichment {
+    const enrichment = this.findWebset(websetId).enrichments.find(candidate => candidate.id === enrichmentId);
+    if (!enrichment) {
+      throw new SimulatorError(404, 'not_found', `Enrichment ${enrichmentId} not found in webset ${websetId}`);
+    }
+    return enrichment;
+  }
+
+  private findImport(importId: string): ImportState {
+    const state = this.imports.get(importId);
+    if (!state) {
+      throw new SimulatorError(404, 'not_found', `Import ${importId} not found`);
+    }
+    return state;
+  }
+
+  private findMonitor(monitorId: string): MonitorState {
+    const state = this.monitors.get(monitorId);
+    if (!state) {
+      throw new SimulatorError(404, 'not_found', `Monitor ${monitorId} not found`);
+    }
+    return state;
+  }
+
+  private findMonitorRun(monitorId: string, runId: string): MonitorRun {
+    const run = this.findMonitor(monitorId).runs.find(candidate => candidate.id === runId);
+    if (!run) {
+      throw new SimulatorError(404, 'not_found', `Run ${runId} not found for monitor ${monitorId}`);
+    }
+    return run;
+  }
+
+  private findWebhook(webhookId: string): WebhookState {
+    const state = this.webhooks.get(webhookId);
+    if (!state) {
+      throw new SimulatorError(404, 'not_found', `Webhook ${webhookId} not found`);
+    }
+    return state;
+  }
+
+  /**
+   * Sequential IDs keep simulated runs reproducible
+   */
+  private nextId(prefix: string): string {
+    const next = (this.counters.get(prefix) ?? 0) + 1;
+    this.counters.set(prefix, next);
+    return `${prefix}_sim${String(next).padStart(6, '0')}`;
+  }
+}
+
+/**
+ * Split a path into its non-empty segments
+ */
+function splitPath(path: string): string[] {
+  return path.split('?')[0].split('/').filter(Boolean);
+}
+
+/**
+ * Match path segments against a route pattern
+ * @returns The decoded route parameters, or undefined when the path does not match
+ */
+function matchSegments(pattern: string[], segments: string[]): Record<string, string> | undefined {
+  if (pattern.length !== segments.length) {
+    return undefined;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(':')) {
+      params[pattern[i].slice(1)] = decodeURIComponent(segments[i]);
+    } else if (pattern[i] !== segments[i]) {
+      return undefined;
+    }
+  }
+  return params;
+}
+
+/**
+ * Read a query value that may be repeated or comma separated
+ */
+function toList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return values.flatMap(entry => String(entry).split(',')).map(entry => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Read a request header by case-insensitive name
+ */
+function getHeader(headers: SimulatorRequest['headers'] = {}, name: string): string | undefined {
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+  const value = key ? headers[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Turn text into a hostname label
+ */
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'result';
+}
+
+/**
+ * Read an identifier as a site URL, accepting bare domains
+ * @returns The URL, or undefined when the identifier is a name
+ */
+function toSiteUrl(identifier: string): string | undefined {
+  const url = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(identifier) ? `https://${identifier}` : identifier;
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol) ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value : undefined;
+}
+
+/**
+ * Copy state before handing it out so callers cannot change it
+ */
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
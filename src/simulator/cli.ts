@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+/**
+ * Websets API Simulator CLI
+ *
+ * Runs the simulator as a standalone server for offline development:
+ *
+ *   node build/simulator/cli.js [--port 4010] [--speed 1] [--no-monitors]
+ *
+ * The clock follows wall-clock time multiplied by --speed (0 freezes it so it
+ * only moves through POST /_simulator/advance). Events are delivered to
+ * registered webhooks. --no-monitors leaves out the monitors endpoints, as on
+ * deployments without them.
+ */
+
+import { SimulatorClock } from './SimulatorClock.js';
+import { WebsetsSimulator } from './WebsetsSimulator.js';
+import { startSimulatorServer } from './server.js';
+
+/**
+ * Read a numeric --flag value from the command line
+ */
+function readNumberArg(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) {
+    return fallback;
+  }
+  const value = Number(process.argv[index + 1]);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`--${name} must be a non-negative number`);
+  }
+  return value;
+}
+
+async function main(): Promise<void> {
+  const port = readNumberArg('port', parseInt(process.env.WEBSETS_SIMULATOR_PORT || '4010', 10));
+  const speed = readNumberArg('speed', 1);
+
+  const simulator = new WebsetsSimulator(
+    { deliverWebhooks: true, apiKey: process.env.WEBSETS_SIMULATOR_API_KEY, monitors: !process.argv.includes('--no-monitors') },
+    new SimulatorClock({ start: Date.now(), speed })
+  );
+  const server = await startSimulatorServer({ port, host: '0.0.0.0', simulator });
+  const baseUrl = server.baseUrl.replace('0.0.0.0', 'localhost');
+
+  console.log(`Websets API simulator listening on ${baseUrl}`);
+  console.log(`Point the server at it with WEBSETS_BASE_URL=${baseUrl}`);
+  console.log(`Clock speed: ${speed === 0 ? 'frozen (POST /_simulator/advance to move it)' : `${speed}x`}`);
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      server.close().finally(() => process.exit(0));
+    });
+  }
+}
+
+main().catch(error => {
+  console.error('Failed to start the Websets API simulator:', error);
+  process.exit(1);
+});
@@ -0,0 +1,9 @@
+/**
+ * Simulator Exports
+ *
+ * Local Websets API simulator for offline development and integration tests.
+ */
+
+export * from './SimulatorClock.js';
+export * from './WebsetsSimulator.js';
+export * from './server.js';
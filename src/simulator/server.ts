@@ -0,0 +1,122 @@
+/**
+ * Websets API Simulator Server
+ *
+ * Serves a WebsetsSimulator over HTTP at /websets/v0 so WEBSETS_BASE_URL can
+ * point at it, with control endpoints under /_simulator for moving the clock
+ * and inspecting or resetting state, and the upload URLs of imports.
+ */
+
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { WebsetsSimulator } from './WebsetsSimulator.js';
+
+/**
+ * Path the simulated API is served under
+ */
+export const SIMULATOR_BASE_PATH = '/websets/v0';
+
+/**
+ * Simulator server options
+ */
+export interface SimulatorServerOptions {
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+  /** Host to bind to */
+  host: string;
+  /** Simulator to serve (a new one is created when omitted) */
+  simulator?: WebsetsSimulator;
+}
+
+/**
+ * Default simulator server options
+ */
+const DEFAULT_SIMULATOR_SERVER_OPTIONS: SimulatorServerOptions = {
+  port: 0,
+  host: '127.0.0.1',
+};
+
+/**
+ * A running simulator server
+ */
+export interface SimulatorServer {
+  /** Base URL to use as WEBSETS_BASE_URL */
+  baseUrl: string;
+  /** The simulator being served */
+  simulator: WebsetsSimulator;
+  /** Stop listening */
+  close(): Promise<void>;
+}
+
+/**
+ * Create an Express app serving a simulator
+ * @param simulator The simulator to serve
+ * @returns The Express app
+ */
+export function createSimulatorApp(simulator: WebsetsSimulator): express.Application {
+  const app = express();
+  app.use(express.json());
+
+  app.get('/_simulator/state', (req, res) => {
+    res.json(simulator.snapshot());
+  });
+
+  app.post('/_simulator/advance', (req, res) => {
+    const ms = Number(req.body?.ms);
+    if (!Number.isFinite(ms) || ms < 0) {
+      res.status(400).json({ error: { code: 'invalid_request', message: 'ms must be a non-negative number' } });
+      return;
+    }
+    simulator.advance(ms);
+    res.json(simulator.snapshot());
+  });
+
+  app.post('/_simulator/reset', (req, res) => {
+    simulator.reset();
+    res.json(simulator.snapshot());
+  });
+
+  // Upload URLs handed out when imports are created
+  app.put('/_simulator/uploads/:importId', express.text({ type: () => true, limit: '50mb' }), (req, res) => {
+    const response = simulator.upload(req.params.importId, typeof req.body === 'string' ? req.body : '');
+    res.status(response.status).json(response.body);
+  });
+
+  app.use(SIMULATOR_BASE_PATH, (req, res) => {
+    const response = simulator.handle({
+      method: req.method,
+      path: req.path,
+      query: req.query as Record<string, unknown>,
+      body: req.body,
+      headers: req.headers,
+    });
+    res.status(response.status).json(response.body);
+  });
+
+  return app;
+}
+
+/**
+ * Start serving a simulator over HTTP
+ * @param options Server options
+ * @returns The running server
+ */
+export async function startSimulatorServer(options: Partial<SimulatorServerOptions> = {}): Promise<SimulatorServer> {
+  const { port, host, simulator = new WebsetsSimulator() } = { ...DEFAULT_SIMULATOR_SERVER_OPTIONS, ...options };
+  const app = createSimulatorApp(simulator);
+
+  const server = await new Promise<Server>((resolve, reject) => {
+    const listening = app.listen(port, host, () => resolve(listening));
+    listening.once('error', reject);
+  });
+  const address = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://${host}:${address.port}${SIMULATOR_BASE_PATH}`,
+    simulator,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    }),
+  };
+}
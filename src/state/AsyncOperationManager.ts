@@ -322,10 +322,13 @@ export class AsyncOperationManager extends EventEmitter {
       console.log(`Started operation: ${operation.id} (${operation.type})`);
     }
 
+    let timeoutHandle: NodeJS.Timeout | undefined;
+
     try {
-      // Set up timeout
+      // Set up timeout, signalling cancellation so the executor can stop its work
       const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
+        timeoutHandle = setTimeout(() => {
+          cancellationToken.cancelled = true;
           reject(new Error('Operation timeout'));
         }, operation.config.timeout);
       });
@@ -408,6 +411,7 @@ export class AsyncOperationManager extends EventEmitter {
 
     } finally {
       // Cleanup
+      clearTimeout(timeoutHandle);
       this.runningOperations.delete(operation.id);
       this.cancellationTokens.delete(operation.id);
       this.stats.runningOperations = this.runningOperations.size;
@@ -0,0 +1,168 @@
+/**
+ * Batch Store
+ *
+ * Remembers which websets each batch created, so the progress of a batch can
+ * be checked long after the call that created it. A batch is saved before its
+ * first webset is created and updated as each row finishes, so a batch that
+ * was interrupted still shows which rows remain. Batches are persisted
+ * through MemoryStore so they survive restarts.
+ */
+
+import { randomUUID } from 'crypto';
+import { homedir } from 'os';
+import { join } from 'path';
+import { MemoryStore } from './MemoryStore.js';
+import { log } from '../utils/logger.js';
+
+/**
+ * Outcome of creating one webset of a batch
+ * Entries with neither a websetId nor an error have not finished.
+ */
+export interface WebsetBatchEntry {
+  /** Position of the row in the batch */
+  index: number;
+  searchQuery: string;
+  /** Webset created for the row */
+  websetId?: string;
+  /** Why the webset could not be created */
+  error?: string;
+}
+
+/**
+ * A batch of websets created together
+ */
+export interface WebsetBatch {
+  id: string;
+  createdAt: string;
+  entries: WebsetBatchEntry[];
+}
+
+/**
+ * Batch store configuration
+ */
+export interface BatchStoreConfig {
+  /** Whether to persist batches to disk */
+  persistToDisk: boolean;
+  /** File batches are persisted to */
+  persistenceFile: string;
+  /** Interval between background saves in milliseconds (changes are also saved as they happen) */
+  persistenceInterval: number;
+  /** Maximum number of batches kept; the oldest are dropped first */
+  maxBatches: number;
+}
+
+/**
+ * Default batch store configuration
+ */
+const DEFAULT_BATCH_STORE_CONFIG: BatchStoreConfig = {
+  persistToDisk: process.env.WEBSETS_PERSIST_BATCHES !== 'false',
+  persistenceFile: process.env.WEBSETS_BATCHES_FILE || join(homedir(), '.exa-websets', 'webset-batches.json'),
+  persistenceInterval: 300000, // 5 minutes
+  maxBatches: 500,
+};
+
+/**
+ * Durable store of webset batches
+ */
+export class BatchStore {
+  private readonly config: BatchStoreConfig;
+  private readonly store: MemoryStore<WebsetBatch>;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(config: Partial<BatchStoreConfig> = {}) {
+    this.config = { ...DEFAULT_BATCH_STORE_CONFIG, ...config };
+    this.store = new MemoryStore<WebsetBatch>({
+      maxItems: this.config.maxBatches,
+      defaultTtl: 0, // Batches never expire
+      persistToDisk: this.config.persistToDisk,
+      persistenceFile: this.config.persistenceFile,
+      persistenceInterval: this.config.persistenceInterval,
+    });
+  }
+
+  /**
+   * Create an ID for a new batch
+   */
+  createId(): string {
+    return `batch_${randomUUID().replace(/-/g, '').slice(0, 16)}`;
+  }
+
+  /**
+   * Save a batch
+   */
+  async save(batch: WebsetBatch): Promise<void> {
+    // Loading from disk replaces the store contents, so wait for it first
+    await this.store.ready();
+    this.store.set(batch.id, batch);
+    await this.persist();
+  }
+
+  /**
+   * Record the outcome of one row of a batch
+   * @param batchId ID of the batch
+   * @param entry The finished entry, replacing the entry with the same index
+   */
+  async updateEntry(batchId: string, entry: WebsetBatchEntry): Promise<void> {
+    await this.store.ready();
+    const batch = this.store.get(batchId);
+    if (!batch) {
+      throw new Error(`Batch ${batchId} not found`);
+    }
+    this.store.set(batchId, {
+      ...batch,
+      entries: batch.entries.map(existing => existing.index === entry.index ? entry : existing)
+    });
+    await this.persist();
+  }
+
+  /**
+   * Get a batch by ID
+   */
+  async get(batchId: string): Promise<WebsetBatch | undefined> {
+    await this.store.ready();
+    return this.store.get(batchId);
+  }
+
+  /**
+   * Save batches and stop background timers
+   */
+  async shutdown(): Promise<void> {
+    await this.pendingSave;
+    await this.store.shutdown();
+  }
+
+  /**
+   * Save changes right away so batches survive an unclean exit
+   */
+  private async persist(): Promise<void> {
+    // Chain saves so concurrent writes never interleave in the file
+    this.pendingSave = this.pendingSave
+      .then(() => this.store.flush())
+      .catch(error => {
+        log(`Failed to persist webset batches: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    await this.pendingSave;
+  }
+}
+
+let sharedStore: BatchStore | undefined;
+
+/**
+ * Get the shared batch store, creating it on first use
+ */
+export function getBatchStore(): BatchStore {
+  if (!sharedStore) {
+    sharedStore = new BatchStore();
+  }
+  return sharedStore;
+}
+
+/**
+ * Shut down the shared batch store if it was created
+ */
+export async function shutdownBatchStore(): Promise<void> {
+  if (sharedStore) {
+    await sharedStore.shutdown();
+    sharedStore = undefined;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Idempotency Ledger
+ *
+ * Remembers API requests that create resources while their outcome is
+ * unknown, indexed by the idempotency key sent with them. When a request is
+ * interrupted by a crash, or fails without a definite answer from the API,
+ * repeating it resends the same key so the API returns the resource it may
+ * already have created instead of creating another one. Answered requests are
+ * forgotten, so later calls always get a new key. Entries are persisted
+ * through MemoryStore and expire after a configurable window.
+ */
+
+import { randomUUID } from 'crypto';
+import { homedir } from 'os';
+import { join } from 'path';
+import { MemoryStore } from './MemoryStore.js';
+import { log } from '../utils/logger.js';
+
+/**
+ * A request whose outcome is not known yet
+ */
+export interface IdempotencyRecord {
+  /** The idempotency key sent with the request */
+  key: string;
+  /** Fingerprint of the request, including the API key it was sent with */
+  fingerprint: string;
+  /** HTTP method of the request */
+  method: string;
+  /** Endpoint of the request */
+  path: string;
+  createdAt: string;
+}
+
+/**
+ * Idempotency ledger configuration
+ */
+export interface IdempotencyLedgerConfig {
+  /** Whether to persist the ledger to disk */
+  persistToDisk: boolean;
+  /** File the ledger is persisted to */
+  persistenceFile: string;
+  /** Interval between background saves in milliseconds (changes are also saved as they happen) */
+  persistenceInterval: number;
+  /** How long an unanswered request can be resumed in milliseconds */
+  ttl: number;
+  /** Maximum number of keys kept */
+  maxEntries: number;
+}
+
+/**
+ * Default idempotency ledger configuration
+ */
+const DEFAULT_IDEMPOTENCY_LEDGER_CONFIG: IdempotencyLedgerConfig = {
+  persistToDisk: process.env.WEBSETS_PERSIST_IDEMPOTENCY_LEDGER !== 'false',
+  persistenceFile: process.env.WEBSETS_IDEMPOTENCY_LEDGER_FILE || join(homedir(), '.exa-websets', 'idempotency-ledger.json'),
+  persistenceInterval: 300000, // 5 minutes
+  ttl: parseInt(process.env.WEBSETS_IDEMPOTENCY_TTL || '3600000', 10), // 1 hour
+  maxEntries: 10000,
+};
+
+/**
+ * Durable record of create requests that have not been answered
+ */
+export class IdempotencyLedger {
+  private readonly config: IdempotencyLedgerConfig;
+  private readonly store: MemoryStore<IdempotencyRecord>;
+  /** Keys of requests being sent by this process, which no other call may resume */
+  private readonly inFlight = new Set<string>();
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(config: Partial<IdempotencyLedgerConfig> = {}) {
+    this.config = { ...DEFAULT_IDEMPOTENCY_LEDGER_CONFIG, ...config };
+    this.store = new MemoryStore<IdempotencyRecord>({
+      maxItems: this.config.maxEntries,
+      defaultTtl: this.config.ttl,
+      persistToDisk: this.config.persistToDisk,
+      persistenceFile: this.config.persistenceFile,
+      persistenceInterval: this.config.persistenceInterval,
+    });
+  }
+
+  /**
+   * Get the record for an idempotency key
+   * @returns The record, or undefined when the request was answered or has expired
+   */
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    await this.store.ready();
+    return this.store.get(key);
+  }
+
+  /**
+   * Record that a request is about to be sent
+   * An unanswered earlier request with the same fingerprint, left by a crash
+   * or a failure without a definite answer, is resumed with its key. Requests
+   * still being sent are never resumed by another call.
+   * @param fingerprint Fingerprint of the request
+   * @param method HTTP method of the request
+   * @param path Endpoint of the request
+   * @param key Idempotency key to use instead of a resumed or generated one
+   * @returns The idempotency key to send, once the record is saved
+   * @throws When the record cannot be saved, so the request is not sent without it
+   */
+  async begin(fingerprint: string, method: string, path: string, key?: string): Promise<string> {
+    await this.store.ready();
+    const interrupted = key === undefined
+      ? this.store.keys()
+        .filter(candidate => !this.inFlight.has(candidate))
+        .map(candidate => this.store.get(candidate)) // Skips expired records
+        .find(record => record?.fingerprint === fingerprint)
+      : undefined;
+    if (interrupted) {
+      log(`Resending interrupted ${method} ${path} with idempotency key ${interrupted.key}`);
+    }
+
+    const record: IdempotencyRecord = {
+      key: key ?? interrupted?.key ?? randomUUID(),
+      fingerprint,
+      method,
+      path,
+      createdAt: interrupted?.createdAt ?? new Date().toISOString(),
+    };
+    this.inFlight.add(record.key);
+    this.store.set(record.key, record);
+    try {
+      await this.persist();
+    } catch (error) {
+      this.inFlight.delete(record.key);
+      if (!interrupted) {
+        this.store.delete(record.key);
+      }
+      throw error;
+    }
+    return record.key;
+  }
+
+  /**
+   * Record that a request was answered
+   * The request is forgotten, so repeating it is a new request with a new key.
+   */
+  async complete(key: string): Promise<void> {
+    await this.store.ready();
+    this.inFlight.delete(key);
+    if (this.store.delete(key)) {
+      await this.persistOrLog();
+    }
+  }
+
+  /**
+   * Record that a request failed
+   * @param key Idempotency key of the request
+   * @param outcomeUnknown Whether the API may have carried out the request
+   * anyway, as after a timeout; such requests are kept so a repeat resumes them
+   */
+  async fail(key: string, outcomeUnknown: boolean): Promise<void> {
+    await this.store.ready();
+    this.inFlight.delete(key);
+    if (!outcomeUnknown && this.store.delete(key)) {
+      await this.persistOrLog();
+    }
+  }
+
+  /**
+   * Forget unanswered requests that create resources inside a resource
+   * Called after the resource is deleted, since they can no longer be resumed.
+   * @param resourceId ID of the deleted resource
+   * @returns Number of records removed
+   */
+  async forgetResource(resourceId: string): Promise<number> {
+    await this.store.ready();
+    const keys = this.store.entries()
+      .filter(item => item.value.path.split('/').includes(resourceId))
+      .map(item => item.key);
+
+    keys.forEach(key => this.store.delete(key));
+    if (keys.length > 0) {
+      log(`Forgot ${keys.length} idempotency records for deleted resource ${resourceId}`);
+      await this.persistOrLog();
+    }
+    return keys.length;
+  }
+
+  /**
+   * Save the ledger and stop background timers
+   */
+  async shutdown(): Promise<void> {
+    await this.pendingSave;
+    await this.store.shutdown();
+  }
+
+  /**
+   * Save changes right away so the ledger survives a crash
+   */
+  private persist(): Promise<void> {
+    // Chain saves so concurrent writes never interleave in the file
+    const save = this.pendingSave.then(() => this.store.flush());
+    this.pendingSave = save.catch(() => undefined);
+    return save;
+  }
+
+  /**
+   * Save removed records right away, logging failures
+   * A removed record that was not saved is removed by the next save.
+   */
+  private async persistOrLog(): Promise<void> {
+    try {
+      await this.persist();
+    } catch (error) {
+      log(`Failed to persist idempotency ledger: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+let sharedLedger: IdempotencyLedger | undefined;
+
+/**
+ * Get the shared idempotency ledger, creating it on first use
+ */
+export function getIdempotencyLedger(): IdempotencyLedger {
+  if (!sharedLedger) {
+    sharedLedger = new IdempotencyLedger();
+  }
+  return sharedLedger;
+}
+
+/**
+ * Shut down the shared idempotency ledger if it was created
+ */
+export async function shutdownIdempotencyLedger(): Promise<void> {
+  if (sharedLedger) {
+    await sharedLedger.shutdown();
+    sharedLedger = undefined;
+  }
+}
@@ -146,6 +146,7 @@ export class MemoryStore<T = any> extends EventEmitter {
   private cleanupInterval?: NodeJS.Timeout;
   private persistenceInterval?: NodeJS.Timeout;
   private isDirty = false;
+  private readonly loaded: Promise<void>;
 
   constructor(config: Partial<MemoryStoreConfig> = {}) {
     super();
@@ -154,11 +155,30 @@ export class MemoryStore<T = any> extends EventEmitter {
     
     if (this.config.persistToDisk) {
       this.startPersistence();
-      this.loadFromDisk().catch(error => {
+      this.loaded = this.loadFromDisk().catch(error => {
         if (this.config.enableLogging) {
           console.warn('Failed to load from disk:', error);
         }
       });
+    } else {
+      this.loaded = Promise.resolve();
+    }
+  }
+
+  /**
+   * Wait until persisted items have been loaded from disk
+   * Resolves immediately when persistence is disabled; load failures are not rethrown.
+   */
+  ready(): Promise<void> {
+    return this.loaded;
+  }
+
+  /**
+   * Persist pending changes to disk now instead of waiting for the next interval
+   */
+  async flush(): Promise<void> {
+    if (this.config.persistToDisk && this.isDirty) {
+      await this.saveToDisk();
     }
   }
 
@@ -654,6 +674,8 @@ export class MemoryStore<T = any> extends EventEmitter {
       };
 
       const json = JSON.stringify(data);
+      // Clear before writing so changes made during the write are saved next time
+      this.isDirty = false;
       const dir = this.config.persistenceFile.substring(0, this.config.persistenceFile.lastIndexOf('/'));
       
       if (dir && !existsSync(dir)) {
@@ -661,10 +683,10 @@ export class MemoryStore<T = any> extends EventEmitter {
       }
 
       await writeFile(this.config.persistenceFile, json, 'utf8');
-      this.isDirty = false;
       this.emit('persistedToDisk');
 
     } catch (error) {
+      this.isDirty = true;
       this.emit('persistenceError', error);
       throw error;
     }
@@ -0,0 +1,143 @@
+/**
+ * Monitor Store
+ *
+ * Keeps the monitors scheduled by this server when the Websets API has no
+ * monitors endpoint, together with their recent runs. Monitors are persisted
+ * through MemoryStore so their schedules survive restarts.
+ */
+
+import { randomUUID } from 'crypto';
+import { homedir } from 'os';
+import { join } from 'path';
+import { MemoryStore } from './MemoryStore.js';
+import { Monitor, MonitorRun } from '../types/websets.js';
+import { log } from '../utils/logger.js';
+
+/**
+ * Prefix of the IDs of monitors scheduled locally
+ */
+export const LOCAL_MONITOR_PREFIX = 'monitor_local_';
+
+/**
+ * A locally scheduled monitor and its runs
+ */
+export interface LocalMonitorRecord {
+  monitor: Monitor;
+  /** Most recent runs, newest first */
+  runs: MonitorRun[];
+}
+
+/**
+ * Monitor store configuration
+ */
+export interface MonitorStoreConfig {
+  /** Whether to persist monitors to disk */
+  persistToDisk: boolean;
+  /** File monitors are persisted to */
+  persistenceFile: string;
+  /** Interval between background saves in milliseconds (changes are also saved as they happen) */
+  persistenceInterval: number;
+  /** Maximum number of monitors kept */
+  maxMonitors: number;
+  /** Maximum number of runs kept per monitor; the oldest are dropped first */
+  maxRunsPerMonitor: number;
+}
+
+/**
+ * Default monitor store configuration
+ */
+const DEFAULT_MONITOR_STORE_CONFIG: MonitorStoreConfig = {
+  persistToDisk: process.env.WEBSETS_PERSIST_MONITORS !== 'false',
+  persistenceFile: process.env.WEBSETS_MONITORS_FILE || join(homedir(), '.exa-websets', 'webset-monitors.json'),
+  persistenceInterval: 300000, // 5 minutes
+  maxMonitors: 500,
+  maxRunsPerMonitor: 100,
+};
+
+/**
+ * Durable store of locally scheduled monitors
+ */
+export class MonitorStore {
+  private readonly config: MonitorStoreConfig;
+  private readonly store: MemoryStore<LocalMonitorRecord>;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(config: Partial<MonitorStoreConfig> = {}) {
+    this.config = { ...DEFAULT_MONITOR_STORE_CONFIG, ...config };
+    this.store = new MemoryStore<LocalMonitorRecord>({
+      maxItems: this.config.maxMonitors,
+      defaultTtl: 0, // Monitors never expire
+      persistToDisk: this.config.persistToDisk,
+      persistenceFile: this.config.persistenceFile,
+      persistenceInterval: this.config.persistenceInterval,
+    });
+  }
+
+  /**
+   * Create an ID for a new monitor or run
+   */
+  createId(kind: 'monitor' | 'run'): string {
+    const suffix = randomUUID().replace(/-/g, '').slice(0, 16);
+    return kind === 'monitor' ? `${LOCAL_MONITOR_PREFIX}${suffix}` : `mrun_local_${suffix}`;
+  }
+
+  /**
+   * Save a monitor and its runs
+   */
+  async save(record: LocalMonitorRecord): Promise<void> {
+    // Loading from disk replaces the store contents, so wait for it first
+    await this.store.ready();
+    record.runs = record.runs.slice(0, this.config.maxRunsPerMonitor);
+    this.store.set(record.monitor.id, record);
+    this.persist();
+  }
+
+  /**
+   * Get a monitor and its runs by monitor ID
+   */
+  async get(monitorId: string): Promise<LocalMonitorRecord | undefined> {
+    await this.store.ready();
+    return this.store.get(monitorId);
+  }
+
+  /**
+   * List all monitors, oldest first
+   */
+  async list(): Promise<LocalMonitorRecord[]> {
+    await this.store.ready();
+    return this.store.values().sort((a, b) => a.monitor.createdAt.localeCompare(b.monitor.createdAt));
+  }
+
+  /**
+   * Delete a monitor and its runs
+   * @returns Whether a monitor was deleted
+   */
+  async delete(monitorId: string): Promise<boolean> {
+    await this.store.ready();
+    const deleted = this.store.delete(monitorId);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Save monitors and stop background timers
+   */
+  async shutdown(): Promise<void> {
+    await this.pendingSave;
+    await this.store.shutdown();
+  }
+
+  /**
+   * Save changes right away so monitors survive an unclean exit
+   */
+  private persist(): void {
+    // Chain saves so concurrent writes never interleave in the file
+    this.pendingSave = this.pendingSave
+      .then(() => this.store.flush())
+      .catch(error => {
+        log(`Failed to persist webset monitors: ${error instanceof Error ? error.message : String(error)}`);
+      });
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Template Store
+ *
+ * Keeps named webset templates: a search query, criteria, entity type and
+ * enrichments with {placeholder} parameters, filled in each time a webset is
+ * created from the template. Templates are persisted through MemoryStore so
+ * they survive restarts.
+ */
+
+import { homedir } from 'os';
+import { join } from 'path';
+import { MemoryStore } from './MemoryStore.js';
+import { CreateWebsetRequest, SearchEntity } from '../types/websets.js';
+import { log } from '../utils/logger.js';
+
+/**
+ * An enrichment added to websets created from a template
+ */
+export type TemplateEnrichment = NonNullable<CreateWebsetRequest['enrichments']>[number];
+
+/**
+ * A saved webset template
+ * The search query, criteria, enrichment descriptions and tag values may
+ * contain {parameter} placeholders.
+ */
+export interface WebsetTemplate {
+  name: string;
+  description?: string;
+  searchQuery: string;
+  resultCount?: number;
+  focusArea?: SearchEntity['type'];
+  criteria?: string[];
+  enrichments?: TemplateEnrichment[];
+  tags?: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Template store configuration
+ */
+export interface TemplateStoreConfig {
+  /** Whether to persist templates to disk */
+  persistToDisk: boolean;
+  /** File templates are persisted to */
+  persistenceFile: string;
+  /** Interval between background saves in milliseconds (changes are also saved as they happen) */
+  persistenceInterval: number;
+  /** Maximum number of templates kept */
+  maxTemplates: number;
+}
+
+/**
+ * Default template store configuration
+ */
+const DEFAULT_TEMPLATE_STORE_CONFIG: TemplateStoreConfig = {
+  persistToDisk: process.env.WEBSETS_PERSIST_TEMPLATES !== 'false',
+  persistenceFile: process.env.WEBSETS_TEMPLATES_FILE || join(homedir(), '.exa-websets', 'webset-templates.json'),
+  persistenceInterval: 300000, // 5 minutes
+  maxTemplates: 1000,
+};
+
+const TEMPLATE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,99}$/;
+const PLACEHOLDER_PATTERN = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Durable store of named webset templates
+ */
+export class TemplateStore {
+  private readonly config: TemplateStoreConfig;
+  private readonly store: MemoryStore<WebsetTemplate>;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(config: Partial<TemplateStoreConfig> = {}) {
+    this.config = { ...DEFAULT_TEMPLATE_STORE_CONFIG, ...config };
+    this.store = new MemoryStore<WebsetTemplate>({
+      maxItems: this.config.maxTemplates,
+      defaultTtl: 0, // Templates never expire
+      enableLru: false,
+      persistToDisk: this.config.persistToDisk,
+      persistenceFile: this.config.persistenceFile,
+      persistenceInterval: this.config.persistenceInterval,
+    });
+  }
+
+  /**
+   * Save a template, replacing any template with the same name
+   * @param template Template without timestamps
+   * @returns The saved template
+   */
+  async save(template: Omit<WebsetTemplate, 'createdAt' | 'updatedAt'>): Promise<WebsetTemplate> {
+    if (!TEMPLATE_NAME_PATTERN.test(template.name)) {
+      throw new Error('Template names must start with a letter or digit and contain only letters, digits, "-" and "_" (at most 100 characters)');
+    }
+    if (!template.searchQuery?.trim()) {
+      throw new Error('A template needs a searchQuery');
+    }
+
+    // Loading from disk replaces the store contents, so wait for it first
+    await this.store.ready();
+    const now = new Date().toISOString();
+    const saved: WebsetTemplate = {
+      ...template,
+      createdAt: this.store.get(template.name)?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.store.set(template.name, saved);
+    this.persist();
+    return saved;
+  }
+
+  /**
+   * Get a template by name
+   */
+  async get(name: string): Promise<WebsetTemplate | undefined> {
+    await this.store.ready();
+    return this.store.get(name);
+  }
+
+  /**
+   * List templates sorted by name
+   */
+  async list(): Promise<WebsetTemplate[]> {
+    await this.store.ready();
+    return this.store.values().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Delete a template
+   * @returns Whether a template was deleted
+   */
+  async delete(name: string): Promise<boolean> {
+    await this.store.ready();
+    const deleted = this.store.delete(name);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Save templates and stop background timers
+   */
+  async shutdown(): Promise<void> {
+    await this.pendingSave;
+    await this.store.shutdown();
+  }
+
+  /**
+   * Save changes right away so templates survive an unclean exit
+   */
+  private persist(): void {
+    // Chain saves so concurrent writes never interleave in the file
+    this.pendingSave = this.pendingSave
+      .then(() => this.store.flush())
+      .catch(error => {
+        log(`Failed to persist webset templates: ${error instanceof Error ? error.message : String(error)}`);
+      });
+  }
+}
+
+/**
+ * List the parameters a template's placeholders refer to, in order of first use
+ */
+export function getTemplateParameters(template: Omit<WebsetTemplate, 'createdAt' | 'updatedAt'>): string[] {
+  const text = [
+    template.searchQuery,
+    ...(template.criteria ?? []),
+    ...(template.enrichments ?? []).flatMap(enrichment => [enrichment.description, ...(enrichment.options ?? []).map(option => option.label)]),
+    ...Object.values(template.tags ?? {}),
+  ].join('\n');
+
+  return [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Build the request that creates a webset from a template
+ * @param template Saved template
+ * @param parameters Value for every placeholder
+ * @throws Error when a placeholder has no value or a value has no placeholder
+ */
+export function renderTemplate(template: WebsetTemplate, parameters: Record<string, string> = {}): CreateWebsetRequest {
+  const expected = getTemplateParameters(template);
+  const missing = expected.filter(name => parameters[name] === undefined);
+  const unknown = Object.keys(parameters).filter(name => !expected.includes(name));
+  if (missing.length > 0) {
+    throw new Error(`Template "${template.name}" needs values for: ${missing.join(', ')}`);
+  }
+  if (unknown.length > 0) {
+    throw new Error(`Template "${template.name}" has no parameters named: ${unknown.join(', ')}`);
+  }
+
+  const fill = (text: string) => text.replace(PLACEHOLDER_PATTERN, (_, name: string) => parameters[name]);
+
+  return {
+    search: {
+      query: fill(template.searchQuery),
+      count: template.resultCount ?? 10,
+      ...(template.focusArea && { entity: { type: template.focusArea } }),
+      ...(template.criteria?.length && { criteria: template.criteria.map(criterion => ({ description: fill(criterion) })) }),
+    },
+    ...(template.enrichments?.length && {
+      enrichments: template.enrichments.map(enrichment => ({
+        ...enrichment,
+        description: fill(enrichment.description),
+        ...(enrichment.options && { options: enrichment.options.map(option => ({ label: fill(option.label) })) }),
+      })),
+    }),
+    metadata: {
+      ...Object.fromEntries(Object.entries(template.tags ?? {}).map(([key, value]) => [key, fill(value)])),
+      template: template.name,
+    },
+  };
+}
+
+let sharedStore: TemplateStore | undefined;
+
+/**
+ * Get the shared template store, creating it on first use
+ */
+export function getTemplateStore(): TemplateStore {
+  if (!sharedStore) {
+    sharedStore = new TemplateStore();
+  }
+  return sharedStore;
+}
+
+/**
+ * Shut down the shared template store if it was created
+ */
+export async function shutdownTemplateStore(): Promise<void> {
+  if (sharedStore) {
+    await sharedStore.shutdown();
+    sharedStore = undefined;
+  }
+}
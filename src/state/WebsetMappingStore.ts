@@ -0,0 +1,229 @@
+/**
+ * Webset Mapping Store
+ *
+ * Remembers which webset owns each search and enrichment so operations that
+ * only receive a search or enrichment ID keep working across restarts.
+ * Mappings are persisted through MemoryStore, in a file per account so one
+ * account's mappings never resolve for another; missing ones are rebuilt by
+ * scanning websets with their searches and enrichments expanded.
+ */
+
+import { homedir } from 'os';
+import { extname, join } from 'path';
+import { MemoryStore } from './MemoryStore.js';
+import { WebsetService } from '../services/WebsetService.js';
+import { log } from '../utils/logger.js';
+import { hashApiKey } from '../utils/security.js';
+
+/**
+ * Kinds of resources mapped to their webset
+ */
+export type MappedResourceKind = 'search' | 'enrichment';
+
+/**
+ * Webset mapping store configuration
+ */
+export interface WebsetMappingStoreConfig {
+  /** Whether to persist mappings to disk */
+  persistToDisk: boolean;
+  /** File mappings are persisted to; the shared stores add the account to its name */
+  persistenceFile: string;
+  /** Interval between background saves in milliseconds (changes are also saved as they happen) */
+  persistenceInterval: number;
+  /** Maximum number of mappings kept */
+  maxMappings: number;
+  /** Maximum number of websets inspected when rebuilding a mapping */
+  maxScannedWebsets: number;
+}
+
+/**
+ * Default webset mapping store configuration
+ */
+const DEFAULT_WEBSET_MAPPING_STORE_CONFIG: WebsetMappingStoreConfig = {
+  persistToDisk: process.env.WEBSETS_PERSIST_MAPPINGS !== 'false',
+  persistenceFile: process.env.WEBSETS_MAPPINGS_FILE || join(homedir(), '.exa-websets', 'webset-mappings.json'),
+  persistenceInterval: 300000, // 5 minutes
+  maxMappings: 10000,
+  maxScannedWebsets: 100,
+};
+
+/**
+ * Durable search/enrichment → webset mappings
+ */
+export class WebsetMappingStore {
+  private readonly config: WebsetMappingStoreConfig;
+  private readonly store: MemoryStore<string>;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(config: Partial<WebsetMappingStoreConfig> = {}) {
+    this.config = { ...DEFAULT_WEBSET_MAPPING_STORE_CONFIG, ...config };
+    this.store = new MemoryStore<string>({
+      maxItems: this.config.maxMappings,
+      defaultTtl: 0, // Mappings never expire
+      persistToDisk: this.config.persistToDisk,
+      persistenceFile: this.config.persistenceFile,
+      persistenceInterval: this.config.persistenceInterval,
+    });
+  }
+
+  /**
+   * Get the webset owning a resource from the stored mappings
+   * @param kind Kind of resource
+   * @param id Search or enrichment ID
+   * @returns The webset ID, or undefined when no mapping is stored
+   */
+  async get(kind: MappedResourceKind, id: string): Promise<string | undefined> {
+    await this.store.ready();
+    return this.store.get(this.key(kind, id));
+  }
+
+  /**
+   * Record the webset owning a resource
+   * @param kind Kind of resource
+   * @param id Search or enrichment ID
+   * @param websetId The owning webset
+   */
+  async set(kind: MappedResourceKind, id: string, websetId: string): Promise<void> {
+    // Loading from disk replaces the store contents, so wait for it first
+    await this.store.ready();
+    this.store.set(this.key(kind, id), websetId, undefined, [kind]);
+    this.persist();
+  }
+
+  /**
+   * Forget the mapping for a resource
+   * @param kind Kind of resource
+   * @param id Search or enrichment ID
+   */
+  async delete(kind: MappedResourceKind, id: string): Promise<void> {
+    await this.store.ready();
+    if (this.store.delete(this.key(kind, id))) {
+      this.persist();
+    }
+  }
+
+  /**
+   * List stored mappings of a kind
+   * @param kind Kind of resource
+   * @returns Pairs of resource ID and webset ID
+   */
+  entries(kind: MappedResourceKind): Array<[string, string]> {
+    const prefix = `${kind}:`;
+    return this.store.getByTag(kind).map(item => [item.key.slice(prefix.length), item.value]);
+  }
+
+  /**
+   * Get the webset owning a resource, rebuilding the mapping if it is missing
+   * Websets are inspected with searches and enrichments expanded; every
+   * mapping seen along the way is stored.
+   * @param kind Kind of resource
+   * @param id Search or enrichment ID
+   * @param websetService Service used to scan websets
+   * @returns The webset ID, or undefined when no scanned webset owns the resource
+   */
+  async resolve(
+    kind: MappedResourceKind,
+    id: string,
+    websetService: Pick<WebsetService, 'listWebsets' | 'getWebset'>
+  ): Promise<string | undefined> {
+    const stored = await this.get(kind, id);
+    if (stored) {
+      return stored;
+    }
+
+    log(`No stored webset for ${kind} ${id}, scanning websets`);
+
+    let cursor: string | undefined;
+    let scanned = 0;
+
+    do {
+      const page = await websetService.listWebsets(cursor, Math.min(100, this.config.maxScannedWebsets));
+
+      for (const summary of page.data) {
+        if (scanned >= this.config.maxScannedWebsets) {
+          return undefined;
+        }
+        scanned++;
+
+        const webset = await websetService.getWebset(summary.id, 'searches,enrichments');
+        for (const search of webset.searches || []) {
+          this.store.set(this.key('search', search.id), webset.id, undefined, ['search']);
+        }
+        for (const enrichment of webset.enrichments || []) {
+          this.store.set(this.key('enrichment', enrichment.id), webset.id, undefined, ['enrichment']);
+        }
+        this.persist();
+
+        const owned = kind === 'search'
+          ? (webset.searches || []).some(search => search.id === id)
+          : (webset.enrichments || []).some(enrichment => enrichment.id === id);
+        if (owned) {
+          log(`Found ${kind} ${id} in webset ${webset.id}`);
+          return webset.id;
+        }
+      }
+
+      cursor = page.hasMore ? page.nextCursor : undefined;
+    } while (cursor);
+
+    return undefined;
+  }
+
+  /**
+   * Save mappings and stop background timers
+   */
+  async shutdown(): Promise<void> {
+    await this.pendingSave;
+    await this.store.shutdown();
+  }
+
+  /**
+   * Build the store key for a resource
+   */
+  private key(kind: MappedResourceKind, id: string): string {
+    return `${kind}:${id}`;
+  }
+
+  /**
+   * Save changes right away so mappings survive an unclean exit
+   */
+  private persist(): void {
+    // Chain saves so concurrent writes never interleave in the file
+    this.pendingSave = this.pendingSave
+      .then(() => this.store.flush())
+      .catch(error => {
+        log(`Failed to persist webset mappings: ${error instanceof Error ? error.message : String(error)}`);
+      });
+  }
+}
+
+const sharedStores = new Map<string, WebsetMappingStore>();
+
+/**
+ * Get the shared webset mapping store of an account, creating it on first use
+ * Each base URL and API key has its own store, persisted to its own file.
+ * @param baseUrl Base URL of the API
+ * @param apiKey API key of the account
+ */
+export function getWebsetMappingStore(baseUrl: string, apiKey: string): WebsetMappingStore {
+  const account = hashApiKey(`${baseUrl} ${apiKey}`);
+  let store = sharedStores.get(account);
+  if (!store) {
+    const { persistenceFile } = DEFAULT_WEBSET_MAPPING_STORE_CONFIG;
+    const extension = extname(persistenceFile);
+    store = new WebsetMappingStore({
+      persistenceFile: `${persistenceFile.slice(0, persistenceFile.length - extension.length)}-${account}${extension}`,
+    });
+    sharedStores.set(account, store);
+  }
+  return store;
+}
+
+/**
+ * Shut down the shared webset mapping stores that were created
+ */
+export async function shutdownWebsetMappingStore(): Promise<void> {
+  const stores = Array.from(sharedStores.values());
+  sharedStores.clear();
+  await Promise.all(stores.map(store => store.shutdown()));
+}
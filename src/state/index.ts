@@ -7,4 +7,12 @@
 // State management components
 export { MemoryStore } from './MemoryStore.js';
 export { AsyncOperationManager } from './AsyncOperationManager.js';
-export { ProgressTracker } from './ProgressTracker.js';
\ No newline at end of file
+export { ProgressTracker } from './ProgressTracker.js';
+export { WebsetMappingStore, getWebsetMappingStore, shutdownWebsetMappingStore } from './WebsetMappingStore.js';
+export { IdempotencyLedger, getIdempotencyLedger, shutdownIdempotencyLedger } from './IdempotencyLedger.js';
+export { TemplateStore, getTemplateStore, shutdownTemplateStore, getTemplateParameters, renderTemplate } from './TemplateStore.js';
+export type { WebsetTemplate, TemplateEnrichment, TemplateStoreConfig } from './TemplateStore.js';
+export { BatchStore, getBatchStore, shutdownBatchStore } from './BatchStore.js';
+export type { WebsetBatch, WebsetBatchEntry, BatchStoreConfig } from './BatchStore.js';
+export { MonitorStore, LOCAL_MONITOR_PREFIX } from './MonitorStore.js';
+export type { LocalMonitorRecord, MonitorStoreConfig } from './MonitorStore.js';
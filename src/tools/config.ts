@@ -9,10 +9,16 @@ export interface ToolRegistry {
     args: { [key: string]: any }, 
     extra: any
   ) => Promise<{
-    content: {
+    content: ({
       type: "text";
       text: string;
-    }[];
+    } | {
+      type: "resource_link";
+      uri: string;
+      name: string;
+      description?: string;
+      mimeType?: string;
+    })[];
     isError?: boolean;
   }>;   // Function to execute when tool is called
   enabled: boolean;    // Whether the tool is enabled by default
@@ -0,0 +1,99 @@
+/**
+ * Entity Type Guidance
+ *
+ * The entity types a webset search can focus on, with advice on writing
+ * criteria for each and the enrichments that usually pay off for it. Shared by
+ * the websets manager, which offers the default enrichments, and the guide.
+ */
+
+import { SearchEntity, WebsetEnrichment } from "../types/websets.js";
+
+/**
+ * Entity types supported by Websets searches
+ */
+export const ENTITY_TYPES = ["company", "person", "research_paper", "general"] as const satisfies readonly SearchEntity["type"][];
+
+export type EntityType = typeof ENTITY_TYPES[number];
+
+/**
+ * Guidance for searching one entity type
+ */
+export interface EntityTypeGuidance {
+  /** What the entity type finds */
+  description: string;
+  /** Advice on writing search criteria */
+  criteriaTips: string[];
+  /** Criteria that work well as a starting point */
+  exampleCriteria: string[];
+  /** Enrichments added by includeDefaultEnrichments */
+  defaultEnrichments: Array<{ description: string; format: WebsetEnrichment["format"] }>;
+}
+
+export const ENTITY_TYPE_GUIDANCE: Record<EntityType, EntityTypeGuidance> = {
+  company: {
+    description: "Companies and organizations, one item per company website",
+    criteriaTips: [
+      "Filter on facts a company states publicly: industry, location, funding stage, founding year",
+      "Keep each criterion to one checkable fact so it can be verified from the company's own pages"
+    ],
+    exampleCriteria: [
+      "Headquartered in Europe",
+      "Raised a Series A or later",
+      "Founded after 2018"
+    ],
+    defaultEnrichments: [
+      { description: "Number of employees", format: "number" },
+      { description: "Year the company was founded", format: "date" },
+      { description: "Headquarters city and country", format: "text" }
+    ]
+  },
+  person: {
+    description: "Individual people, one item per profile or personal page",
+    criteriaTips: [
+      "Describe the current role, seniority, employer or location rather than personal traits",
+      "Criteria about past roles or skills need evidence on the profile, so prefer what a profile states directly"
+    ],
+    exampleCriteria: [
+      "Currently works as a software engineer",
+      "Based in the San Francisco Bay Area",
+      "Has more than five years of experience in machine learning"
+    ],
+    defaultEnrichments: [
+      { description: "Current job title", format: "text" },
+      { description: "Current employer", format: "text" },
+      { description: "Professional email address", format: "email" }
+    ]
+  },
+  research_paper: {
+    description: "Academic papers and preprints, one item per paper",
+    criteriaTips: [
+      "Filter on the topic, method, venue or publication date stated in the paper",
+      "Name the finding or technique you need instead of broad fields, which match too many papers"
+    ],
+    exampleCriteria: [
+      "Published in 2023 or later",
+      "Evaluates a transformer-based model",
+      "Reports results on a public benchmark"
+    ],
+    defaultEnrichments: [
+      { description: "Authors of the paper", format: "text" },
+      { description: "Publication date", format: "date" },
+      { description: "Main finding in one sentence", format: "text" }
+    ]
+  },
+  general: {
+    description: "Any web page, for content that is not a company, person or paper",
+    criteriaTips: [
+      "Say what kind of page you want, such as an article, product page or event listing",
+      "Add criteria on the page's subject and date, since general searches match the widest range of pages"
+    ],
+    exampleCriteria: [
+      "Is a news article or blog post",
+      "Published within the last year"
+    ],
+    defaultEnrichments: [
+      { description: "Summary of the page in two sentences", format: "text" },
+      { description: "Publication date", format: "date" }
+    ]
+  }
+};
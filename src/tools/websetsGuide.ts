@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { toolRegistry, ToolCategory, ServiceType } from "./config.js";
+import { ENTITY_TYPES, ENTITY_TYPE_GUIDANCE } from "./entityTypes.js";
 
 /**
  * Websets Guide Tool
@@ -15,6 +16,7 @@ toolRegistry["websets_guide"] = {
     topic: z.enum([
       "getting_started",
       "creating_websets", 
+      "entity_types",
       "searching_content",
       "enhancing_data",
       "setting_notifications",
@@ -35,11 +37,16 @@ toolRegistry["websets_guide"] = {
 Content websets help you gather, organize, and enhance web content at scale. 
 
 **Available Operations:**
+- \`create_websets_batch\`, \`get_batch_status\` (many websets at once, from rows or a CSV file)
 - \`create_webset\`, \`list_websets\`, \`get_webset_status\`, \`update_webset\`, \`delete_webset\`
 - \`search_webset\`, \`get_search_results\`, \`cancel_search\`
 - \`enhance_content\`, \`get_enhancement_results\`, \`delete_enhancement\`
+- \`create_import\`, \`get_import_status\`, \`list_imports\`, \`delete_import\` (your own CSV or JSON list of URLs or names; seed a webset with \`webset.importId\` to enhance it)
+- \`create_monitor\`, \`list_monitors\`, \`update_monitor\`, \`delete_monitor\`, \`list_monitor_runs\` (re-run a webset's search on a cron schedule to keep it fresh)
 - \`setup_notifications\`, \`list_notifications\`, \`remove_notifications\`
-- \`list_content_items\`
+- \`list_content_items\`, \`export_items\` (CSV, JSON, NDJSON, Parquet or XLSX)
+- \`save_template\`, \`list_templates\`, \`create_from_template\` (reusable webset setups with {placeholders})
+- \`summarize_items\`, \`suggest_enrichments\`, \`draft_criteria\` (require MCP_FEATURE_SAMPLING=true and a sampling-capable client)
 
 Here's how to get started:
 
@@ -70,6 +77,7 @@ Once complete, view items with operation "list_content_items":
 operation: "list_content_items"
 resourceId: "your-webset-id"
 \`\`\`
+If \`pagination.hasMore\` is true, pass \`pagination.nextCursor\` as \`query.cursor\` to fetch the next page.
 
 **Next Steps:**
 - Search within your webset
@@ -118,11 +126,46 @@ webset: {
 **Tips for Better Websets:**
 - Be specific in your search query
 - Use criteria to filter results
+- Pick the focusArea that matches your results: company, person, research_paper or general (see the entity_types topic)
 - Set appropriate result counts (10-100)
 - Add descriptive tags for organization
         `
       },
 
+      entity_types: {
+        title: "Choosing an Entity Type",
+        content: `
+**Entity Types**
+
+Set \`focusArea\` when creating a webset (or \`search.advanced.focusArea.type\` when searching one) to tell Websets what each result should be. Add \`includeDefaultEnrichments: true\` to a new webset to start with the enrichments listed for its type.
+
+${ENTITY_TYPES.map(type => {
+  const guidance = ENTITY_TYPE_GUIDANCE[type];
+  return `**${type}** - ${guidance.description}
+${guidance.criteriaTips.map(tip => `- ${tip}`).join("\n")}
+- Example criteria: ${guidance.exampleCriteria.map(criterion => `"${criterion}"`).join(", ")}
+- Default enrichments: ${guidance.defaultEnrichments.map(enrichment => `${enrichment.description} (${enrichment.format})`).join(", ")}`;
+}).join("\n\n")}
+
+**Example - people for recruiting:**
+\`\`\`
+operation: "create_webset"
+webset: {
+  searchQuery: "machine learning engineers at robotics startups",
+  advanced: {
+    resultCount: 25,
+    focusArea: "person",
+    includeDefaultEnrichments: true,
+    criteria: [
+      { description: "Currently works as a machine learning engineer" },
+      { description: "Employer builds robots" }
+    ]
+  }
+}
+\`\`\`
+        `
+      },
+
       searching_content: {
         title: "Searching Within Websets",
         content: `
@@ -241,6 +284,10 @@ Get notified when websets, searches, or enhancements complete.
 - \`webset.search.created\` - When a search starts
 - \`webset.item.created\` - When new items are added
 - \`webset.item.enriched\` - When items are enhanced
+- \`import.created\` - When an import is created
+- \`import.completed\` - When an uploaded import has been processed
+- \`monitor.run.created\` - When a monitor starts a scheduled search
+- \`monitor.run.completed\` - When a monitor's scheduled search finishes
 
 **Basic Notification Setup:**
 \`\`\`
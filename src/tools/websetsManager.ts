@@ -1,14 +1,25 @@
 import { z } from "zod";
 import { toolRegistry, ToolCategory, ServiceType } from "./config.js";
-import { createServices } from "../services/index.js";
+import { createServices, getServiceWebsetMappingStore } from "../services/index.js";
 import { createRequestLogger } from "../utils/logger.js";
 import { withKeepAlive } from "../utils/keepAlive.js";
-import { PAGINATION_DEFAULTS, autoPaginate, createPaginatedResponse } from "../utils/pagination.js";
+import { PAGINATION_DEFAULTS } from "../utils/pagination.js";
 import { pollOperation, pollWithRetry, POLLING_DEFAULTS, createProgressLogger } from "../utils/polling.js";
-
-// Store mappings for searches and enrichments to their websets
-const searchToWebsetMap = new Map<string, string>();
-const enrichmentToWebsetMap = new Map<string, string>();
+import { SamplingAssistant, createSamplingClient } from "../sampling/index.js";
+import { createProgressNotifier, ProgressNotifier } from "../utils/progress.js";
+import { ItemExporter, EXPORT_FORMATS, BINARY_EXPORT_FORMATS, ITEM_EXPORT_COLUMNS, ENRICHMENT_COLUMN_PREFIX } from "../export/index.js";
+import { WEBSET_RESOURCE_TEMPLATES } from "../resources/index.js";
+import { featureFlags } from "../config/features.js";
+import { getTemplateStore, getTemplateParameters, renderTemplate } from "../state/TemplateStore.js";
+import { getBatchStore, WebsetBatchEntry } from "../state/BatchStore.js";
+import { withConcurrency } from "../utils/async.js";
+import { parseCsvRecords } from "../utils/csv.js";
+import { readFile } from "fs/promises";
+import { ApiErrorHandler } from "../api/ErrorHandler.js";
+import { createRateLimitError, createServiceUnavailableError } from "../utils/mcpErrors.js";
+import { withOperationMetrics } from "../metrics/index.js";
+import { ENTITY_TYPES, ENTITY_TYPE_GUIDANCE, EntityType } from "./entityTypes.js";
+import { ApiErrorType } from "../types/websets.js";
 
 /**
  * Unified Websets Manager Tool
@@ -23,6 +34,8 @@ const BaseOperationSchema = z.object({
   operation: z.enum([
     // Content Webset Operations
     "create_webset",
+    "create_websets_batch",
+    "get_batch_status",
     "list_websets", 
     "get_webset_status",
     "update_webset",
@@ -40,6 +53,19 @@ const BaseOperationSchema = z.object({
     "delete_enhancement",
     "cancel_enhancement",
     
+    // Import Operations
+    "create_import",
+    "get_import_status",
+    "list_imports",
+    "delete_import",
+    
+    // Monitor Operations
+    "create_monitor",
+    "list_monitors",
+    "update_monitor",
+    "delete_monitor",
+    "list_monitor_runs",
+    
     // Notification Operations
     "setup_notifications",
     "list_notifications",
@@ -51,21 +77,44 @@ const BaseOperationSchema = z.object({
     "get_activity_details",
     
     // Content Management
-    "list_content_items"
+    "list_content_items",
+    "export_items",
+    
+    // Templates
+    "save_template",
+    "list_templates",
+    "create_from_template",
+    
+    // LLM-Assisted Operations (require client sampling support)
+    "summarize_items",
+    "suggest_enrichments",
+    "draft_criteria"
   ]).describe("What you want to do"),
   
   // Target resource ID (when working with existing resources)
-  resourceId: z.string().optional().describe("ID of the webset, search, or enhancement to work with")
+  resourceId: z.string().optional().describe("ID of the webset, search, enhancement, import or monitor to work with")
 });
 
+// Enrichments added when a webset is created
+const WebsetEnrichmentsSchema = z.array(z.object({
+  description: z.string().describe("What data to extract for each item"),
+  format: z.enum(["text", "date", "number", "options", "email", "phone"]).default("text").describe("Expected format of the results"),
+  options: z.array(z.object({
+    label: z.string().describe("Possible answer option")
+  })).optional().describe("Predefined answer choices (only for 'options' format)")
+}));
+
 // Content Webset Parameters
 const WebsetParamsSchema = z.object({
-  searchQuery: z.string().describe("What you want to find (required for new websets)"),
+  searchQuery: z.string().optional().describe("What you want to find (required for new websets unless importId is given)"),
+  importId: z.string().optional().describe("Seed the webset with the entities of a completed import (see create_import)"),
   description: z.string().optional().describe("Human-readable description of this webset"),
   
   advanced: z.object({
     resultCount: z.number().min(1).max(1000).default(10).describe("How many items to find"),
-    focusArea: z.enum(["company"]).optional().describe("What type of entities to focus on"),
+    focusArea: z.enum(ENTITY_TYPES).optional().describe("What type of entities to focus on: company, person, research_paper or general"),
+    includeDefaultEnrichments: z.boolean().optional().describe("Add the recommended enrichments for the focus area (requires focusArea)"),
+    enrichments: WebsetEnrichmentsSchema.optional().describe("Enrichments to add to the webset as it is created"),
     criteria: z.array(z.object({
       description: z.string().describe("Specific requirement or filter")
     })).optional().describe("Additional requirements for filtering results"),
@@ -81,7 +130,7 @@ const SearchParamsSchema = z.object({
   
   advanced: z.object({
     focusArea: z.object({
-      type: z.literal("company").describe("Currently supports companies only")
+      type: z.enum(ENTITY_TYPES).describe("Entity type: company, person, research_paper or general")
     }).optional().describe("What type of entities to focus search on"),
     requirements: z.array(z.object({
       description: z.string().describe("Specific requirement for search results")
@@ -105,6 +154,28 @@ const EnhancementParamsSchema = z.object({
   }).optional().describe("Advanced enhancement settings")
 }).optional();
 
+// Import Parameters
+const ImportParamsSchema = z.object({
+  filePath: z.string().describe("Local CSV file with a header row, or JSON array of strings or objects, listing URLs or entity names"),
+  entityType: z.enum(ENTITY_TYPES).default("company").describe("What the entities are: company, person, research_paper or general"),
+  identifierColumn: z.string().optional().describe("Column holding each entity's URL or name (detected from columns such as url, website, domain or name when omitted)"),
+  title: z.string().optional().describe("Name for the import (defaults to the file name)"),
+  waitForCompletion: z.boolean().optional().describe("Wait until the import has been processed (max 2 minutes)"),
+  tags: z.record(z.string().max(1000)).optional().describe("Custom labels for this import")
+}).optional();
+
+// Monitor Parameters
+const MonitorParamsSchema = z.object({
+  schedule: z.string().optional().describe("When to re-run the search, as a cron expression such as \"0 9 * * 1\" for Mondays at 09:00 (required for create_monitor)"),
+  timezone: z.string().optional().describe("IANA time zone the schedule is read in, such as \"Europe/Berlin\" (defaults to UTC)"),
+  behavior: z.enum(["append", "override"]).optional().describe("\"append\" adds new results to the webset's items; \"override\" replaces them with the latest results (defaults to append)"),
+  query: z.string().optional().describe("Search to re-run (defaults to the webset's most recent search)"),
+  criteria: z.array(z.string()).optional().describe("Requirements for the results (defaults to those of the webset's most recent search)"),
+  resultCount: z.number().min(1).max(1000).optional().describe("How many results each run should find (defaults to the most recent search's count)"),
+  enabled: z.boolean().optional().describe("Pause (false) or resume (true) the monitor (update_monitor)"),
+  tags: z.record(z.string().max(1000)).optional().describe("Custom labels for this monitor")
+}).optional();
+
 // Notification Parameters
 const NotificationParamsSchema = z.object({
   webhookUrl: z.string().url().describe("URL where notifications should be sent"),
@@ -112,7 +183,9 @@ const NotificationParamsSchema = z.object({
     "webset.created", "webset.deleted", "webset.paused", "webset.idle",
     "webset.search.created", "webset.search.completed", "webset.search.updated", "webset.search.canceled",
     "webset.export.created", "webset.export.completed",
-    "webset.item.created", "webset.item.enriched"
+    "webset.item.created", "webset.item.enriched",
+    "import.created", "import.completed",
+    "monitor.created", "monitor.updated", "monitor.deleted", "monitor.run.created", "monitor.run.completed"
   ])).describe("Which events you want to be notified about"),
   
   advanced: z.object({
@@ -129,19 +202,71 @@ const UpdateParamsSchema = z.object({
 // Query Parameters (for listing operations)
 const QueryParamsSchema = z.object({
   limit: z.number().min(1).max(100).default(25).describe("Maximum number of items to return"),
-  offset: z.number().min(0).default(0).describe("Number of items to skip"),
-  status: z.enum(["pending", "processing", "completed", "failed", "cancelled"]).optional().describe("Filter by status")
+  cursor: z.string().optional().describe("Cursor from a previous response's pagination.nextCursor to fetch the next page")
+}).optional();
+
+// Export Parameters
+const ExportParamsSchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default("csv").describe("Export format: csv, json, ndjson (one JSON object per line), or typed parquet and xlsx (always written to a file)"),
+  columns: z.array(z.string()).optional().describe(`Columns to include. Item columns: ${ITEM_EXPORT_COLUMNS.join(", ")}. Enrichment values use "${ENRICHMENT_COLUMN_PREFIX}<enrichmentId>". Defaults to the standard item columns plus all enrichments`),
+  destination: z.enum(["auto", "inline", "file"]).default("auto").describe("Where to put the export: inline in the response, a local file, or auto (file when the export is large)")
+}).optional();
+
+// Template Parameters
+const TemplateParamsSchema = z.object({
+  name: z.string().optional().describe("Template name (save_template, create_from_template)"),
+  description: z.string().optional().describe("What the template is for (save_template)"),
+  searchQuery: z.string().optional().describe("Search query, with {placeholders} such as {region} filled in when creating a webset (save_template)"),
+  resultCount: z.number().min(1).max(1000).optional().describe("How many items each webset should find (save_template)"),
+  focusArea: z.enum(ENTITY_TYPES).optional().describe("What type of entities to focus on (save_template)"),
+  criteria: z.array(z.string()).optional().describe("Criteria descriptions, which may use placeholders (save_template)"),
+  enrichments: WebsetEnrichmentsSchema.optional().describe("Enrichments added to each webset, which may use placeholders (save_template)"),
+  tags: z.record(z.string().max(1000)).optional().describe("Custom labels for each webset, which may use placeholders (save_template)"),
+  parameters: z.record(z.string()).optional().describe("Value for each placeholder, e.g. { region: \"Europe\" } (create_from_template)")
+}).optional();
+
+// Batch Parameters
+const MAX_BATCH_SIZE = 100;
+
+const BatchParamsSchema = z.object({
+  rows: z.array(z.object({
+    searchQuery: z.string().describe("What this webset should find"),
+    criteria: z.array(z.string()).optional().describe("Requirements for this webset's results"),
+    resultCount: z.number().min(1).max(1000).optional().describe("How many items this webset should find"),
+    focusArea: z.enum(ENTITY_TYPES).optional().describe("What type of entities this webset should focus on"),
+    tags: z.record(z.string().max(1000)).optional().describe("Custom labels for this webset")
+  })).max(MAX_BATCH_SIZE).optional().describe("One row per webset"),
+  csvPath: z.string().optional().describe("Local CSV file with one webset per row: a searchQuery column and optional criteria (separated by ;), resultCount and focusArea columns. Other columns become tags"),
+  resultCount: z.number().min(1).max(1000).optional().describe("How many items each webset should find, unless its row says otherwise"),
+  focusArea: z.enum(ENTITY_TYPES).optional().describe("What type of entities to focus on, unless a row says otherwise"),
+  enrichments: WebsetEnrichmentsSchema.optional().describe("Enrichments to add to every webset"),
+  concurrency: z.number().min(1).max(10).default(5).describe("How many websets to create at once")
 }).optional();
 
+// Assist Parameters (for LLM-assisted operations)
+const AssistParamsSchema = z.object({
+  focus: z.string().optional().describe("What the summary or suggestions should focus on"),
+  query: z.string().optional().describe("Search query to draft criteria for (draft_criteria)"),
+  entityType: z.enum(ENTITY_TYPES).optional().describe("Type of entities being searched for (draft_criteria)"),
+  count: z.number().min(1).max(10).default(3).describe("How many enrichments or criteria to propose"),
+  maxItems: z.number().min(1).max(50).default(25).describe("How many items to include as context")
+}).default({});
+
 // Combined schema
 const WebsetsManagerSchema = BaseOperationSchema.extend({
   // Operation-specific parameters
   webset: WebsetParamsSchema,
   search: SearchParamsSchema,
   enhancement: EnhancementParamsSchema,
+  import: ImportParamsSchema,
+  monitor: MonitorParamsSchema,
   notification: NotificationParamsSchema,
   update: UpdateParamsSchema,
-  query: QueryParamsSchema
+  query: QueryParamsSchema,
+  export: ExportParamsSchema,
+  template: TemplateParamsSchema,
+  batch: BatchParamsSchema,
+  assist: AssistParamsSchema
 });
 
 // Register the unified tool
@@ -151,8 +276,8 @@ toolRegistry["websets_manager"] = {
   schema: WebsetsManagerSchema.shape,
   category: ToolCategory.WEBSETS,
   service: ServiceType.WEBSETS,
-  handler: async (args) => {
-    const { operation, resourceId, webset, search, enhancement, notification, update, query: params } = args;
+  handler: withOperationMetrics("websets_manager", async (args, extra) => {
+    const { operation, resourceId, webset, search, enhancement, import: importParams, monitor, notification, update, query: params, export: exportParams, template, batch, assist } = args;
     
     const requestId = `websets_manager-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
     const logger = createRequestLogger(requestId, 'websets_manager');
@@ -167,11 +292,18 @@ toolRegistry["websets_manager"] = {
       }
       
       const services = createServices(apiKey);
+      const notifyProgress = createProgressNotifier(extra);
       
       // Route to appropriate operation handler
       switch (operation) {
         case "create_webset":
-          return await handleCreateWebset(services, webset, logger);
+          return await handleCreateWebset(services, webset, logger, notifyProgress);
+        
+        case "create_websets_batch":
+          return await handleCreateWebsetsBatch(services, batch, logger, notifyProgress);
+        
+        case "get_batch_status":
+          return await handleGetBatchStatus(services, resourceId, logger);
         
         case "list_websets":
           return await handleListWebsets(services, params, logger);
@@ -189,7 +321,7 @@ toolRegistry["websets_manager"] = {
           return await handleCancelWebset(services, resourceId, logger);
           
         case "search_webset":
-          return await handleSearchWebset(services, resourceId, search, logger);
+          return await handleSearchWebset(services, resourceId, search, logger, notifyProgress);
           
         case "get_search_results":
           return await handleGetSearchResults(services, resourceId, logger);
@@ -198,7 +330,7 @@ toolRegistry["websets_manager"] = {
           return await handleCancelSearch(services, resourceId, logger);
           
         case "enhance_content":
-          return await handleEnhanceContent(services, resourceId, enhancement, logger);
+          return await handleEnhanceContent(services, resourceId, enhancement, logger, notifyProgress);
           
         case "get_enhancement_results":
           return await handleGetEnhancementResults(services, resourceId, logger);
@@ -209,6 +341,33 @@ toolRegistry["websets_manager"] = {
         case "cancel_enhancement":
           return await handleCancelEnhancement(services, resourceId, logger);
           
+        case "create_import":
+          return await handleCreateImport(services, importParams, logger, notifyProgress);
+          
+        case "get_import_status":
+          return await handleGetImportStatus(services, resourceId, logger);
+          
+        case "list_imports":
+          return await handleListImports(services, params, logger);
+          
+        case "delete_import":
+          return await handleDeleteImport(services, resourceId, logger);
+          
+        case "create_monitor":
+          return await handleCreateMonitor(services, resourceId, monitor, logger);
+          
+        case "list_monitors":
+          return await handleListMonitors(services, resourceId, params, logger);
+          
+        case "update_monitor":
+          return await handleUpdateMonitor(services, resourceId, monitor, logger);
+          
+        case "delete_monitor":
+          return await handleDeleteMonitor(services, resourceId, logger);
+          
+        case "list_monitor_runs":
+          return await handleListMonitorRuns(services, resourceId, params, logger);
+          
         case "setup_notifications":
           return await handleSetupNotifications(services, notification, logger);
           
@@ -229,6 +388,27 @@ toolRegistry["websets_manager"] = {
           
         case "list_content_items":
           return await handleListContentItems(services, resourceId, params, logger);
+        
+        case "export_items":
+          return await handleExportItems(services, resourceId, exportParams, logger);
+        
+        case "save_template":
+          return await handleSaveTemplate(template, logger);
+        
+        case "list_templates":
+          return await handleListTemplates(logger);
+        
+        case "create_from_template":
+          return await handleCreateFromTemplate(services, template, logger, notifyProgress);
+          
+        case "summarize_items":
+          return await handleSummarizeItems(services, resourceId, assist, extra, logger);
+          
+        case "suggest_enrichments":
+          return await handleSuggestEnrichments(services, resourceId, assist, extra, logger);
+          
+        case "draft_criteria":
+          return await handleDraftCriteria(services, resourceId, assist, webset, extra, logger);
           
         default:
           throw new Error(`Unknown operation: ${operation}`);
@@ -237,6 +417,27 @@ toolRegistry["websets_manager"] = {
     } catch (error) {
       logger.error(error);
       
+      // Rate limits and open circuit breakers carry a wait time, so the model can retry on time
+      const retryAfter = ApiErrorHandler.getRetryAfter(error);
+      if (retryAfter !== undefined) {
+        const unavailable = ApiErrorHandler.isApiError(error) && error.code === ApiErrorType.CIRCUIT_BREAKER_OPEN;
+        const retryError = unavailable ? createServiceUnavailableError(retryAfter) : createRateLimitError(retryAfter);
+        logger.log(`Operation ${unavailable ? 'blocked by an open circuit breaker' : 'rate limited'}, retry in ${retryAfter}s`);
+        
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              success: false,
+              operation,
+              error: retryError.message,
+              ...(retryError.data as object)
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+      
       let errorMessage: string;
       if (error instanceof Error) {
         errorMessage = error.message;
@@ -264,28 +465,41 @@ toolRegistry["websets_manager"] = {
         isError: true
       };
     }
-  },
+  }),
   enabled: true
 };
 
 // Operation handlers with user-friendly responses
-async function handleCreateWebset(services: any, params: any, logger: any) {
-  if (!params?.searchQuery) {
-    throw new Error("searchQuery is required to create a webset");
+async function handleCreateWebset(services: any, params: any, logger: any, notifyProgress?: ProgressNotifier) {
+  if (!params?.searchQuery && !params?.importId) {
+    throw new Error("searchQuery or importId is required to create a webset");
+  }
+  if (params.advanced?.includeDefaultEnrichments && !params.advanced.focusArea) {
+    throw new Error("focusArea is required to include default enrichments");
   }
   
+  const guidance = params.advanced?.focusArea ? ENTITY_TYPE_GUIDANCE[params.advanced.focusArea as EntityType] : undefined;
   const request = {
-    search: {
-      query: params.searchQuery,
-      count: params.advanced?.resultCount || 10,
-      ...(params.advanced?.focusArea && { entity: { type: params.advanced.focusArea } }),
-      ...(params.advanced?.criteria && { criteria: params.advanced.criteria })
-    },
+    ...(params.searchQuery && {
+      search: {
+        query: params.searchQuery,
+        count: params.advanced?.resultCount || 10,
+        ...(params.advanced?.focusArea && { entity: { type: params.advanced.focusArea } }),
+        ...(params.advanced?.criteria && { criteria: params.advanced.criteria })
+      }
+    }),
+    ...(params.importId && { import: [{ source: "import", id: params.importId }] }),
+    ...((params.advanced?.includeDefaultEnrichments || params.advanced?.enrichments) && {
+      enrichments: [
+        ...(params.advanced.includeDefaultEnrichments && guidance ? guidance.defaultEnrichments : []),
+        ...(params.advanced.enrichments || [])
+      ]
+    }),
     ...(params.advanced?.externalReference && { externalId: params.advanced.externalReference }),
     ...(params.advanced?.tags && { metadata: params.advanced.tags })
   };
   
-  logger.log(`Creating webset for: "${params.searchQuery}"`);
+  logger.log(params.searchQuery ? `Creating webset for: "${params.searchQuery}"` : `Creating webset from import ${params.importId}`);
   
   // Use keep-alive for long-running operation
   const result = await withKeepAlive(
@@ -298,7 +512,8 @@ async function handleCreateWebset(services: any, params: any, logger: any) {
     },
     {
       interval: 5000,
-      enableLogging: true
+      enableLogging: true,
+      onProgress: notifyProgress
     }
   );
   
@@ -307,16 +522,210 @@ async function handleCreateWebset(services: any, params: any, logger: any) {
       type: "text" as const,
       text: JSON.stringify({
         success: true,
-        message: "Content webset created successfully! This will take 10-15 minutes to process.",
+        message: params.searchQuery
+          ? "Content webset created successfully! This will take 10-15 minutes to process."
+          : `Content webset created from import ${params.importId}! Its items are ready to enhance.`,
         websetId: result.id,
         status: result.status,
-        searchQuery: params.searchQuery,
-        expectedResults: params.advanced?.resultCount || 10,
-        nextSteps: [
+        ...(params.searchQuery && {
+          searchQuery: params.searchQuery,
+          expectedResults: params.advanced?.resultCount || 10
+        }),
+        ...(params.importId && { importId: params.importId }),
+        ...(guidance && {
+          focusArea: params.advanced.focusArea,
+          guidance: {
+            criteria: guidance.criteriaTips,
+            ...(!params.advanced.criteria && { exampleCriteria: guidance.exampleCriteria }),
+            ...(params.advanced.includeDefaultEnrichments
+              ? { enrichmentsAdded: guidance.defaultEnrichments }
+              : { suggestedEnrichments: guidance.defaultEnrichments })
+          }
+        }),
+        nextSteps: params.searchQuery ? [
           `Check progress: use operation "get_webset_status" with resourceId "${result.id}"`,
           `When complete: use operation "list_content_items" with resourceId "${result.id}" to see results`
+        ] : [
+          `Enhance the imported items: use operation "enhance_content" with resourceId "${result.id}"`,
+          `View the imported items: use operation "list_content_items" with resourceId "${result.id}"`
+        ]
+      }, null, 2)
+    }]
+  };
+}
+
+/**
+ * Read batch rows from a CSV file with a header row
+ */
+async function readBatchCsv(csvPath: string): Promise<any[]> {
+  const records = parseCsvRecords(await readFile(csvPath, "utf-8"));
+  if (records.length > 0 && !("searchQuery" in records[0])) {
+    throw new Error(`${csvPath} needs a searchQuery column`);
+  }
+  
+  return records.map(({ searchQuery, criteria, resultCount, focusArea, ...tags }) => {
+    if (resultCount && !(Number(resultCount) >= 1 && Number(resultCount) <= 1000)) {
+      throw new Error(`resultCount must be between 1 and 1000, got "${resultCount}"`);
+    }
+    if (focusArea && !ENTITY_TYPES.includes(focusArea as EntityType)) {
+      throw new Error(`focusArea must be one of ${ENTITY_TYPES.join(", ")}, got "${focusArea}"`);
+    }
+    
+    return {
+      searchQuery,
+      ...(criteria && { criteria: criteria.split(";").map(criterion => criterion.trim()).filter(Boolean) }),
+      ...(resultCount && { resultCount: Number(resultCount) }),
+      ...(focusArea && { focusArea }),
+      tags: Object.fromEntries(Object.entries(tags).filter(([, value]) => value !== ""))
+    };
+  });
+}
+
+async function handleCreateWebsetsBatch(services: any, params: any, logger: any, notifyProgress?: ProgressNotifier) {
+  const rows = [
+    ...(params?.rows || []),
+    ...(params?.csvPath ? await readBatchCsv(params.csvPath) : [])
+  ];
+  
+  if (rows.length === 0) {
+    throw new Error("batch.rows or batch.csvPath with at least one row is required to create a batch");
+  }
+  if (rows.length > MAX_BATCH_SIZE) {
+    throw new Error(`A batch holds at most ${MAX_BATCH_SIZE} websets, got ${rows.length}`);
+  }
+  const blank = rows.findIndex(row => !row.searchQuery?.trim());
+  if (blank !== -1) {
+    throw new Error(`Row ${blank + 1} has no searchQuery`);
+  }
+  
+  const batchStore = getBatchStore();
+  const batchId = batchStore.createId();
+  let finished = 0;
+  
+  logger.log(`Creating batch ${batchId} of ${rows.length} websets`);
+  
+  // Saved before the first create, so an interrupted batch still lists the rows it did not get to
+  await batchStore.save({
+    id: batchId,
+    createdAt: new Date().toISOString(),
+    entries: rows.map((row, index) => ({ index, searchQuery: row.searchQuery }))
+  });
+  
+  // The shared rate limiter spaces the requests out; concurrency only bounds how many wait at once
+  const entries = await withConcurrency<WebsetBatchEntry>(rows.map((row, index) => async () => {
+    const focusArea = row.focusArea || params.focusArea;
+    const request = {
+      search: {
+        query: row.searchQuery,
+        count: row.resultCount || params.resultCount || 10,
+        ...(focusArea && { entity: { type: focusArea } }),
+        ...(row.criteria?.length && { criteria: row.criteria.map((description: string) => ({ description })) })
+      },
+      ...(params.enrichments && { enrichments: params.enrichments }),
+      metadata: { ...row.tags, batch: batchId }
+    };
+    
+    let entry: WebsetBatchEntry;
+    try {
+      const webset = await services.websetService.createWebset(request);
+      entry = { index, searchQuery: row.searchQuery, websetId: webset.id };
+    } catch (error) {
+      const message = ApiErrorHandler.createApiError(error).message;
+      logger.log(`Batch ${batchId} row ${index + 1} failed: ${message}`);
+      entry = { index, searchQuery: row.searchQuery, error: message };
+    }
+    
+    await batchStore.updateEntry(batchId, entry);
+    finished++;
+    notifyProgress?.(finished, rows.length, `Created ${finished} of ${rows.length} websets`);
+    return entry;
+  }), params.concurrency || 5);
+  
+  const failed = entries.filter(entry => entry.error);
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: failed.length < entries.length,
+        message: `Created ${entries.length - failed.length} of ${entries.length} websets. They will take 10-15 minutes to process.`,
+        batchId,
+        websets: entries,
+        nextSteps: [
+          `Check progress: use operation "get_batch_status" with resourceId "${batchId}"`,
+          ...(failed.length > 0 ? ["Rows that failed can be sent again as a new batch"] : [])
         ]
       }, null, 2)
+    }],
+    ...(failed.length === entries.length && { isError: true })
+  };
+}
+
+async function handleGetBatchStatus(services: any, resourceId: string | undefined, logger: any) {
+  if (!resourceId) {
+    throw new Error("resourceId is required to check batch status");
+  }
+  
+  const batch = await getBatchStore().get(resourceId);
+  if (!batch) {
+    throw new Error(`Batch ${resourceId} not found`);
+  }
+  
+  logger.log(`Getting status for batch ${resourceId}`);
+  
+  const websets = await withConcurrency(batch.entries.map(entry => async () => {
+    if (!entry.websetId) {
+      return { ...entry, status: entry.error ? "not_created" : "pending" };
+    }
+    try {
+      const webset = await services.websetService.getWebsetStatus(entry.websetId);
+      const searches = webset.searches || [];
+      return {
+        index: entry.index,
+        searchQuery: entry.searchQuery,
+        websetId: entry.websetId,
+        status: webset.status,
+        found: searches.reduce((sum: number, search: any) => sum + (search.progress?.found || 0), 0),
+        completion: searches.length > 0
+          ? Math.round(searches.reduce((sum: number, search: any) => sum + (search.progress?.completion || 0), 0) / searches.length)
+          : 0
+      };
+    } catch (error) {
+      return { ...entry, status: "unavailable", error: ApiErrorHandler.createApiError(error).message };
+    }
+  }), 5);
+  
+  const byStatus: Record<string, number> = {};
+  for (const webset of websets) {
+    byStatus[webset.status] = (byStatus[webset.status] || 0) + 1;
+  }
+  const created = websets.filter(webset => "found" in webset) as Array<{ status: string; found: number; completion: number }>;
+  const running = created.filter(webset => webset.status === "running").length;
+  const pending = byStatus.pending || 0;
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        batchId: batch.id,
+        createdAt: batch.createdAt,
+        status: running > 0 || pending > 0 ? "running" : "completed",
+        message: pending > 0
+          ? `${pending} of ${batch.entries.length} websets have not been created yet. If the call that created the batch was interrupted, send the pending rows again as a new batch`
+          : running > 0
+            ? `${running} of ${created.length} websets are still being built`
+            : `All ${created.length} websets are ready`,
+        progress: {
+          websets: batch.entries.length,
+          byStatus,
+          itemsFound: created.reduce((sum, webset) => sum + webset.found, 0),
+          completion: created.length > 0
+            ? Math.round(created.reduce((sum, webset) => sum + webset.completion, 0) / created.length)
+            : 0
+        },
+        websets
+      }, null, 2)
     }]
   };
 }
@@ -324,7 +733,7 @@ async function handleCreateWebset(services: any, params: any, logger: any) {
 async function handleListWebsets(services: any, params: any, logger: any) {
   logger.log("Listing all websets");
   const result = await services.websetService.listWebsets(
-    undefined, // cursor not supported yet
+    params?.cursor,
     params?.limit || 25
   );
   
@@ -344,9 +753,14 @@ async function handleListWebsets(services: any, params: any, logger: any) {
         })),
         pagination: {
           limit: params?.limit || 25,
-          offset: params?.offset || 0,
-          hasMore: result.data.length === (params?.limit || 25)
-        }
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor
+        },
+        ...(result.hasMore && result.nextCursor && {
+          nextSteps: [
+            `More websets: use operation "list_websets" with query.cursor "${result.nextCursor}"`
+          ]
+        })
       }, null, 2)
     }]
   };
@@ -395,7 +809,7 @@ async function handleGetWebsetStatus(services: any, resourceId: string | undefin
   };
 }
 
-async function handleSearchWebset(services: any, resourceId: string | undefined, params: any, logger: any) {
+async function handleSearchWebset(services: any, resourceId: string | undefined, params: any, logger: any, notifyProgress?: ProgressNotifier) {
   if (!resourceId) {
     throw new Error("resourceId is required to search within a webset");
   }
@@ -416,7 +830,7 @@ async function handleSearchWebset(services: any, resourceId: string | undefined,
   const result = await services.searchService.createSearch(request);
   
   // Store the mapping for later retrieval
-  searchToWebsetMap.set(result.id, resourceId);
+  await getMappings().set('search', result.id, resourceId);
   
   // Check if auto-polling is requested
   if (params.advanced?.waitForResults) {
@@ -432,7 +846,7 @@ async function handleSearchWebset(services: any, resourceId: string | undefined,
       },
       {
         ...POLLING_DEFAULTS.SEARCH,
-        onProgress: createProgressLogger("Search")
+        onProgress: createProgressLogger("Search", notifyProgress)
       }
     );
     
@@ -515,17 +929,69 @@ async function handleSearchWebset(services: any, resourceId: string | undefined,
 function getOperationHelp(operation: string): string[] {
   const helpMap: Record<string, string[]> = {
     "create_webset": [
-      "Provide a searchQuery describing what content you want to collect",
+      "Provide a searchQuery describing what content you want to collect, or importId of a completed import",
       "Optionally specify resultCount in advanced settings",
+      "Set advanced.focusArea to company, person, research_paper or general, and advanced.includeDefaultEnrichments to add the usual enrichments for it",
       "Webset creation takes 10-15 minutes to complete"
     ],
+    "create_websets_batch": [
+      "Provide batch.rows with a searchQuery for each webset, or batch.csvPath of a CSV file with a searchQuery column",
+      `A batch holds at most ${MAX_BATCH_SIZE} websets`
+    ],
+    "get_batch_status": [
+      "Provide resourceId of the batch returned by create_websets_batch"
+    ],
+    "save_template": [
+      "Provide template.name and template.searchQuery",
+      "Use {placeholders} in the query, criteria, enrichments and tags to fill in when creating a webset"
+    ],
+    "create_from_template": [
+      "Provide template.name of a saved template (see list_templates)",
+      "Provide template.parameters with a value for every placeholder in the template"
+    ],
     "search_webset": [
       "Provide resourceId of the webset to search within",
       "Provide query describing what to find in the webset"
     ],
     "enhance_content": [
       "Provide resourceId of the webset to enhance",
-      "Provide task describing what additional data you want to extract"
+      "Provide task describing what additional data you want to extract",
+      "To enhance your own list, import it with create_import and seed a webset with webset.importId"
+    ],
+    "create_import": [
+      "Provide import.filePath of a CSV file with a header row, or a JSON array of URLs, names or objects",
+      "Set import.entityType and, if it cannot be detected, import.identifierColumn"
+    ],
+    "get_import_status": [
+      "Provide resourceId of the import returned by create_import"
+    ],
+    "create_monitor": [
+      "Provide resourceId of the webset to keep fresh",
+      "Provide monitor.schedule as a cron expression (minute hour day-of-month month day-of-week), such as \"0 9 * * 1\" for Mondays at 09:00",
+      "Set monitor.behavior to \"append\" to add new results or \"override\" to replace the webset's items"
+    ],
+    "update_monitor": [
+      "Provide resourceId of the monitor (see list_monitors)",
+      "Set monitor.enabled to false to pause it, or change monitor.schedule, monitor.behavior or the search"
+    ],
+    "list_monitor_runs": [
+      "Provide resourceId of the monitor (see list_monitors)"
+    ],
+    "export_items": [
+      "Provide resourceId of the webset to export",
+      "Optionally set export.format (csv, json, ndjson, parquet, xlsx) and export.columns"
+    ],
+    "summarize_items": [
+      "Provide resourceId of the webset to summarize",
+      "Requires MCP_FEATURE_SAMPLING=true and a client that supports sampling"
+    ],
+    "suggest_enrichments": [
+      "Provide resourceId of the webset to suggest enrichments for",
+      "Requires MCP_FEATURE_SAMPLING=true and a client that supports sampling"
+    ],
+    "draft_criteria": [
+      "Provide assist.query (or webset.searchQuery, or resourceId of an existing webset)",
+      "Requires MCP_FEATURE_SAMPLING=true and a client that supports sampling"
     ]
   };
   
@@ -616,6 +1082,29 @@ async function handleCancelWebset(services: any, resourceId: string | undefined,
   };
 }
 
+/**
+ * Search and enrichment mappings of the account the tool runs as
+ */
+function getMappings() {
+  return getServiceWebsetMappingStore(process.env.EXA_API_KEY!);
+}
+
+async function resolveSearchWebset(services: any, searchId: string): Promise<string> {
+  const websetId = await getMappings().resolve('search', searchId, services.websetService);
+  if (!websetId) {
+    throw new Error(`Search ${searchId} not found in any webset. The search may not exist or may have been deleted.`);
+  }
+  return websetId;
+}
+
+async function resolveEnrichmentWebset(services: any, enrichmentId: string): Promise<string> {
+  const websetId = await getMappings().resolve('enrichment', enrichmentId, services.websetService);
+  if (!websetId) {
+    throw new Error(`Enhancement ${enrichmentId} not found in any webset. The enhancement may not exist or may have been deleted.`);
+  }
+  return websetId;
+}
+
 async function handleGetSearchResults(services: any, resourceId: string | undefined, logger: any) {
   if (!resourceId) {
     throw new Error("resourceId is required to get search results");
@@ -623,46 +1112,8 @@ async function handleGetSearchResults(services: any, resourceId: string | undefi
   
   logger.log(`Getting search results for search ID: ${resourceId}`);
   
-  // Get the websetId from our mapping first
-  let websetId: string | undefined = searchToWebsetMap.get(resourceId);
-  
-  // If not found in mapping, try to find it by searching through websets
-  if (!websetId) {
-    logger.log(`Search ${resourceId} not found in mapping, searching through all websets...`);
-    
-    try {
-      // Get list of websets and search through them
-      const websetsResponse = await services.websetService.listWebsets(undefined, 100);
-      const websets = websetsResponse.data || [];
-      
-      for (const webset of websets) {
-        try {
-          // Try to get the search from this webset
-          await services.searchService.getSearch(webset.id, resourceId);
-          websetId = webset.id;
-          logger.log(`Found search ${resourceId} in webset ${webset.id}`);
-          // Update our mapping for future use
-          searchToWebsetMap.set(resourceId, webset.id);
-          break;
-        } catch (error) {
-          // Search not found in this webset, continue
-          continue;
-        }
-      }
-      
-      if (!websetId) {
-        throw new Error(`Search ${resourceId} not found in any webset. The search may not exist or may have been deleted.`);
-      }
-      
-    } catch (error) {
-      throw new Error(`Failed to locate search ${resourceId}: ${error instanceof Error ? error.message : String(error)}`);
-    }
-  }
-  
-  // At this point websetId is guaranteed to be defined
-  if (!websetId) {
-    throw new Error(`Unable to determine webset ID for search ${resourceId}`);
-  }
+  // Get the websetId from the stored mappings, scanning websets if it is missing
+  const websetId = await resolveSearchWebset(services, resourceId);
   
   // Get the search details
   logger.log(`Getting search details: ${resourceId} from webset: ${websetId}`);
@@ -734,41 +1185,9 @@ async function handleCancelSearch(services: any, resourceId: string | undefined,
   }
   
   logger.log(`Attempting to cancel search: ${resourceId}`);
-  logger.log(`Current search mappings: ${JSON.stringify(Array.from(searchToWebsetMap.entries()))}`);
   
-  // Get the websetId from our mapping first
-  let websetId = searchToWebsetMap.get(resourceId);
-  
-  // If not found in mapping, try to find it by searching through websets
-  if (!websetId) {
-    logger.log(`Search ${resourceId} not found in mapping, searching through all websets...`);
-    
-    try {
-      // Get list of websets and search through them
-      const websetsResponse = await services.websetService.listWebsets(undefined, 100);
-      const websets = websetsResponse.data || [];
-      
-      for (const webset of websets) {
-        try {
-          // Try to get the search from this webset
-          await services.searchService.getSearch(webset.id, resourceId);
-          websetId = webset.id;
-          logger.log(`Found search ${resourceId} in webset ${websetId}`);
-          break;
-        } catch (error) {
-          // Search not found in this webset, continue
-          continue;
-        }
-      }
-      
-      if (!websetId) {
-        throw new Error(`Search ${resourceId} not found in any webset. The search may not exist or may have been deleted.`);
-      }
-      
-    } catch (error) {
-      throw new Error(`Failed to locate search ${resourceId}: ${error instanceof Error ? error.message : String(error)}`);
-    }
-  }
+  // Get the websetId from the stored mappings, scanning websets if it is missing
+  const websetId = await resolveSearchWebset(services, resourceId);
   
   logger.log(`Cancelling search: ${resourceId} from webset: ${websetId}`);
   
@@ -795,7 +1214,7 @@ async function handleCancelSearch(services: any, resourceId: string | undefined,
     const result = await services.searchService.cancelSearch(websetId, resourceId);
     
     // Remove from mapping after cancellation
-    searchToWebsetMap.delete(resourceId);
+    await getMappings().delete('search', resourceId);
     
     return {
       content: [{
@@ -839,7 +1258,7 @@ async function handleCancelSearch(services: any, resourceId: string | undefined,
   }
 }
 
-async function handleEnhanceContent(services: any, resourceId: string | undefined, params: any, logger: any) {
+async function handleEnhanceContent(services: any, resourceId: string | undefined, params: any, logger: any, notifyProgress?: ProgressNotifier) {
   if (!resourceId) {
     throw new Error("resourceId is required to enhance content");
   }
@@ -859,7 +1278,7 @@ async function handleEnhanceContent(services: any, resourceId: string | undefine
   const result = await services.enrichmentService.createEnrichment(request);
   
   // Store the mapping for later retrieval
-  enrichmentToWebsetMap.set(result.id, resourceId);
+  await getMappings().set('enrichment', result.id, resourceId);
   
   // Check if auto-polling is requested
   if (params.advanced?.waitForResults) {
@@ -875,7 +1294,7 @@ async function handleEnhanceContent(services: any, resourceId: string | undefine
       },
       {
         ...POLLING_DEFAULTS.ENHANCEMENT,
-        onProgress: createProgressLogger("Enhancement")
+        onProgress: createProgressLogger("Enhancement", notifyProgress)
       }
     );
     
@@ -940,11 +1359,8 @@ async function handleGetEnhancementResults(services: any, resourceId: string | u
     throw new Error("resourceId is required to get enhancement results");
   }
   
-  // Get the websetId from our mapping
-  const websetId = enrichmentToWebsetMap.get(resourceId);
-  if (!websetId) {
-    throw new Error(`No webset found for enhancement ${resourceId}. The enhancement may have been created in a previous session.`);
-  }
+  // Get the websetId from the stored mappings, scanning websets if it is missing
+  const websetId = await resolveEnrichmentWebset(services, resourceId);
   
   logger.log(`Getting enhancement results: ${resourceId} from webset: ${websetId}`);
   const result = await services.enrichmentService.getEnrichment(websetId, resourceId);
@@ -972,17 +1388,14 @@ async function handleDeleteEnhancement(services: any, resourceId: string | undef
     throw new Error("resourceId is required to delete an enhancement");
   }
   
-  // Get the websetId from our mapping
-  const websetId = enrichmentToWebsetMap.get(resourceId);
-  if (!websetId) {
-    throw new Error(`No webset found for enhancement ${resourceId}. The enhancement may have been created in a previous session.`);
-  }
+  // Get the websetId from the stored mappings, scanning websets if it is missing
+  const websetId = await resolveEnrichmentWebset(services, resourceId);
   
   logger.log(`Deleting enhancement: ${resourceId} from webset: ${websetId}`);
   await services.enrichmentService.deleteEnrichment(websetId, resourceId);
   
   // Remove from mapping after deletion
-  enrichmentToWebsetMap.delete(resourceId);
+  await getMappings().delete('enrichment', resourceId);
   
   return {
     content: [{
@@ -1001,17 +1414,14 @@ async function handleCancelEnhancement(services: any, resourceId: string | undef
     throw new Error("resourceId is required to cancel an enhancement");
   }
   
-  // Get the websetId from our mapping
-  const websetId = enrichmentToWebsetMap.get(resourceId);
-  if (!websetId) {
-    throw new Error(`No webset found for enhancement ${resourceId}. The enhancement may have been created in a previous session.`);
-  }
+  // Get the websetId from the stored mappings, scanning websets if it is missing
+  const websetId = await resolveEnrichmentWebset(services, resourceId);
   
   logger.log(`Cancelling enhancement: ${resourceId} from webset: ${websetId}`);
   const result = await services.enrichmentService.cancelEnrichment(websetId, resourceId);
   
   // Remove from mapping after cancellation
-  enrichmentToWebsetMap.delete(resourceId);
+  await getMappings().delete('enrichment', resourceId);
   
   return {
     content: [{
@@ -1026,69 +1436,481 @@ async function handleCancelEnhancement(services: any, resourceId: string | undef
   };
 }
 
-async function handleSetupNotifications(services: any, params: any, logger: any) {
-  if (!params?.webhookUrl) {
-    throw new Error("webhookUrl is required to setup notifications");
+/**
+ * Summarize an import and what can be done with it next
+ */
+function describeImport(websetImport: any) {
+  const nextSteps: Record<string, string[]> = {
+    pending: [
+      "The file has not been uploaded; create the import again with operation \"create_import\""
+    ],
+    processing: [
+      `Check progress: use operation "get_import_status" with resourceId "${websetImport.id}"`
+    ],
+    completed: [
+      `Seed a webset: use operation "create_webset" with webset.importId "${websetImport.id}"`,
+      "Then enhance the imported items: use operation \"enhance_content\" with the new webset's ID"
+    ],
+    failed: [
+      "Fix the file and import it again with operation \"create_import\""
+    ]
+  };
+  
+  return {
+    importId: websetImport.id,
+    title: websetImport.title,
+    status: websetImport.status,
+    entityType: websetImport.entity?.type,
+    count: websetImport.count,
+    ...(websetImport.status === "failed" && {
+      failedReason: websetImport.failedReason,
+      failedMessage: websetImport.failedMessage
+    }),
+    createdAt: websetImport.createdAt,
+    nextSteps: nextSteps[websetImport.status] || []
+  };
+}
+
+async function handleCreateImport(services: any, params: any, logger: any, notifyProgress?: ProgressNotifier) {
+  if (!params?.filePath) {
+    throw new Error("import.filePath is required to create an import");
   }
-  if (!params?.events || params.events.length === 0) {
-    throw new Error("At least one event must be specified for notifications");
+  
+  logger.log(`Importing ${params.entityType || "company"} list from ${params.filePath}`);
+  const { import: created, list } = await services.importService.importFile(params.filePath, {
+    entityType: params.entityType || "company",
+    ...(params.title && { title: params.title }),
+    ...(params.identifierColumn && { identifierColumn: params.identifierColumn }),
+    ...(params.tags && { metadata: params.tags })
+  });
+  
+  let websetImport = created;
+  if (params.waitForCompletion) {
+    logger.log(`Waiting for import ${created.id} to be processed`);
+    const pollingResult = await pollWithRetry(
+      async () => {
+        const current = await services.importService.getImport(created.id);
+        return { status: current.status, data: current };
+      },
+      {
+        ...POLLING_DEFAULTS.IMPORT,
+        onProgress: createProgressLogger("Import", notifyProgress)
+      }
+    );
+    websetImport = pollingResult.data || created;
+  } else {
+    // Processing starts once the file is uploaded
+    websetImport = await services.importService.getImport(created.id);
   }
   
-  const request = {
-    url: params.webhookUrl,
-    events: params.events,
-    ...(params.advanced?.tags && { metadata: params.advanced.tags })
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: websetImport.status !== "failed",
+        message: websetImport.status === "completed"
+          ? `Imported ${websetImport.count} entities`
+          : websetImport.status === "failed"
+            ? `Import failed: ${websetImport.failedMessage || websetImport.failedReason}`
+            : `Uploaded ${list.rows.length} entities; the import is being processed`,
+        identifierColumn: list.columns[list.identifierIndex],
+        columns: list.columns,
+        ...describeImport(websetImport)
+      }, null, 2)
+    }],
+    ...(websetImport.status === "failed" && { isError: true })
   };
+}
+
+async function handleGetImportStatus(services: any, resourceId: string | undefined, logger: any) {
+  if (!resourceId) {
+    throw new Error("resourceId is required to check import status");
+  }
   
-  logger.log(`Setting up notifications for ${params.events.length} event types`);
-  const result = await services.webhookService.createWebhook(request);
+  logger.log(`Getting status for import ${resourceId}`);
+  const websetImport = await services.importService.getImport(resourceId);
   
   return {
     content: [{
       type: "text" as const,
       text: JSON.stringify({
         success: true,
-        message: "Notifications setup successfully!",
-        notificationId: result.id,
-        webhookUrl: params.webhookUrl,
-        events: params.events,
-        createdAt: result.createdAt
+        ...describeImport(websetImport)
       }, null, 2)
     }]
   };
 }
 
-async function handleListNotifications(services: any, params: any, logger: any) {
-  logger.log("Listing all notifications");
-  const result = await services.webhookService.listWebhooks({
-    limit: params?.limit || 25,
-    cursor: undefined // cursor-based pagination, no offset
-  });
+async function handleListImports(services: any, params: any, logger: any) {
+  logger.log("Listing imports");
+  const result = await services.importService.listImports(
+    params?.cursor,
+    params?.limit || 25
+  );
   
   return {
     content: [{
       type: "text" as const,
       text: JSON.stringify({
         success: true,
-        message: `Found ${result.data.length} notification setups`,
-        notifications: result.data.map((webhook: any) => ({
-          id: webhook.id,
-          url: webhook.url,
-          events: webhook.events,
-          createdAt: webhook.createdAt
-        }))
+        message: `Found ${result.data.length} imports`,
+        imports: result.data.map((websetImport: any) => ({
+          id: websetImport.id,
+          title: websetImport.title,
+          status: websetImport.status,
+          entityType: websetImport.entity?.type,
+          count: websetImport.count,
+          createdAt: websetImport.createdAt
+        })),
+        pagination: {
+          limit: params?.limit || 25,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor
+        },
+        ...(result.hasMore && result.nextCursor && {
+          nextSteps: [
+            `More imports: use operation "list_imports" with query.cursor "${result.nextCursor}"`
+          ]
+        })
       }, null, 2)
     }]
   };
 }
 
-async function handleGetNotificationDetails(services: any, resourceId: string | undefined, logger: any) {
+async function handleDeleteImport(services: any, resourceId: string | undefined, logger: any) {
   if (!resourceId) {
-    throw new Error("resourceId is required to get notification details");
+    throw new Error("resourceId is required to delete an import");
   }
   
-  logger.log(`Getting notification details: ${resourceId}`);
-  const result = await services.webhookService.getWebhook(resourceId);
+  logger.log(`Deleting import: ${resourceId}`);
+  await services.importService.deleteImport(resourceId);
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        message: "Import deleted successfully. Websets already seeded from it keep their items",
+        deletedImportId: resourceId
+      }, null, 2)
+    }]
+  };
+}
+
+/**
+ * Summarize a monitor and when it runs
+ */
+function describeMonitor(services: any, monitor: any) {
+  const config = monitor.behavior?.config || {};
+  
+  return {
+    monitorId: monitor.id,
+    websetId: monitor.websetId,
+    status: monitor.status,
+    schedule: monitor.cadence?.cron,
+    timezone: monitor.cadence?.timezone || "UTC",
+    behavior: config.behavior,
+    query: config.query,
+    resultCount: config.count,
+    nextRunAt: monitor.nextRunAt,
+    ...(monitor.lastRun && {
+      lastRun: {
+        id: monitor.lastRun.id,
+        status: monitor.lastRun.status,
+        searchId: monitor.lastRun.searchId,
+        createdAt: monitor.lastRun.createdAt
+      }
+    }),
+    scheduledBy: services.monitorService.isLocalMonitor(monitor.id) ? "this server" : "exa"
+  };
+}
+
+async function handleCreateMonitor(services: any, resourceId: string | undefined, params: any, logger: any) {
+  if (!resourceId) {
+    throw new Error("resourceId of the webset is required to create a monitor");
+  }
+  if (!params?.schedule) {
+    throw new Error("monitor.schedule is required to create a monitor, e.g. \"0 9 * * 1\" for Mondays at 09:00");
+  }
+  
+  // Re-run the webset's most recent search unless told otherwise
+  const webset = await services.websetService.getWebset(resourceId);
+  const lastSearch = webset.searches?.[webset.searches.length - 1];
+  const query = params.query || lastSearch?.query;
+  if (!query) {
+    throw new Error(`Webset ${resourceId} has no search to re-run; provide monitor.query`);
+  }
+  const criteria = params.criteria
+    ? params.criteria.map((description: string) => ({ description }))
+    : lastSearch?.criteria?.map((criterion: any) => ({ description: criterion.description }));
+  
+  const request = {
+    websetId: resourceId,
+    cadence: {
+      cron: params.schedule,
+      ...(params.timezone && { timezone: params.timezone })
+    },
+    behavior: {
+      type: "search",
+      config: {
+        query,
+        ...(criteria?.length && { criteria }),
+        ...(lastSearch?.entity && { entity: { type: lastSearch.entity.type } }),
+        count: params.resultCount || lastSearch?.count || 10,
+        behavior: params.behavior || "append"
+      }
+    },
+    ...(params.tags && { metadata: params.tags })
+  };
+  
+  logger.log(`Creating monitor for webset ${resourceId} on schedule "${params.schedule}"`);
+  const result = await services.monitorService.createMonitor(request);
+  const local = services.monitorService.isLocalMonitor(result.id);
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        message: `Monitor created! The search will re-run on schedule "${result.cadence.cron}" and ${result.behavior.config.behavior === "override" ? "replace" : "add to"} the webset's items`,
+        ...describeMonitor(services, result),
+        ...(local && {
+          note: "The Websets API has no monitors endpoint, so this server schedules the monitor. It only runs while the server is running"
+        }),
+        nextSteps: [
+          `See its runs: use operation "list_monitor_runs" with resourceId "${result.id}"`,
+          `Pause it: use operation "update_monitor" with resourceId "${result.id}" and monitor.enabled false`,
+          `Stop it: use operation "delete_monitor" with resourceId "${result.id}"`
+        ]
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleListMonitors(services: any, resourceId: string | undefined, params: any, logger: any) {
+  logger.log(resourceId ? `Listing monitors of webset ${resourceId}` : "Listing monitors");
+  const result = await services.monitorService.listMonitors(
+    resourceId,
+    params?.cursor,
+    params?.limit || 25
+  );
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        message: `Found ${result.data.length} monitors`,
+        monitors: result.data.map((monitor: any) => describeMonitor(services, monitor)),
+        pagination: {
+          limit: params?.limit || 25,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor
+        },
+        ...(result.hasMore && result.nextCursor && {
+          nextSteps: [
+            `More monitors: use operation "list_monitors" with query.cursor "${result.nextCursor}"`
+          ]
+        })
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleUpdateMonitor(services: any, resourceId: string | undefined, params: any, logger: any) {
+  if (!resourceId) {
+    throw new Error("resourceId is required to update a monitor");
+  }
+  if (!params) {
+    throw new Error("monitor parameters are required to update a monitor");
+  }
+  
+  const request: any = {};
+  if (params.enabled !== undefined) {
+    request.status = params.enabled ? "enabled" : "disabled";
+  }
+  if (params.tags) {
+    request.metadata = params.tags;
+  }
+  
+  // The schedule and search are replaced as a whole, so fill in what is unchanged
+  const changesSchedule = params.schedule !== undefined || params.timezone !== undefined;
+  const changesSearch = ["query", "criteria", "resultCount", "behavior"].some(field => params[field] !== undefined);
+  if (changesSchedule || changesSearch) {
+    const current = await services.monitorService.getMonitor(resourceId);
+    if (changesSchedule) {
+      const timezone = params.timezone || current.cadence.timezone;
+      request.cadence = {
+        cron: params.schedule || current.cadence.cron,
+        ...(timezone && { timezone })
+      };
+    }
+    if (changesSearch) {
+      const config = current.behavior.config;
+      request.behavior = {
+        type: "search",
+        config: {
+          ...config,
+          ...(params.query && { query: params.query }),
+          ...(params.criteria && { criteria: params.criteria.map((description: string) => ({ description })) }),
+          ...(params.resultCount && { count: params.resultCount }),
+          ...(params.behavior && { behavior: params.behavior })
+        }
+      };
+    }
+  }
+  
+  if (Object.keys(request).length === 0) {
+    throw new Error("Nothing to update: set monitor.enabled, monitor.schedule, monitor.timezone, monitor.behavior, the search or tags");
+  }
+  
+  logger.log(`Updating monitor ${resourceId}`);
+  const result = await services.monitorService.updateMonitor(resourceId, request);
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        message: result.status === "disabled" ? "Monitor paused" : "Monitor updated",
+        ...describeMonitor(services, result)
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleDeleteMonitor(services: any, resourceId: string | undefined, logger: any) {
+  if (!resourceId) {
+    throw new Error("resourceId is required to delete a monitor");
+  }
+  
+  logger.log(`Deleting monitor: ${resourceId}`);
+  await services.monitorService.deleteMonitor(resourceId);
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        message: "Monitor deleted. The webset keeps the items its runs found",
+        deletedMonitorId: resourceId
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleListMonitorRuns(services: any, resourceId: string | undefined, params: any, logger: any) {
+  if (!resourceId) {
+    throw new Error("resourceId of the monitor is required to list its runs");
+  }
+  
+  logger.log(`Listing runs of monitor ${resourceId}`);
+  const [monitor, result] = await Promise.all([
+    services.monitorService.getMonitor(resourceId),
+    services.monitorService.listMonitorRuns(resourceId, params?.cursor, params?.limit || 25)
+  ]);
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        message: `Found ${result.data.length} runs`,
+        monitorId: resourceId,
+        websetId: monitor.websetId,
+        nextRunAt: monitor.nextRunAt,
+        runs: result.data.map((run: any) => ({
+          id: run.id,
+          status: run.status,
+          searchId: run.searchId,
+          createdAt: run.createdAt,
+          ...(run.completedAt && { completedAt: run.completedAt }),
+          ...(run.status === "failed" && { failedReason: run.failedReason })
+        })),
+        pagination: {
+          limit: params?.limit || 25,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor
+        },
+        nextSteps: [
+          `See the webset's items: use operation "list_content_items" with resourceId "${monitor.websetId}"`,
+          ...(result.hasMore && result.nextCursor ? [
+            `More runs: use operation "list_monitor_runs" with query.cursor "${result.nextCursor}"`
+          ] : [])
+        ]
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleSetupNotifications(services: any, params: any, logger: any) {
+  if (!params?.webhookUrl) {
+    throw new Error("webhookUrl is required to setup notifications");
+  }
+  if (!params?.events || params.events.length === 0) {
+    throw new Error("At least one event must be specified for notifications");
+  }
+  
+  const request = {
+    url: params.webhookUrl,
+    events: params.events,
+    ...(params.advanced?.tags && { metadata: params.advanced.tags })
+  };
+  
+  logger.log(`Setting up notifications for ${params.events.length} event types`);
+  const result = await services.webhookService.createWebhook(request);
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        message: "Notifications setup successfully!",
+        notificationId: result.id,
+        webhookUrl: params.webhookUrl,
+        events: params.events,
+        createdAt: result.createdAt
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleListNotifications(services: any, params: any, logger: any) {
+  logger.log("Listing all notifications");
+  const result = await services.webhookService.listWebhooks({
+    limit: params?.limit || 25,
+    cursor: params?.cursor
+  });
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        message: `Found ${result.data.length} notification setups`,
+        notifications: result.data.map((webhook: any) => ({
+          id: webhook.id,
+          url: webhook.url,
+          events: webhook.events,
+          createdAt: webhook.createdAt
+        })),
+        pagination: {
+          limit: params?.limit || 25,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor
+        }
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleGetNotificationDetails(services: any, resourceId: string | undefined, logger: any) {
+  if (!resourceId) {
+    throw new Error("resourceId is required to get notification details");
+  }
+  
+  logger.log(`Getting notification details: ${resourceId}`);
+  const result = await services.webhookService.getWebhook(resourceId);
   
   return {
     content: [{
@@ -1129,68 +1951,23 @@ async function handleListActivities(services: any, params: any, logger: any) {
   logger.log("Listing recent activities");
   
   try {
-    // If limit is specified, use it directly (user knows what they want)
-    if (params?.limit) {
-      const result = await services.eventService.listEvents({
-        limit: params.limit,
-        cursor: params?.cursor
-      });
-      
-      const events = result.events || result.data || [];
-      
-      return {
-        content: [{
-          type: "text" as const,
-          text: JSON.stringify({
-            success: true,
-            message: `Found ${events.length} recent activities`,
-            total: events.length,
-            nextCursor: result.nextCursor,
-            activities: events.map((event: any) => ({
-              id: event.id,
-              type: event.type,
-              timestamp: event.createdAt,
-              object: event.object,
-              summary: `${event.type} event occurred`,
-              ...(event.data && { data: event.data })
-            }))
-          }, null, 2)
-        }]
-      };
-    }
-    
-    // Otherwise, use automatic pagination to prevent token overflow
-    logger.log("Using automatic pagination for activities");
-    
-    const allEvents = await autoPaginate(async ({ limit, offset }) => {
-      const result = await services.eventService.listEvents({
-        limit: limit || PAGINATION_DEFAULTS.ACTIVITIES,
-        cursor: params?.cursor // TODO: offset-based pagination if API supports it
-      });
-      
-      const events = result.events || result.data || [];
-      
-      return createPaginatedResponse(
-        events,
-        { limit, offset },
-        undefined // Total count not available from API
-      );
+    // Without a limit, keep to a small page to prevent token overflow
+    const result = await services.eventService.listEvents({
+      limit: params?.limit || PAGINATION_DEFAULTS.ACTIVITIES,
+      cursor: params?.cursor
     });
     
-    logger.log(`Auto-paginated ${allEvents.length} events`);
+    const events = result.events || result.data || [];
     
     return {
       content: [{
         type: "text" as const,
         text: JSON.stringify({
           success: true,
-          message: `Found ${allEvents.length} recent activities (auto-paginated to prevent token overflow)`,
-          total: allEvents.length,
-          pagination: {
-            note: "Results were automatically paginated to fit within token limits",
-            actualCount: allEvents.length
-          },
-          activities: allEvents.map((event: any) => ({
+          message: `Found ${events.length} recent activities`,
+          total: events.length,
+          nextCursor: result.nextCursor,
+          activities: events.map((event: any) => ({
             id: event.id,
             type: event.type,
             timestamp: event.createdAt,
@@ -1385,7 +2162,7 @@ async function handleListContentItems(services: any, resourceId: string | undefi
   logger.log(`Listing content items for webset: ${resourceId}`);
   const result = await services.itemService.listItems(
     resourceId,
-    undefined, // cursor not supported yet
+    params?.cursor,
     params?.limit || 25
   );
   
@@ -1400,14 +2177,309 @@ async function handleListContentItems(services: any, resourceId: string | undefi
           id: item.id,
           title: item.title || "No title",
           url: item.url,
-          snippet: item.text ? item.text.substring(0, 200) + "..." : "No content preview",
+          snippet: item.content ? item.content.substring(0, 200) + "..." : "No content preview",
           createdAt: item.createdAt
         })),
         pagination: {
           limit: params?.limit || 25,
-          offset: params?.offset || 0,
-          hasMore: result.data.length === (params?.limit || 25)
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor
+        },
+        ...(result.hasMore && result.nextCursor && {
+          nextSteps: [
+            `More items: use operation "list_content_items" with resourceId "${resourceId}" and query.cursor "${result.nextCursor}"`
+          ]
+        })
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleExportItems(services: any, resourceId: string | undefined, params: any, logger: any) {
+  if (!resourceId) {
+    throw new Error("resourceId is required to export webset items");
+  }
+  
+  const format = params?.format || "csv";
+  const destination = params?.destination || "auto";
+  
+  if (destination === "inline" && BINARY_EXPORT_FORMATS.includes(format)) {
+    throw new Error(`${format} exports are binary and cannot be returned inline; use destination "file" or "auto"`);
+  }
+  
+  logger.log(`Exporting items from webset ${resourceId} as ${format}`);
+  const webset = await services.websetService.getWebset(resourceId, "enrichments");
+  const result = await services.itemService.exportItems(resourceId, {
+    format,
+    columns: params?.columns,
+    enrichments: webset.enrichments
+  });
+  
+  const exporter = new ItemExporter();
+  
+  const summary = {
+    success: true,
+    websetId: resourceId,
+    format: result.format,
+    itemCount: result.itemCount,
+    columns: result.columns,
+    enrichmentColumns: result.enrichmentColumns
+  };
+  
+  if (typeof result.content === "string" && (destination === "inline" || (destination === "auto" && exporter.shouldInline(result)))) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({
+            ...summary,
+            message: `Exported ${result.itemCount} items as ${format}`
+          }, null, 2)
+        },
+        {
+          type: "text" as const,
+          text: result.content
         }
+      ]
+    };
+  }
+  
+  const file = await exporter.writeToFile(resourceId, result);
+  const uri = WEBSET_RESOURCE_TEMPLATES.export
+    .replace("{websetId}", encodeURIComponent(resourceId))
+    .replace("{fileName}", encodeURIComponent(file.fileName));
+  const resourcesEnabled = featureFlags.isEnabled('resources');
+  logger.log(`Wrote ${file.bytes} bytes to ${file.path}`);
+  
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify({
+          ...summary,
+          message: `Exported ${result.itemCount} items as ${format} to ${file.path}`,
+          file: {
+            path: file.path,
+            bytes: file.bytes,
+            ...(resourcesEnabled && { resourceUri: uri })
+          }
+        }, null, 2)
+      },
+      ...(resourcesEnabled ? [{
+        type: "resource_link" as const,
+        uri,
+        name: file.fileName,
+        description: `Export of ${result.itemCount} items from webset ${resourceId}`,
+        mimeType: result.mimeType
+      }] : [])
+    ]
+  };
+}
+
+async function handleSaveTemplate(params: any, logger: any) {
+  if (!params?.name) {
+    throw new Error("template.name is required to save a template");
+  }
+  if (!params.searchQuery) {
+    throw new Error("template.searchQuery is required to save a template");
+  }
+  
+  const store = getTemplateStore();
+  const replaced = (await store.get(params.name)) !== undefined;
+  const saved = await store.save({
+    name: params.name,
+    searchQuery: params.searchQuery,
+    ...(params.description && { description: params.description }),
+    ...(params.resultCount && { resultCount: params.resultCount }),
+    ...(params.focusArea && { focusArea: params.focusArea }),
+    ...(params.criteria && { criteria: params.criteria }),
+    ...(params.enrichments && { enrichments: params.enrichments }),
+    ...(params.tags && { tags: params.tags })
+  });
+  const parameters = getTemplateParameters(saved);
+  
+  logger.log(`${replaced ? "Updated" : "Saved"} template ${saved.name}`);
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        message: `Template "${saved.name}" ${replaced ? "updated" : "saved"}`,
+        template: saved,
+        parameters,
+        nextSteps: [
+          `Create a webset: use operation "create_from_template" with template.name "${saved.name}"${parameters.length > 0 ? ` and template.parameters for ${parameters.join(", ")}` : ""}`
+        ]
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleListTemplates(logger: any) {
+  logger.log("Listing templates");
+  const templates = await getTemplateStore().list();
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        message: `Found ${templates.length} templates`,
+        templates: templates.map(template => ({
+          name: template.name,
+          description: template.description,
+          searchQuery: template.searchQuery,
+          parameters: getTemplateParameters(template),
+          focusArea: template.focusArea,
+          criteriaCount: template.criteria?.length || 0,
+          enrichmentCount: template.enrichments?.length || 0,
+          updatedAt: template.updatedAt
+        }))
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleCreateFromTemplate(services: any, params: any, logger: any, notifyProgress?: ProgressNotifier) {
+  if (!params?.name) {
+    throw new Error("template.name is required to create a webset from a template");
+  }
+  
+  const template = await getTemplateStore().get(params.name);
+  if (!template) {
+    throw new Error(`Template "${params.name}" not found. Use operation "list_templates" to see saved templates`);
+  }
+  
+  const request = renderTemplate(template, params.parameters);
+  logger.log(`Creating webset from template ${template.name} for: "${request.search?.query}"`);
+  
+  const result = await withKeepAlive(
+    'Creating webset from template',
+    async (keepAlive) => {
+      keepAlive.sendProgress('Initializing webset creation', 10);
+      const webset = await services.websetService.createWebset(request);
+      keepAlive.sendProgress('Webset created, processing will continue in background', 100);
+      return webset;
+    },
+    {
+      interval: 5000,
+      enableLogging: true,
+      onProgress: notifyProgress
+    }
+  );
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        message: `Webset created from template "${template.name}"! This will take 10-15 minutes to process.`,
+        websetId: result.id,
+        status: result.status,
+        template: template.name,
+        searchQuery: request.search?.query,
+        expectedResults: request.search?.count,
+        enrichments: (result.enrichments || []).map((enrichment: any) => ({
+          id: enrichment.id,
+          description: enrichment.description,
+          format: enrichment.format
+        })),
+        nextSteps: [
+          `Check progress: use operation "get_webset_status" with resourceId "${result.id}"`,
+          `When complete: use operation "list_content_items" with resourceId "${result.id}" to see results`
+        ]
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleSummarizeItems(services: any, resourceId: string | undefined, params: any, extra: any, logger: any) {
+  if (!resourceId) {
+    throw new Error("resourceId is required to summarize webset items");
+  }
+  
+  const assistant = new SamplingAssistant(createSamplingClient(extra), { maxItems: params.maxItems });
+  
+  logger.log(`Summarizing up to ${params.maxItems} items from webset: ${resourceId}`);
+  const items = await services.itemService.listItems(resourceId, undefined, params.maxItems);
+  const summary = await assistant.summarizeItems(items.data, params.focus);
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        websetId: resourceId,
+        itemsSummarized: items.data.length,
+        summary: summary.result,
+        model: summary.model,
+        ...(items.hasMore && {
+          note: `Summary is based on the first ${items.data.length} items of the webset`
+        })
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleSuggestEnrichments(services: any, resourceId: string | undefined, params: any, extra: any, logger: any) {
+  if (!resourceId) {
+    throw new Error("resourceId is required to suggest enrichments");
+  }
+  
+  const assistant = new SamplingAssistant(createSamplingClient(extra), { maxItems: params.maxItems });
+  
+  logger.log(`Suggesting enrichments for webset: ${resourceId}`);
+  const items = await services.itemService.listItems(resourceId, undefined, params.maxItems);
+  const proposals = await assistant.proposeEnrichments(items.data, params.count, params.focus);
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        websetId: resourceId,
+        suggestions: proposals.result,
+        model: proposals.model,
+        nextSteps: proposals.result.map(proposal =>
+          `Add "${proposal.description}": use operation "enhance_content" with resourceId "${resourceId}", enhancement.task "${proposal.description}" and outputFormat "${proposal.format}"`
+        )
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleDraftCriteria(services: any, resourceId: string | undefined, params: any, websetParams: any, extra: any, logger: any) {
+  let query = params?.query || websetParams?.searchQuery;
+  let entityType = params?.entityType || websetParams?.advanced?.focusArea;
+  
+  // Fall back to the query of an existing webset
+  if (!query && resourceId) {
+    const existing = await services.websetService.getWebset(resourceId);
+    query = existing.searches?.[0]?.query;
+    entityType = entityType || existing.searches?.[0]?.entity?.type;
+  }
+  
+  if (!query) {
+    throw new Error("assist.query, webset.searchQuery or resourceId of an existing webset is required to draft criteria");
+  }
+  
+  const assistant = new SamplingAssistant(createSamplingClient(extra));
+  
+  logger.log(`Drafting criteria for: "${query}"`);
+  const criteria = await assistant.draftCriteria(query, entityType, params.count);
+  
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        success: true,
+        query,
+        criteria: criteria.result,
+        model: criteria.model,
+        nextSteps: [
+          `Use these as webset.advanced.criteria with operation "create_webset", or as search.advanced.requirements with operation "search_webset"`
+        ]
       }, null, 2)
     }]
   };
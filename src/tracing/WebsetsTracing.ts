@@ -0,0 +1,205 @@
+/**
+ * Websets Tracing
+ *
+ * OpenTelemetry spans from tool call through service method to HTTP request,
+ * so a slow call shows whether time went to polling, rate limiter waits or
+ * API latency. Spans are no-ops unless an exporter is configured with
+ * WEBSETS_TRACING_EXPORTER.
+ */
+
+import { Attributes, Span, SpanStatusCode, context, propagation, trace } from '@opentelemetry/api';
+import { ExportResult, ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+  ReadableSpan,
+  SimpleSpanProcessor,
+  SpanExporter,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { createWriteStream } from 'fs';
+import { log } from '../utils/logger.js';
+
+/**
+ * Where finished spans are sent
+ * - otlp: an OTLP/HTTP collector, configured with the standard OTEL_EXPORTER_OTLP_* variables
+ * - console: JSON lines on stderr, which keeps stdout free for the STDIO transport
+ * - file: JSON lines appended to a file
+ */
+export type TracingExporter = 'none' | 'otlp' | 'console' | 'file';
+
+/**
+ * Tracing configuration
+ */
+export interface TracingConfig {
+  /** Where finished spans are sent */
+  exporter: TracingExporter;
+  /** File for the file exporter */
+  filePath: string;
+  /** service.name reported with every span */
+  serviceName: string;
+}
+
+/**
+ * Default tracing configuration
+ */
+const DEFAULT_TRACING_CONFIG: TracingConfig = {
+  exporter: parseExporter(process.env.WEBSETS_TRACING_EXPORTER),
+  filePath: process.env.WEBSETS_TRACING_FILE || 'websets-traces.jsonl',
+  serviceName: process.env.OTEL_SERVICE_NAME || 'exa-websets-mcp-server',
+};
+
+const TRACER_NAME = 'exa-websets-mcp-server';
+
+/**
+ * Writes finished spans as JSON lines
+ */
+export class JsonLinesSpanExporter implements SpanExporter {
+  constructor(
+    private readonly write: (line: string) => void,
+    private readonly close?: () => void
+  ) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    try {
+      for (const span of spans) {
+        this.write(JSON.stringify(toJson(span)) + '\n');
+      }
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    } catch (error) {
+      resultCallback({ code: ExportResultCode.FAILED, error: error instanceof Error ? error : new Error(String(error)) });
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    this.close?.();
+  }
+}
+
+let provider: NodeTracerProvider | undefined;
+
+/**
+ * Start exporting spans
+ * Does nothing when no exporter is configured, leaving every span a no-op.
+ * @param config Tracing configuration
+ * @param processor Span processor to use instead of the configured exporter
+ */
+export function initTracing(config: Partial<TracingConfig> = {}, processor?: SpanProcessor): void {
+  const tracingConfig = { ...DEFAULT_TRACING_CONFIG, ...config };
+  const spanProcessor = processor ?? createSpanProcessor(tracingConfig);
+  if (!spanProcessor || provider) {
+    return;
+  }
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: tracingConfig.serviceName }),
+    spanProcessors: [spanProcessor],
+  });
+  provider.register();
+  log(`Tracing enabled (${processor ? 'custom processor' : tracingConfig.exporter})`);
+}
+
+/**
+ * Flush pending spans and stop exporting
+ */
+export async function shutdownTracing(): Promise<void> {
+  if (!provider) {
+    return;
+  }
+  const current = provider;
+  provider = undefined;
+  await current.shutdown();
+  trace.disable();
+  context.disable();
+  propagation.disable();
+}
+
+/**
+ * Run a function inside a new active span
+ * The span records exceptions, is marked as an error when the function throws,
+ * and ends when the function settles.
+ * @param name Span name
+ * @param attributes Initial span attributes
+ * @param fn Function to run; receives the span to add attributes
+ */
+export function withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => Promise<T>): Promise<T> {
+  return trace.getTracer(TRACER_NAME).startActiveSpan(name, { attributes }, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      // Services throw standardized ApiError objects rather than Error instances
+      const { code, message } = (error ?? {}) as { code?: unknown; message?: unknown };
+      const description = typeof message === 'string' ? message : String(error);
+      span.recordException(error instanceof Error ? error : {
+        message: description,
+        ...(typeof code === 'string' && { code }),
+      });
+      span.setStatus({ code: SpanStatusCode.ERROR, message: description });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Wrap a tool handler so each call runs in its own span
+ * Results with isError set mark the span as an error.
+ * @param tool Tool name
+ * @param handler Tool handler
+ * @returns Handler with the same signature
+ */
+export function withToolSpan<A extends { [key: string]: any }, E, R>(
+  tool: string,
+  handler: (args: A, extra: E) => Promise<R>
+): (args: A, extra: E) => Promise<R> {
+  return (args, extra) => withSpan(`tool ${tool}`, {
+    'websets.tool': tool,
+    ...(typeof args?.operation === 'string' && { 'websets.operation': args.operation }),
+  }, async span => {
+    const result = await handler(args, extra);
+    if (result && typeof result === 'object' && 'isError' in result && result.isError) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    return result;
+  });
+}
+
+function createSpanProcessor(config: TracingConfig): SpanProcessor | undefined {
+  switch (config.exporter) {
+    case 'otlp':
+      return new BatchSpanProcessor(new OTLPTraceExporter());
+    case 'console':
+      return new SimpleSpanProcessor(new JsonLinesSpanExporter(line => process.stderr.write(line)));
+    case 'file': {
+      const stream = createWriteStream(config.filePath, { flags: 'a' });
+      stream.on('error', error => log.error(`Cannot write traces to ${config.filePath}`, error));
+      return new BatchSpanProcessor(new JsonLinesSpanExporter(line => stream.write(line), () => stream.end()));
+    }
+    default:
+      return undefined;
+  }
+}
+
+function parseExporter(value: string | undefined): TracingExporter {
+  const exporter = value?.toLowerCase();
+  return exporter === 'otlp' || exporter === 'console' || exporter === 'file' ? exporter : 'none';
+}
+
+function toJson(span: ReadableSpan): Record<string, unknown> {
+  const context = span.spanContext();
+  return {
+    name: span.name,
+    traceId: context.traceId,
+    spanId: context.spanId,
+    parentSpanId: span.parentSpanContext?.spanId,
+    startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+    durationMs: hrTimeToMilliseconds(span.duration),
+    status: span.status,
+    attributes: span.attributes,
+    events: span.events.map(event => ({ name: event.name, attributes: event.attributes })),
+  };
+}
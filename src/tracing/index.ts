@@ -0,0 +1,8 @@
+/**
+ * Tracing Exports
+ *
+ * OpenTelemetry tracing for the Websets MCP server.
+ */
+
+export { JsonLinesSpanExporter, initTracing, shutdownTracing, withSpan, withToolSpan } from './WebsetsTracing.js';
+export type { TracingConfig, TracingExporter } from './WebsetsTracing.js';
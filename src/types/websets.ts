@@ -61,9 +61,15 @@ export interface CreateWebsetRequest {
       description: string;
     }>;
   };
+  /** Imports whose entities are added to the webset as items */
+  import?: Array<{
+    source: "import";
+    id: string;
+  }>;
   enrichments?: Array<{
     description: string;
     format?: string;
+    options?: EnrichmentOption[];
   }>;
   externalId?: string;
   metadata?: Record<string, string>;
@@ -114,6 +120,8 @@ export interface CreateSearchRequest {
   entity?: SearchEntity;
   criteria?: SearchCriteria[];
   count?: number;
+  /** Whether results are added to the webset's items or replace them */
+  behavior?: "append" | "override";
   metadata?: Record<string, string>;
 }
 
@@ -125,7 +133,9 @@ export interface WebsetItem {
   id: string;
   object: "webset_item";
   websetId: string;
+  /** ID of the search that found the item, or of the import it came from */
   searchId: string;
+  source?: "search" | "import";
   url: string;
   title: string;
   content: string;
@@ -179,6 +189,111 @@ export interface CreateEnrichmentRequest {
   metadata?: Record<string, string>;
 }
 
+// ============================================================================
+// Import Types
+// ============================================================================
+
+export interface WebsetImport {
+  id: string;
+  object: "import";
+  status: "pending" | "processing" | "completed" | "failed";
+  format: "csv";
+  entity: SearchEntity;
+  title: string;
+  count: number;
+  metadata: Record<string, string>;
+  failedReason?: "invalid_format" | "invalid_file_content" | "missing_identifier";
+  failedMessage?: string;
+  failedAt?: string;
+  /** Where to PUT the file (only returned on creation) */
+  uploadUrl?: string;
+  uploadValidUntil?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateImportRequest {
+  /** Size of the file in bytes */
+  size: number;
+  /** Number of entities in the file */
+  count: number;
+  title?: string;
+  format: "csv";
+  entity: SearchEntity;
+  csv?: {
+    /** Zero-based index of the column identifying each entity */
+    identifier?: number;
+  };
+  metadata?: Record<string, string>;
+}
+
+// ============================================================================
+// Monitor Types
+// ============================================================================
+
+export interface Monitor {
+  id: string;
+  object: "monitor";
+  status: "enabled" | "disabled";
+  websetId: string;
+  cadence: MonitorCadence;
+  behavior: MonitorBehavior;
+  lastRun?: MonitorRun;
+  nextRunAt?: string;
+  metadata: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MonitorCadence {
+  /** Five-field cron expression */
+  cron: string;
+  /** IANA time zone the expression is read in (defaults to UTC) */
+  timezone?: string;
+}
+
+export interface MonitorBehavior {
+  type: "search";
+  config: {
+    query: string;
+    criteria?: Array<{ description: string }>;
+    entity?: SearchEntity;
+    count: number;
+    /** Whether each run adds to the webset's items or replaces them */
+    behavior: "append" | "override";
+  };
+}
+
+export interface MonitorRun {
+  id: string;
+  object: "monitor_run";
+  status: "created" | "running" | "completed" | "canceled" | "failed";
+  monitorId: string;
+  type: "search";
+  /** Search started by the run */
+  searchId?: string;
+  failedReason?: string;
+  completedAt?: string;
+  failedAt?: string;
+  canceledAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateMonitorRequest {
+  websetId: string;
+  cadence: MonitorCadence;
+  behavior: MonitorBehavior;
+  metadata?: Record<string, string>;
+}
+
+export interface UpdateMonitorRequest {
+  status?: Monitor["status"];
+  cadence?: MonitorCadence;
+  behavior?: MonitorBehavior;
+  metadata?: Record<string, string>;
+}
+
 // ============================================================================
 // Event Types
 // ============================================================================
@@ -201,7 +316,14 @@ export type EventType =
   | "webset.search.created"
   | "webset.search.updated"
   | "webset.search.canceled"
-  | "webset.search.completed";
+  | "webset.search.completed"
+  | "import.created"
+  | "import.completed"
+  | "monitor.created"
+  | "monitor.updated"
+  | "monitor.deleted"
+  | "monitor.run.created"
+  | "monitor.run.completed";
 
 // ============================================================================
 // Webhook Types
@@ -271,6 +393,8 @@ export interface HttpClientOptions {
   headers?: Record<string, string>;
   retries?: number;
   retryDelay?: number;
+  /** Idempotency key for mutating requests (generated when omitted) */
+  idempotencyKey?: string;
 }
 
 export interface RequestOptions extends HttpClientOptions {
@@ -294,6 +418,23 @@ export interface RateLimitState {
   lastRefill: number;
 }
 
+/** Read requests and write requests are limited separately */
+export type RateLimitBucket = 'read' | 'write';
+
+/**
+ * Rate limit information from API response headers
+ */
+export interface RateLimitHeaders {
+  /** Requests allowed per window (X-RateLimit-Limit) */
+  limit?: number;
+  /** Requests left in the current window (X-RateLimit-Remaining) */
+  remaining?: number;
+  /** Milliseconds until the window resets (X-RateLimit-Reset) */
+  resetMs?: number;
+  /** Milliseconds the server asked us to wait (Retry-After) */
+  retryAfterMs?: number;
+}
+
 // ============================================================================
 // Circuit Breaker Types
 // ============================================================================
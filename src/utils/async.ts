@@ -134,15 +134,19 @@ export async function withConcurrency<T>(
   const executing: Promise<void>[] = [];
 
   for (const [index, task] of tasks.entries()) {
-    const promise = task().then(result => {
-      results[index] = result;
-    });
+    const promise: Promise<void> = task()
+      .then(result => {
+        results[index] = result;
+      })
+      .finally(() => {
+        // Stop tracking the task that settled, not the one just started
+        executing.splice(executing.indexOf(promise), 1);
+      });
 
     executing.push(promise);
 
     if (executing.length >= concurrency) {
       await Promise.race(executing);
-      executing.splice(executing.findIndex(p => p === promise), 1);
     }
   }
 
@@ -0,0 +1,229 @@
+/**
+ * Cron schedule utilities
+ *
+ * Parses five-field cron expressions (minute, hour, day of month, month,
+ * day of week) and finds the next time they match, in any IANA time zone.
+ */
+
+/**
+ * A parsed cron expression
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 is Sunday */
+  daysOfWeek: Set<number>;
+  /** Whether the day of month field was restricted */
+  daysOfMonthRestricted: boolean;
+  /** Whether the day of week field was restricted */
+  daysOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+/**
+ * Longest search for a matching minute: five years, stepping at most an hour at a time
+ */
+const MAX_STEPS = 5 * 366 * 24 + 60;
+
+/**
+ * Parse a five-field cron expression
+ * Fields accept `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/15`, `0-30/10`); months and days of week also accept three-letter
+ * names. The macros `@hourly`, `@daily`, `@weekly`, `@monthly` and `@yearly`
+ * are supported.
+ * @throws Error describing the first invalid field
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim().toLowerCase();
+  const fields = (MACROS[trimmed] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`"${expression}" is not a cron expression; expected five fields (minute hour day-of-month month day-of-week)`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index], expression));
+
+  // 7 is another way of writing Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: !fields[2].startsWith('*'),
+    daysOfWeekRestricted: !fields[4].startsWith('*'),
+  };
+}
+
+/**
+ * Find the first time after a given time that a cron expression matches
+ * Like cron, when both day of month and day of week are restricted a day
+ * matching either one is enough.
+ * @param timezone IANA time zone the expression is read in
+ * @throws Error when the expression or time zone is invalid, or nothing matches within five years
+ */
+export function nextCronTime(expression: string | CronSchedule, after: Date, timezone: string = 'UTC'): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const formatter = getFormatter(timezone);
+
+  // Cron fires on whole minutes, strictly after the given time
+  let time = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const local = getLocalTime(formatter, time);
+
+    if (!schedule.months.has(local.month) || !matchesDay(schedule, local)) {
+      // Step to the next local hour rather than the next day, so days that are
+      // shortened or lengthened by daylight saving are not skipped
+      time += (60 - local.minute) * 60000;
+    } else if (!schedule.hours.has(local.hour)) {
+      time += (60 - local.minute) * 60000;
+    } else if (!schedule.minutes.has(local.minute)) {
+      time += 60000;
+    } else {
+      return new Date(time);
+    }
+  }
+
+  throw new Error(`Cron expression ${typeof expression === 'string' ? `"${expression}" ` : ''}never matches`);
+}
+
+/**
+ * Check whether a time zone name is known
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface LocalTime {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+function parseField(field: string, spec: typeof FIELDS[number], expression: string): Set<number> {
+  const values = new Set<number>();
+  const invalid = () => new Error(`Invalid ${spec.name} "${field}" in cron expression "${expression}"`);
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined) {
+      throw invalid();
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw invalid();
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.name === 'day of week' ? 6 : spec.max;
+    } else {
+      const [from, to, rest] = range.split('-');
+      if (rest !== undefined) {
+        throw invalid();
+      }
+      start = parseValue(from, spec);
+      // A single value with a step runs to the end of the field, as in `5/15`
+      end = to !== undefined ? parseValue(to, spec) : stepText !== undefined ? spec.max : start;
+    }
+
+    if (Number.isNaN(start) || Number.isNaN(end) || start < spec.min || end > spec.max || start > end) {
+      throw invalid();
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, spec: typeof FIELDS[number]): number {
+  const named = spec.names?.indexOf(text) ?? -1;
+  if (named !== -1) {
+    // Months are numbered from 1, days of week from 0
+    return spec.min + named;
+  }
+  return /^\d+$/.test(text) ? Number(text) : NaN;
+}
+
+function matchesDay(schedule: CronSchedule, local: LocalTime): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(local.day);
+  const dayOfWeek = schedule.daysOfWeek.has(local.weekday);
+
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        month: 'numeric',
+        day: 'numeric',
+        weekday: 'short',
+        hour: 'numeric',
+        minute: 'numeric',
+      });
+    } catch {
+      throw new Error(`Unknown time zone "${timezone}"`);
+    }
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+function getLocalTime(formatter: Intl.DateTimeFormat, time: number): LocalTime {
+  const parts = Object.fromEntries(formatter.formatToParts(time).map(part => [part.type, part.value]));
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * CSV parsing utilities
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ * Handles quoted fields with commas, escaped quotes ("") and line breaks,
+ * and both \n and \r\n line endings. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('CSV ends inside a quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parse CSV text with a header row into records keyed by column name
+ * Header names are trimmed; missing trailing fields become empty strings.
+ */
+export function parseCsvRecords(text: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(column => column.trim());
+  return rows.map(row => Object.fromEntries(columns.map((column, index) => [column, (row[index] ?? '').trim()])));
+}
+
+/**
+ * Format rows of fields as CSV text
+ * Fields with commas, quotes or line breaks are quoted, so parseCsv reads
+ * the same rows back.
+ */
+export function formatCsv(rows: string[][]): string {
+  return rows
+    .map(row => row.map(field => (/[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field)).join(','))
+    .join('\n');
+}
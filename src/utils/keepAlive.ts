@@ -6,6 +6,7 @@
  */
 
 import { log } from './logger.js';
+import { ProgressNotifier } from './progress.js';
 
 export interface KeepAliveOptions {
   /** Interval in milliseconds between heartbeats */
@@ -14,11 +15,14 @@ export interface KeepAliveOptions {
   onHeartbeat?: (message: string) => void;
   /** Whether to log heartbeats */
   enableLogging?: boolean;
+  /** Notifier for MCP progress notifications (sent for progress updates, not heartbeats) */
+  onProgress?: ProgressNotifier;
 }
 
 export class KeepAliveManager {
   private intervalId?: NodeJS.Timeout;
-  private options: Required<KeepAliveOptions>;
+  private options: Required<Omit<KeepAliveOptions, 'onProgress'>>;
+  private onProgress?: ProgressNotifier;
   private startTime: number;
   private operationName: string;
 
@@ -29,6 +33,7 @@ export class KeepAliveManager {
       onHeartbeat: options.onHeartbeat || (() => {}),
       enableLogging: options.enableLogging ?? false
     };
+    this.onProgress = options.onProgress;
     this.startTime = Date.now();
   }
 
@@ -78,6 +83,10 @@ export class KeepAliveManager {
     
     this.options.onHeartbeat(fullMessage);
     
+    if (progress !== undefined && this.onProgress) {
+      this.onProgress(progress, 100, `${this.operationName}: ${message}`);
+    }
+    
     if (this.options.enableLogging) {
       log(fullMessage);
     }
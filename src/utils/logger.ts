@@ -1,6 +1,9 @@
 /**
  * Simple logging utility for MCP server
  */
+
+import { trace } from '@opentelemetry/api';
+
 export const log = (message: string): void => {
   console.error(`[EXA-MCP-DEBUG] ${message}`);
 };
@@ -10,6 +13,9 @@ log.error = (message: string, error?: unknown): void => {
 };
 
 export const createRequestLogger = (requestId: string, toolName: string) => {
+  // Tie the tool call's span to the request ID that appears in the logs
+  trace.getActiveSpan()?.setAttribute('websets.request_id', requestId);
+
   return {
     log: (message: string): void => {
       log(`[${requestId}] [${toolName}] ${message}`);
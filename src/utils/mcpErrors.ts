@@ -92,11 +92,27 @@ export function createAPIKeyError(): MCPError {
  */
 export function createRateLimitError(retryAfter?: number): MCPError {
   return new MCPError(
-    "Rate limit exceeded",
+    retryAfter !== undefined ? `Rate limit exceeded, retry in ${retryAfter}s` : "Rate limit exceeded",
     MCPErrorCode.RATE_LIMITED,
     {
       retryAfter,
-      help: "Please wait before making additional requests"
+      help: retryAfter !== undefined
+        ? `Please wait ${retryAfter} seconds before making additional requests`
+        : "Please wait before making additional requests"
+    }
+  );
+}
+
+/**
+ * Helper to handle endpoints that are temporarily unavailable
+ */
+export function createServiceUnavailableError(retryAfter?: number): MCPError {
+  return new MCPError(
+    retryAfter !== undefined ? `Service temporarily unavailable, retry in ${retryAfter}s` : "Service temporarily unavailable",
+    MCPErrorCode.RESOURCE_UNAVAILABLE,
+    {
+      retryAfter,
+      help: "Requests to this part of the API are paused after repeated failures"
     }
   );
 }
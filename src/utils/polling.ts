@@ -2,6 +2,10 @@
  * Polling utilities for handling asynchronous operations
  */
 
+import { log } from './logger.js';
+import { ProgressNotifier } from './progress.js';
+import { withSpan } from '../tracing/WebsetsTracing.js';
+
 export interface PollingOptions {
   maxAttempts?: number;
   intervalMs?: number;
@@ -41,6 +45,11 @@ export const POLLING_DEFAULTS = {
     maxAttempts: 40,       // Max 2 minutes total
     maxWaitMs: 120000,     // 2 minute timeout
   },
+  IMPORT: {
+    intervalMs: 2000,      // Check every 2 seconds
+    maxAttempts: 60,       // Max 2 minutes total
+    maxWaitMs: 120000,     // 2 minute timeout
+  },
   DEFAULT: {
     intervalMs: 2000,      // Check every 2 seconds
     maxAttempts: 25,       // Max 50 seconds total
@@ -52,9 +61,21 @@ export const POLLING_DEFAULTS = {
  * Poll an asynchronous operation until it completes
  * Uses fixed intervals instead of exponential backoff for predictability
  */
-export async function pollOperation<T>(
+export function pollOperation<T>(
   checkFn: () => Promise<{ status: string; data?: T }>,
   options: PollingOptions = {}
+): Promise<PollingResult<T>> {
+  // Checks are child spans, so the gaps between them show time spent waiting
+  return withSpan('poll operation', {}, async span => {
+    const result = await pollUntilComplete(checkFn, options);
+    span.setAttributes({ 'websets.poll.attempts': result.attempts, 'websets.poll.success': result.success });
+    return result;
+  });
+}
+
+async function pollUntilComplete<T>(
+  checkFn: () => Promise<{ status: string; data?: T }>,
+  options: PollingOptions
 ): Promise<PollingResult<T>> {
   const {
     maxAttempts = POLLING_DEFAULTS.DEFAULT.maxAttempts,
@@ -70,7 +91,11 @@ export async function pollOperation<T>(
     attempts++;
     
     try {
-      const result = await checkFn();
+      const result = await withSpan('poll check', { 'websets.poll.attempt': attempts }, async span => {
+        const checked = await checkFn();
+        span.setAttribute('websets.poll.status', checked.status);
+        return checked;
+      });
       
       // Notify progress if callback provided
       if (onProgress) {
@@ -164,13 +189,28 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Create a progress callback that logs status updates
+ * Create a progress callback that logs status updates and, when a notifier is
+ * given, reports them as MCP progress notifications.
+ * Percent-complete is taken from progress.completion (as on searches) when present;
+ * otherwise the poll attempt number is reported.
  */
-export function createProgressLogger(operationType: string) {
-  return (attempt: number, status: { status: string; progress?: any }) => {
-    const progress = status.progress 
-      ? ` (${JSON.stringify(status.progress)})`
+export function createProgressLogger(operationType: string, notify?: ProgressNotifier) {
+  return (attempt: number, status: { status: string; progress?: any; data?: any }) => {
+    const progressData = status.progress ?? status.data?.progress;
+    const progress = progressData
+      ? ` (${JSON.stringify(progressData)})`
       : '';
-    console.log(`[${operationType}] Attempt ${attempt}: ${status.status}${progress}`);
+    log(`[${operationType}] Attempt ${attempt}: ${status.status}${progress}`);
+    
+    if (!notify) {
+      return;
+    }
+    
+    if (typeof progressData?.completion === 'number') {
+      const found = typeof progressData.found === 'number' ? `, ${progressData.found} found` : '';
+      notify(progressData.completion, 100, `${operationType} ${status.status}: ${progressData.completion}% complete${found}`);
+    } else {
+      notify(attempt, undefined, `${operationType} ${status.status} (check ${attempt})`);
+    }
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,67 @@
+/**
+ * Progress Notification Utilities
+ *
+ * Sends MCP notifications/progress for long-running tool calls when the
+ * caller supplied a progressToken and progress notifications are enabled.
+ */
+
+import { featureFlags } from '../config/features.js';
+import { log } from './logger.js';
+
+/**
+ * Report progress for the current tool call
+ * @param progress Progress so far; must increase between notifications
+ * @param total Total progress expected, if known
+ * @param message Human-readable description of the current step
+ */
+export type ProgressNotifier = (progress: number, total?: number, message?: string) => void;
+
+/**
+ * Minimal shape of the tool handler context needed to send notifications
+ */
+interface ProgressContext {
+  _meta?: { progressToken?: string | number };
+  sendNotification?: (notification: {
+    method: 'notifications/progress';
+    params: { progressToken: string | number; progress: number; total?: number; message?: string };
+  }) => Promise<void>;
+}
+
+/**
+ * Create a progress notifier for a tool call
+ * @param extra The tool handler context
+ * @returns A notifier, or undefined when progress cannot or should not be reported
+ */
+export function createProgressNotifier(extra: unknown): ProgressNotifier | undefined {
+  if (!featureFlags.isEnabled('progressNotifications')) {
+    return undefined;
+  }
+
+  const context = extra as ProgressContext | undefined;
+  const progressToken = context?._meta?.progressToken;
+  if (progressToken === undefined || !context?.sendNotification) {
+    return undefined;
+  }
+
+  let lastProgress = -Infinity;
+
+  return (progress, total, message) => {
+    // The protocol requires progress to increase with every notification
+    if (progress <= lastProgress) {
+      return;
+    }
+    lastProgress = progress;
+
+    context.sendNotification!({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress,
+        ...(total !== undefined && { total }),
+        ...(message && { message })
+      }
+    }).catch(error => {
+      log(`Failed to send progress notification: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  };
+}
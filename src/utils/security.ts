@@ -119,4 +119,23 @@ export function maskSensitiveData(data: unknown): unknown {
   }
   
   return data;
-}
\ No newline at end of file
+}
+
+// JSON with object keys sorted, so equal objects always serialize the same way
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_, entry) =>
+    entry && typeof entry === 'object' && !Array.isArray(entry)
+      ? Object.fromEntries(Object.entries(entry).sort(([a], [b]) => a.localeCompare(b)))
+      : entry
+  );
+}
+
+// Identify an API key without keeping it, to keep state shared between clients apart per key
+export function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+// Fingerprint a request so repeats of it are recognized, including after a restart
+export function createRequestFingerprint(...parts: unknown[]): string {
+  return crypto.createHash('sha256').update(stableStringify(parts)).digest('hex');
+}
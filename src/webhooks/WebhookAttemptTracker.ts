@@ -8,6 +8,7 @@
 import { EventEmitter } from 'events';
 import { WebhookDeliveryAttempt, WebhookDeliveryResult } from './WebhookSender.js';
 import { WebsetEvent } from '../types/websets.js';
+import { getMetrics } from '../metrics/WebsetsMetrics.js';
 
 /**
  * Webhook attempt tracking configuration
@@ -114,6 +115,7 @@ export class WebhookAttemptTracker extends EventEmitter {
     super();
     this.config = { ...DEFAULT_WEBHOOK_ATTEMPT_TRACKER_CONFIG, ...config };
     this.startCleanup();
+    getMetrics().registerWebhookAttemptTracker(this);
   }
 
   /**
@@ -538,6 +540,7 @@ export class WebhookAttemptTracker extends EventEmitter {
       this.cleanupInterval = undefined;
     }
     
+    getMetrics().unregister(this);
     this.emit('shutdown');
   }
 }
\ No newline at end of file
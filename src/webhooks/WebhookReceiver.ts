@@ -0,0 +1,255 @@
+/**
+ * Webhook Receiver Implementation
+ *
+ * Verifies inbound Exa webhook deliveries and hands the contained events
+ * to the local event queue for processing.
+ */
+
+import type { IncomingHttpHeaders } from 'http';
+import { WebsetEvent } from '../types/websets.js';
+import { EventQueue } from '../events/EventQueue.js';
+import { isValidEventType } from '../events/EventTypes.js';
+import { verifyWebhookRequest } from '../utils/security.js';
+import { WebhookValidator } from './WebhookValidator.js';
+
+/**
+ * Webhook receiver configuration
+ */
+export interface WebhookReceiverConfig {
+  /** Webhook secret returned by Exa when the webhook was created */
+  secret?: string;
+  /** Whether to reject deliveries without a valid signature */
+  validateSignatures: boolean;
+  /** Maximum timestamp tolerance in seconds */
+  timestampTolerance: number;
+  /** Number of recent event IDs remembered for duplicate detection */
+  dedupeWindow: number;
+}
+
+/**
+ * Result of receiving a webhook delivery
+ */
+export interface WebhookReceiveResult {
+  /** HTTP status code to respond with */
+  status: number;
+  /** Whether the event was queued for processing */
+  accepted: boolean;
+  /** Event ID from the payload, if it could be parsed */
+  eventId?: string;
+  /** Event type from the payload, if it could be parsed */
+  eventType?: string;
+  /** Reason the delivery was rejected or ignored */
+  error?: string;
+}
+
+/**
+ * Webhook receiver statistics
+ */
+export interface WebhookReceiverStats {
+  received: number;
+  accepted: number;
+  rejected: number;
+  duplicates: number;
+  ignored: number;
+  lastReceivedAt?: Date;
+}
+
+/**
+ * Default webhook receiver configuration
+ */
+const DEFAULT_WEBHOOK_RECEIVER_CONFIG: WebhookReceiverConfig = {
+  validateSignatures: true,
+  timestampTolerance: 300, // 5 minutes
+  dedupeWindow: 1000,
+};
+
+/**
+ * Receiver for Exa webhook deliveries
+ */
+export class WebhookReceiver {
+  private readonly config: WebhookReceiverConfig;
+  private readonly validator: WebhookValidator;
+  private readonly recentEventIds: string[] = [];
+  private readonly stats: WebhookReceiverStats = {
+    received: 0,
+    accepted: 0,
+    rejected: 0,
+    duplicates: 0,
+    ignored: 0,
+  };
+
+  constructor(
+    private readonly queue: EventQueue,
+    config: Partial<WebhookReceiverConfig> = {},
+    validator?: WebhookValidator
+  ) {
+    this.config = { ...DEFAULT_WEBHOOK_RECEIVER_CONFIG, ...config };
+    this.validator = validator || new WebhookValidator({
+      timestampTolerance: this.config.timestampTolerance,
+    });
+  }
+
+  /**
+   * Receive a webhook delivery
+   * @param rawBody The raw request body, exactly as it was signed
+   * @param headers The request headers
+   * @returns Result describing how to respond to the sender
+   */
+  async receive(rawBody: Buffer | string, headers: IncomingHttpHeaders): Promise<WebhookReceiveResult> {
+    this.stats.received++;
+    this.stats.lastReceivedAt = new Date();
+
+    const payload = typeof rawBody === 'string' ? rawBody : rawBody.toString('utf8');
+
+    if (this.config.validateSignatures) {
+      const verification = this.verify(payload, headers);
+      if (verification) {
+        this.stats.rejected++;
+        return verification;
+      }
+    }
+
+    let event: WebsetEvent;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      this.stats.rejected++;
+      return { status: 400, accepted: false, error: 'Invalid JSON payload' };
+    }
+
+    if (!event || typeof event.id !== 'string' || typeof event.type !== 'string') {
+      this.stats.rejected++;
+      return { status: 400, accepted: false, error: 'Payload is not a webset event' };
+    }
+
+    // Acknowledge event types we do not handle so the sender stops retrying them
+    if (!isValidEventType(event.type)) {
+      this.stats.ignored++;
+      return {
+        status: 200,
+        accepted: false,
+        eventId: event.id,
+        eventType: event.type,
+        error: `Unsupported event type: ${event.type}`,
+      };
+    }
+
+    // Exa may redeliver an event after a timeout, so only queue it once
+    if (this.recentEventIds.includes(event.id)) {
+      this.stats.duplicates++;
+      return { status: 200, accepted: false, eventId: event.id, eventType: event.type, error: 'Duplicate event' };
+    }
+
+    try {
+      await this.queue.enqueue({
+        ...event,
+        createdAt: event.createdAt || new Date().toISOString(),
+      });
+    } catch (error) {
+      this.stats.rejected++;
+      return {
+        status: 503,
+        accepted: false,
+        eventId: event.id,
+        eventType: event.type,
+        error: error instanceof Error ? error.message : 'Failed to queue event',
+      };
+    }
+
+    this.rememberEventId(event.id);
+    this.stats.accepted++;
+
+    return { status: 202, accepted: true, eventId: event.id, eventType: event.type };
+  }
+
+  /**
+   * Verify the delivery signature
+   * @param payload The raw payload
+   * @param headers The request headers
+   * @returns A rejection result, or undefined when the signature is valid
+   */
+  private verify(payload: string, headers: IncomingHttpHeaders): WebhookReceiveResult | undefined {
+    if (!this.config.secret) {
+      return { status: 503, accepted: false, error: 'Webhook secret is not configured' };
+    }
+
+    // Exa signs deliveries with "Exa-Signature: t=<timestamp>,v1=<signature>"
+    const exaSignature = this.getHeader(headers, 'exa-signature');
+    if (exaSignature) {
+      const timestamp = this.validator.extractTimestamp(exaSignature);
+      if (timestamp === null) {
+        return { status: 401, accepted: false, error: 'Signature is missing a timestamp' };
+      }
+
+      const result = this.validator.validateWebhook(payload, exaSignature, this.config.secret, timestamp);
+      return result.valid
+        ? undefined
+        : { status: 401, accepted: false, error: result.error || 'Invalid signature' };
+    }
+
+    // Fall back to the generic signature headers used by our own senders
+    const signature = this.getHeader(headers, 'x-webhook-signature');
+    const timestamp = this.getHeader(headers, 'x-webhook-timestamp');
+    if (signature && timestamp) {
+      const valid = verifyWebhookRequest(
+        payload,
+        { 'X-Webhook-Signature': signature, 'X-Webhook-Timestamp': timestamp },
+        this.config.secret,
+        this.config.timestampTolerance * 1000
+      );
+      return valid ? undefined : { status: 401, accepted: false, error: 'Invalid signature' };
+    }
+
+    return { status: 401, accepted: false, error: 'Missing webhook signature' };
+  }
+
+  /**
+   * Read a single header value
+   * @param headers The request headers
+   * @param name Lower-case header name
+   * @returns The header value, if present
+   */
+  private getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  /**
+   * Remember an event ID for duplicate detection
+   * @param eventId The event ID
+   */
+  private rememberEventId(eventId: string): void {
+    this.recentEventIds.push(eventId);
+    if (this.recentEventIds.length > this.config.dedupeWindow) {
+      this.recentEventIds.shift();
+    }
+  }
+
+  /**
+   * Get receiver statistics
+   * @returns Current statistics
+   */
+  getStats(): WebhookReceiverStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Health check for the receiver
+   * @returns Health status information
+   */
+  healthCheck(): {
+    healthy: boolean;
+    secretConfigured: boolean;
+    validateSignatures: boolean;
+    received: number;
+    rejected: number;
+  } {
+    return {
+      healthy: !this.config.validateSignatures || !!this.config.secret,
+      secretConfigured: !!this.config.secret,
+      validateSignatures: this.config.validateSignatures,
+      received: this.stats.received,
+      rejected: this.stats.rejected,
+    };
+  }
+}
@@ -9,6 +9,7 @@ import { EventEmitter } from 'events';
 import { WebsetEvent, Webhook } from '../types/websets.js';
 import { WebhookSubscription } from './WebhookRegistry.js';
 import { createWebhookHeaders, generateWebhookSecret } from '../utils/security.js';
+import { getMetrics } from '../metrics/WebsetsMetrics.js';
 
 /**
  * Webhook delivery configuration
@@ -132,6 +133,7 @@ export class WebhookSender extends EventEmitter {
     super();
     this.config = { ...DEFAULT_WEBHOOK_SENDER_CONFIG, ...config };
     this.signingSecret = this.config.signingSecret || generateWebhookSecret();
+    getMetrics().registerWebhookSender(this);
   }
 
   /**
@@ -514,6 +516,7 @@ export class WebhookSender extends EventEmitter {
       console.warn(`Webhook sender shutdown with ${this.activeDeliveries.size} deliveries still active`);
     }
 
+    getMetrics().unregister(this);
     this.emit('shutdown');
   }
 
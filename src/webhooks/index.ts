@@ -9,6 +9,7 @@ export { WebhookRegistry } from './WebhookRegistry.js';
 export { WebhookSender } from './WebhookSender.js';
 export { WebhookValidator } from './WebhookValidator.js';
 export { WebhookAttemptTracker } from './WebhookAttemptTracker.js';
+export { WebhookReceiver } from './WebhookReceiver.js';
 
 // Re-export commonly used types for convenience
 export type {
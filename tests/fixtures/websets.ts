@@ -4,6 +4,8 @@
  * Common test data and mock objects for webset-related tests.
  */
 
+/// <reference path="../setup.ts" />
+
 import { 
   Webset, 
   CreateWebsetRequest, 
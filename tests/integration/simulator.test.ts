@@ -0,0 +1,208 @@
+/**
+ * Websets API Simulator Integration Tests
+ *
+ * Drives the real services over HTTP against the local simulator, moving its
+ * clock to watch searches progress, items appear and events accumulate.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createServices, getServiceResponseCache, ServiceContainer } from '../../src/services/index.js';
+import { SimulatorServer, startSimulatorServer } from '../../src/simulator/index.js';
+import { shutdownIdempotencyLedger } from '../../src/state/index.js';
+
+describe('Websets API simulator', () => {
+  let server: SimulatorServer;
+  let services: ServiceContainer;
+
+  beforeEach(async () => {
+    // Sockets and the API client's rate limiter need real timers
+    jest.useRealTimers();
+    server = await startSimulatorServer();
+    services = createServices('test-api-key', server.baseUrl);
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await shutdownIdempotencyLedger();
+    jest.useFakeTimers();
+  });
+
+  const createWebset = () => services.websetService.createWebset({
+    search: { query: 'AI startups in Berlin', count: 4, criteria: [{ description: 'Founded after 2020' }] },
+    enrichments: [{ description: 'Employee count', format: 'number' }],
+  });
+
+  it('should progress searches and add items as the clock advances', async () => {
+    const webset = await createWebset();
+    const searchId = webset.searches[0].id;
+
+    expect(webset.status).toBe('running');
+    expect(webset.searches[0].status).toBe('created');
+
+    server.simulator.advance(30000);
+
+    const halfway = await services.searchService.getSearch(webset.id, searchId);
+    expect(halfway.status).toBe('running');
+    expect(halfway.progress).toEqual({ found: 2, completion: 50 });
+    expect((await services.itemService.listItems(webset.id)).data).toHaveLength(2);
+
+    server.simulator.advance(40000);
+
+    const finished = await services.websetService.getWebset(webset.id);
+    expect(finished.status).toBe('idle');
+    expect(finished.searches[0].status).toBe('completed');
+    expect(finished.enrichments[0].status).toBe('completed');
+
+    const items = await services.itemService.getAllItems(webset.id, 3);
+    expect(items).toHaveLength(4);
+    expect(items[0].verification.status).toBe('verified');
+    expect(items[0].enrichments[finished.enrichments[0].id].result).toEqual(['10']);
+  });
+
+  it('should record events that can be paged with a cursor', async () => {
+    const webset = await createWebset();
+    server.simulator.advance(70000);
+
+    const created = await services.eventService.listEvents({ types: ['webset.item.created'], limit: 3 });
+    expect(created.data).toHaveLength(3);
+    expect(created.hasMore).toBe(true);
+    expect(created.data.every(event => event.data.websetId === webset.id)).toBe(true);
+
+    const rest = await services.eventService.listEvents({ types: ['webset.item.created'], cursor: created.nextCursor });
+    expect(rest.data).toHaveLength(1);
+    expect(rest.hasMore).toBe(false);
+
+    const types = (await services.eventService.listEvents({ limit: 100 })).data.map(event => event.type);
+    expect(types[0]).toBe('webset.created');
+    expect(types).toContain('webset.search.completed');
+    expect(types).toContain('webset.item.enriched');
+    expect(types[types.length - 1]).toBe('webset.idle');
+  });
+
+  it('should cancel running searches', async () => {
+    const webset = await createWebset();
+    server.simulator.advance(15000);
+
+    const canceled = await services.websetService.cancelWebset(webset.id);
+    server.simulator.advance(60000);
+
+    expect(canceled.status).toBe('idle');
+    expect(canceled.searches[0]).toMatchObject({ status: 'canceled', canceledReason: 'webset_canceled' });
+    expect(await services.itemService.getAllItems(webset.id)).toHaveLength(1);
+  });
+
+  it('should seed a webset with an uploaded import and enrich the imported items', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'websets-import-'));
+    const filePath = path.join(directory, 'accounts.json');
+    await fs.writeFile(filePath, JSON.stringify([
+      { company: 'Acme', website: 'https://acme.com' },
+      { company: 'Globex', website: 'https://globex.com' },
+    ]));
+
+    try {
+      const { import: created, list } = await services.importService.importFile(filePath, { entityType: 'company' });
+
+      expect(list.columns[list.identifierIndex]).toBe('website');
+      expect(created.uploadUrl).toContain(`/_simulator/uploads/${created.id}`);
+      await expect(services.websetService.createWebset({ import: [{ source: 'import', id: created.id }] })).rejects.toMatchObject({
+        message: expect.stringContaining('only completed imports'),
+      });
+
+      server.simulator.advance(5000);
+
+      const websetImport = await services.importService.getImport(created.id);
+      expect(websetImport).toMatchObject({ status: 'completed', count: 2, title: 'accounts.json' });
+      expect(websetImport.uploadUrl).toBeUndefined();
+
+      const webset = await services.websetService.createWebset({
+        import: [{ source: 'import', id: created.id }],
+        enrichments: [{ description: 'Employee count', format: 'number' }],
+      });
+      server.simulator.advance(10000);
+
+      const items = await services.itemService.getAllItems(webset.id);
+      expect(items.map(item => [item.source, item.searchId, item.url, item.title])).toEqual([
+        ['import', created.id, 'https://acme.com', 'Acme'],
+        ['import', created.id, 'https://globex.com', 'Globex'],
+      ]);
+      expect(items[0].entity.properties.company).toBe('Acme');
+      expect(items[1].enrichments[webset.enrichments[0].id].result).toEqual(['20']);
+
+      const types = (await services.eventService.listEvents({ types: ['import.created', 'import.completed'] })).data.map(event => event.type);
+      expect(types).toEqual(['import.created', 'import.completed']);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should fail imports whose file does not match what was declared', async () => {
+    const created = await services.importService.createImport({ size: 20, count: 3, format: 'csv', entity: { type: 'person' } });
+    await services.importService.uploadImportFile(created, 'name\nAda Lovelace');
+    server.simulator.advance(5000);
+
+    expect(await services.importService.getImport(created.id)).toMatchObject({
+      status: 'failed',
+      failedReason: 'invalid_file_content',
+    });
+    await expect(services.importService.uploadImportFile(created, 'name\nAda Lovelace')).rejects.toBeDefined();
+  });
+
+  it('should re-run monitored searches as the clock passes their schedule', async () => {
+    const webset = await createWebset();
+    server.simulator.advance(70000);
+
+    const monitor = await services.monitorService.createMonitor({
+      websetId: webset.id,
+      cadence: { cron: '0 * * * *' },
+      behavior: { type: 'search', config: { query: 'AI startups in Berlin', count: 2, behavior: 'append' } },
+    });
+    expect(await services.monitorService.getBackend()).toBe('api');
+    expect(monitor.nextRunAt).toBe('2025-01-01T01:00:00.000Z');
+
+    server.simulator.advance(60 * 60 * 1000);
+
+    // Results already in the webset are skipped
+    const appended = await services.itemService.getAllItems(webset.id);
+    expect(appended.map(item => item.url).slice(-2)).toEqual(['https://ai-startups-in-berlin-5.example.com', 'https://ai-startups-in-berlin-6.example.com']);
+    const [appendRun] = (await services.monitorService.listMonitorRuns(monitor.id)).data;
+    expect(appendRun).toMatchObject({ status: 'completed', createdAt: '2025-01-01T01:00:00.000Z' });
+
+    await services.monitorService.updateMonitor(monitor.id, {
+      behavior: { type: 'search', config: { query: 'AI startups in Munich', count: 2, behavior: 'override' } },
+    });
+    server.simulator.advance(60 * 60 * 1000);
+    // As the webset events of the run would
+    getServiceResponseCache('test-api-key', server.baseUrl).invalidateWebset(webset.id);
+
+    const overridden = await services.itemService.getAllItems(webset.id);
+    expect(overridden.map(item => item.title)).toEqual(['AI startups in Munich (company 1)', 'AI startups in Munich (company 2)']);
+    expect((await services.monitorService.listMonitorRuns(monitor.id)).data.map(run => run.status)).toEqual(['completed', 'completed']);
+
+    const types = (await services.eventService.listEvents({ types: ['monitor.run.created', 'monitor.run.completed'] })).data.map(event => event.type);
+    expect(types).toEqual(['monitor.run.created', 'monitor.run.completed', 'monitor.run.created', 'monitor.run.completed']);
+
+    await services.monitorService.updateMonitor(monitor.id, { status: 'disabled' });
+    server.simulator.advance(60 * 60 * 1000);
+    expect((await services.monitorService.listMonitorRuns(monitor.id)).data).toHaveLength(2);
+  });
+
+  it('should return API errors for unknown resources', async () => {
+    await expect(services.websetService.getWebset('webset_missing')).rejects.toMatchObject({
+      code: 'not_found',
+      message: 'Webset webset_missing not found',
+    });
+  });
+
+  it('should only return webhook secrets on creation', async () => {
+    const webhook = await services.webhookService.createWebhook({
+      url: 'https://example.com/webhooks/exa',
+      events: ['webset.idle'],
+    });
+
+    expect(webhook.secret).toMatch(/^whsec_/);
+    expect((await services.webhookService.getWebhook(webhook.id)).secret).toBeUndefined();
+  });
+});
@@ -73,6 +73,9 @@ declare global {
 process.env.NODE_ENV = 'test';
 process.env.EXA_API_KEY = 'test-api-key';
 process.env.WEBSETS_API_URL = 'https://api.test.exa.ai';
+process.env.WEBSETS_PERSIST_IDEMPOTENCY_LEDGER = 'false';
+process.env.WEBSETS_PERSIST_BATCHES = 'false';
+process.env.WEBSETS_PERSIST_MAPPINGS = 'false';
 
 // Global test cleanup
 afterEach(() => {
@@ -0,0 +1,185 @@
+/**
+ * Unit Tests for Cassette
+ *
+ * Tests recording with masked secrets, deterministic replay and loud failures
+ * for unmatched requests.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Cassette, CassetteFile, CassetteMismatchError } from '../../../src/api/Cassette.js';
+import { createServices } from '../../../src/services/index.js';
+import { startSimulatorServer } from '../../../src/simulator/index.js';
+
+describe('Cassette', () => {
+  let directory: string;
+  let cassettePath: string;
+  let next: jest.Mock<AxiosAdapter>;
+
+  const request = (overrides: Partial<InternalAxiosRequestConfig> = {}): InternalAxiosRequestConfig => ({
+    method: 'get',
+    url: '/websets',
+    headers: new AxiosHeaders({ 'x-api-key': 'live-key' }),
+    validateStatus: status => status >= 200 && status < 300,
+    ...overrides,
+  });
+
+  const respond = (config: InternalAxiosRequestConfig, data: unknown, status = 200): AxiosResponse => ({
+    data: JSON.stringify(data),
+    status,
+    statusText: status === 200 ? 'OK' : 'Not Found',
+    headers: new AxiosHeaders({ 'content-type': 'application/json' }),
+    config,
+    request: {},
+  });
+
+  const readCassette = async (): Promise<CassetteFile> => JSON.parse(await fs.readFile(cassettePath, 'utf-8'));
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'websets-cassette-'));
+    cassettePath = path.join(directory, 'cassettes', 'session.json');
+    next = jest.fn<AxiosAdapter>().mockImplementation(async config => respond(config, { data: [], hasMore: false }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('record mode', () => {
+    it('should write interactions with secrets masked', async () => {
+      next.mockImplementationOnce(async config => respond(config, { id: 'whook_1', secret: 'whsec_live' }));
+      const adapter = new Cassette({ mode: 'record', path: cassettePath }).createAdapter(next);
+
+      await adapter(request({ method: 'post', url: '/webhooks', data: JSON.stringify({ url: 'https://example.com', apiKey: 'live-key' }) }));
+
+      const cassette = await readCassette();
+      expect(cassette.interactions).toHaveLength(1);
+      expect(cassette.interactions[0].request).toEqual({
+        method: 'POST',
+        path: '/webhooks',
+        query: {},
+        body: { url: 'https://example.com', apiKey: '***MASKED***' },
+      });
+      expect(cassette.interactions[0].response.data).toEqual({ id: 'whook_1', secret: '***MASKED***' });
+      expect(JSON.stringify(cassette)).not.toContain('live-key');
+    });
+
+    it('should record error responses', async () => {
+      next.mockImplementationOnce(async config => {
+        const response = respond(config, { error: { code: 'not_found', message: 'Webset missing not found' } }, 404);
+        throw new AxiosError('Request failed with status code 404', AxiosError.ERR_BAD_REQUEST, config, {}, response);
+      });
+      const adapter = new Cassette({ mode: 'record', path: cassettePath }).createAdapter(next);
+
+      await expect(adapter(request({ url: '/websets/missing' }))).rejects.toThrow('status code 404');
+
+      expect((await readCassette()).interactions[0].response.status).toBe(404);
+    });
+  });
+
+  describe('replay mode', () => {
+    const record = async (...configs: Array<[InternalAxiosRequestConfig, unknown]>) => {
+      next.mockReset();
+      configs.forEach(([, data]) => next.mockImplementationOnce(async config => respond(config, data)));
+      const adapter = new Cassette({ mode: 'record', path: cassettePath }).createAdapter(next);
+      for (const [config] of configs) {
+        await adapter(config);
+      }
+      next.mockClear();
+    };
+
+    it('should match on method, path, query and body regardless of key order', async () => {
+      await record([request({ url: '/events', params: { limit: 10, types: ['webset.idle'] } }), { data: ['recorded'] }]);
+      const cassette = new Cassette({ mode: 'replay', path: cassettePath });
+
+      const response = await cassette.createAdapter(next)(request({ url: '/events?limit=10', params: { types: ['webset.idle'] } }));
+
+      expect(response.data).toEqual({ data: ['recorded'] });
+      expect(next).not.toHaveBeenCalled();
+      expect(cassette.remaining()).toBe(0);
+    });
+
+    it('should replay identical requests in recorded order', async () => {
+      const poll = request({ url: '/websets/webset_1' });
+      await record([poll, { status: 'running' }], [poll, { status: 'idle' }]);
+      const adapter = new Cassette({ mode: 'replay', path: cassettePath }).createAdapter(next);
+
+      expect((await adapter(poll)).data).toEqual({ status: 'running' });
+      expect((await adapter(poll)).data).toEqual({ status: 'idle' });
+      await expect(adapter(poll)).rejects.toThrow('2 GET /websets/webset_1 interactions, 0 not replayed yet');
+    });
+
+    it('should fail loudly when no interaction matches', async () => {
+      await record([request({ method: 'post', url: '/websets', data: '{"search":{"query":"a"}}' }), { id: 'webset_1' }]);
+      const adapter = new Cassette({ mode: 'replay', path: cassettePath }).createAdapter(next);
+
+      const replay = adapter(request({ method: 'post', url: '/websets', data: '{"search":{"query":"b"}}' }));
+
+      await expect(replay).rejects.toBeInstanceOf(CassetteMismatchError);
+      await expect(replay).rejects.toThrow(/No recorded interaction .* matches POST \/websets\n {2}body: \{"search":\{"query":"b"\}\}/);
+    });
+
+    it('should reject when the cassette file is missing', async () => {
+      const adapter = new Cassette({ mode: 'replay', path: cassettePath }).createAdapter(next);
+
+      await expect(adapter(request())).rejects.toThrow(`Cannot replay cassette ${cassettePath}`);
+    });
+  });
+
+  describe('with WebsetsApiClient', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+      // Sockets and the API client's rate limiter need real timers
+      jest.useRealTimers();
+      process.env.WEBSETS_CASSETTE_PATH = cassettePath;
+    });
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+      jest.useFakeTimers();
+    });
+
+    it('should replay a recorded session without the API', async () => {
+      const server = await startSimulatorServer();
+      process.env.WEBSETS_CASSETTE_MODE = 'record';
+      const recording = createServices('test-api-key', server.baseUrl);
+
+      const created = await recording.websetService.createWebset({ search: { query: 'robotics', count: 2 } });
+      server.simulator.advance(60000);
+      const recorded = await recording.itemService.listItems(created.id);
+      await expect(recording.websetService.getWebset('webset_missing')).rejects.toMatchObject({ code: 'not_found' });
+      await server.close();
+
+      process.env.WEBSETS_CASSETTE_MODE = 'replay';
+      const replaying = createServices('test-api-key', server.baseUrl);
+
+      expect(await replaying.websetService.createWebset({ search: { query: 'robotics', count: 2 } })).toEqual(created);
+      expect(await replaying.itemService.listItems(created.id)).toEqual(recorded);
+      await expect(replaying.websetService.getWebset('webset_missing')).rejects.toMatchObject({ code: 'not_found' });
+      await expect(replaying.websetService.listWebsets()).rejects.toMatchObject({ code: 'cassette_mismatch' });
+    });
+
+    it('should record and replay a session across the clients of separate tool calls', async () => {
+      const server = await startSimulatorServer();
+      process.env.WEBSETS_CASSETTE_MODE = 'record';
+
+      const created = await createServices('test-api-key', server.baseUrl).websetService.createWebset({ search: { query: 'robotics', count: 2 } });
+      const first = await createServices('test-api-key', server.baseUrl).websetService.getWebset(created.id);
+      server.simulator.advance(60000);
+      const second = await createServices('test-api-key', server.baseUrl).websetService.getWebset(created.id);
+      await server.close();
+
+      expect((await readCassette()).interactions.map(interaction => interaction.request.method)).toEqual(['POST', 'GET', 'GET']);
+
+      process.env.WEBSETS_CASSETTE_MODE = 'replay';
+      expect(await createServices('test-api-key', server.baseUrl).websetService.createWebset({ search: { query: 'robotics', count: 2 } })).toEqual(created);
+      expect(await createServices('test-api-key', server.baseUrl).websetService.getWebset(created.id)).toEqual(first);
+      expect(await createServices('test-api-key', server.baseUrl).websetService.getWebset(created.id)).toEqual(second);
+    });
+  });
+});
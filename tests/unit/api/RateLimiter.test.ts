@@ -0,0 +1,245 @@
+/**
+ * Unit Tests for adaptive rate limiting
+ *
+ * Tests header parsing, buckets that learn the API's budget, the shared pause,
+ * per-endpoint circuit breakers and how the API client reports both.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  AdaptiveRateLimiter,
+  CircuitBreakerOpenError,
+  CircuitBreakerRegistry,
+  RateLimiter,
+  parseRateLimitHeaders
+} from '../../../src/api/RateLimiter.js';
+import { WebsetsApiClient } from '../../../src/api/WebsetsApiClient.js';
+import { ApiErrorHandler } from '../../../src/api/ErrorHandler.js';
+import { SecureTokenProvider } from '../../../src/utils/security.js';
+import { shutdownIdempotencyLedger } from '../../../src/state/index.js';
+
+describe('parseRateLimitHeaders', () => {
+  const now = Date.parse('2025-01-01T00:00:00Z');
+
+  it('should read X-RateLimit headers with reset in seconds', () => {
+    expect(parseRateLimitHeaders({ 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '7', 'X-RateLimit-Reset': '30' }, now))
+      .toEqual({ limit: 100, remaining: 7, resetMs: 30000, retryAfterMs: undefined });
+  });
+
+  it('should read reset as epoch seconds and Retry-After as an HTTP date', () => {
+    const headers = {
+      'ratelimit-reset': String(now / 1000 + 12),
+      'retry-after': new Date(now + 5000).toUTCString(),
+    };
+
+    expect(parseRateLimitHeaders(headers, now)).toMatchObject({ resetMs: 12000, retryAfterMs: 5000 });
+  });
+
+  it('should ignore missing and malformed values', () => {
+    expect(parseRateLimitHeaders({ 'x-ratelimit-remaining': 'soon', 'retry-after': 'later' }, now))
+      .toEqual({ limit: undefined, remaining: undefined, resetMs: undefined, retryAfterMs: undefined });
+    expect(parseRateLimitHeaders(undefined, now).remaining).toBeUndefined();
+  });
+});
+
+describe('RateLimiter.adapt', () => {
+  it('should spend no more than the remaining budget and slow down until the window resets', () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10 });
+
+    limiter.adapt({ limit: 4, remaining: 2, resetMs: 10000 });
+
+    expect(limiter.getStats()).toMatchObject({ requestsPerSecond: 0.2, burstSize: 4, availableTokens: 2, adapted: true });
+
+    jest.advanceTimersByTime(10000);
+    expect(limiter.getStats()).toMatchObject({ requestsPerSecond: 10, burstSize: 20, adapted: false });
+  });
+
+  it('should never learn a faster rate than configured', () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2 });
+
+    limiter.adapt({ remaining: 1000, resetMs: 1000 });
+
+    expect(limiter.getStats().requestsPerSecond).toBe(2);
+  });
+});
+
+describe('AdaptiveRateLimiter', () => {
+  let limiter: AdaptiveRateLimiter;
+
+  beforeEach(() => {
+    limiter = new AdaptiveRateLimiter({ read: { requestsPerSecond: 10 }, write: { requestsPerSecond: 1, burstSize: 1 } });
+  });
+
+  it('should limit reads and writes separately', async () => {
+    await limiter.waitForToken('write');
+
+    expect(limiter.getStats().write.availableTokens).toBe(0);
+    expect(limiter.getStats().read.availableTokens).toBe(20);
+    expect(AdaptiveRateLimiter.bucketFor('get')).toBe('read');
+    expect(AdaptiveRateLimiter.bucketFor('DELETE')).toBe('write');
+  });
+
+  it('should pause every bucket when the server sends Retry-After', async () => {
+    limiter.observe('write', { 'retry-after': '3' });
+    let acquired = false;
+
+    const waiting = limiter.waitForToken('read').then(() => { acquired = true; });
+    await jest.advanceTimersByTimeAsync(2900);
+    expect(acquired).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(100);
+    await waiting;
+    expect(acquired).toBe(true);
+  });
+
+  it('should pause until the reset when the budget is exhausted', () => {
+    limiter.observe('read', { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '8' });
+
+    expect(limiter.getPauseRemaining()).toBe(8000);
+  });
+
+  it('should keep the longer of two pauses', () => {
+    limiter.pause(5000);
+    limiter.pause(1000);
+
+    expect(limiter.getPauseRemaining()).toBe(5000);
+  });
+});
+
+describe('CircuitBreakerRegistry', () => {
+  let registry: CircuitBreakerRegistry;
+
+  const fail = () => Promise.reject(new Error('Request failed with status code 503'));
+
+  beforeEach(() => {
+    registry = new CircuitBreakerRegistry(2, 30000);
+  });
+
+  it('should group endpoints into families', () => {
+    expect(CircuitBreakerRegistry.familyFor('/websets')).toBe('websets');
+    expect(CircuitBreakerRegistry.familyFor('/websets/webset_1')).toBe('websets');
+    expect(CircuitBreakerRegistry.familyFor('/websets/webset_1/searches/search_1/cancel')).toBe('searches');
+    expect(CircuitBreakerRegistry.familyFor('/websets/webset_1/items?limit=10')).toBe('items');
+    expect(CircuitBreakerRegistry.familyFor('/websets/webset_1/enrichments')).toBe('enrichments');
+    expect(CircuitBreakerRegistry.familyFor('/webhooks/whook_1/attempts')).toBe('webhooks');
+    expect(CircuitBreakerRegistry.familyFor('/events')).toBe('events');
+  });
+
+  it('should keep other families available while one is open', async () => {
+    await expect(registry.execute('/events', fail)).rejects.toThrow('503');
+    await expect(registry.execute('/events', fail)).rejects.toThrow('503');
+
+    await expect(registry.execute('/events', fail)).rejects.toBeInstanceOf(CircuitBreakerOpenError);
+    await expect(registry.execute('/websets', async () => 'created')).resolves.toBe('created');
+    expect(registry.getStates()).toMatchObject({
+      events: { state: 'open', retryIn: 30000 },
+      websets: { state: 'closed', retryIn: 0 },
+      searches: { state: 'closed' },
+    });
+  });
+
+  it('should report when an open breaker lets requests through again', async () => {
+    await registry.execute('/events', fail).catch(() => undefined);
+    await registry.execute('/events', fail).catch(() => undefined);
+    jest.advanceTimersByTime(12400);
+
+    const error = await registry.execute('/events', fail).catch(caught => caught);
+
+    expect(error).toMatchObject({ family: 'events', retryAfterMs: 17600 });
+    expect(ApiErrorHandler.createApiError(error)).toEqual({
+      code: 'circuit_breaker_open',
+      message: 'Service temporarily unavailable (events endpoints), retry in 18s',
+      details: { family: 'events', retryAfter: 18 },
+    });
+  });
+});
+
+describe('WebsetsApiClient rate limiting', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let responses: Array<{ status: number; headers?: Record<string, string> }>;
+  let received: number;
+
+  const createClient = (maxRetryDelay: number) => new WebsetsApiClient(
+    {
+      apiKey: 'test-api-key',
+      baseUrl,
+      timeout: 5000,
+      retryAttempts: 2,
+      retryDelay: 10,
+      maxRetryDelay,
+      rateLimit: 100,
+      circuitBreakerThreshold: 5,
+      circuitBreakerTimeout: 60000,
+    },
+    { userAgent: 'test', defaultHeaders: {}, enableLogging: false, enableMetrics: false },
+    new SecureTokenProvider(() => 'test-api-key')
+  );
+
+  beforeEach(async () => {
+    // Sockets need real timers
+    jest.useRealTimers();
+    received = 0;
+    responses = [];
+    server = http.createServer((_, res) => {
+      const response = responses[received++] ?? { status: 200 };
+      res.writeHead(response.status, { 'content-type': 'application/json', ...response.headers });
+      res.end(JSON.stringify(response.status === 429 ? { error: { code: 'rate_limited', message: 'Too many requests' } } : { data: [] }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => {
+      server.close(resolve);
+      server.closeAllConnections();
+    });
+    await shutdownIdempotencyLedger();
+    jest.useFakeTimers();
+  });
+
+  it('should wait out a short Retry-After and retry', async () => {
+    responses = [{ status: 429, headers: { 'retry-after': '1' } }];
+    const startedAt = Date.now();
+
+    await expect(createClient(5000).get('/websets')).resolves.toMatchObject({ status: 200 });
+
+    expect(received).toBe(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(900);
+  });
+
+  it('should report long waits to the caller instead of retrying', async () => {
+    responses = [{ status: 429, headers: { 'retry-after': '120' } }];
+
+    const error = await createClient(5000).post('/websets', {}).catch(caught => caught);
+
+    expect(received).toBe(1);
+    expect(error).toMatchObject({ code: 'rate_limited', details: { retryAfter: 120 } });
+    expect(ApiErrorHandler.getRetryAfter(error)).toBe(120);
+  });
+
+  it('should only count failures of the service itself against the circuit breaker', async () => {
+    const client = createClient(10);
+    responses = [
+      ...Array.from({ length: 5 }, () => ({ status: 404 })),
+      { status: 200 },
+      // Each of five failing requests is retried twice
+      ...Array.from({ length: 15 }, () => ({ status: 503 })),
+    ];
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(client.get(`/websets/webset_missing_${attempt}`)).rejects.toBeDefined();
+    }
+    await expect(client.get('/websets/webset_1')).resolves.toMatchObject({ status: 200 });
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(client.get(`/websets/webset_down_${attempt}`)).rejects.toBeDefined();
+    }
+    await expect(client.get('/websets/webset_2')).rejects.toBeInstanceOf(CircuitBreakerOpenError);
+    expect(received).toBe(21);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Unit Tests for RequestCoalescer
+ *
+ * Tests that identical concurrent GETs share one upstream request, on their
+ * own and through the API client.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { RequestCoalescer, getSharedRequestCoalescer } from '../../../src/api/RequestCoalescer.js';
+import { ResponseCache } from '../../../src/api/ResponseCache.js';
+import { WebsetsApiClient } from '../../../src/api/WebsetsApiClient.js';
+import { ApiResponse } from '../../../src/types/websets.js';
+import { SecureTokenProvider } from '../../../src/utils/security.js';
+
+describe('RequestCoalescer', () => {
+  let coalescer: RequestCoalescer;
+
+  beforeEach(() => {
+    coalescer = new RequestCoalescer();
+  });
+
+  it('should share a request in flight and give each caller its own copy', async () => {
+    let release!: (response: ApiResponse<{ items: string[] }>) => void;
+    const request = jest.fn(() => new Promise<ApiResponse<{ items: string[] }>>(resolve => { release = resolve; }));
+
+    const first = coalescer.run('/websets/ws_1', undefined, request);
+    const second = coalescer.run('/websets/ws_1', undefined, request);
+    expect(coalescer.getStats()).toEqual({ inFlight: 1, coalesced: 1 });
+
+    release({ data: { items: ['a'] }, status: 200, headers: {} });
+    const [a, b] = await Promise.all([first, second]);
+    a.data.items.push('b');
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(b.data.items).toEqual(['a']);
+    expect(coalescer.getStats().inFlight).toBe(0);
+  });
+
+  it('should keep requests with different parameters apart and send a new request once one settles', async () => {
+    const request = jest.fn(async () => ({ data: {}, status: 200, headers: {} }));
+
+    await Promise.all([
+      coalescer.run('/websets/ws_1/items', { limit: 10 }, request),
+      coalescer.run('/websets/ws_1/items', { limit: 20 }, request),
+    ]);
+    await coalescer.run('/websets/ws_1/items', { limit: 10 }, request);
+
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject every caller when the shared request fails', async () => {
+    const request = jest.fn(() => Promise.reject({ code: 'server_error', message: 'Upstream failed' }));
+
+    const results = await Promise.allSettled([
+      coalescer.run('/websets/ws_1', undefined, request),
+      coalescer.run('/websets/ws_1', undefined, request),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share coalescers between clients of the same API key only', () => {
+    const alice = getSharedRequestCoalescer('https://api.example.com', 'key_alice');
+
+    expect(getSharedRequestCoalescer('https://api.example.com', 'key_alice')).toBe(alice);
+    expect(getSharedRequestCoalescer('https://api.example.com', 'key_bob')).not.toBe(alice);
+  });
+});
+
+describe('WebsetsApiClient request coalescing', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: number;
+
+  beforeEach(async () => {
+    // Sockets need real timers
+    jest.useRealTimers();
+    received = 0;
+    server = http.createServer((_, res) => {
+      received++;
+      setTimeout(() => {
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ id: 'ws_1', status: 'running' }));
+      }, 20);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => {
+      server.close(resolve);
+      server.closeAllConnections();
+    });
+    jest.useFakeTimers();
+  });
+
+  it('should send one request for identical concurrent GETs from clients sharing a coalescer', async () => {
+    const shared = { requestCoalescer: new RequestCoalescer(), responseCache: new ResponseCache({ enabled: false }) };
+    const createClient = () => new WebsetsApiClient(
+      {
+        apiKey: 'test-api-key',
+        baseUrl,
+        timeout: 5000,
+        retryAttempts: 0,
+        retryDelay: 10,
+        maxRetryDelay: 10,
+        rateLimit: 100,
+        circuitBreakerThreshold: 5,
+        circuitBreakerTimeout: 60000,
+      },
+      { userAgent: 'test', defaultHeaders: {}, enableLogging: false, enableMetrics: false },
+      new SecureTokenProvider(() => 'test-api-key'),
+      shared
+    );
+
+    const responses = await Promise.all([
+      createClient().get('/websets/ws_1'),
+      createClient().get('/websets/ws_1'),
+      createClient().get('/websets/ws_1'),
+    ]);
+
+    expect(received).toBe(1);
+    expect(responses.map(response => response.data)).toEqual(Array(3).fill({ id: 'ws_1', status: 'running' }));
+    expect(shared.requestCoalescer.getStats().coalesced).toBe(2);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Unit Tests for ResponseCache
+ *
+ * Tests per-endpoint TTLs, ETag revalidation and invalidation by mutating
+ * requests and received events, on their own and through the API client.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ResponseCache, getSharedResponseCache } from '../../../src/api/ResponseCache.js';
+import { WebsetsApiClient } from '../../../src/api/WebsetsApiClient.js';
+import { SecureTokenProvider } from '../../../src/utils/security.js';
+import { ApiResponse } from '../../../src/types/websets.js';
+import { shutdownIdempotencyLedger } from '../../../src/state/index.js';
+import { createMockWebsetEvent } from '../../fixtures/websets.js';
+
+const response = (data: unknown, etag?: string): ApiResponse<unknown> => ({
+  data,
+  status: 200,
+  headers: etag ? { etag } : {},
+});
+
+describe('ResponseCache', () => {
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    cache = new ResponseCache({ enabled: true, ttls: { '/websets/:id': 1000, '/websets/:id/items': 1000, '/websets': 1000, '/events': 0 } });
+  });
+
+  it('should serve fresh responses and offer stale ones with an ETag for revalidation', () => {
+    cache.store('/websets/ws_1', undefined, response({ id: 'ws_1' }, '"v1"'));
+    cache.store('/websets/ws_2', undefined, response({ id: 'ws_2' }));
+
+    expect(cache.lookup('/websets/ws_1')).toMatchObject({ fresh: true, response: { data: { id: 'ws_1' } } });
+
+    jest.advanceTimersByTime(1000);
+
+    expect(cache.lookup('/websets/ws_1')).toMatchObject({ fresh: false, etag: '"v1"' });
+    expect(cache.lookup('/websets/ws_2')).toBeUndefined();
+    expect(cache.revalidated('/websets/ws_1')).toMatchObject({ data: { id: 'ws_1' } });
+    expect(cache.lookup('/websets/ws_1')?.fresh).toBe(true);
+  });
+
+  it('should key responses by query parameters and skip endpoints without a TTL', () => {
+    cache.store('/websets/ws_1/items', { limit: 10 }, response({ data: [1] }));
+    cache.store('/events', { limit: 10 }, response({ data: [] }));
+
+    expect(cache.lookup('/websets/ws_1/items', { limit: 10 })).toBeDefined();
+    expect(cache.lookup('/websets/ws_1/items', { limit: 20 })).toBeUndefined();
+    expect(cache.lookup('/events', { limit: 10 })).toBeUndefined();
+  });
+
+  it('should hand out copies so callers cannot change cached responses', () => {
+    cache.store('/websets/ws_1', undefined, response({ id: 'ws_1', metadata: {} }));
+
+    (cache.lookup<{ metadata: Record<string, string> }>('/websets/ws_1')!.response.data.metadata).stage = 'changed';
+
+    expect(cache.lookup('/websets/ws_1')?.response.data).toEqual({ id: 'ws_1', metadata: {} });
+  });
+
+  it('should drop a webset, everything below it and the webset list when the webset changes', () => {
+    cache.store('/websets', undefined, response({ data: [] }));
+    cache.store('/websets/ws_1', undefined, response({ id: 'ws_1' }));
+    cache.store('/websets/ws_1/items', { limit: 10 }, response({ data: [] }));
+    cache.store('/websets/ws_2', undefined, response({ id: 'ws_2' }));
+
+    expect(cache.invalidatePath('/websets/ws_1/searches')).toBe(3);
+    expect(cache.lookup('/websets/ws_2')).toBeDefined();
+  });
+
+  it('should drop a webset when an event for it is received', async () => {
+    cache.store('/websets/ws_1/items', undefined, response({ data: [] }));
+
+    await cache.createEventHandler().handle(createMockWebsetEvent({ type: 'webset.item.created', data: { websetId: 'ws_1' } }) as any);
+
+    expect(cache.lookup('/websets/ws_1/items')).toBeUndefined();
+  });
+
+  it('should drop every webset when a monitor run is received', async () => {
+    cache.store('/websets/ws_1/items', undefined, response({ data: [] }));
+    cache.store('/websets/ws_2', undefined, response({ id: 'ws_2' }));
+
+    await cache.createEventHandler().handle(createMockWebsetEvent({ type: 'monitor.run.completed', data: { object: 'monitor_run', id: 'mrun_1', monitorId: 'monitor_1' } }) as any);
+
+    expect(cache.lookup('/websets/ws_1/items')).toBeUndefined();
+    expect(cache.lookup('/websets/ws_2')).toBeUndefined();
+  });
+
+  it('should share caches between clients of the same API key only', () => {
+    const alice = getSharedResponseCache('https://api.example.com', 'key_alice');
+    alice.store('/websets', undefined, response({ data: [{ id: 'webset_of_key_alice' }] }));
+
+    expect(getSharedResponseCache('https://api.example.com', 'key_alice')).toBe(alice);
+    expect(getSharedResponseCache('https://api.example.com', 'key_bob').lookup('/websets')).toBeUndefined();
+    expect(getSharedResponseCache('https://other.example.com', 'key_alice')).not.toBe(alice);
+  });
+});
+
+describe('WebsetsApiClient response cache', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: Array<{ method?: string; url?: string; ifNoneMatch?: string }>;
+  let version: number;
+
+  const createClient = (cache: ResponseCache) => new WebsetsApiClient(
+    {
+      apiKey: 'test-api-key',
+      baseUrl,
+      timeout: 5000,
+      retryAttempts: 0,
+      retryDelay: 10,
+      maxRetryDelay: 10,
+      rateLimit: 100,
+      circuitBreakerThreshold: 5,
+      circuitBreakerTimeout: 60000,
+    },
+    { userAgent: 'test', defaultHeaders: {}, enableLogging: false, enableMetrics: false },
+    new SecureTokenProvider(() => 'test-api-key'),
+    { responseCache: cache }
+  );
+
+  beforeEach(async () => {
+    // Sockets need real timers
+    jest.useRealTimers();
+    requests = [];
+    version = 1;
+    server = http.createServer((req, res) => {
+      const etag = `"v${version}"`;
+      requests.push({ method: req.method, url: req.url, ifNoneMatch: req.headers['if-none-match'] });
+      if (req.method !== 'GET') {
+        version++;
+        res.writeHead(201, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ id: 'search_1' }));
+      } else if (req.headers['if-none-match'] === etag) {
+        res.writeHead(304, { etag });
+        res.end();
+      } else {
+        res.writeHead(200, { 'content-type': 'application/json', etag });
+        res.end(JSON.stringify({ id: 'ws_1', version }));
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => {
+      server.close(resolve);
+      server.closeAllConnections();
+    });
+    await shutdownIdempotencyLedger();
+    jest.useFakeTimers();
+  });
+
+  it('should answer repeated GETs from the cache until the TTL expires, then revalidate', async () => {
+    const client = createClient(new ResponseCache({ enabled: true, ttls: { '/websets/:id': 50 } }));
+
+    await client.get('/websets/ws_1');
+    await client.get('/websets/ws_1');
+    expect(requests).toHaveLength(1);
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+    const revalidated = await client.get('/websets/ws_1');
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].ifNoneMatch).toBe('"v1"');
+    expect(revalidated).toMatchObject({ status: 200, data: { id: 'ws_1', version: 1 } });
+  });
+
+  it('should fetch again after a mutating request to the same webset', async () => {
+    const client = createClient(new ResponseCache({ enabled: true, ttls: { '/websets/:id': 60000 } }));
+
+    await client.get('/websets/ws_1');
+    await client.post('/websets/ws_1/searches', { query: 'robotics' });
+    const refreshed = await client.get('/websets/ws_1');
+
+    expect(requests.map(request => request.method)).toEqual(['GET', 'POST', 'GET']);
+    expect(requests[2].ifNoneMatch).toBeUndefined();
+    expect(refreshed.data).toEqual({ id: 'ws_1', version: 2 });
+  });
+
+  it('should not cache when disabled', async () => {
+    const client = createClient(new ResponseCache({ enabled: false }));
+
+    await client.get('/websets/ws_1');
+    await client.get('/websets/ws_1');
+
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -7,7 +7,8 @@
 
 import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import { EventProcessor, DefaultEventHandlerRegistry } from '../../../src/events/EventProcessor.js';
-import { EventHandler, EventHandlerRegistry } from '../../../src/events/EventTypes.js';
+import { EventHandler, EventHandlerRegistry, EVENT_CATEGORIES } from '../../../src/events/EventTypes.js';
+import { ResponseCache } from '../../../src/api/ResponseCache.js';
 import { 
   mockWebsetEvent, 
   createMockWebsetEvent
@@ -363,6 +364,47 @@ describe('DefaultEventHandlerRegistry', () => {
     });
   });
 
+  describe('event types', () => {
+    it('should dispatch import events to handlers that accept them', async () => {
+      // Arrange
+      const importHandler = {
+        eventType: 'import.completed' as const,
+        priority: 50,
+        canHandle: (event: any) => event.type.startsWith('import.'),
+        handle: global.testUtils.createAsyncMockFn()
+      };
+      const processor = new EventProcessor({}, registry);
+      processor.registerHandler(importHandler);
+      const event = createMockWebsetEvent({ type: 'import.completed', data: { id: 'import_1', object: 'import' } as any });
+
+      // Act
+      const result = await processor.processEvent(event);
+
+      // Assert
+      expect(registry.getHandlers('import.created')).toContain(importHandler);
+      expect(result.error).toBeUndefined();
+      expect(importHandler.handle).toHaveBeenCalledWith(event);
+    });
+
+    it('should dispatch monitor events to handlers that accept every event', async () => {
+      // Arrange
+      const cache = new ResponseCache({ enabled: true, ttls: { '/websets/:id/items': 1000 } });
+      cache.store('/websets/ws_1/items', undefined, { data: { data: [] }, status: 200, headers: {} });
+      const processor = new EventProcessor({}, registry);
+      processor.registerHandler(cache.createEventHandler());
+      const event = createMockWebsetEvent({ type: 'monitor.run.completed', data: { object: 'monitor_run', id: 'mrun_1', monitorId: 'monitor_1' } as any });
+
+      // Act
+      await processor.processEvent(event);
+
+      // Assert
+      for (const eventType of EVENT_CATEGORIES.MONITOR) {
+        expect(registry.getHandlers(eventType)).toHaveLength(1);
+      }
+      expect(cache.lookup('/websets/ws_1/items')).toBeUndefined();
+    });
+  });
+
   describe('unregister', () => {
     it('should unregister handler', () => {
       // Arrange
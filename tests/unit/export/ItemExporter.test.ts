@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for ItemExporter
+ *
+ * Tests column selection, enrichment flattening and serialization formats.
+ * Following TDD London School methodology.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ItemExporter, getItemEnrichmentValues } from '../../../src/export/ItemExporter.js';
+import { mockWebsetItem, mockWebsetEnrichment } from '../../fixtures/websets.js';
+import { WebsetItem } from '../../../src/types/websets.js';
+
+describe('ItemExporter', () => {
+  let exporter: ItemExporter;
+  let directory: string;
+
+  const apiShapedItem = {
+    ...mockWebsetItem,
+    id: 'item-456',
+    title: 'Quoted, "Company"',
+    enrichments: [
+      { object: 'enrichment_result', enrichmentId: 'enrichment-123', format: 'text', result: ['Series B'] },
+      { object: 'enrichment_result', enrichmentId: 'enrichment-456', format: 'options', result: ['AI', 'Robotics'] }
+    ]
+  } as unknown as WebsetItem;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'item-exporter-'));
+    exporter = new ItemExporter({ directory, inlineMaxItems: 1 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('getItemEnrichmentValues', () => {
+    it('should read keyed enrichment values', () => {
+      expect(getItemEnrichmentValues(mockWebsetItem)).toEqual({ 'enrichment-123': 'Series A funding: $10M' });
+    });
+
+    it('should read enrichment results returned as an array', () => {
+      expect(getItemEnrichmentValues(apiShapedItem)).toEqual({
+        'enrichment-123': 'Series B',
+        'enrichment-456': ['AI', 'Robotics']
+      });
+    });
+  });
+
+  describe('export', () => {
+    it('should export default columns plus enrichment columns as CSV', async () => {
+      const result = await exporter.export([mockWebsetItem, apiShapedItem], {
+        format: 'csv',
+        enrichments: [mockWebsetEnrichment]
+      });
+
+      const lines = (result.content as string).split('\n');
+      expect(lines[0]).toBe('id,title,url,entity_type,verification_status,verification_reasoning,search_id,created_at,updated_at,enrichment_enrichment-123,enrichment_enrichment-456');
+      expect(lines[2]).toContain('"Quoted, ""Company"""');
+      expect(lines[2]).toMatch(/Series B,AI; Robotics$/);
+      expect(result.enrichmentColumns[0]).toEqual({
+        column: 'enrichment_enrichment-123',
+        enrichmentId: 'enrichment-123',
+        description: 'Get company funding information',
+        format: 'text'
+      });
+    });
+
+    it('should only include selected columns', async () => {
+      const result = await exporter.export([apiShapedItem], {
+        format: 'ndjson',
+        columns: ['id', 'enrichment_enrichment-456']
+      });
+
+      expect(JSON.parse(result.content as string)).toEqual({ id: 'item-456', 'enrichment_enrichment-456': ['AI', 'Robotics'] });
+      expect(result.mimeType).toBe('application/x-ndjson');
+    });
+
+    it('should write one JSON line per item for NDJSON', async () => {
+      const result = await exporter.export([mockWebsetItem, apiShapedItem], { format: 'ndjson', columns: ['id'] });
+
+      expect(result.content).toBe('{"id":"item-123"}\n{"id":"item-456"}');
+    });
+
+    it('should reject unknown columns', async () => {
+      await expect(exporter.export([mockWebsetItem], { format: 'json', columns: ['id', 'revenue'] }))
+        .rejects.toThrow('Unknown export columns: revenue');
+    });
+  });
+
+  describe('files', () => {
+    it('should only inline exports within the configured limits', async () => {
+      expect(exporter.shouldInline(await exporter.export([mockWebsetItem], { format: 'json' }))).toBe(true);
+      expect(exporter.shouldInline(await exporter.export([mockWebsetItem, apiShapedItem], { format: 'json' }))).toBe(false);
+      expect(exporter.shouldInline(await exporter.export([mockWebsetItem], { format: 'parquet' }))).toBe(false);
+    });
+
+    it('should write exports to the export directory and read them back', async () => {
+      const result = await exporter.export([mockWebsetItem], { format: 'csv' });
+
+      const file = await exporter.writeToFile('webset-123', result);
+      const read = await exporter.readExport('webset-123', file.fileName);
+
+      expect(file.path).toBe(path.join(directory, file.fileName));
+      expect(file.fileName).toMatch(/^webset-123-.*\.csv$/);
+      expect(read).toEqual({ text: result.content, mimeType: 'text/csv' });
+    });
+
+    it('should read binary exports back as base64', async () => {
+      const result = await exporter.export([mockWebsetItem], { format: 'parquet' });
+
+      const file = await exporter.writeToFile('webset-123', result);
+      const read = await exporter.readExport('webset-123', file.fileName);
+
+      expect(read.text).toBeUndefined();
+      expect(Buffer.from(read.blob!, 'base64').equals(result.content as Buffer)).toBe(true);
+    });
+
+    it('should refuse to read files outside the export directory', async () => {
+      await expect(exporter.readExport('webset-123', '../secrets.csv')).rejects.toThrow('Invalid export file name');
+    });
+
+    it('should only read exports of the requested webset', async () => {
+      const file = await exporter.writeToFile('webset-123', await exporter.export([mockWebsetItem], { format: 'csv' }));
+
+      await expect(exporter.readExport('webset-456', file.fileName)).rejects.toThrow('does not belong to webset webset-456');
+      await expect(exporter.readExport('webset', file.fileName)).rejects.toThrow('does not belong to webset webset');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for typed export writers
+ *
+ * Tests enrichment format to column type mapping, value coercion and the
+ * Parquet and XLSX writers.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import ExcelJS from 'exceljs';
+import { parquetMetadata, parquetReadObjects } from 'hyparquet';
+import { ItemExporter, ExportTable } from '../../../src/export/ItemExporter.js';
+import { getColumnType, coerceValue, writeParquet, writeXlsx } from '../../../src/export/typedWriters.js';
+import { mockWebsetItem, mockWebsetEnrichment } from '../../fixtures/websets.js';
+import { WebsetEnrichment, WebsetItem } from '../../../src/types/websets.js';
+
+describe('typed export writers', () => {
+  let table: ExportTable;
+
+  const enrichments: WebsetEnrichment[] = [
+    { ...mockWebsetEnrichment, id: 'employees', description: 'Employee count', format: 'number' },
+    { ...mockWebsetEnrichment, id: 'founded', description: 'Founding date', format: 'date' },
+    { ...mockWebsetEnrichment, id: 'sectors', description: 'Sectors', format: 'options' }
+  ];
+
+  const item = {
+    ...mockWebsetItem,
+    enrichments: [
+      { enrichmentId: 'employees', format: 'number', result: ['1,250'] },
+      { enrichmentId: 'founded', format: 'date', result: ['2019-05-01'] },
+      { enrichmentId: 'sectors', format: 'options', result: ['AI', 'Fintech'] }
+    ]
+  } as unknown as WebsetItem;
+
+  beforeEach(() => {
+    table = new ItemExporter().buildTable([item], {
+      columns: ['id', 'created_at', 'verification_references', 'enrichment_employees', 'enrichment_founded', 'enrichment_sectors'],
+      enrichments
+    });
+  });
+
+  describe('getColumnType', () => {
+    it('should map enrichment formats to column types', () => {
+      expect(getColumnType(table, 'enrichment_employees')).toBe('number');
+      expect(getColumnType(table, 'enrichment_founded')).toBe('timestamp');
+      expect(getColumnType(table, 'enrichment_sectors')).toBe('list');
+    });
+
+    it('should type built-in item columns', () => {
+      expect(getColumnType(table, 'id')).toBe('string');
+      expect(getColumnType(table, 'created_at')).toBe('timestamp');
+      expect(getColumnType(table, 'verification_references')).toBe('list');
+    });
+  });
+
+  describe('coerceValue', () => {
+    it('should parse numbers with thousands separators', () => {
+      expect(coerceValue('1,250', 'number')).toBe(1250);
+    });
+
+    it('should return null for values that cannot be converted', () => {
+      expect(coerceValue('about fifty', 'number')).toBeNull();
+      expect(coerceValue('sometime last year', 'timestamp')).toBeNull();
+    });
+
+    it('should wrap scalars in lists', () => {
+      expect(coerceValue('AI', 'list')).toEqual(['AI']);
+    });
+  });
+
+  describe('writeParquet', () => {
+    it('should write a Parquet file', () => {
+      const buffer = writeParquet(table);
+
+      expect(buffer.subarray(0, 4).toString()).toBe('PAR1');
+      expect(buffer.subarray(-4).toString()).toBe('PAR1');
+      expect(buffer.includes('exa.verification')).toBe(true);
+    });
+
+    it('should write typed columns that read back with their values', async () => {
+      const buffer = writeParquet(table);
+      const file = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+
+      const schema = parquetMetadata(file).schema;
+      const element = (name: string) => schema.find(entry => entry.name === name);
+      expect(element('enrichment_employees')).toMatchObject({ type: 'DOUBLE' });
+      expect(element('enrichment_founded')).toMatchObject({ type: 'INT64', converted_type: 'TIMESTAMP_MILLIS' });
+      expect(element('created_at')).toMatchObject({ type: 'INT64', converted_type: 'TIMESTAMP_MILLIS' });
+      expect(element('enrichment_sectors')).toMatchObject({ converted_type: 'LIST' });
+
+      const rows = await parquetReadObjects({ file });
+      expect(rows).toEqual([{
+        id: mockWebsetItem.id,
+        created_at: new Date(mockWebsetItem.createdAt),
+        verification_references: ['https://example.com/about'],
+        enrichment_employees: 1250,
+        enrichment_founded: new Date('2019-05-01'),
+        enrichment_sectors: ['AI', 'Fintech']
+      }]);
+    });
+  });
+
+  describe('writeXlsx', () => {
+    // The zip writer used by exceljs schedules work on real timers
+    beforeEach(() => {
+      jest.useRealTimers();
+    });
+
+    afterEach(() => {
+      jest.useFakeTimers();
+    });
+
+    it('should write typed cells and a verification sheet', async () => {
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(await writeXlsx(table) as any);
+
+      const items = workbook.getWorksheet('Items')!;
+      expect(items.getRow(1).values).toEqual([
+        undefined, 'id', 'created_at', 'verification_references', 'enrichment_employees', 'enrichment_founded', 'enrichment_sectors'
+      ]);
+      expect(items.getCell('D2').value).toBe(1250);
+      expect(items.getCell('E2').value).toEqual(new Date('2019-05-01'));
+      expect(items.getCell('F2').value).toBe('AI; Fintech');
+
+      const verification = workbook.getWorksheet('Verification')!;
+      expect(verification.getCell('C2').value).toBe('verified');
+      expect(verification.getCell('E2').value).toBe('https://example.com/about');
+
+      expect(workbook.getWorksheet('Enrichments')!.rowCount).toBe(4);
+    });
+  });
+});
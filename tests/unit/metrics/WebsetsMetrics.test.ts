@@ -0,0 +1,88 @@
+/**
+ * Unit Tests for WebsetsMetrics
+ *
+ * Tests the recorded counters and histograms, the gauges read from registered
+ * event queues and webhook senders, and that disabled metrics record nothing.
+ * Following TDD London School methodology.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { WebsetsMetrics, normalizeEndpoint } from '../../../src/metrics/WebsetsMetrics.js';
+import type { EventQueue } from '../../../src/events/EventQueue.js';
+import type { WebhookSender } from '../../../src/webhooks/WebhookSender.js';
+
+describe('WebsetsMetrics', () => {
+  let metrics: WebsetsMetrics;
+
+  beforeEach(() => {
+    metrics = new WebsetsMetrics({ enabled: true, collectProcessMetrics: false });
+  });
+
+  it('should count tool operations by operation and outcome', async () => {
+    metrics.recordOperation('websets_manager', 'create_webset', 'success', 0.2);
+    metrics.recordOperation('websets_manager', 'create_webset', 'success', 0.3);
+    metrics.recordOperation('websets_manager', 'get_webset_status', 'error', 0.1);
+
+    const rendered = await metrics.render();
+
+    expect(rendered).toContain('websets_tool_operations_total{tool="websets_manager",operation="create_webset",outcome="success"} 2');
+    expect(rendered).toContain('websets_tool_operations_total{tool="websets_manager",operation="get_webset_status",outcome="error"} 1');
+    expect(rendered).toContain('websets_tool_operation_duration_seconds_count{tool="websets_manager",operation="create_webset",outcome="success"} 2');
+  });
+
+  it('should group API latency by endpoint', async () => {
+    metrics.recordApiRequest('GET', '/websets/webset_1/items?limit=10', 200, 0.4);
+    metrics.recordApiRequest('GET', '/websets/webset_2/items', 200, 0.6);
+
+    expect(await metrics.render()).toContain(
+      'websets_api_request_duration_seconds_count{method="GET",endpoint="/websets/:id/items",status="200"} 2'
+    );
+  });
+
+  it('should count rate limiter waits and circuit breaker trips', async () => {
+    metrics.recordRateLimiterWait('write', 1.5);
+    metrics.recordCircuitBreakerTrip('events');
+
+    const rendered = await metrics.render();
+
+    expect(rendered).toContain('websets_rate_limiter_wait_seconds_count{bucket="write"} 1');
+    expect(rendered).toContain('websets_circuit_breaker_trips_total{family="events"} 1');
+  });
+
+  it('should report event queue depth and webhook deliveries until sources are unregistered', async () => {
+    const queue = { size: () => 3 } as unknown as EventQueue;
+    const sender = {
+      getStats: () => ({ successfulDeliveries: 5, failedDeliveries: 2, activeDeliveries: 1 }),
+    } as unknown as WebhookSender;
+    metrics.registerEventQueue(queue);
+    metrics.registerWebhookSender(sender);
+
+    const rendered = await metrics.render();
+    expect(rendered).toContain('websets_event_queue_depth 3');
+    expect(rendered).toContain('websets_webhook_deliveries{outcome="success"} 5');
+    expect(rendered).toContain('websets_webhook_deliveries{outcome="failure"} 2');
+
+    metrics.unregister(queue);
+    expect(await metrics.render()).toContain('websets_event_queue_depth 0');
+  });
+
+  it('should record nothing when disabled', async () => {
+    const disabled = new WebsetsMetrics({ enabled: false });
+    disabled.recordOperation('websets_manager', 'create_webset', 'success', 0.2);
+    disabled.registerEventQueue({ size: () => 3 } as unknown as EventQueue);
+
+    const rendered = await disabled.render();
+
+    expect(rendered).not.toContain('websets_tool_operations_total{');
+    expect(rendered).toContain('websets_event_queue_depth 0');
+    expect(rendered).not.toContain('process_cpu');
+  });
+});
+
+describe('normalizeEndpoint', () => {
+  it('should replace ID segments and drop the query', () => {
+    expect(normalizeEndpoint('/websets')).toBe('/websets');
+    expect(normalizeEndpoint('/websets/webset_1/searches/search_1/cancel')).toBe('/websets/:id/searches/:id/cancel');
+    expect(normalizeEndpoint('/events?limit=25')).toBe('/events');
+  });
+});
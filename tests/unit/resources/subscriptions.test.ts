@@ -0,0 +1,133 @@
+/**
+ * Unit Tests for ResourceSubscriptionManager
+ *
+ * Tests subscription tracking and update notifications with a mocked MCP server.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ResourceSubscriptionManager, getResourceWebsetId } from '../../../src/resources/subscriptions.js';
+import { ServiceContainer } from '../../../src/services/index.js';
+import { WebsetEvent } from '../../../src/types/websets.js';
+import { createMockWebsetEvent } from '../../fixtures/websets.js';
+
+function itemEvent(id: string, websetId: string): WebsetEvent {
+  return createMockWebsetEvent({
+    id,
+    type: 'webset.item.created',
+    data: { object: 'webset_item', id: `item-${id}`, websetId }
+  });
+}
+
+describe('ResourceSubscriptionManager', () => {
+  let mockServer: { registerCapabilities: jest.Mock; setRequestHandler: jest.Mock; sendResourceUpdated: jest.Mock<(params: { uri: string }) => Promise<void>> };
+  let manager: ResourceSubscriptionManager;
+
+  beforeEach(() => {
+    mockServer = {
+      registerCapabilities: jest.fn(),
+      setRequestHandler: jest.fn(),
+      sendResourceUpdated: jest.fn<(params: { uri: string }) => Promise<void>>().mockResolvedValue(undefined)
+    };
+    manager = new ResourceSubscriptionManager(mockServer as unknown as Server, { pollingInterval: 1000 });
+  });
+
+  afterEach(() => {
+    manager.shutdown();
+  });
+
+  it('should parse webset IDs from resource URIs', () => {
+    expect(getResourceWebsetId('webset://ws_1')).toBe('ws_1');
+    expect(getResourceWebsetId('webset://ws_1/enrichments/en_1')).toBe('ws_1');
+    expect(getResourceWebsetId('https://example.com')).toBeUndefined();
+  });
+
+  it('should declare the subscribe capability when registered', () => {
+    manager.register();
+
+    expect(mockServer.registerCapabilities).toHaveBeenCalledWith({ resources: { subscribe: true } });
+    expect(mockServer.setRequestHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should notify every subscribed resource of the event webset', async () => {
+    manager.subscribe('webset://ws_1');
+    manager.subscribe('webset://ws_1/items');
+    manager.subscribe('webset://ws_2');
+
+    await manager.handleEvent(itemEvent('evt-1', 'ws_1'));
+
+    expect(mockServer.sendResourceUpdated).toHaveBeenCalledTimes(2);
+    expect(mockServer.sendResourceUpdated).toHaveBeenCalledWith({ uri: 'webset://ws_1/items' });
+  });
+
+  it('should resolve the webset of lifecycle events from the webset payload', async () => {
+    manager.subscribe('webset://ws_1');
+
+    await manager.handleEvent(createMockWebsetEvent({
+      id: 'evt-idle',
+      type: 'webset.idle',
+      data: { object: 'webset', id: 'ws_1', status: 'idle' }
+    }));
+
+    expect(mockServer.sendResourceUpdated).toHaveBeenCalledWith({ uri: 'webset://ws_1' });
+  });
+
+  it('should notify every subscribed resource of monitor runs', async () => {
+    manager.subscribe('webset://ws_1');
+    manager.subscribe('webset://ws_2/items');
+
+    await manager.handleEvent(createMockWebsetEvent({
+      id: 'evt-run',
+      type: 'monitor.run.completed',
+      data: { object: 'monitor_run', id: 'mrun_1', monitorId: 'monitor_1' }
+    }));
+    await manager.handleEvent(createMockWebsetEvent({
+      id: 'evt-import',
+      type: 'import.completed',
+      data: { object: 'import', id: 'import_1' }
+    }));
+
+    expect(mockServer.sendResourceUpdated).toHaveBeenCalledTimes(2);
+    expect(mockServer.sendResourceUpdated).toHaveBeenCalledWith({ uri: 'webset://ws_2/items' });
+  });
+
+  it('should not notify twice for the same event', async () => {
+    manager.subscribe('webset://ws_1');
+
+    await manager.handleEvent(itemEvent('evt-1', 'ws_1'));
+    await manager.handleEvent(itemEvent('evt-1', 'ws_1'));
+
+    expect(mockServer.sendResourceUpdated).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop notifying after unsubscribe', async () => {
+    manager.subscribe('webset://ws_1');
+    manager.unsubscribe('webset://ws_1');
+
+    await manager.handleEvent(itemEvent('evt-1', 'ws_1'));
+
+    expect(mockServer.sendResourceUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should reject URIs that are not webset resources', () => {
+    expect(() => manager.subscribe('https://example.com')).toThrow('Unsupported resource URI');
+  });
+
+  it('should only notify for events that arrive after the first poll', async () => {
+    const getWebsetEvents = jest.fn<(websetId: string, limit?: number) => Promise<WebsetEvent[]>>()
+      .mockResolvedValueOnce([itemEvent('evt-old', 'ws_1')])
+      .mockResolvedValueOnce([itemEvent('evt-new', 'ws_1'), itemEvent('evt-old', 'ws_1')]);
+    const services = { eventService: { getWebsetEvents } } as unknown as ServiceContainer;
+
+    manager.subscribe('webset://ws_1');
+    manager.startPolling(() => services);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(mockServer.sendResourceUpdated).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(getWebsetEvents).toHaveBeenCalledWith('ws_1', 25);
+    expect(mockServer.sendResourceUpdated).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit Tests for SamplingAssistant
+ *
+ * Tests LLM-assisted steps against the deterministic stub sampling client.
+ * Following TDD London School methodology.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { SamplingAssistant } from '../../../src/sampling/SamplingAssistant.js';
+import { StubSamplingClient, createSamplingClient } from '../../../src/sampling/SamplingClient.js';
+import { featureFlags } from '../../../src/config/features.js';
+import { mockWebsetItem } from '../../fixtures/websets.js';
+
+describe('SamplingAssistant', () => {
+  let client: StubSamplingClient;
+  let assistant: SamplingAssistant;
+
+  beforeEach(() => {
+    client = new StubSamplingClient();
+    assistant = new SamplingAssistant(client, { maxItems: 2 });
+  });
+
+  describe('summarizeItems', () => {
+    it('should send a summarize request with item context', async () => {
+      const outcome = await assistant.summarizeItems([mockWebsetItem], 'funding');
+
+      expect(outcome.model).toBe('stub-sampling-model');
+      expect(outcome.result).toContain('entities');
+
+      const request = client.requests[0];
+      expect(request.metadata).toEqual({ task: 'summarize_items' });
+      expect(request.includeContext).toBe('none');
+      expect(JSON.stringify(request.messages)).toContain(mockWebsetItem.url);
+      expect(JSON.stringify(request.messages)).toContain('Focus on: funding');
+    });
+
+    it('should only include up to maxItems items', async () => {
+      await assistant.summarizeItems([
+        { ...mockWebsetItem, url: 'https://one.example' },
+        { ...mockWebsetItem, url: 'https://two.example' },
+        { ...mockWebsetItem, url: 'https://three.example' }
+      ]);
+
+      const prompt = JSON.stringify(client.requests[0].messages);
+      expect(prompt).toContain('https://two.example');
+      expect(prompt).not.toContain('https://three.example');
+    });
+
+    it('should reject an empty item list', async () => {
+      await expect(assistant.summarizeItems([])).rejects.toThrow('There are no items to summarize');
+    });
+  });
+
+  describe('proposeEnrichments', () => {
+    it('should parse proposed enrichments', async () => {
+      const outcome = await assistant.proposeEnrichments([mockWebsetItem], 2);
+
+      expect(outcome.result).toEqual([
+        { description: 'Headquarters city', format: 'text' },
+        { description: 'Year founded', format: 'number' }
+      ]);
+    });
+
+    it('should tolerate prose and code fences around the JSON', async () => {
+      client = new StubSamplingClient({
+        suggest_enrichments: 'Here you go:\n```json\n[{"description": "CEO email", "format": "email"}]\n```'
+      });
+      assistant = new SamplingAssistant(client);
+
+      const outcome = await assistant.proposeEnrichments([mockWebsetItem], 1);
+
+      expect(outcome.result).toEqual([{ description: 'CEO email', format: 'email' }]);
+    });
+
+    it('should reject responses that do not match the expected format', async () => {
+      client = new StubSamplingClient({ suggest_enrichments: '[{"format": "color"}]' });
+      assistant = new SamplingAssistant(client);
+
+      await expect(assistant.proposeEnrichments([mockWebsetItem])).rejects.toThrow('expected enrichment proposals format');
+    });
+  });
+
+  describe('draftCriteria', () => {
+    it('should draft criteria for the query and entity type', async () => {
+      const outcome = await assistant.draftCriteria('AI startups in Berlin', 'company', 1);
+
+      expect(outcome.result).toEqual([{ description: 'Matches the primary subject of the query' }]);
+      expect(JSON.stringify(client.requests[0].messages)).toContain('company entities');
+    });
+
+    it('should fail when the response has no JSON array', async () => {
+      client = new StubSamplingClient({ draft_criteria: 'I cannot help with that.' });
+      assistant = new SamplingAssistant(client);
+
+      await expect(assistant.draftCriteria('anything')).rejects.toThrow('Could not find criteria');
+    });
+  });
+
+  describe('createSamplingClient', () => {
+    afterEach(() => {
+      featureFlags.disable('sampling');
+    });
+
+    it('should refuse to create a client when sampling is disabled', () => {
+      featureFlags.disable('sampling');
+
+      expect(() => createSamplingClient({} as any)).toThrow('Sampling is disabled');
+    });
+
+    it('should require an active session when sampling is enabled', () => {
+      featureFlags.enable('sampling');
+
+      expect(() => createSamplingClient(undefined)).toThrow('active MCP client session');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit Tests for ResponseValidator
+ *
+ * Tests that responses are checked against the schema of the resource they
+ * contain, that strict and lenient validation treat drift differently, and
+ * that the drift report counts every difference.
+ * Following TDD London School methodology.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { ResponseValidationError, ResponseValidator } from '../../../src/schemas/ResponseValidator.js';
+import { ApiErrorHandler } from '../../../src/api/ErrorHandler.js';
+import { createMockWebset, createMockWebsetItem, mockWebsetSearch } from '../../fixtures/websets.js';
+
+describe('ResponseValidator', () => {
+  let validator: ResponseValidator;
+
+  beforeEach(() => {
+    validator = new ResponseValidator({ mode: 'lenient' });
+  });
+
+  it('should accept responses that match their schema', () => {
+    validator.validate(createMockWebset({ searches: [mockWebsetSearch] }));
+    validator.validate({ data: [createMockWebsetItem(), createMockWebsetItem()], hasMore: false });
+
+    expect(validator.hasDrift()).toBe(false);
+    expect(validator.getReport()).toMatchObject({
+      responses: 2,
+      schemas: { Webset: { validated: 1, drifted: 0 }, WebsetItem: { validated: 2, drifted: 0 } },
+    });
+  });
+
+  it('should report unknown, missing and invalid fields in lenient mode without rejecting the response', () => {
+    const { content, ...item } = createMockWebsetItem();
+    const webset = createMockWebset({ status: 'archived' as any, searches: [{ ...mockWebsetSearch, recall: 0.8 } as any] });
+
+    validator.validate({ data: [{ ...item, text: content }] });
+    validator.validate(webset);
+
+    expect(validator.hasDrift()).toBe(true);
+    expect(validator.getReport().schemas).toMatchObject({
+      WebsetItem: { drifted: 1, unknownFields: { text: 1 }, missingFields: { content: 1 } },
+      Webset: { drifted: 1, unknownFields: { 'searches[].recall': 1 }, invalidFields: { status: 1 } },
+    });
+  });
+
+  it('should reject responses that drifted in strict mode', () => {
+    const strict = new ResponseValidator({ mode: 'strict' });
+
+    let error: unknown;
+    try {
+      strict.validate({ ...createMockWebset(), archivedAt: '2024-01-01T00:00:00Z' }, 'GET /websets/:id');
+    } catch (thrown) {
+      error = thrown;
+    }
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(ApiErrorHandler.createApiError(error)).toMatchObject({
+      code: 'response_validation_error',
+      details: { schema: 'Webset', issues: [{ kind: 'unknown', path: 'archivedAt' }] },
+    });
+  });
+
+  it('should leave responses that are not resources alone and count unrecognized objects', () => {
+    const off = new ResponseValidator({ mode: 'off' });
+    off.validate({ ...createMockWebset(), extra: true });
+
+    validator.validate(undefined);
+    validator.validate({ object: 'webhook_attempt', id: 'attempt_1' });
+
+    expect(off.getReport().responses).toBe(0);
+    expect(validator.hasDrift()).toBe(false);
+    expect(validator.getReport().unrecognizedObjects).toEqual({ webhook_attempt: 1 });
+  });
+});
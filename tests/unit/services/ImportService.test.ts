@@ -0,0 +1,44 @@
+/**
+ * Unit Tests for ImportService
+ *
+ * Tests reading local CSV and JSON lists into the rows of an import.
+ * Following TDD London School methodology.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readImportList } from '../../../src/services/ImportService.js';
+
+describe('readImportList', () => {
+  it('should detect the identifier column of a CSV list and skip rows without one', () => {
+    const list = readImportList('\uFEFFCompany, Website ,Owner\nAcme,https://acme.com,Dana\nNo site,,Lee\n', 'csv');
+
+    expect(list).toEqual({
+      columns: ['Company', 'Website', 'Owner'],
+      rows: [['Acme', 'https://acme.com', 'Dana']],
+      identifierIndex: 1
+    });
+  });
+
+  it('should name the column of a JSON list of strings after what it holds', () => {
+    expect(readImportList('["https://acme.com", "https://globex.com"]', 'json').columns).toEqual(['url']);
+    expect(readImportList('["Acme", "https://globex.com"]', 'json')).toEqual({
+      columns: ['name'],
+      rows: [['Acme'], ['https://globex.com']],
+      identifierIndex: 0
+    });
+  });
+
+  it('should turn JSON objects into columns and use the requested identifier column', () => {
+    const list = readImportList('[{"name": "Acme", "tier": 1}, {"name": "Globex", "region": "EU"}]', 'json', 'name');
+
+    expect(list.columns).toEqual(['name', 'tier', 'region']);
+    expect(list.rows).toEqual([['Acme', '1', ''], ['Globex', '', 'EU']]);
+  });
+
+  it('should reject lists it cannot import', () => {
+    expect(() => readImportList('name\nAcme\n', 'csv', 'domain')).toThrow('no "domain" column');
+    expect(() => readImportList('["Acme", {"name": "Globex"}]', 'json')).toThrow('not a mix');
+    expect(() => readImportList('{"name": "Acme"}', 'json')).toThrow('must be an array');
+    expect(() => readImportList('url\n', 'csv')).toThrow('no entities');
+  });
+});
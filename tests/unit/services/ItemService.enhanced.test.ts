@@ -1,7 +1,7 @@
 /**
  * Enhanced ItemService Tests
  * 
- * Tests for the new filtering, pagination, and caching functionality
+ * Tests for the new filtering and pagination functionality
  * 
  * NOTE: These tests are for future functionality that hasn't been implemented yet.
  * Commenting out to allow the build to pass.
@@ -10,7 +10,6 @@
 /*
 import { ItemService, ItemFilterValidator, ItemFilterEngine, PaginationManager, ItemSortingEngine } from '../../../src/services/ItemService.js';
 import { WebsetItem, ItemFilters, PaginationOptions, SortingOptions } from '../../../src/types/websets.js';
-import { itemListCache } from '../../../src/utils/cache.js';
 */
 
 // Mock data
@@ -40,11 +39,6 @@ const createMockItems = (count: number = 10): WebsetItem[] => {
 };
 
 describe('Enhanced ItemService', () => {
-  beforeEach(() => {
-    // Clear cache before each test
-    itemListCache.clearCache();
-  });
-
   describe('ItemFilterValidator', () => {
     test('should validate date range filters correctly', () => {
       const validFilters: ItemFilters = {
@@ -282,46 +276,4 @@ describe('Enhanced ItemService', () => {
       }
     });
   });
-
-  describe('Caching', () => {
-    test('should cache and retrieve results', () => {
-      const cacheKey = 'test-key';
-      const testData = { items: [{ id: 'test' }] };
-      
-      // Set cache
-      itemListCache.setCachedResult(cacheKey, testData);
-      
-      // Get cache
-      const cached = itemListCache.getCachedResult(cacheKey);
-      expect(cached).toBeTruthy();
-      expect(cached?.data).toEqual(testData);
-    });
-
-    test('should return null for expired cache', (done) => {
-      const cacheKey = 'test-key-expire';
-      const testData = { items: [{ id: 'test' }] };
-      
-      // Mock short TTL by directly manipulating timestamp
-      itemListCache.setCachedResult(cacheKey, testData);
-      
-      // Manually set old timestamp
-      const cache = (itemListCache as any).cache;
-      const entry = cache.get(cacheKey);
-      entry.timestamp = Date.now() - 6 * 60 * 1000; // 6 minutes ago
-      
-      const cached = itemListCache.getCachedResult(cacheKey);
-      expect(cached).toBeNull();
-      done();
-    });
-
-    test('should generate consistent cache keys', () => {
-      const websetId = 'test-webset';
-      const options = { filters: { status: 'verified' }, pagination: { limit: 25 } };
-      
-      const key1 = itemListCache.generateCacheKey(websetId, options);
-      const key2 = itemListCache.generateCacheKey(websetId, options);
-      
-      expect(key1).toBe(key2);
-    });
-  });
 });
\ No newline at end of file
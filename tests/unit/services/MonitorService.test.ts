@@ -0,0 +1,141 @@
+/**
+ * Unit Tests for MonitorService
+ *
+ * Tests falling back to scheduling monitors on this server when the API has
+ * no monitors endpoint, against a simulator started without one.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { WebsetsApiClient } from '../../../src/api/WebsetsApiClient.js';
+import { createServiceContainer, ServiceContainer } from '../../../src/services/index.js';
+import { MonitorService } from '../../../src/services/MonitorService.js';
+import { MonitorScheduler } from '../../../src/services/MonitorScheduler.js';
+import { SimulatorServer, startSimulatorServer, WebsetsSimulator } from '../../../src/simulator/index.js';
+import { MonitorStore, shutdownIdempotencyLedger } from '../../../src/state/index.js';
+import { MonitorRun } from '../../../src/types/websets.js';
+import { SecureTokenProvider } from '../../../src/utils/security.js';
+
+describe('MonitorService', () => {
+  let server: SimulatorServer;
+  let directory: string;
+  let scheduler: MonitorScheduler;
+  let client: WebsetsApiClient;
+  let services: ServiceContainer;
+  let monitorService: MonitorService;
+
+  const createScheduler = () => new MonitorScheduler(
+    new MonitorStore({ persistenceFile: path.join(directory, 'monitors.json') }),
+    { searchPollInterval: 20 }
+  );
+
+  beforeEach(async () => {
+    // Sockets and the API client's rate limiter need real timers
+    jest.useRealTimers();
+    server = await startSimulatorServer({ simulator: new WebsetsSimulator({ monitors: false }) });
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'websets-monitors-'));
+    scheduler = createScheduler();
+
+    client = new WebsetsApiClient(
+      {
+        apiKey: 'test-api-key',
+        baseUrl: server.baseUrl,
+        timeout: 5000,
+        retryAttempts: 0,
+        retryDelay: 10,
+        maxRetryDelay: 10,
+        rateLimit: 100,
+        circuitBreakerThreshold: 5,
+        circuitBreakerTimeout: 60000,
+      },
+      { userAgent: 'test', defaultHeaders: { 'Content-Type': 'application/json' }, enableLogging: false, enableMetrics: false },
+      new SecureTokenProvider(() => 'test-api-key')
+    );
+    services = createServiceContainer(client);
+    monitorService = new MonitorService(client, { scheduler });
+  });
+
+  afterEach(async () => {
+    await scheduler.shutdown();
+    await server.close();
+    await shutdownIdempotencyLedger();
+    await fs.rm(directory, { recursive: true, force: true });
+    jest.useFakeTimers();
+  });
+
+  const waitForRun = async (monitorId: string, status: MonitorRun['status']): Promise<MonitorRun> => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const [run] = (await monitorService.listMonitorRuns(monitorId)).data;
+      if (run?.status === status) {
+        return run;
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    throw new Error(`Monitor run never became ${status}`);
+  };
+
+  it('should schedule monitors locally when the API has no monitors endpoint', async () => {
+    const webset = await services.websetService.createWebset({ search: { query: 'AI startups in Berlin', count: 2 } });
+    server.simulator.advance(70000);
+
+    const monitor = await monitorService.createMonitor({
+      websetId: webset.id,
+      cadence: { cron: '0 * * * *' },
+      behavior: { type: 'search', config: { query: 'AI startups in Munich', count: 3, behavior: 'append' } },
+    });
+
+    expect(await monitorService.getBackend()).toBe('local');
+    expect(monitorService.isLocalMonitor(monitor.id)).toBe(true);
+    expect((await monitorService.listMonitors(webset.id)).data.map(listed => listed.id)).toEqual([monitor.id]);
+    expect((await monitorService.listMonitors('webset_other')).data).toEqual([]);
+
+    await scheduler.runDueMonitors(new Date(Date.parse(monitor.nextRunAt!) + 1000));
+    const running = await waitForRun(monitor.id, 'running');
+    const search = await services.searchService.getSearch(webset.id, running.searchId!);
+    expect(search).toMatchObject({ query: 'AI startups in Munich', metadata: { monitorId: monitor.id, monitorRunId: running.id } });
+
+    server.simulator.advance(70000);
+    const completed = await waitForRun(monitor.id, 'completed');
+
+    expect(completed.completedAt).toBeDefined();
+    expect((await monitorService.getMonitor(monitor.id)).lastRun?.status).toBe('completed');
+    expect(await services.itemService.getAllItems(webset.id)).toHaveLength(5);
+  });
+
+  it('should keep local monitors across restarts and stop running disabled ones', async () => {
+    const webset = await services.websetService.createWebset({ search: { query: 'AI startups in Berlin', count: 2 } });
+    const monitor = await monitorService.createMonitor({
+      websetId: webset.id,
+      cadence: { cron: '0 9 * * 1', timezone: 'Europe/Berlin' },
+      behavior: { type: 'search', config: { query: 'AI startups in Berlin', count: 2, behavior: 'override' } },
+    });
+
+    const disabled = await monitorService.updateMonitor(monitor.id, { status: 'disabled' });
+    expect(disabled.nextRunAt).toBeUndefined();
+
+    await scheduler.shutdown();
+    scheduler = createScheduler();
+    monitorService = new MonitorService(client, { scheduler });
+
+    expect(await monitorService.getMonitor(monitor.id)).toMatchObject({ status: 'disabled', cadence: monitor.cadence });
+    await scheduler.runDueMonitors(new Date(Date.now() + 14 * 24 * 60 * 60 * 1000));
+    expect((await monitorService.listMonitorRuns(monitor.id)).data).toEqual([]);
+
+    await monitorService.deleteMonitor(monitor.id);
+    await expect(monitorService.getMonitor(monitor.id)).rejects.toThrow('not found');
+  });
+
+  it('should reject schedules and searches it cannot run', async () => {
+    const behavior = { type: 'search' as const, config: { query: 'AI startups', count: 5, behavior: 'append' as const } };
+
+    await expect(monitorService.createMonitor({ websetId: 'webset_1', cadence: { cron: 'every monday' }, behavior }))
+      .rejects.toThrow('expected five fields');
+    await expect(monitorService.createMonitor({ websetId: 'webset_1', cadence: { cron: '@daily', timezone: 'Mars/Olympus' }, behavior }))
+      .rejects.toThrow('Unknown time zone');
+    await expect(monitorService.createMonitor({ websetId: 'webset_1', cadence: { cron: '@daily' }, behavior: { ...behavior, config: { ...behavior.config, count: 0 } } }))
+      .rejects.toThrow('positive integer');
+  });
+});
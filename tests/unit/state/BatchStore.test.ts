@@ -0,0 +1,124 @@
+/**
+ * Unit Tests for BatchStore
+ *
+ * Tests that batches are recorded before their websets are created and kept
+ * up to date as rows finish, so an interrupted batch can still be checked.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { BatchStore, shutdownBatchStore } from '../../../src/state/BatchStore.js';
+import { shutdownIdempotencyLedger } from '../../../src/state/index.js';
+import { createServices, WebsetService } from '../../../src/services/index.js';
+import { SimulatorServer, startSimulatorServer } from '../../../src/simulator/index.js';
+import websetsManager from '../../../src/tools/websetsManager.js';
+import { Webset } from '../../../src/types/websets.js';
+
+describe('BatchStore', () => {
+  let directory: string;
+  let persistenceFile: string;
+  let stores: BatchStore[];
+
+  const createStore = () => {
+    const store = new BatchStore({ persistToDisk: true, persistenceFile });
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'webset-batches-'));
+    persistenceFile = path.join(directory, 'batches.json');
+    stores = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.map(store => store.shutdown()));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should keep the outcome of finished rows across restarts', async () => {
+    const first = createStore();
+    await first.save({
+      id: 'batch_1',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      entries: [{ index: 0, searchQuery: 'AI startups' }, { index: 1, searchQuery: 'Fintech startups' }]
+    });
+    await first.updateEntry('batch_1', { index: 1, searchQuery: 'Fintech startups', websetId: 'webset_1' });
+
+    // Saved as it happens, without waiting for shutdown
+    const second = createStore();
+
+    expect((await second.get('batch_1'))?.entries).toEqual([
+      { index: 0, searchQuery: 'AI startups' },
+      { index: 1, searchQuery: 'Fintech startups', websetId: 'webset_1' }
+    ]);
+    await expect(second.updateEntry('batch_missing', { index: 0, searchQuery: 'AI startups' })).rejects.toThrow('not found');
+  });
+
+  describe('create_websets_batch', () => {
+    let server: SimulatorServer;
+
+    const callTool = async (args: Record<string, unknown>) => {
+      const [content] = (await websetsManager.handler(args, {})).content;
+      return JSON.parse(content.type === 'text' ? content.text : '');
+    };
+
+    beforeEach(async () => {
+      // Sockets and the API client's rate limiter need real timers
+      jest.useRealTimers();
+      server = await startSimulatorServer();
+      process.env.WEBSETS_BASE_URL = server.baseUrl;
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      delete process.env.WEBSETS_BASE_URL;
+      await server.close();
+      await shutdownBatchStore();
+      await shutdownIdempotencyLedger();
+      jest.useFakeTimers();
+    });
+
+    it('should show which rows remain while a batch is interrupted midway', async () => {
+      const createWebset = WebsetService.prototype.createWebset;
+      let failSecondRow!: (error: Error) => void;
+      let secondRowStarted!: () => void;
+      const started = new Promise<void>(resolve => { secondRowStarted = resolve; });
+      jest.spyOn(WebsetService.prototype, 'createWebset')
+        .mockImplementationOnce(function (this: WebsetService, request) { return createWebset.call(this, request); })
+        .mockImplementationOnce(() => {
+          secondRowStarted();
+          return new Promise<Webset>((_, reject) => { failSecondRow = reject; });
+        });
+
+      const batch = callTool({
+        operation: 'create_websets_batch',
+        batch: {
+          rows: [{ searchQuery: 'AI startups' }, { searchQuery: 'Fintech startups' }, { searchQuery: 'Robotics startups' }],
+          concurrency: 1
+        }
+      });
+      await started;
+      const [webset] = (await createServices('test-api-key', server.baseUrl).websetService.listWebsets()).data;
+
+      const interrupted = await callTool({ operation: 'get_batch_status', resourceId: webset.metadata!.batch });
+      expect(interrupted.status).toBe('running');
+      expect(interrupted.progress.byStatus).toEqual({ running: 1, pending: 2 });
+      expect(interrupted.websets.map((entry: any) => [entry.searchQuery, entry.status])).toEqual([
+        ['AI startups', 'running'],
+        ['Fintech startups', 'pending'],
+        ['Robotics startups', 'pending']
+      ]);
+
+      failSecondRow(new Error('Connection reset'));
+      const finished = await batch;
+      const status = await callTool({ operation: 'get_batch_status', resourceId: finished.batchId });
+
+      expect(finished.batchId).toBe(webset.metadata!.batch);
+      expect(status.websets.map((entry: any) => entry.status)).toEqual(['running', 'not_created', 'running']);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Unit Tests for IdempotencyLedger
+ *
+ * Tests durable records of unanswered requests and how the API client resumes
+ * them to avoid creating duplicate resources.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { IdempotencyLedger } from '../../../src/state/IdempotencyLedger.js';
+import { WebsetsApiClient } from '../../../src/api/WebsetsApiClient.js';
+import { createServiceContainer } from '../../../src/services/index.js';
+import { SimulatorServer, startSimulatorServer } from '../../../src/simulator/index.js';
+import { SecureTokenProvider } from '../../../src/utils/security.js';
+
+describe('IdempotencyLedger', () => {
+  let directory: string;
+  let persistenceFile: string;
+  let ledgers: IdempotencyLedger[];
+
+  const createLedger = () => {
+    const ledger = new IdempotencyLedger({ persistToDisk: true, persistenceFile });
+    ledgers.push(ledger);
+    return ledger;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'idempotency-ledger-'));
+    persistenceFile = path.join(directory, 'ledger.json');
+    ledgers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(ledgers.map(ledger => ledger.shutdown()));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should resume an interrupted request with its key after a restart', async () => {
+    const first = createLedger();
+    const key = await first.begin('request-1', 'POST', '/websets');
+    await first.shutdown();
+
+    const second = createLedger();
+
+    expect(await second.get(key)).toMatchObject({ fingerprint: 'request-1', method: 'POST', path: '/websets' });
+    expect(await second.begin('request-1', 'POST', '/websets')).toBe(key);
+  });
+
+  it('should have saved a request by the time its key is handed out', async () => {
+    const key = await createLedger().begin('request-1', 'POST', '/websets');
+
+    expect(await fs.readFile(persistenceFile, 'utf8')).toContain(key);
+  });
+
+  it('should refuse to hand out a key it cannot save', async () => {
+    await fs.writeFile(path.join(directory, 'not-a-directory'), '');
+    const ledger = new IdempotencyLedger({ persistToDisk: true, persistenceFile: path.join(directory, 'not-a-directory', 'ledger.json') });
+
+    await expect(ledger.begin('request-1', 'POST', '/websets')).rejects.toThrow();
+    await ledger.shutdown().catch(() => undefined);
+  });
+
+  it('should give a new key to every call once a request is answered', async () => {
+    const ledger = createLedger();
+    const key = await ledger.begin('request-1', 'POST', '/websets');
+    await ledger.complete(key);
+
+    expect(await ledger.get(key)).toBeUndefined();
+    expect(await ledger.begin('request-1', 'POST', '/websets')).not.toBe(key);
+  });
+
+  it('should never hand a request being sent to another call', async () => {
+    const ledger = createLedger();
+
+    const first = await ledger.begin('request-1', 'POST', '/websets');
+    const second = await ledger.begin('request-1', 'POST', '/websets');
+
+    expect(second).not.toBe(first);
+  });
+
+  it('should only resume failed requests the API may have carried out', async () => {
+    const ledger = createLedger();
+
+    const timedOut = await ledger.begin('request-1', 'POST', '/websets');
+    await ledger.fail(timedOut, true);
+    const rejected = await ledger.begin('request-2', 'POST', '/websets');
+    await ledger.fail(rejected, false);
+
+    expect(await ledger.begin('request-1', 'POST', '/websets')).toBe(timedOut);
+    expect(await ledger.begin('request-2', 'POST', '/websets')).not.toBe(rejected);
+  });
+
+  it('should forget unanswered requests inside a deleted resource', async () => {
+    const ledger = createLedger();
+    const search = await ledger.begin('search', 'POST', '/websets/webset_1/searches');
+    const other = await ledger.begin('other', 'POST', '/websets/webset_2/searches');
+
+    expect(await ledger.forgetResource('webset_1')).toBe(1);
+    expect(await ledger.get(search)).toBeUndefined();
+    expect(await ledger.get(other)).toBeDefined();
+  });
+
+  describe('with WebsetsApiClient', () => {
+    let server: SimulatorServer;
+
+    const createClient = (ledger: IdempotencyLedger, apiKey: string = 'test-api-key') => {
+      const client = new WebsetsApiClient(
+        {
+          apiKey,
+          baseUrl: server.baseUrl,
+          timeout: 5000,
+          retryAttempts: 0,
+          retryDelay: 10,
+          maxRetryDelay: 10,
+          rateLimit: 100,
+          circuitBreakerThreshold: 5,
+          circuitBreakerTimeout: 60000,
+        },
+        { userAgent: 'test', defaultHeaders: { 'Content-Type': 'application/json' }, enableLogging: false, enableMetrics: false },
+        new SecureTokenProvider(() => apiKey),
+        { idempotencyLedger: ledger }
+      );
+      return createServiceContainer(client);
+    };
+
+    beforeEach(async () => {
+      // Sockets and the API client's rate limiter need real timers
+      jest.useRealTimers();
+      server = await startSimulatorServer();
+    });
+
+    afterEach(async () => {
+      await server.close();
+      jest.useFakeTimers();
+    });
+
+    it('should create a new webset for every call', async () => {
+      const services = createClient(createLedger());
+      const request = { search: { query: 'robotics', count: 2 } };
+
+      const first = await services.websetService.createWebset(request);
+      const second = await services.websetService.createWebset(request);
+
+      expect(second.id).not.toBe(first.id);
+      expect(server.simulator.snapshot().websets).toBe(2);
+    });
+
+    it('should return the webset a failed create made when it is repeated after a restart', async () => {
+      const request = { search: { query: 'robotics', count: 2 } };
+      // The simulator creates the webset, but the answer is lost on the way back
+      const handle = server.simulator.handle.bind(server.simulator);
+      jest.spyOn(server.simulator, 'handle').mockImplementationOnce(simulatorRequest => {
+        handle(simulatorRequest);
+        return { status: 502, body: { error: { code: 'bad_gateway', message: 'Upstream connection closed' } } };
+      });
+
+      await expect(createClient(createLedger()).websetService.createWebset(request)).rejects.toBeDefined();
+      await ledgers[0].shutdown();
+
+      // The same request from another API key is not resumed
+      const otherKey = await createClient(createLedger(), 'other-api-key').websetService.createWebset(request);
+      await ledgers[1].shutdown();
+      const repeated = await createClient(createLedger()).websetService.createWebset(request);
+
+      const websets = (await createClient(ledgers[2]).websetService.listWebsets()).data.map(webset => webset.id);
+      expect(websets).toHaveLength(2);
+      expect(websets).toContain(repeated.id);
+      expect(otherKey.id).not.toBe(repeated.id);
+    });
+
+    it('should create a new webset once the original is deleted', async () => {
+      const services = createClient(createLedger());
+      const request = { search: { query: 'robotics', count: 2 } };
+      const created = await services.websetService.createWebset(request);
+
+      await services.websetService.deleteWebset(created.id);
+      const recreated = await services.websetService.createWebset(request);
+
+      expect(recreated.id).not.toBe(created.id);
+    });
+
+    it('should apply repeated updates', async () => {
+      const services = createClient(createLedger());
+      const created = await services.websetService.createWebset({ search: { query: 'robotics', count: 2 } });
+
+      await services.websetService.updateWebset(created.id, { metadata: { stage: 'a' } });
+      await services.websetService.updateWebset(created.id, { metadata: { stage: 'b' } });
+      const updated = await services.websetService.updateWebset(created.id, { metadata: { stage: 'a' } });
+
+      expect(updated.metadata).toEqual({ stage: 'a' });
+    });
+  });
+});
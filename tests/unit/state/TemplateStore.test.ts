@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for TemplateStore
+ *
+ * Tests saved webset templates, their placeholder parameters and the requests
+ * rendered from them.
+ * Following TDD London School methodology.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TemplateStore, getTemplateParameters, renderTemplate } from '../../../src/state/TemplateStore.js';
+
+describe('TemplateStore', () => {
+  let directory: string;
+  let persistenceFile: string;
+  let stores: TemplateStore[];
+
+  const createStore = () => {
+    const store = new TemplateStore({ persistenceFile });
+    stores.push(store);
+    return store;
+  };
+
+  const weeklyScan = {
+    name: 'weekly-scan',
+    searchQuery: '{industry} startups in {region}',
+    resultCount: 25,
+    focusArea: 'company' as const,
+    criteria: ['Headquartered in {region}', 'Founded after 2020'],
+    enrichments: [
+      { description: 'Number of employees', format: 'number' },
+      { description: 'Main {industry} product', format: 'text' }
+    ],
+    tags: { region: '{region}' }
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'webset-templates-'));
+    persistenceFile = path.join(directory, 'templates.json');
+    stores = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.map(store => store.shutdown()));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should keep templates across store instances and keep the creation time when replacing one', async () => {
+    const first = createStore();
+    const saved = await first.save(weeklyScan);
+    const replaced = await first.save({ ...weeklyScan, resultCount: 50 });
+    await first.shutdown();
+
+    const second = createStore();
+
+    expect(replaced.createdAt).toBe(saved.createdAt);
+    expect(await second.get('weekly-scan')).toMatchObject({ resultCount: 50, searchQuery: weeklyScan.searchQuery });
+    expect((await second.list()).map(template => template.name)).toEqual(['weekly-scan']);
+  });
+
+  it('should reject templates without a usable name or query', async () => {
+    const store = createStore();
+
+    await expect(store.save({ ...weeklyScan, name: 'weekly scan!' })).rejects.toThrow('Template names');
+    await expect(store.save({ ...weeklyScan, searchQuery: ' ' })).rejects.toThrow('searchQuery');
+  });
+
+  it('should list placeholders in order of first use', () => {
+    expect(getTemplateParameters(weeklyScan)).toEqual(['industry', 'region']);
+  });
+
+  it('should fill placeholders into the webset request', async () => {
+    const template = await createStore().save(weeklyScan);
+
+    expect(renderTemplate(template, { industry: 'fintech', region: 'Europe' })).toEqual({
+      search: {
+        query: 'fintech startups in Europe',
+        count: 25,
+        entity: { type: 'company' },
+        criteria: [{ description: 'Headquartered in Europe' }, { description: 'Founded after 2020' }]
+      },
+      enrichments: [
+        { description: 'Number of employees', format: 'number' },
+        { description: 'Main fintech product', format: 'text' }
+      ],
+      metadata: { region: 'Europe', template: 'weekly-scan' }
+    });
+  });
+
+  it('should refuse to render with missing or unknown parameters', async () => {
+    const template = await createStore().save(weeklyScan);
+
+    expect(() => renderTemplate(template, { industry: 'fintech' })).toThrow('needs values for: region');
+    expect(() => renderTemplate(template, { industry: 'fintech', region: 'Europe', stage: 'seed' })).toThrow('no parameters named: stage');
+  });
+});
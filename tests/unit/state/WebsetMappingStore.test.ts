@@ -0,0 +1,110 @@
+/**
+ * Unit Tests for WebsetMappingStore
+ *
+ * Tests durable search/enrichment → webset mappings and the webset scan fallback.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { WebsetMappingStore, getWebsetMappingStore, shutdownWebsetMappingStore } from '../../../src/state/WebsetMappingStore.js';
+import { WebsetService } from '../../../src/services/WebsetService.js';
+import { createMockWebset, mockWebsetSearch, mockWebsetEnrichment } from '../../fixtures/websets.js';
+
+describe('WebsetMappingStore', () => {
+  let directory: string;
+  let persistenceFile: string;
+  let stores: WebsetMappingStore[];
+  let websetService: {
+    listWebsets: jest.Mock<WebsetService['listWebsets']>;
+    getWebset: jest.Mock<WebsetService['getWebset']>;
+  };
+
+  const createStore = (maxScannedWebsets = 100) => {
+    const store = new WebsetMappingStore({ persistToDisk: true, persistenceFile, maxScannedWebsets });
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'webset-mappings-'));
+    persistenceFile = path.join(directory, 'mappings.json');
+    stores = [];
+
+    websetService = {
+      listWebsets: jest.fn<WebsetService['listWebsets']>().mockResolvedValue({
+        data: [createMockWebset({ id: 'webset-a' }), createMockWebset({ id: 'webset-b' })],
+        hasMore: false
+      }),
+      getWebset: jest.fn<WebsetService['getWebset']>().mockImplementation(async id =>
+        id === 'webset-b'
+          ? createMockWebset({ id, searches: [{ ...mockWebsetSearch, id: 'search-b' }], enrichments: [{ ...mockWebsetEnrichment, id: 'enrichment-b' }] })
+          : createMockWebset({ id, searches: [], enrichments: [] })
+      )
+    };
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.map(store => store.shutdown()));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should keep mappings across store instances', async () => {
+    const first = createStore();
+    await first.set('search', 'search-1', 'webset-1');
+    await first.shutdown();
+
+    const second = createStore();
+
+    expect(await second.get('search', 'search-1')).toBe('webset-1');
+    expect(await second.get('enrichment', 'search-1')).toBeUndefined();
+  });
+
+  it('should keep the mappings of each account apart', async () => {
+    try {
+      await getWebsetMappingStore('https://api.example.com', 'key_alice').set('search', 'search-1', 'webset-of-alice');
+
+      expect(await getWebsetMappingStore('https://api.example.com', 'key_alice').get('search', 'search-1')).toBe('webset-of-alice');
+      expect(await getWebsetMappingStore('https://api.example.com', 'key_bob').get('search', 'search-1')).toBeUndefined();
+      expect(await getWebsetMappingStore('https://other.example.com', 'key_alice').get('search', 'search-1')).toBeUndefined();
+    } finally {
+      await shutdownWebsetMappingStore();
+    }
+  });
+
+  it('should forget deleted mappings', async () => {
+    const store = createStore();
+    await store.set('enrichment', 'enrichment-1', 'webset-1');
+
+    await store.delete('enrichment', 'enrichment-1');
+
+    expect(await store.get('enrichment', 'enrichment-1')).toBeUndefined();
+  });
+
+  it('should resolve stored mappings without scanning', async () => {
+    const store = createStore();
+    await store.set('search', 'search-1', 'webset-1');
+
+    expect(await store.resolve('search', 'search-1', websetService)).toBe('webset-1');
+    expect(websetService.listWebsets).not.toHaveBeenCalled();
+  });
+
+  it('should rebuild missing mappings by scanning websets with searches and enrichments', async () => {
+    const store = createStore();
+
+    expect(await store.resolve('search', 'search-b', websetService)).toBe('webset-b');
+    expect(websetService.getWebset).toHaveBeenCalledWith('webset-a', 'searches,enrichments');
+
+    // Mappings seen during the scan are stored too
+    expect(await store.get('enrichment', 'enrichment-b')).toBe('webset-b');
+  });
+
+  it('should return undefined when no scanned webset owns the resource', async () => {
+    const store = createStore(1);
+
+    expect(await store.resolve('enrichment', 'enrichment-b', websetService)).toBeUndefined();
+    expect(websetService.getWebset).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit Tests for WebsetsTracing
+ *
+ * Tests that a tool call produces nested spans for the tool handler, the
+ * service request, each API attempt and its rate limiter wait, and each
+ * polling check, with the request ID recorded on the tool span.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { InMemorySpanExporter, ReadableSpan, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-node';
+import { JsonLinesSpanExporter, initTracing, shutdownTracing, withSpan, withToolSpan } from '../../../src/tracing/index.js';
+import { WebsetsApiClient } from '../../../src/api/WebsetsApiClient.js';
+import { createServiceContainer } from '../../../src/services/index.js';
+import { SimulatorServer, startSimulatorServer } from '../../../src/simulator/index.js';
+import { shutdownIdempotencyLedger } from '../../../src/state/index.js';
+import { createRequestLogger } from '../../../src/utils/logger.js';
+import { pollOperation } from '../../../src/utils/polling.js';
+import { SecureTokenProvider } from '../../../src/utils/security.js';
+
+describe('WebsetsTracing', () => {
+  let exporter: InMemorySpanExporter;
+
+  const findSpan = (name: string) => {
+    const span = exporter.getFinishedSpans().find(candidate => candidate.name === name);
+    if (!span) {
+      throw new Error(`No span named ${name} in ${exporter.getFinishedSpans().map(candidate => candidate.name).join(', ')}`);
+    }
+    return span;
+  };
+  const parentOf = (span: ReadableSpan) => span.parentSpanContext?.spanId;
+
+  beforeEach(() => {
+    // Context propagation and the API client's rate limiter need real timers
+    jest.useRealTimers();
+    exporter = new InMemorySpanExporter();
+    initTracing({}, new SimpleSpanProcessor(exporter));
+  });
+
+  afterEach(async () => {
+    await shutdownTracing();
+    jest.useFakeTimers();
+  });
+
+  it('should mark spans as errors when the function throws an ApiError', async () => {
+    const failure = withSpan('failing', {}, async () => {
+      throw { code: 'not_found', message: 'Webset not found' };
+    });
+
+    await expect(failure).rejects.toMatchObject({ code: 'not_found' });
+    expect(findSpan('failing').status).toEqual({ code: SpanStatusCode.ERROR, message: 'Webset not found' });
+    expect(findSpan('failing').events[0].attributes).toMatchObject({ 'exception.message': 'Webset not found' });
+  });
+
+  it('should record each polling check under the poll span', async () => {
+    const statuses = ['running', 'running', 'completed'];
+
+    const result = await pollOperation(async () => ({ status: statuses.shift()! }), { intervalMs: 1 });
+
+    expect(result.success).toBe(true);
+    const poll = findSpan('poll operation');
+    const checks = exporter.getFinishedSpans().filter(span => span.name === 'poll check');
+    expect(poll.attributes).toMatchObject({ 'websets.poll.attempts': 3, 'websets.poll.success': true });
+    expect(checks.map(check => check.attributes['websets.poll.status'])).toEqual(['running', 'running', 'completed']);
+    expect(checks.every(check => parentOf(check) === poll.spanContext().spanId)).toBe(true);
+  });
+
+  it('should write finished spans as JSON lines', async () => {
+    const lines: string[] = [];
+    const jsonExporter = new JsonLinesSpanExporter(line => lines.push(line));
+    await withSpan('written', { 'websets.tool': 'websets_manager' }, async () => undefined);
+
+    await new Promise(resolve => jsonExporter.export(exporter.getFinishedSpans() as ReadableSpan[], resolve));
+
+    expect(JSON.parse(lines[0])).toMatchObject({ name: 'written', attributes: { 'websets.tool': 'websets_manager' } });
+  });
+
+  describe('with WebsetsApiClient', () => {
+    let server: SimulatorServer;
+
+    beforeEach(async () => {
+      server = await startSimulatorServer();
+    });
+
+    afterEach(async () => {
+      await server.close();
+      await shutdownIdempotencyLedger();
+    });
+
+    it('should nest service, attempt and rate limiter spans under the tool span', async () => {
+      const client = new WebsetsApiClient(
+        {
+          apiKey: 'test-api-key',
+          baseUrl: server.baseUrl,
+          timeout: 5000,
+          retryAttempts: 0,
+          retryDelay: 10,
+          maxRetryDelay: 10,
+          rateLimit: 100,
+          circuitBreakerThreshold: 5,
+          circuitBreakerTimeout: 60000,
+        },
+        { userAgent: 'test', defaultHeaders: { 'Content-Type': 'application/json' }, enableLogging: false, enableMetrics: false },
+        new SecureTokenProvider(() => 'test-api-key')
+      );
+      const services = createServiceContainer(client);
+      const handler = withToolSpan('websets_manager', async (args: { operation: string }) => {
+        createRequestLogger('websets_manager-1', 'websets_manager');
+        await services.websetService.createWebset({ search: { query: 'robotics', count: 2 } });
+        return { content: [] };
+      });
+
+      await handler({ operation: 'create_webset' }, {});
+
+      const tool = findSpan('tool websets_manager');
+      const service = findSpan('WebsetService POST /websets');
+      const attempt = findSpan('POST /websets');
+      const wait = findSpan('rate limiter wait');
+      expect(tool.attributes).toMatchObject({ 'websets.operation': 'create_webset', 'websets.request_id': 'websets_manager-1' });
+      expect(parentOf(service)).toBe(tool.spanContext().spanId);
+      expect(parentOf(attempt)).toBe(service.spanContext().spanId);
+      expect(parentOf(wait)).toBe(attempt.spanContext().spanId);
+      expect(attempt.attributes).toMatchObject({ 'http.request.method': 'POST', 'websets.attempt': 1, 'http.response.status_code': 201 });
+    });
+  });
+});
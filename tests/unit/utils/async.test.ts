@@ -0,0 +1,30 @@
+/**
+ * Unit Tests for async utilities
+ *
+ * Tests that withConcurrency bounds the tasks running at once and waits for
+ * every task before returning.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect } from '@jest/globals';
+import { withConcurrency } from '../../../src/utils/async.js';
+
+describe('withConcurrency', () => {
+  it('should never run more tasks at once than allowed and return every result in order', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const delays = [30, 5, 20, 5, 10, 5];
+
+    const resultsPromise = withConcurrency(delays.map((delay, index) => async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      running--;
+      return index;
+    }), 2);
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(await resultsPromise).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(maxRunning).toBe(2);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit Tests for cron schedules
+ *
+ * Tests parsing five-field cron expressions and finding their next match,
+ * including time zones and daylight saving changes.
+ * Following TDD London School methodology.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { isValidTimeZone, nextCronTime, parseCron } from '../../../src/utils/cron.js';
+
+describe('parseCron', () => {
+  it('should expand ranges, lists, steps, names and macros', () => {
+    const schedule = parseCron('*/20 9-17/4 1,15 jan-mar mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 20, 40]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(parseCron('@weekly')).toEqual(parseCron('0 0 * * 7'));
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCron('0 9 * *')).toThrow('expected five fields');
+    expect(() => parseCron('60 * * * *')).toThrow('Invalid minute "60"');
+    expect(() => parseCron('0 9 * * 5-1')).toThrow('Invalid day of week "5-1"');
+    expect(() => parseCron('0 9 */0 * *')).toThrow('Invalid day of month');
+  });
+});
+
+describe('nextCronTime', () => {
+  it('should find the next matching minute strictly after the given time', () => {
+    const after = new Date('2026-03-02T09:00:00Z'); // A Monday
+
+    expect(nextCronTime('0 9 * * 1', after).toISOString()).toBe('2026-03-09T09:00:00.000Z');
+    expect(nextCronTime('*/15 * * * *', new Date('2026-03-02T09:07:30Z')).toISOString()).toBe('2026-03-02T09:15:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 13th, or any Friday
+    expect(nextCronTime('0 0 13 * 5', new Date('2026-03-01T00:00:00Z')).toISOString()).toBe('2026-03-06T00:00:00.000Z');
+  });
+
+  it('should read the expression in the given time zone across daylight saving changes', () => {
+    // Berlin moves from UTC+1 to UTC+2 on 29 March 2026
+    expect(nextCronTime('0 9 * * *', new Date('2026-03-28T12:00:00Z'), 'Europe/Berlin').toISOString()).toBe('2026-03-29T07:00:00.000Z');
+    expect(nextCronTime('0 9 * * *', new Date('2026-03-27T12:00:00Z'), 'Europe/Berlin').toISOString()).toBe('2026-03-28T08:00:00.000Z');
+  });
+
+  it('should give up on expressions that never match', () => {
+    expect(() => nextCronTime('0 0 30 2 *', new Date('2026-01-01T00:00:00Z'))).toThrow('never matches');
+  });
+
+  it('should reject unknown time zones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    expect(() => nextCronTime('@daily', new Date(), 'Mars/Olympus')).toThrow('Unknown time zone');
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Unit Tests for CSV parsing
+ *
+ * Tests quoted fields, line endings, header-keyed records and formatting.
+ * Following TDD London School methodology.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { formatCsv, parseCsv, parseCsvRecords } from '../../../src/utils/csv.js';
+
+describe('parseCsv', () => {
+  it('should handle quoted commas, escaped quotes, line breaks and blank lines', () => {
+    const text = 'query,notes\r\n"AI, Berlin","said ""hi""\nthen left"\r\n\r\nFintech,\n';
+
+    expect(parseCsv(text)).toEqual([
+      ['query', 'notes'],
+      ['AI, Berlin', 'said "hi"\nthen left'],
+      ['Fintech', '']
+    ]);
+  });
+
+  it('should reject text that ends inside a quoted field', () => {
+    expect(() => parseCsv('query\n"unterminated')).toThrow('quoted field');
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('should key fields by trimmed header names and fill missing fields', () => {
+    expect(parseCsvRecords('\uFEFFsearchQuery , segment\nRobotics in Tokyo\n')).toEqual([
+      { searchQuery: 'Robotics in Tokyo', segment: '' }
+    ]);
+  });
+});
+
+describe('formatCsv', () => {
+  it('should quote only fields that need it and read back the same rows', () => {
+    const rows = [['name', 'notes'], ['Acme, Inc.', 'said "hi"\nthen left'], ['Globex', '']];
+    const text = formatCsv(rows);
+
+    expect(text).toBe('name,notes\n"Acme, Inc.","said ""hi""\nthen left"\nGlobex,');
+    expect(parseCsv(text)).toEqual(rows);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for progress notifications
+ *
+ * Tests progress notifier creation and the polling progress logger.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createProgressNotifier } from '../../../src/utils/progress.js';
+import { createProgressLogger } from '../../../src/utils/polling.js';
+import { featureFlags } from '../../../src/config/features.js';
+
+describe('createProgressNotifier', () => {
+  let sendNotification: jest.Mock<(notification: any) => Promise<void>>;
+
+  beforeEach(() => {
+    featureFlags.enable('progressNotifications');
+    sendNotification = jest.fn<(notification: any) => Promise<void>>().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    featureFlags.disable('progressNotifications');
+  });
+
+  it('should send notifications tied to the caller progress token', () => {
+    const notify = createProgressNotifier({ _meta: { progressToken: 'tok-1' }, sendNotification });
+
+    notify!(40, 100, 'Search running');
+
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 'tok-1', progress: 40, total: 100, message: 'Search running' }
+    });
+  });
+
+  it('should only send increasing progress values', () => {
+    const notify = createProgressNotifier({ _meta: { progressToken: 7 }, sendNotification })!;
+
+    notify(10);
+    notify(10);
+    notify(5);
+    notify(20);
+
+    expect(sendNotification).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return undefined without a progress token', () => {
+    expect(createProgressNotifier({ sendNotification })).toBeUndefined();
+  });
+
+  it('should return undefined when the feature is disabled', () => {
+    featureFlags.disable('progressNotifications');
+
+    expect(createProgressNotifier({ _meta: { progressToken: 'tok-1' }, sendNotification })).toBeUndefined();
+  });
+});
+
+describe('createProgressLogger', () => {
+  it('should report search completion as percent complete', () => {
+    const notify = jest.fn();
+    const onProgress = createProgressLogger('Search', notify);
+
+    onProgress(3, { status: 'running', data: { progress: { found: 12, completion: 60 } } });
+
+    expect(notify).toHaveBeenCalledWith(60, 100, 'Search running: 60% complete, 12 found');
+  });
+
+  it('should fall back to the attempt number without completion data', () => {
+    const notify = jest.fn();
+    const onProgress = createProgressLogger('Enhancement', notify);
+
+    onProgress(2, { status: 'pending', data: { id: 'enrichment-1' } });
+
+    expect(notify).toHaveBeenCalledWith(2, undefined, 'Enhancement pending (check 2)');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit Tests for WebhookReceiver
+ *
+ * Tests signature verification and event queueing with a mocked queue.
+ * Following TDD London School methodology.
+ */
+
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { createHmac } from 'crypto';
+import { WebhookReceiver } from '../../../src/webhooks/WebhookReceiver.js';
+import { EventQueue } from '../../../src/events/EventQueue.js';
+import { mockWebsetEvent } from '../../fixtures/websets.js';
+
+const SECRET = 'whsec_test';
+
+function signExa(payload: string, secret: string = SECRET, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+describe('WebhookReceiver', () => {
+  let mockQueue: jest.Mocked<Pick<EventQueue, 'enqueue'>>;
+  let receiver: WebhookReceiver;
+  const payload = JSON.stringify(mockWebsetEvent);
+
+  beforeEach(() => {
+    mockQueue = {
+      enqueue: jest.fn<EventQueue['enqueue']>().mockResolvedValue(undefined)
+    };
+
+    receiver = new WebhookReceiver(mockQueue as unknown as EventQueue, { secret: SECRET });
+  });
+
+  it('should queue events with a valid Exa signature', async () => {
+    const result = await receiver.receive(Buffer.from(payload), { 'exa-signature': signExa(payload) });
+
+    expect(result).toEqual({
+      status: 202,
+      accepted: true,
+      eventId: mockWebsetEvent.id,
+      eventType: mockWebsetEvent.type
+    });
+    expect(mockQueue.enqueue).toHaveBeenCalledWith(expect.objectContaining({ id: mockWebsetEvent.id }));
+  });
+
+  it('should accept the generic signature headers', async () => {
+    const timestamp = String(Date.now());
+    const signature = createHmac('sha256', SECRET).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+
+    const result = await receiver.receive(payload, {
+      'x-webhook-signature': `sha256=${signature}`,
+      'x-webhook-timestamp': timestamp
+    });
+
+    expect(result.accepted).toBe(true);
+  });
+
+  it('should reject an invalid signature', async () => {
+    const result = await receiver.receive(payload, { 'exa-signature': signExa(payload, 'wrong-secret') });
+
+    expect(result.status).toBe(401);
+    expect(mockQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should reject deliveries without a signature', async () => {
+    const result = await receiver.receive(payload, {});
+
+    expect(result).toMatchObject({ status: 401, error: 'Missing webhook signature' });
+  });
+
+  it('should reject stale timestamps', async () => {
+    const stale = Math.floor(Date.now() / 1000) - 3600;
+    const result = await receiver.receive(payload, { 'exa-signature': signExa(payload, SECRET, stale) });
+
+    expect(result.status).toBe(401);
+  });
+
+  it('should refuse deliveries when no secret is configured', async () => {
+    const unconfigured = new WebhookReceiver(mockQueue as unknown as EventQueue);
+
+    const result = await unconfigured.receive(payload, { 'exa-signature': signExa(payload) });
+
+    expect(result.status).toBe(503);
+    expect(unconfigured.healthCheck().healthy).toBe(false);
+  });
+
+  it('should only queue a redelivered event once', async () => {
+    const headers = { 'exa-signature': signExa(payload) };
+
+    await receiver.receive(payload, headers);
+    const second = await receiver.receive(payload, headers);
+
+    expect(second).toMatchObject({ status: 200, accepted: false, error: 'Duplicate event' });
+    expect(mockQueue.enqueue).toHaveBeenCalledTimes(1);
+    expect(receiver.getStats().duplicates).toBe(1);
+  });
+
+  it('should acknowledge unsupported event types without queueing', async () => {
+    const unknown = JSON.stringify({ ...mockWebsetEvent, type: 'webset.unknown' });
+
+    const result = await receiver.receive(unknown, { 'exa-signature': signExa(unknown) });
+
+    expect(result).toMatchObject({ status: 200, accepted: false });
+    expect(mockQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should return 503 when the queue is full', async () => {
+    mockQueue.enqueue.mockRejectedValueOnce(new Error('Queue is full (max size: 1)'));
+
+    const result = await receiver.receive(payload, { 'exa-signature': signExa(payload) });
+
+    expect(result).toMatchObject({ status: 503, error: 'Queue is full (max size: 1)' });
+  });
+});